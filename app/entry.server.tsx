@@ -5,9 +5,13 @@ import { createReadableStreamFromReadable } from "@react-router/node";
 import { type EntryContext } from "react-router";
 import { isbot } from "isbot";
 import { addDocumentResponseHeaders } from "./shopify.server";
+import { startJobWorker } from "./lib/jobs.server";
 
 export const streamTimeout = 5000;
 
+// Background queue (Sheets sync, pixel delivery); JOB_WORKER=off to rely on /api/jobs/run
+startJobWorker();
+
 export default async function handleRequest(
   request: Request,
   responseStatusCode: number,
@@ -0,0 +1,111 @@
+// app/lib/agents.server.ts
+import { prisma } from "~/db.server";
+import { recordRequestEvent, type RequestActor } from "~/lib/requestEvents.server";
+import { enqueueSheetRefresh } from "~/lib/jobs.server";
+
+/**
+ * Call-centre agents and lead assignment.
+ * - Agents are per shop; deactivated agents keep their assigned leads
+ * - Assignment writes an "assigned" timeline event per request that changed
+ */
+
+export async function listAgents(shopId: string, opts?: { activeOnly?: boolean }) {
+  return prisma.agent.findMany({
+    where: { shopId, ...(opts?.activeOnly ? { active: true } : {}) },
+    orderBy: [{ active: "desc" }, { name: "asc" }],
+  });
+}
+
+export async function saveAgent(input: {
+  shopId: string;
+  id?: string | null;
+  name: string;
+  email?: string | null;
+  userId?: string | null;
+}) {
+  const name = input.name.trim();
+  if (!name) throw new Error("missing_name");
+
+  const email = input.email?.trim() || null;
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) throw new Error("invalid_email");
+
+  const data = { name, email, userId: input.userId?.trim() || null };
+
+  const clash = await prisma.agent.findFirst({
+    where: { shopId: input.shopId, name, ...(input.id ? { id: { not: input.id } } : {}) },
+    select: { id: true },
+  });
+  if (clash) throw new Error("duplicate_name");
+
+  if (input.id) {
+    const res = await prisma.agent.updateMany({ where: { id: input.id, shopId: input.shopId }, data });
+    if (!res.count) throw new Error("agent_not_found");
+    return input.id;
+  }
+
+  const created = await prisma.agent.create({ data: { shopId: input.shopId, ...data } });
+  return created.id;
+}
+
+export async function setAgentActive(shopId: string, id: string, active: boolean) {
+  await prisma.agent.updateMany({ where: { id, shopId }, data: { active } });
+}
+
+/** Leads keep existing; their assignment is cleared (onDelete: SetNull). */
+export async function deleteAgent(shopId: string, id: string) {
+  await prisma.agent.deleteMany({ where: { id, shopId } });
+}
+
+/** Assign (agentId) or unassign (null) requests; returns how many changed. */
+export async function assignRequests(input: {
+  shopId: string;
+  requestIds: string[];
+  agentId: string | null;
+  actor?: RequestActor | null;
+}) {
+  const { shopId, agentId } = input;
+  if (!input.requestIds.length) return { changed: 0 };
+
+  let agent: { id: string; name: string } | null = null;
+  if (agentId) {
+    agent = await prisma.agent.findFirst({
+      where: { id: agentId, shopId, active: true },
+      select: { id: true, name: true },
+    });
+    if (!agent) throw new Error("agent_not_found");
+  }
+
+  const rows = await prisma.request.findMany({
+    where: {
+      shopId,
+      id: { in: input.requestIds },
+      // `not` alone skips NULLs in SQL, so unassigned rows are matched explicitly
+      ...(agentId
+        ? { OR: [{ assignedAgentId: null }, { assignedAgentId: { not: agentId } }] }
+        : { assignedAgentId: { not: null } }),
+    },
+    select: { id: true, assignedAgent: { select: { name: true } } },
+  });
+  if (!rows.length) return { changed: 0 };
+
+  const res = await prisma.request.updateMany({
+    where: { shopId, id: { in: rows.map((r) => r.id) } },
+    data: { assignedAgentId: agentId, assignedAt: agentId ? new Date() : null },
+  });
+
+  for (const r of rows) {
+    await recordRequestEvent({
+      shopId,
+      requestId: r.id,
+      type: "assigned",
+      actor: input.actor,
+      data: { from: r.assignedAgent?.name ?? null, to: agent?.name ?? null },
+    });
+  }
+
+  await enqueueSheetRefresh(shopId, rows.map((r) => r.id)).catch((e) =>
+    console.error("[agents] sheet refresh failed:", e?.message || e)
+  );
+
+  return { changed: res.count };
+}
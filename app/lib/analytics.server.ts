@@ -0,0 +1,313 @@
+// app/lib/analytics.server.ts
+import {
+  Prisma,
+  type AnalyticsDimension,
+  type AnalyticsEventType,
+  type Placement,
+  type RoleType,
+} from "@prisma/client";
+import { prisma } from "~/db.server";
+
+/**
+ * Analytics pipeline:
+ * - recordAnalyticsEvent(): append-only AnalyticsEvent rows (storefront beacon + server events)
+ * - rollupAnalyticsDaily(): recompute AnalyticsDaily for a day range (idempotent)
+ * - getAnalyticsReport(): funnel + breakdowns for the admin dashboard (reads AnalyticsDaily)
+ *
+ * Days are bucketed in the shop's timezone (Shop.timezone, default UTC).
+ */
+
+export const FUNNEL_STEPS = [
+  "form_opened",
+  "role_selected",
+  "request_submitted",
+  "request_confirmed",
+] as const satisfies readonly AnalyticsEventType[];
+
+// Events the storefront may send through the beacon endpoint
+export const STOREFRONT_EVENTS = ["form_opened", "role_selected"] as const satisfies readonly AnalyticsEventType[];
+
+const ROLLUP_DIMENSIONS: AnalyticsDimension[] = ["none", "role", "form", "placement", "page"];
+
+const ROLES: RoleType[] = ["individual", "installer", "company"];
+const PLACEMENTS: Placement[] = ["inline", "popup", "slidein", "landing"];
+
+export function asRoleTypeOrNull(input: unknown): RoleType | null {
+  return ROLES.includes(input as RoleType) ? (input as RoleType) : null;
+}
+
+export function asPlacementOrNull(input: unknown): Placement | null {
+  return PLACEMENTS.includes(input as Placement) ? (input as Placement) : null;
+}
+
+function trimOrNull(input: unknown, max = 2000) {
+  if (input === null || input === undefined) return null;
+  const s = String(input).trim();
+  return s ? s.slice(0, max) : null;
+}
+
+export async function recordAnalyticsEvent(input: {
+  shopId: string;
+  type: AnalyticsEventType;
+  roleType?: RoleType | null;
+  formId?: string | null;
+  placement?: Placement | null;
+  pageUrl?: string | null;
+  referrer?: string | null;
+  requestId?: string | null;
+  meta?: Record<string, unknown> | null;
+}) {
+  try {
+    await prisma.analyticsEvent.create({
+      data: {
+        shopId: input.shopId,
+        type: input.type,
+        roleType: input.roleType ?? null,
+        formId: input.formId ?? null,
+        placement: input.placement ?? null,
+        pageUrl: trimOrNull(input.pageUrl),
+        referrer: trimOrNull(input.referrer),
+        requestId: input.requestId ?? null,
+        meta: (input.meta ?? undefined) as any,
+      },
+    });
+  } catch (e: any) {
+    // analytics must never break the caller
+    console.error("[analytics] record failed:", e?.message || e);
+  }
+}
+
+/**
+ * "request_confirmed" inherits the dimensions of the original submit event,
+ * so funnels by placement/page stay comparable. Takes a batch (bulk status changes).
+ */
+export async function recordRequestsConfirmed(shopId: string, requestIds: string[]) {
+  if (!requestIds.length) return;
+  try {
+    const [requests, submitted] = await Promise.all([
+      prisma.request.findMany({
+        where: { shopId, id: { in: requestIds } },
+        select: { id: true, roleType: true, formId: true, pageUrl: true, referrer: true },
+      }),
+      prisma.analyticsEvent.findMany({
+        where: { shopId, requestId: { in: requestIds }, type: "request_submitted" },
+        orderBy: { createdAt: "asc" },
+        select: { requestId: true, placement: true },
+      }),
+    ]);
+
+    const placementOf = new Map<string, Placement | null>();
+    for (const e of submitted) {
+      if (e.requestId && !placementOf.has(e.requestId)) placementOf.set(e.requestId, e.placement);
+    }
+
+    await prisma.analyticsEvent.createMany({
+      data: requests.map((r) => ({
+        shopId,
+        type: "request_confirmed" as const,
+        roleType: r.roleType,
+        formId: r.formId,
+        placement: placementOf.get(r.id) ?? null,
+        pageUrl: trimOrNull(r.pageUrl),
+        referrer: trimOrNull(r.referrer),
+        requestId: r.id,
+      })),
+    });
+  } catch (e: any) {
+    // analytics must never break the caller
+    console.error("[analytics] record confirmed failed:", e?.message || e);
+  }
+}
+
+function dayString(d: Date) {
+  return d.toISOString().slice(0, 10);
+}
+
+function parseDay(s: string) {
+  return new Date(`${s}T00:00:00Z`);
+}
+
+function addDays(d: Date, days: number) {
+  return new Date(d.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+async function shopTimezone(shopId: string) {
+  const shop = await prisma.shop.findUnique({ where: { id: shopId }, select: { timezone: true } });
+  return shop?.timezone?.trim() || "UTC";
+}
+
+type RollupRow = {
+  day: Date;
+  type: AnalyticsEventType;
+  dimension: AnalyticsDimension;
+  key: string | null;
+  count: bigint | number;
+};
+
+// SQL expression for the dimension key, per dimension
+function dimensionKeySql(dimension: AnalyticsDimension) {
+  if (dimension === "role") return Prisma.sql`"roleType"::text`;
+  if (dimension === "form") return Prisma.sql`"formId"`;
+  if (dimension === "placement") return Prisma.sql`"placement"::text`;
+  if (dimension === "page") {
+    // https://shop.com/products/x?variant=1 -> /products/x
+    return Prisma.sql`NULLIF(split_part(split_part(regexp_replace("pageUrl", '^https?://[^/]+', ''), '?', 1), '#', 1), '')`;
+  }
+  return Prisma.sql`NULL::text`;
+}
+
+/**
+ * Recompute AnalyticsDaily rows for [fromDay, toDay] (inclusive, YYYY-MM-DD in shop tz).
+ * Replaces the rows for those days so re-running is safe.
+ */
+export async function rollupAnalyticsDaily(input: { shopId: string; fromDay: string; toDay: string }) {
+  const { shopId, fromDay, toDay } = input;
+  const tz = await shopTimezone(shopId);
+
+  const rows: RollupRow[] = [];
+
+  for (const dimension of ROLLUP_DIMENSIONS) {
+    const keySql = dimensionKeySql(dimension);
+
+    const part = await prisma.$queryRaw<RollupRow[]>`
+      SELECT
+        ("createdAt" AT TIME ZONE ${tz})::date AS "day",
+        "type",
+        ${dimension}::"AnalyticsDimension" AS "dimension",
+        ${keySql} AS "key",
+        COUNT(*) AS "count"
+      FROM "AnalyticsEvent"
+      WHERE "shopId" = ${shopId}
+        AND ("createdAt" AT TIME ZONE ${tz})::date >= ${fromDay}::date
+        AND ("createdAt" AT TIME ZONE ${tz})::date <= ${toDay}::date
+      GROUP BY 1, 2, 4
+    `;
+
+    // Non-"none" dimensions skip events that don't carry that dimension
+    rows.push(...part.filter((r) => dimension === "none" || r.key));
+  }
+
+  await prisma.$transaction([
+    prisma.analyticsDaily.deleteMany({
+      where: { shopId, day: { gte: parseDay(fromDay), lte: parseDay(toDay) } },
+    }),
+    prisma.analyticsDaily.createMany({
+      data: rows.map((r) => ({
+        shopId,
+        day: r.day,
+        type: r.type,
+        dimension: r.dimension,
+        key: r.dimension === "none" ? null : r.key,
+        count: Number(r.count),
+      })),
+    }),
+  ]);
+
+  return { rows: rows.length };
+}
+
+/**
+ * Roll up the last `days` days for every shop with recent events (background job).
+ */
+export async function rollupRecentAnalytics(days = 2) {
+  const since = addDays(new Date(), -days);
+  const shops = await prisma.analyticsEvent.findMany({
+    where: { createdAt: { gte: since } },
+    distinct: ["shopId"],
+    select: { shopId: true },
+  });
+
+  // +1 day on both ends covers timezone offsets around midnight UTC
+  const fromDay = dayString(addDays(since, -1));
+  const toDay = dayString(addDays(new Date(), 1));
+
+  for (const { shopId } of shops) {
+    await rollupAnalyticsDaily({ shopId, fromDay, toDay });
+  }
+
+  return { shops: shops.length };
+}
+
+export type AnalyticsReport = {
+  fromDay: string;
+  toDay: string;
+  funnel: Array<{ type: AnalyticsEventType; count: number }>;
+  daily: Array<{ day: string } & Record<(typeof FUNNEL_STEPS)[number], number>>;
+  breakdowns: Record<
+    "role" | "form" | "placement" | "page",
+    Array<{ key: string; opened: number; submitted: number; confirmed: number }>
+  >;
+  sync: { success: number; failed: number };
+};
+
+export async function getAnalyticsReport(input: {
+  shopId: string;
+  fromDay: string;
+  toDay: string;
+}): Promise<AnalyticsReport> {
+  const { shopId, fromDay, toDay } = input;
+
+  const rows = await prisma.analyticsDaily.findMany({
+    where: { shopId, day: { gte: parseDay(fromDay), lte: parseDay(toDay) } },
+    select: { day: true, type: true, dimension: true, key: true, count: true },
+  });
+
+  const totals = new Map<string, number>();
+  const byDay = new Map<string, Record<string, number>>();
+
+  for (const r of rows) {
+    if (r.dimension !== "none") continue;
+    totals.set(r.type, (totals.get(r.type) ?? 0) + r.count);
+
+    const d = dayString(r.day);
+    const bucket = byDay.get(d) ?? {};
+    bucket[r.type] = (bucket[r.type] ?? 0) + r.count;
+    byDay.set(d, bucket);
+  }
+
+  const daily: AnalyticsReport["daily"] = [];
+  for (let d = parseDay(fromDay); d <= parseDay(toDay); d = addDays(d, 1)) {
+    const key = dayString(d);
+    const bucket = byDay.get(key) ?? {};
+    daily.push({
+      day: key,
+      form_opened: bucket.form_opened ?? 0,
+      role_selected: bucket.role_selected ?? 0,
+      request_submitted: bucket.request_submitted ?? 0,
+      request_confirmed: bucket.request_confirmed ?? 0,
+    });
+  }
+
+  const breakdown = (dimension: AnalyticsDimension) => {
+    const map = new Map<string, { key: string; opened: number; submitted: number; confirmed: number }>();
+    for (const r of rows) {
+      if (r.dimension !== dimension || !r.key) continue;
+      const row = map.get(r.key) ?? { key: r.key, opened: 0, submitted: 0, confirmed: 0 };
+      if (r.type === "form_opened") row.opened += r.count;
+      if (r.type === "request_submitted") row.submitted += r.count;
+      if (r.type === "request_confirmed") row.confirmed += r.count;
+      map.set(r.key, row);
+    }
+    return Array.from(map.values())
+      .filter((x) => x.opened || x.submitted || x.confirmed)
+      .sort((a, b) => b.submitted - a.submitted || b.opened - a.opened)
+      .slice(0, 20);
+  };
+
+  return {
+    fromDay,
+    toDay,
+    funnel: FUNNEL_STEPS.map((type) => ({ type, count: totals.get(type) ?? 0 })),
+    daily,
+    breakdowns: {
+      role: breakdown("role"),
+      form: breakdown("form"),
+      placement: breakdown("placement"),
+      page: breakdown("page"),
+    },
+    sync: {
+      success: totals.get("request_sync_success") ?? 0,
+      failed: totals.get("request_sync_failed") ?? 0,
+    },
+  };
+}
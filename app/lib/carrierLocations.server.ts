@@ -0,0 +1,512 @@
+// app/lib/carrierLocations.server.ts
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { CarrierLocation, CarrierLocationKind } from "@prisma/client";
+import { prisma } from "~/db.server";
+
+/**
+ * Courier location codes -> our GeoWilaya.code / GeoCommune.id.
+ * - Tables: prisma/data/carriers/<provider>.json (next to communes.json), or the
+ *   courier API through the provider's listLocations() (shipping.server.ts)
+ * - Matching: wilayas first, then communes inside the matched wilaya, on French
+ *   and Arabic names with a transliteration-tolerant key (Bordj/Borj, Ouled/Oulad,
+ *   Beni/Bni, El/Al...). Ambiguous or weak matches are left for the admin report.
+ * - Manual mappings from the report are kept across re-imports.
+ */
+
+export type CarrierLocationInput = {
+  kind: CarrierLocationKind;
+  externalId: string;
+  name: string;
+  nameAr?: string | null;
+  parentExternalId?: string | null;
+};
+
+type CarrierTableFile = {
+  provider: string;
+  source?: string;
+  locations: CarrierLocationInput[];
+};
+
+const TABLES_DIR = path.join(process.cwd(), "prisma", "data", "carriers");
+
+const MATCH_THRESHOLD = 0.8;
+const MATCH_MARGIN = 0.05; // best must beat the runner-up by this much
+
+// ───────────────────────────────────────────────────────────────────────────
+// Name keys
+// ───────────────────────────────────────────────────────────────────────────
+
+const ARTICLES = new Set(["el", "al", "l", "le", "la", "ech", "ed", "er", "es", "et", "ez", "en"]);
+
+// "Aïn El-Türck" -> ["ain", "el", "turck"]
+function latinTokens(s: string) {
+  return String(s || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/['\u2019`]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter(Boolean);
+}
+
+export function latinKey(s: string) {
+  return latinTokens(s).join(" ");
+}
+
+// Collapses the usual French/English spellings of Arabic sounds
+function phoneticToken(t: string) {
+  return t
+    .replace(/tch/g, "c")
+    .replace(/dj/g, "j")
+    .replace(/(ch|sh)/g, "c")
+    .replace(/kh/g, "k")
+    .replace(/gh/g, "g")
+    .replace(/q|ck/g, "k")
+    .replace(/(th|dh)/g, "t")
+    .replace(/ph/g, "f")
+    .replace(/(ou|oo|w)/g, "u")
+    .replace(/(ee|y)/g, "i")
+    .replace(/(.)\1+/g, "$1");
+}
+
+export function phoneticKey(s: string) {
+  return latinTokens(s)
+    .filter((t) => !ARTICLES.has(t))
+    .map(phoneticToken)
+    .join("");
+}
+
+// Consonant skeleton: "Beni" / "Bni", "Mohamed" / "Mhamed"
+function skeletonKey(s: string) {
+  const p = phoneticKey(s);
+  return p.length > 1 ? p[0] + p.slice(1).replace(/[aeiou]/g, "") : p;
+}
+
+export function arabicKey(s: string | null | undefined) {
+  return String(s || "")
+    .replace(/[\u064B-\u065F\u0670\u0640]/g, "") // tashkeel, tatweel
+    .replace(/[\u0622\u0623\u0625\u0671]/g, "\u0627") // alef forms -> alef
+    .replace(/\u0649/g, "\u064A") // alef maqsura -> ya
+    .replace(/\u0629/g, "\u0647") // ta marbuta -> ha
+    .replace(/\u0624/g, "\u0648") // waw with hamza -> waw
+    .replace(/\u0626/g, "\u064A") // ya with hamza -> ya
+    .split(/[^\u0621-\u064A0-9]+/)
+    .filter(Boolean)
+    .map((w) => (w.length > 3 && w.startsWith("\u0627\u0644") ? w.slice(2) : w)) // drop "al-"
+    .join("");
+}
+
+// "B. B. Arreridj" / "Bordj Bou Arreridj": initials stand for whole words
+function initialsMatch(a: string, b: string) {
+  const ta = latinTokens(a).filter((t) => !ARTICLES.has(t));
+  const tb = latinTokens(b).filter((t) => !ARTICLES.has(t));
+  if (ta.length !== tb.length || ta.length < 2) return false;
+  let abbreviated = false;
+  for (let i = 0; i < ta.length; i++) {
+    const x = ta[i];
+    const y = tb[i];
+    if (x.length === 1 || y.length === 1) {
+      if (x[0] !== y[0]) return false;
+      abbreviated = true;
+    } else if (phoneticToken(x) !== phoneticToken(y)) {
+      return false;
+    }
+  }
+  return abbreviated;
+}
+
+function levenshtein(a: string, b: string) {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+function ratio(a: string, b: string) {
+  if (!a || !b) return 0;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+}
+
+type Named = { nameFr: string; nameAr?: string | null };
+
+/**
+ * 1 = same name; >= 0.95 same skeleton; 0.9 initials; otherwise edit-distance similarity of the
+ * phonetic (French) or normalized (Arabic) keys, whichever is higher.
+ */
+export function nameSimilarity(carrier: { name: string; nameAr?: string | null }, geo: Named) {
+  if (latinKey(carrier.name) && latinKey(carrier.name) === latinKey(geo.nameFr)) return 1;
+
+  // Couriers sometimes put the Arabic name in the main field
+  const carrierAr = arabicKey(carrier.nameAr) || arabicKey(carrier.name);
+  const geoAr = arabicKey(geo.nameAr);
+  if (carrierAr && carrierAr === geoAr) return 1;
+
+  const pc = phoneticKey(carrier.name);
+  const pg = phoneticKey(geo.nameFr);
+  if (pc && pc === pg) return 0.98;
+  if (pc && skeletonKey(carrier.name) === skeletonKey(geo.nameFr)) return 0.95;
+  if (initialsMatch(carrier.name, geo.nameFr)) return 0.9;
+
+  return Math.max(ratio(pc, pg), ratio(carrierAr, geoAr));
+}
+
+function bestMatch<T extends Named>(carrier: { name: string; nameAr?: string | null }, candidates: T[]) {
+  let best: { item: T; score: number } | null = null;
+  let second = 0;
+  for (const item of candidates) {
+    const score = nameSimilarity(carrier, item);
+    if (!best || score > best.score) {
+      second = best?.score ?? 0;
+      best = { item, score };
+    } else if (score > second) {
+      second = score;
+    }
+  }
+  if (!best || best.score < MATCH_THRESHOLD) return { match: null, best };
+  if (best.score < 1 && best.score - second < MATCH_MARGIN) return { match: null, best };
+  return { match: best.item, best };
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Tables
+// ───────────────────────────────────────────────────────────────────────────
+
+export async function readCarrierTable(provider: string): Promise<CarrierLocationInput[] | null> {
+  if (!/^[a-z0-9_-]+$/.test(provider)) return null;
+  try {
+    const raw = await fs.readFile(path.join(TABLES_DIR, `${provider}.json`), "utf8");
+    const parsed = JSON.parse(raw) as CarrierTableFile;
+    return Array.isArray(parsed?.locations) ? parsed.locations : null;
+  } catch (e: any) {
+    if (e?.code === "ENOENT") return null;
+    throw e;
+  }
+}
+
+/**
+ * Replace a provider's table (rows missing from `rows` are removed) and re-run matching.
+ */
+export async function importCarrierLocations(provider: string, rows: CarrierLocationInput[]) {
+  const clean = rows
+    .map((r) => ({
+      kind: r.kind,
+      externalId: String(r.externalId ?? "").trim(),
+      name: String(r.name ?? "").trim(),
+      nameAr: r.nameAr ? String(r.nameAr).trim() : null,
+      parentExternalId: r.parentExternalId != null ? String(r.parentExternalId) : null,
+    }))
+    .filter((r) => r.externalId && r.name && ["wilaya", "commune", "stopdesk"].includes(r.kind));
+
+  const existing = await prisma.carrierLocation.findMany({
+    where: { provider },
+    select: { id: true, kind: true, externalId: true },
+  });
+  const keep = new Set(clean.map((r) => `${r.kind}|${r.externalId}`));
+  const stale = existing.filter((e) => !keep.has(`${e.kind}|${e.externalId}`)).map((e) => e.id);
+
+  await prisma.$transaction(
+    async (tx) => {
+      if (stale.length) await tx.carrierLocation.deleteMany({ where: { id: { in: stale } } });
+      for (const r of clean) {
+        const data = { name: r.name, nameAr: r.nameAr, parentExternalId: r.parentExternalId };
+        await tx.carrierLocation.upsert({
+          where: { provider_kind_externalId: { provider, kind: r.kind, externalId: r.externalId } },
+          update: data,
+          create: { ...data, provider, kind: r.kind, externalId: r.externalId },
+        });
+      }
+    },
+    { timeout: 120_000 }
+  );
+
+  const matched = await matchCarrierLocations(provider);
+  return { imported: clean.length, removed: stale.length, ...matched };
+}
+
+/**
+ * Load the bundled table the first time a provider is used.
+ */
+export async function ensureCarrierLocations(provider: string) {
+  const count = await prisma.carrierLocation.count({ where: { provider } });
+  if (count) return count;
+  const rows = await readCarrierTable(provider);
+  if (!rows?.length) return 0;
+  const res = await importCarrierLocations(provider, rows);
+  return res.imported;
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Matching
+// ───────────────────────────────────────────────────────────────────────────
+
+/**
+ * Resolve every non-manual row of a provider. Runs after each import.
+ */
+export async function matchCarrierLocations(provider: string) {
+  const [wilayas, communes, rows] = await Promise.all([
+    prisma.geoWilaya.findMany({ select: { code: true, nameFr: true, nameAr: true } }),
+    prisma.geoCommune.findMany({ select: { id: true, wilayaCode: true, nameFr: true, nameAr: true } }),
+    prisma.carrierLocation.findMany({ where: { provider } }),
+  ]);
+
+  const communesByWilaya = new Map<number, typeof communes>();
+  for (const c of communes) {
+    const list = communesByWilaya.get(c.wilayaCode) ?? [];
+    list.push(c);
+    communesByWilaya.set(c.wilayaCode, list);
+  }
+  const communeById = new Map(communes.map((c) => [c.id, c]));
+
+  const updates: Array<{ id: string; wilayaCode: number | null; communeId: string | null; matchMethod: string | null; matchScore: number | null }> = [];
+
+  // 1) Wilayas: the courier id is usually the official number; the name must agree
+  const wilayaOf = new Map<string, number | null>();
+  for (const row of rows.filter((r) => r.kind === "wilaya")) {
+    if (row.matchMethod === "manual") {
+      wilayaOf.set(row.externalId, row.wilayaCode);
+      continue;
+    }
+    const byNumber = /^\d{1,2}$/.test(row.externalId)
+      ? wilayas.find((w) => w.code === Number(row.externalId))
+      : undefined;
+    const numberScore = byNumber ? nameSimilarity(row, byNumber) : 0;
+
+    let code: number | null = null;
+    let score: number | null = null;
+    if (byNumber && numberScore >= MATCH_THRESHOLD) {
+      code = byNumber.code;
+      score = numberScore;
+    } else {
+      const { match, best } = bestMatch(row, wilayas);
+      code = match?.code ?? null;
+      score = best?.score ?? null;
+    }
+
+    wilayaOf.set(row.externalId, code);
+    updates.push({
+      id: row.id,
+      wilayaCode: code,
+      communeId: null,
+      matchMethod: code === null ? null : score === 1 ? "exact" : "fuzzy",
+      matchScore: score,
+    });
+  }
+
+  // 2) Communes, inside their wilaya when it is known
+  const communeOf = new Map<string, { communeId: string | null; wilayaCode: number | null }>();
+  for (const row of rows.filter((r) => r.kind === "commune")) {
+    if (row.matchMethod === "manual") {
+      communeOf.set(row.externalId, { communeId: row.communeId, wilayaCode: row.wilayaCode });
+      continue;
+    }
+    const wilayaCode = row.parentExternalId ? wilayaOf.get(row.parentExternalId) ?? null : null;
+    const candidates = wilayaCode !== null ? communesByWilaya.get(wilayaCode) ?? [] : communes;
+    const { match, best } = bestMatch(row, candidates);
+
+    const communeId = match?.id ?? null;
+    const resolvedWilaya = match?.wilayaCode ?? wilayaCode;
+    communeOf.set(row.externalId, { communeId, wilayaCode: resolvedWilaya });
+    updates.push({
+      id: row.id,
+      wilayaCode: resolvedWilaya,
+      communeId,
+      matchMethod: communeId === null ? null : best?.score === 1 ? "exact" : "fuzzy",
+      matchScore: best?.score ?? null,
+    });
+  }
+
+  // 3) Stop desks follow their commune
+  for (const row of rows.filter((r) => r.kind === "stopdesk")) {
+    if (row.matchMethod === "manual") continue;
+    const parent = row.parentExternalId ? communeOf.get(row.parentExternalId) : undefined;
+    const commune = parent?.communeId ? communeById.get(parent.communeId) : undefined;
+    updates.push({
+      id: row.id,
+      wilayaCode: commune?.wilayaCode ?? parent?.wilayaCode ?? null,
+      communeId: commune?.id ?? null,
+      matchMethod: commune ? "exact" : null,
+      matchScore: commune ? 1 : null,
+    });
+  }
+
+  await prisma.$transaction(
+    async (tx) => {
+      for (const u of updates) {
+        const { id, ...data } = u;
+        await tx.carrierLocation.update({ where: { id }, data });
+      }
+    },
+    { timeout: 120_000 }
+  );
+
+  const unmatched = updates.filter((u) => u.matchMethod === null).length;
+  return { matched: updates.length - unmatched, unmatched };
+}
+
+/**
+ * Admin report: pin a courier commune to one of ours (null clears it and lets
+ * the matcher try again on the next import).
+ */
+export async function setManualCommuneMapping(input: {
+  provider: string;
+  carrierLocationId: string;
+  communeId: string | null;
+}) {
+  const row = await prisma.carrierLocation.findFirst({
+    where: { id: input.carrierLocationId, provider: input.provider, kind: "commune" },
+  });
+  if (!row) throw new Error("carrier_location_not_found");
+
+  if (!input.communeId) {
+    await prisma.carrierLocation.update({
+      where: { id: row.id },
+      data: { communeId: null, matchMethod: null, matchScore: null },
+    });
+    return;
+  }
+
+  const commune = await prisma.geoCommune.findUnique({
+    where: { id: input.communeId },
+    select: { id: true, wilayaCode: true },
+  });
+  if (!commune) throw new Error("commune_not_found");
+
+  await prisma.$transaction([
+    prisma.carrierLocation.update({
+      where: { id: row.id },
+      data: { communeId: commune.id, wilayaCode: commune.wilayaCode, matchMethod: "manual", matchScore: 1 },
+    }),
+    // Desks of that courier commune move with it
+    prisma.carrierLocation.updateMany({
+      where: { provider: input.provider, kind: "stopdesk", parentExternalId: row.externalId, matchMethod: { not: "manual" } },
+      data: { communeId: commune.id, wilayaCode: commune.wilayaCode, matchMethod: "exact", matchScore: 1 },
+    }),
+  ]);
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Lookups
+// ───────────────────────────────────────────────────────────────────────────
+
+export type ResolvedCarrierLocation = {
+  loaded: boolean; // the provider has a table at all
+  wilaya: Pick<CarrierLocation, "externalId" | "name"> | null;
+  commune: Pick<CarrierLocation, "externalId" | "name"> | null;
+  stopDesk: Pick<CarrierLocation, "externalId" | "name"> | null;
+};
+
+// Exact/manual before fuzzy, then the highest score
+function preferred<T extends Pick<CarrierLocation, "matchMethod" | "matchScore">>(rows: T[]) {
+  const rank = (r: T) => (r.matchMethod === "manual" ? 3 : r.matchMethod === "exact" ? 2 : 1) * 10 + (r.matchScore ?? 0);
+  return rows.slice().sort((a, b) => rank(b) - rank(a))[0] ?? null;
+}
+
+/**
+ * Courier codes for a request address. A stop desk in the same commune wins;
+ * otherwise the wilaya's desk when it has exactly one.
+ */
+export async function resolveCarrierLocation(
+  provider: string,
+  input: { wilayaCode: number; communeId: string | null }
+): Promise<ResolvedCarrierLocation> {
+  const loaded = (await ensureCarrierLocations(provider)) > 0;
+
+  const select = { externalId: true, name: true, matchMethod: true, matchScore: true } as const;
+  const [wilayas, communes, communeDesks, wilayaDesks] = await Promise.all([
+    prisma.carrierLocation.findMany({ where: { provider, kind: "wilaya", wilayaCode: input.wilayaCode }, select }),
+    input.communeId
+      ? prisma.carrierLocation.findMany({ where: { provider, kind: "commune", communeId: input.communeId }, select })
+      : Promise.resolve([]),
+    input.communeId
+      ? prisma.carrierLocation.findMany({ where: { provider, kind: "stopdesk", communeId: input.communeId }, select })
+      : Promise.resolve([]),
+    prisma.carrierLocation.findMany({ where: { provider, kind: "stopdesk", wilayaCode: input.wilayaCode }, select, take: 2 }),
+  ]);
+
+  const pick = (rows: typeof wilayas) => {
+    const r = preferred(rows);
+    return r ? { externalId: r.externalId, name: r.name } : null;
+  };
+
+  return {
+    loaded,
+    wilaya: pick(wilayas),
+    commune: pick(communes),
+    stopDesk: pick(communeDesks) ?? (wilayaDesks.length === 1 ? pick(wilayaDesks) : null),
+  };
+}
+
+/**
+ * Coverage of one provider: our communes with no courier code, and courier
+ * communes the matcher could not place (with its best guess).
+ */
+export async function carrierLocationReport(provider: string, opts?: { wilayaCode?: number | null }) {
+  const wilayaFilter = opts?.wilayaCode ?? null;
+
+  const [communes, carrierCommunes, wilayaRows] = await Promise.all([
+    prisma.geoCommune.findMany({
+      where: wilayaFilter !== null ? { wilayaCode: wilayaFilter } : undefined,
+      orderBy: [{ wilayaCode: "asc" }, { nameFr: "asc" }],
+      select: { id: true, wilayaCode: true, nameFr: true, nameAr: true },
+    }),
+    prisma.carrierLocation.findMany({
+      where: { provider, kind: "commune" },
+      orderBy: [{ wilayaCode: "asc" }, { name: "asc" }],
+    }),
+    prisma.carrierLocation.findMany({ where: { provider, kind: "wilaya" } }),
+  ]);
+
+  const mappedIds = new Set(carrierCommunes.map((c) => c.communeId).filter(Boolean) as string[]);
+  const totalCommunes = wilayaFilter !== null ? communes.length : await prisma.geoCommune.count();
+
+  const unmappedCommunes = communes.filter((c) => !mappedIds.has(c.id));
+
+  const communeById = new Map(communes.map((c) => [c.id, c]));
+  const unmatchedCarrier = carrierCommunes
+    .filter((c) => !c.communeId && (wilayaFilter === null || c.wilayaCode === wilayaFilter))
+    .map((c) => {
+      const pool = c.wilayaCode !== null ? communes.filter((x) => x.wilayaCode === c.wilayaCode) : [];
+      const { best } = bestMatch(c, pool);
+      return {
+        id: c.id,
+        externalId: c.externalId,
+        name: c.name,
+        nameAr: c.nameAr,
+        wilayaCode: c.wilayaCode,
+        suggestion: best ? { communeId: best.item.id, nameFr: best.item.nameFr, score: best.score } : null,
+      };
+    });
+
+  const manual = carrierCommunes
+    .filter((c) => c.matchMethod === "manual" && (wilayaFilter === null || c.wilayaCode === wilayaFilter))
+    .map((c) => ({
+      id: c.id,
+      name: c.name,
+      communeName: (c.communeId && communeById.get(c.communeId)?.nameFr) || null,
+      wilayaCode: c.wilayaCode,
+    }));
+
+  return {
+    loaded: carrierCommunes.length + wilayaRows.length > 0,
+    totals: {
+      communes: totalCommunes,
+      mapped: wilayaFilter !== null ? communes.length - unmappedCommunes.length : mappedIds.size,
+      carrierCommunes: carrierCommunes.length,
+      unmatchedWilayas: wilayaRows.filter((w) => w.wilayaCode === null).length,
+    },
+    unmappedCommunes,
+    unmatchedCarrier,
+    manual,
+  };
+}
@@ -0,0 +1,374 @@
+// app/lib/delivery.server.ts
+import type { DeliveryType } from "@prisma/client";
+import { prisma } from "~/db.server";
+
+/**
+ * Delivery pricing:
+ * - DeliveryRate: shop x wilaya x type (home | desk) -> price + ETA
+ * - DeliveryCommuneRate: same, per commune; wins over the wilaya rate
+ *
+ * The storefront reads quotes through the wilayas/communes proxy routes; the
+ * submit route re-resolves the fee here (client-sent fees are never trusted).
+ */
+
+export const DELIVERY_TYPES: DeliveryType[] = ["home", "desk"];
+
+export type DeliveryOption = {
+  price: number;
+  etaMinDays: number | null;
+  etaMaxDays: number | null;
+};
+
+// null = not offered
+export type DeliveryQuote = Record<DeliveryType, DeliveryOption | null>;
+
+type RateRow = {
+  type: DeliveryType;
+  price: unknown;
+  etaMinDays: number | null;
+  etaMaxDays: number | null;
+  active: boolean;
+};
+
+export function asDeliveryType(input: unknown): DeliveryType | null {
+  return DELIVERY_TYPES.includes(input as DeliveryType) ? (input as DeliveryType) : null;
+}
+
+function toOption(r: RateRow): DeliveryOption | null {
+  if (!r.active) return null;
+  return { price: Number(r.price), etaMinDays: r.etaMinDays, etaMaxDays: r.etaMaxDays };
+}
+
+function emptyQuote(): DeliveryQuote {
+  return { home: null, desk: null };
+}
+
+export function hasDeliveryOptions(q: DeliveryQuote | null | undefined) {
+  return Boolean(q && (q.home || q.desk));
+}
+
+/**
+ * Wilaya-level quotes for a shop, keyed by wilaya code (wilayas without rates are absent).
+ */
+export async function getWilayaQuotes(shopId: string) {
+  const rows = await prisma.deliveryRate.findMany({
+    where: { shopId },
+    select: { wilayaCode: true, type: true, price: true, etaMinDays: true, etaMaxDays: true, active: true },
+  });
+
+  const out = new Map<number, DeliveryQuote>();
+  for (const r of rows) {
+    const q = out.get(r.wilayaCode) ?? emptyQuote();
+    q[r.type] = toOption(r);
+    out.set(r.wilayaCode, q);
+  }
+  return out;
+}
+
+/**
+ * Per-commune quotes for one wilaya: the wilaya rate with commune overrides applied.
+ */
+export async function getCommuneQuotes(shopId: string, wilayaCode: number) {
+  const [wilayaRates, overrides] = await Promise.all([
+    prisma.deliveryRate.findMany({
+      where: { shopId, wilayaCode },
+      select: { type: true, price: true, etaMinDays: true, etaMaxDays: true, active: true },
+    }),
+    prisma.deliveryCommuneRate.findMany({
+      where: { shopId, commune: { wilayaCode } },
+      select: { communeId: true, type: true, price: true, etaMinDays: true, etaMaxDays: true, active: true },
+    }),
+  ]);
+
+  const base = emptyQuote();
+  for (const r of wilayaRates) base[r.type] = toOption(r);
+
+  const byCommune = new Map<string, DeliveryQuote>();
+  for (const o of overrides) {
+    const q = byCommune.get(o.communeId) ?? { ...base };
+    q[o.type] = toOption(o);
+    byCommune.set(o.communeId, q);
+  }
+
+  return {
+    base,
+    quoteFor: (communeId: string) => byCommune.get(communeId) ?? base,
+  };
+}
+
+/**
+ * Resolve the fee for a submitted delivery choice (commune override > wilaya rate).
+ * The override only applies to a commune of the submitted wilaya.
+ */
+export async function resolveDeliveryOption(input: {
+  shopId: string;
+  wilayaCode: number | null;
+  communeId: string | null;
+  type: DeliveryType;
+}): Promise<DeliveryOption | null> {
+  const { shopId, wilayaCode, communeId, type } = input;
+
+  if (!wilayaCode) return null;
+
+  if (communeId) {
+    const override = await prisma.deliveryCommuneRate.findFirst({
+      where: { shopId, communeId, type, commune: { wilayaCode } },
+      select: { type: true, price: true, etaMinDays: true, etaMaxDays: true, active: true },
+    });
+    if (override) return toOption(override);
+  }
+
+  const rate = await prisma.deliveryRate.findUnique({
+    where: { shopId_wilayaCode_type: { shopId, wilayaCode, type } },
+    select: { type: true, price: true, etaMinDays: true, etaMaxDays: true, active: true },
+  });
+  return rate ? toOption(rate) : null;
+}
+
+export async function shopHasDeliveryRates(shopId: string, wilayaCode: number | null) {
+  if (!wilayaCode) return false;
+  const n = await prisma.deliveryRate.count({ where: { shopId, wilayaCode, active: true } });
+  return n > 0;
+}
+
+export async function shopCurrency(shopId: string) {
+  const settings = await prisma.shopSettings.findUnique({ where: { shopId }, select: { currency: true } });
+  return settings?.currency?.trim() || "DZD";
+}
+
+/**
+ * CSV import
+ *
+ * Columns (header row required, order free):
+ *   wilaya, commune, type, price, eta_min, eta_max, active
+ * - wilaya: code (1..58) or French/Arabic name
+ * - commune: optional; when set the row is a commune override (name or id)
+ * - type: home | desk (also "domicile", "stopdesk", "bureau")
+ * - active: optional, "0"/"no"/"false" disables the option
+ */
+
+export type DeliveryCsvRow = {
+  line: number;
+  wilayaCode: number;
+  communeId: string | null;
+  type: DeliveryType;
+  price: number;
+  etaMinDays: number | null;
+  etaMaxDays: number | null;
+  active: boolean;
+};
+
+export type DeliveryCsvResult = {
+  rows: DeliveryCsvRow[];
+  errors: Array<{ line: number; error: string }>;
+};
+
+const TYPE_ALIASES: Record<string, DeliveryType> = {
+  home: "home",
+  domicile: "home",
+  house: "home",
+  desk: "desk",
+  stopdesk: "desk",
+  stop_desk: "desk",
+  bureau: "desk",
+};
+
+function splitCsvLine(line: string, sep: string) {
+  const out: string[] = [];
+  let cur = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cur += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === sep) {
+      out.push(cur.trim());
+      cur = "";
+    } else {
+      cur += ch;
+    }
+  }
+  out.push(cur.trim());
+  return out;
+}
+
+function normName(s: string) {
+  return s
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\u0600-\u06ff]+/g, " ")
+    .trim();
+}
+
+function parseOptionalInt(input: string | undefined) {
+  const s = String(input ?? "").trim();
+  if (!s) return null;
+  const n = Number(s);
+  return Number.isInteger(n) && n >= 0 && n <= 365 ? n : NaN;
+}
+
+export async function parseDeliveryRatesCsv(text: string): Promise<DeliveryCsvResult> {
+  const lines = String(text || "")
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/);
+
+  const headerIdx = lines.findIndex((l) => l.trim());
+  if (headerIdx === -1) return { rows: [], errors: [{ line: 1, error: "Empty file" }] };
+
+  const headerLine = lines[headerIdx];
+  const sep = headerLine.includes(";") && !headerLine.includes(",") ? ";" : ",";
+  const header = splitCsvLine(headerLine, sep).map((h) => normName(h).replace(/ /g, "_"));
+
+  const col = (...names: string[]) => header.findIndex((h) => names.includes(h));
+  const cWilaya = col("wilaya", "wilaya_code", "code");
+  const cCommune = col("commune", "commune_id");
+  const cType = col("type", "delivery_type");
+  const cPrice = col("price", "fee", "prix");
+  const cEtaMin = col("eta_min", "eta_min_days", "min_days");
+  const cEtaMax = col("eta_max", "eta_max_days", "max_days");
+  const cActive = col("active", "enabled");
+
+  if (cWilaya === -1 || cType === -1 || cPrice === -1) {
+    return { rows: [], errors: [{ line: headerIdx + 1, error: "Header must include wilaya, type and price" }] };
+  }
+
+  const [wilayas, communes] = await Promise.all([
+    prisma.geoWilaya.findMany({ select: { code: true, nameFr: true, nameAr: true } }),
+    prisma.geoCommune.findMany({ select: { id: true, wilayaCode: true, nameFr: true, nameAr: true } }),
+  ]);
+
+  const wilayaByName = new Map<string, number>();
+  for (const w of wilayas) {
+    wilayaByName.set(normName(w.nameFr), w.code);
+    wilayaByName.set(normName(w.nameAr), w.code);
+  }
+  const wilayaCodes = new Set(wilayas.map((w) => w.code));
+
+  const communeById = new Map(communes.map((c) => [c.id, c]));
+  const communeByName = new Map<string, string>(); // `${wilayaCode}|${name}` -> id
+  for (const c of communes) {
+    communeByName.set(`${c.wilayaCode}|${normName(c.nameFr)}`, c.id);
+    communeByName.set(`${c.wilayaCode}|${normName(c.nameAr)}`, c.id);
+  }
+
+  const result: DeliveryCsvResult = { rows: [], errors: [] };
+  const seen = new Set<string>();
+
+  for (let i = headerIdx + 1; i < lines.length; i++) {
+    if (!lines[i].trim()) continue;
+    const line = i + 1;
+    const cells = splitCsvLine(lines[i], sep);
+    const cell = (idx: number) => (idx === -1 ? "" : cells[idx] ?? "");
+
+    const wRaw = cell(cWilaya);
+    const wilayaCode = /^\d+$/.test(wRaw) ? Number(wRaw) : wilayaByName.get(normName(wRaw)) ?? null;
+    if (!wilayaCode || !wilayaCodes.has(wilayaCode)) {
+      result.errors.push({ line, error: `Unknown wilaya: ${wRaw || "(empty)"}` });
+      continue;
+    }
+
+    const cRaw = cell(cCommune);
+    let communeId: string | null = null;
+    if (cRaw) {
+      const byId = communeById.get(cRaw);
+      communeId =
+        byId && byId.wilayaCode === wilayaCode
+          ? byId.id
+          : communeByName.get(`${wilayaCode}|${normName(cRaw)}`) ?? null;
+      if (!communeId) {
+        result.errors.push({ line, error: `Unknown commune in wilaya ${wilayaCode}: ${cRaw}` });
+        continue;
+      }
+    }
+
+    const type = TYPE_ALIASES[normName(cell(cType)).replace(/ /g, "_")] ?? null;
+    if (!type) {
+      result.errors.push({ line, error: `Unknown delivery type: ${cell(cType) || "(empty)"}` });
+      continue;
+    }
+
+    const price = Number(cell(cPrice).replace(/\s/g, "").replace(",", "."));
+    if (!Number.isFinite(price) || price < 0) {
+      result.errors.push({ line, error: `Invalid price: ${cell(cPrice) || "(empty)"}` });
+      continue;
+    }
+
+    const etaMinDays = parseOptionalInt(cell(cEtaMin));
+    const etaMaxDays = parseOptionalInt(cell(cEtaMax));
+    if (Number.isNaN(etaMinDays) || Number.isNaN(etaMaxDays)) {
+      result.errors.push({ line, error: "ETA must be a whole number of days" });
+      continue;
+    }
+
+    const activeRaw = normName(cell(cActive));
+    const active = !["0", "no", "false", "off", "non"].includes(activeRaw);
+
+    const key = `${wilayaCode}|${communeId ?? ""}|${type}`;
+    if (seen.has(key)) {
+      result.errors.push({ line, error: "Duplicate row (same wilaya/commune/type)" });
+      continue;
+    }
+    seen.add(key);
+
+    result.rows.push({
+      line,
+      wilayaCode,
+      communeId,
+      type,
+      price: Math.round(price * 100) / 100,
+      etaMinDays,
+      etaMaxDays,
+      active,
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Upsert parsed rows. `replace` drops every existing rate of the shop first.
+ */
+export async function importDeliveryRates(shopId: string, rows: DeliveryCsvRow[], opts?: { replace?: boolean }) {
+  await prisma.$transaction(async (tx) => {
+    if (opts?.replace) {
+      await tx.deliveryCommuneRate.deleteMany({ where: { shopId } });
+      await tx.deliveryRate.deleteMany({ where: { shopId } });
+    }
+
+    for (const r of rows) {
+      const data = {
+        price: r.price,
+        etaMinDays: r.etaMinDays,
+        etaMaxDays: r.etaMaxDays,
+        active: r.active,
+      };
+
+      if (r.communeId) {
+        await tx.deliveryCommuneRate.upsert({
+          where: { shopId_communeId_type: { shopId, communeId: r.communeId, type: r.type } },
+          update: data,
+          create: { ...data, shopId, communeId: r.communeId, type: r.type },
+        });
+      } else {
+        await tx.deliveryRate.upsert({
+          where: { shopId_wilayaCode_type: { shopId, wilayaCode: r.wilayaCode, type: r.type } },
+          update: data,
+          create: { ...data, shopId, wilayaCode: r.wilayaCode, type: r.type },
+        });
+      }
+    }
+  }, { timeout: 60_000 });
+
+  return { imported: rows.length };
+}
@@ -0,0 +1,232 @@
+// app/lib/draftOrders.server.ts
+import { prisma } from "~/db.server";
+
+/**
+ * Request -> Shopify draft order (admin "Create draft order" on the request page).
+ * Needs the write_draft_orders scope (shopify.app.toml).
+ *
+ * Line items: RequestItem variants x qty (product-only items use the first variant).
+ * Customer: name/email/phone; shipping address from address + commune + wilaya (DZ).
+ */
+
+export const DRAFT_ORDER_SCOPE = "write_draft_orders";
+
+type AdminGraphql = { graphql: (query: string, opts?: any) => Promise<Response> };
+
+export type DraftOrderInfo = {
+  id: string;
+  name: string | null;
+  status: string | null;
+  invoiceUrl: string | null;
+  orderName: string | null;
+};
+
+function asShopifyGid(kind: "Product" | "ProductVariant", idOrGid: string | null) {
+  if (!idOrGid) return null;
+  const raw = String(idOrGid).trim();
+  if (!raw) return null;
+  if (raw.startsWith("gid://shopify/")) return raw;
+  if (/^\d+$/.test(raw)) return `gid://shopify/${kind}/${raw}`;
+  return null;
+}
+
+// Shopify wants E.164; local Algerian numbers (0XXXXXXXXX) are rewritten, anything else is dropped
+function toE164(phone: string | null) {
+  const raw = String(phone || "").replace(/[\s().-]+/g, "");
+  if (!raw) return null;
+  if (/^\+\d{8,15}$/.test(raw)) return raw;
+  if (/^00\d{8,15}$/.test(raw)) return `+${raw.slice(2)}`;
+  if (/^0\d{9}$/.test(raw)) return `+213${raw.slice(1)}`;
+  return null;
+}
+
+async function firstVariantIds(admin: AdminGraphql, productGids: string[]) {
+  const out = new Map<string, string>();
+  if (!productGids.length) return out;
+
+  const resp = await admin.graphql(
+    `#graphql
+    query DraftOrderFirstVariants($ids: [ID!]!) {
+      nodes(ids: $ids) {
+        ... on Product { id variants(first: 1) { nodes { id } } }
+      }
+    }`,
+    { variables: { ids: productGids } }
+  );
+  const json: any = await resp.json();
+  for (const n of json?.data?.nodes ?? []) {
+    const v = n?.variants?.nodes?.[0]?.id;
+    if (n?.id && v) out.set(String(n.id), String(v));
+  }
+  return out;
+}
+
+export async function createDraftOrderForRequest(input: {
+  admin: AdminGraphql;
+  shopId: string;
+  requestId: string;
+}): Promise<DraftOrderInfo> {
+  const { admin, shopId, requestId } = input;
+
+  const r = await prisma.request.findFirst({
+    where: { id: requestId, shopId },
+    include: {
+      items: { orderBy: { createdAt: "asc" } },
+      wilaya: { select: { nameFr: true, nameAr: true } },
+      commune: { select: { nameFr: true, nameAr: true } },
+    },
+  });
+  if (!r) throw new Error("request_not_found");
+  if (r.draftOrderId) throw new Error("draft_order_exists");
+
+  const items = r.items.length
+    ? r.items
+    : r.productId
+    ? [{ productId: r.productId, variantId: r.variantId, qty: r.qty ?? 1 }]
+    : [];
+  if (!items.length) throw new Error("no_items");
+
+  const productOnly = Array.from(
+    new Set(
+      items
+        .filter((it) => !asShopifyGid("ProductVariant", it.variantId))
+        .map((it) => asShopifyGid("Product", it.productId))
+        .filter(Boolean) as string[]
+    )
+  );
+  const fallbackVariants = await firstVariantIds(admin, productOnly);
+
+  const lineItems = items
+    .map((it) => {
+      const variantId =
+        asShopifyGid("ProductVariant", it.variantId) ??
+        fallbackVariants.get(asShopifyGid("Product", it.productId) ?? "") ??
+        null;
+      return variantId ? { variantId, quantity: Math.max(1, it.qty) } : null;
+    })
+    .filter(Boolean);
+  if (!lineItems.length) throw new Error("no_variants");
+
+  const phone = toE164(r.phone);
+  const communeName = r.commune?.nameFr ?? r.commune?.nameAr ?? null;
+  const wilayaName = r.wilaya?.nameFr ?? r.wilaya?.nameAr ?? null;
+
+  const hasAddress = Boolean(r.address || communeName || wilayaName);
+
+  const noteLines = [
+    `Leadform request ${r.id}`,
+    r.phone && !phone ? `Phone: ${r.phone}` : null,
+    wilayaName ? `Wilaya: ${r.wilayaCode ?? ""} ${wilayaName}`.trim() : null,
+  ].filter(Boolean);
+
+  const resp = await admin.graphql(
+    `#graphql
+    mutation LeadformDraftOrderCreate($input: DraftOrderInput!) {
+      draftOrderCreate(input: $input) {
+        draftOrder { id name status invoiceUrl }
+        userErrors { field message }
+      }
+    }`,
+    {
+      variables: {
+        input: {
+          lineItems,
+          email: r.email || undefined,
+          phone: phone || undefined,
+          note: noteLines.join("\n"),
+          tags: ["leadform"],
+          shippingAddress: hasAddress
+            ? {
+                firstName: r.firstName || undefined,
+                lastName: r.lastName || undefined,
+                address1: r.address || undefined,
+                city: communeName || undefined,
+                province: wilayaName || undefined,
+                zip: r.zip || undefined,
+                countryCode: "DZ",
+                phone: phone || undefined,
+              }
+            : undefined,
+        },
+      },
+    }
+  );
+
+  const json: any = await resp.json();
+  const payload = json?.data?.draftOrderCreate;
+  const userErrors = payload?.userErrors ?? [];
+  if (userErrors.length) {
+    throw new Error(userErrors.map((e: any) => e?.message).filter(Boolean).join("; ") || "draft_order_failed");
+  }
+
+  const d = payload?.draftOrder;
+  if (!d?.id) throw new Error(json?.errors?.[0]?.message || "draft_order_failed");
+
+  await prisma.request.update({
+    where: { id: r.id },
+    data: {
+      draftOrderId: d.id,
+      draftOrderName: d.name ?? null,
+      draftOrderStatus: d.status ?? null,
+      draftOrderInvoiceUrl: d.invoiceUrl ?? null,
+      draftOrderCreatedAt: new Date(),
+    },
+  });
+
+  return { id: d.id, name: d.name ?? null, status: d.status ?? null, invoiceUrl: d.invoiceUrl ?? null, orderName: null };
+}
+
+/**
+ * Live draft status for the detail view; the stored copy is refreshed when it changed.
+ * Returns null when the draft was deleted in Shopify (the stored link is cleared).
+ */
+export async function refreshDraftOrder(input: {
+  admin: AdminGraphql;
+  requestId: string;
+  draftOrderId: string;
+  stored: { status: string | null; invoiceUrl: string | null };
+}): Promise<DraftOrderInfo | null> {
+  const { admin, requestId, draftOrderId } = input;
+
+  const resp = await admin.graphql(
+    `#graphql
+    query LeadformDraftOrder($id: ID!) {
+      draftOrder(id: $id) { id name status invoiceUrl order { name } }
+    }`,
+    { variables: { id: draftOrderId } }
+  );
+  const json: any = await resp.json();
+  if (json?.errors?.length) throw new Error(json.errors[0]?.message || "draft_order_lookup_failed");
+
+  const d = json?.data?.draftOrder;
+  if (!d) {
+    await prisma.request.update({
+      where: { id: requestId },
+      data: {
+        draftOrderId: null,
+        draftOrderName: null,
+        draftOrderStatus: null,
+        draftOrderInvoiceUrl: null,
+        draftOrderCreatedAt: null,
+      },
+    });
+    return null;
+  }
+
+  const status = d.status ?? null;
+  const invoiceUrl = d.invoiceUrl ?? null;
+  if (status !== input.stored.status || invoiceUrl !== input.stored.invoiceUrl) {
+    await prisma.request.update({
+      where: { id: requestId },
+      data: { draftOrderStatus: status, draftOrderInvoiceUrl: invoiceUrl },
+    });
+  }
+
+  return {
+    id: d.id,
+    name: d.name ?? null,
+    status,
+    invoiceUrl,
+    orderName: d.order?.name ?? null,
+  };
+}
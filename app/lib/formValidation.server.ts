@@ -0,0 +1,338 @@
+// app/lib/formValidation.server.ts
+import type { FieldType, FormField, RoleType } from "@prisma/client";
+
+/**
+ * Server-side validation of storefront submissions against the form's FormField rows.
+ * - Fields hidden for the chosen role (options.visibleFor) or not visible are dropped
+ * - Type rules: email, tel, number (min/max/step), date, select/radio membership, multiselect
+ * - Text rules: minLength / maxLength / pattern
+ * - Errors are keyed by nameKey and prefer the merchant's configured errorMessage
+ *
+ * Rules are read from field.validation first, then field.options (the builder stores
+ * number min/step in options).
+ */
+
+// Keys the submit route reads from the top-level body (they map to Request columns).
+export const CORE_FIELD_KEYS = [
+  "firstName",
+  "lastName",
+  "email",
+  "phone",
+  "address",
+  "wilayaCode",
+  "communeId",
+  "qty",
+] as const;
+
+export type CoreFieldKey = (typeof CORE_FIELD_KEYS)[number];
+
+const CORE_KEYS = new Set<string>(CORE_FIELD_KEYS);
+
+const ALL_ROLES: RoleType[] = ["individual", "installer", "company"];
+
+export type ValidatableField = Pick<
+  FormField,
+  "type" | "label" | "nameKey" | "required" | "visible" | "options" | "validation" | "errorMessage"
+>;
+
+export type FieldErrors = Record<string, string>;
+
+export type SubmissionValidation =
+  | {
+      ok: true;
+      // Normalized custom values (non-core keys), ready for Request.values
+      values: Record<string, unknown>;
+      // Field keys that are not shown to this role (drop them from the request)
+      hiddenKeys: string[];
+    }
+  | { ok: false; errors: FieldErrors };
+
+type OptionItem = { label: string; value: string };
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function asObject(input: unknown): Record<string, any> {
+  return input && typeof input === "object" && !Array.isArray(input) ? (input as any) : {};
+}
+
+function rule(field: ValidatableField, key: string): unknown {
+  const v = asObject(field.validation)[key];
+  if (v !== undefined && v !== null && v !== "") return v;
+  const o = asObject(field.options)[key];
+  return o !== undefined && o !== null && o !== "" ? o : undefined;
+}
+
+function numberRule(field: ValidatableField, key: string): number | null {
+  const raw = rule(field, key);
+  if (raw === undefined) return null;
+  const n = Number(raw);
+  return Number.isFinite(n) ? n : null;
+}
+
+function visibleForRoles(field: ValidatableField): RoleType[] {
+  const raw = asObject(field.options).visibleFor;
+  if (!Array.isArray(raw) || raw.length === 0) return ALL_ROLES;
+  return raw.filter((r): r is RoleType => ALL_ROLES.includes(r as RoleType));
+}
+
+export function isFieldVisibleForRole(field: ValidatableField, roleType: RoleType) {
+  if (!field.visible) return false;
+  return visibleForRoles(field).includes(roleType);
+}
+
+function optionItems(field: ValidatableField): OptionItem[] {
+  const raw = asObject(field.options).items;
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((x: any) => ({
+      label: String(x?.label ?? x?.value ?? ""),
+      value: String(x?.value ?? x?.label ?? ""),
+    }))
+    .filter((x) => x.value);
+}
+
+function isEmpty(v: unknown) {
+  if (v === null || v === undefined) return true;
+  if (typeof v === "string") return v.trim() === "";
+  if (Array.isArray(v)) return v.length === 0;
+  return false;
+}
+
+function isFile(v: unknown): v is File {
+  return typeof File !== "undefined" && v instanceof File && v.size > 0;
+}
+
+function defaultMessage(field: ValidatableField, kind: string, extra?: string | number) {
+  const label = field.label || field.nameKey;
+  if (kind === "required") return `${label} is required`;
+  if (kind === "email") return `${label} must be a valid email`;
+  if (kind === "tel") return `${label} must be a valid phone number`;
+  if (kind === "number") return `${label} must be a number`;
+  if (kind === "min") return `${label} must be at least ${extra}`;
+  if (kind === "max") return `${label} must be at most ${extra}`;
+  if (kind === "step") return `${label} must be a multiple of ${extra}`;
+  if (kind === "date") return `${label} must be a valid date (YYYY-MM-DD)`;
+  if (kind === "option") return `${label} has an invalid choice`;
+  if (kind === "minLength") return `${label} must be at least ${extra} characters`;
+  if (kind === "maxLength") return `${label} must be at most ${extra} characters`;
+  if (kind === "pattern") return `${label} has an invalid format`;
+  return `${label} is invalid`;
+}
+
+function fail(field: ValidatableField, kind: string, extra?: string | number) {
+  // Merchant-configured message wins for every rule on that field
+  return field.errorMessage?.trim() || defaultMessage(field, kind, extra);
+}
+
+function toList(v: unknown): string[] {
+  if (Array.isArray(v)) return v.map((x) => String(x ?? "").trim()).filter(Boolean);
+  if (typeof v === "string") {
+    const s = v.trim();
+    if (!s) return [];
+    if (s.startsWith("[") && s.endsWith("]")) {
+      try {
+        const parsed = JSON.parse(s);
+        if (Array.isArray(parsed)) return toList(parsed);
+      } catch {
+        // fall through to comma split
+      }
+    }
+    return s
+      .split(",")
+      .map((x) => x.trim())
+      .filter(Boolean);
+  }
+  return [];
+}
+
+function toBool(v: unknown) {
+  if (typeof v === "boolean") return v;
+  const s = String(v ?? "").trim().toLowerCase();
+  return s === "true" || s === "on" || s === "1" || s === "yes";
+}
+
+function isValidDate(s: string) {
+  if (!DATE_RE.test(s)) return false;
+  const d = new Date(`${s}T00:00:00Z`);
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === s;
+}
+
+function isValidPhone(s: string) {
+  const digits = s.replace(/[\s().-]/g, "");
+  return /^\+?\d{8,15}$/.test(digits);
+}
+
+function checkLength(field: ValidatableField, s: string): string | null {
+  const minLength = numberRule(field, "minLength");
+  const maxLength = numberRule(field, "maxLength");
+  if (minLength != null && s.length < minLength) return fail(field, "minLength", minLength);
+  if (maxLength != null && s.length > maxLength) return fail(field, "maxLength", maxLength);
+
+  const pattern = rule(field, "pattern");
+  if (typeof pattern === "string" && pattern) {
+    try {
+      if (!new RegExp(pattern).test(s)) return fail(field, "pattern");
+    } catch {
+      // bad merchant regex: ignore rather than block every submission
+    }
+  }
+  return null;
+}
+
+function checkNumber(field: ValidatableField, raw: unknown): { error: string | null; value: number | null } {
+  const n = Number(String(raw).trim());
+  if (!Number.isFinite(n)) return { error: fail(field, "number"), value: null };
+
+  const min = numberRule(field, "min");
+  const max = numberRule(field, "max");
+  const step = numberRule(field, "step");
+
+  if (min != null && n < min) return { error: fail(field, "min", min), value: null };
+  if (max != null && n > max) return { error: fail(field, "max", max), value: null };
+
+  if (step != null && step > 0) {
+    const base = min ?? 0;
+    const ratio = (n - base) / step;
+    // tolerate float noise (e.g. 0.1 steps)
+    if (Math.abs(ratio - Math.round(ratio)) > 1e-9) {
+      return { error: fail(field, "step", step), value: null };
+    }
+  }
+
+  return { error: null, value: n };
+}
+
+function checkDatasource(field: ValidatableField, s: string): string | null {
+  const datasource = asObject(field.options).datasource;
+  if (datasource === "wilayas") {
+    const n = Number(s);
+    return Number.isInteger(n) && n >= 1 && n <= 58 ? null : fail(field, "option");
+  }
+  // communes are validated by id lookups downstream
+  return null;
+}
+
+function validateField(
+  field: ValidatableField,
+  raw: unknown
+): { error: string | null; value: unknown } {
+  const type: FieldType = field.type;
+
+  if (type === "file") {
+    const files = Array.isArray(raw) ? raw.filter(isFile) : isFile(raw) ? [raw] : [];
+    if (field.required && files.length === 0) return { error: fail(field, "required"), value: null };
+    // Not a value: the submit route uploads the files and stores them as attachments
+    return { error: null, value: undefined };
+  }
+
+  if (type === "checkbox") {
+    const checked = toBool(raw);
+    if (field.required && !checked) return { error: fail(field, "required"), value: null };
+    return { error: null, value: checked };
+  }
+
+  if (type === "multiselect") {
+    const list = toList(raw);
+    if (list.length === 0) {
+      return field.required ? { error: fail(field, "required"), value: null } : { error: null, value: [] };
+    }
+
+    const items = optionItems(field);
+    if (items.length) {
+      const allowed = new Set(items.map((x) => x.value));
+      if (list.some((x) => !allowed.has(x))) return { error: fail(field, "option"), value: null };
+    }
+
+    const minSelected = numberRule(field, "minSelected");
+    const maxSelected = numberRule(field, "maxSelected");
+    if (minSelected != null && list.length < minSelected) return { error: fail(field, "min", minSelected), value: null };
+    if (maxSelected != null && list.length > maxSelected) return { error: fail(field, "max", maxSelected), value: null };
+
+    return { error: null, value: Array.from(new Set(list)) };
+  }
+
+  if (isEmpty(raw)) {
+    return field.required ? { error: fail(field, "required"), value: null } : { error: null, value: null };
+  }
+
+  const s = String(Array.isArray(raw) ? raw[0] : raw).trim();
+
+  if (type === "email") {
+    if (!EMAIL_RE.test(s)) return { error: fail(field, "email"), value: null };
+    return { error: checkLength(field, s), value: s.toLowerCase() };
+  }
+
+  if (type === "tel") {
+    if (!isValidPhone(s)) return { error: fail(field, "tel"), value: null };
+    return { error: checkLength(field, s), value: s };
+  }
+
+  if (type === "number") {
+    return checkNumber(field, s);
+  }
+
+  if (type === "date") {
+    if (!isValidDate(s)) return { error: fail(field, "date"), value: null };
+    const min = rule(field, "min");
+    const max = rule(field, "max");
+    if (typeof min === "string" && isValidDate(min) && s < min) return { error: fail(field, "min", min), value: null };
+    if (typeof max === "string" && isValidDate(max) && s > max) return { error: fail(field, "max", max), value: null };
+    return { error: null, value: s };
+  }
+
+  if (type === "select" || type === "radio") {
+    const items = optionItems(field);
+    if (items.length && !items.some((x) => x.value === s)) return { error: fail(field, "option"), value: null };
+    if (!items.length) {
+      const dsError = checkDatasource(field, s);
+      if (dsError) return { error: dsError, value: null };
+    }
+    return { error: null, value: s };
+  }
+
+  // text, textarea, hidden
+  return { error: checkLength(field, s), value: s };
+}
+
+/**
+ * Validate a parsed submission body against form fields for a role.
+ * Core keys are read from the top-level body; custom keys from body.values first,
+ * then the top-level body (multipart forms post them flat).
+ */
+export function validateSubmission(input: {
+  fields: ValidatableField[];
+  roleType: RoleType;
+  body: Record<string, unknown>;
+  values: Record<string, unknown>;
+}): SubmissionValidation {
+  const { fields, roleType, body, values } = input;
+
+  const errors: FieldErrors = {};
+  const outValues: Record<string, unknown> = {};
+  const hiddenKeys: string[] = [];
+
+  for (const field of fields) {
+    const key = field.nameKey;
+
+    if (!isFieldVisibleForRole(field, roleType)) {
+      hiddenKeys.push(key);
+      continue;
+    }
+
+    const raw = CORE_KEYS.has(key) ? body[key] : values[key] !== undefined ? values[key] : body[key];
+    const res = validateField(field, raw);
+
+    if (res.error) {
+      errors[key] = res.error;
+      continue;
+    }
+
+    if (!CORE_KEYS.has(key) && res.value !== undefined && res.value !== null) {
+      outValues[key] = res.value;
+    }
+  }
+
+  if (Object.keys(errors).length) return { ok: false, errors };
+  return { ok: true, values: outValues, hiddenKeys };
+}
@@ -0,0 +1,61 @@
+// app/lib/forms.server.ts
+import type { Prisma, RoleType } from "@prisma/client";
+import { prisma } from "~/db.server";
+
+/**
+ * Form resolution for the App Proxy (storefront) routes.
+ * Priority:
+ * 1) Role.formId (per-role override, resolveFormForRole only)
+ * 2) ShopSettings.currentFormId (pinned by merchant)
+ * 3) Latest active form
+ */
+
+const formWithFields = {
+  fields: { orderBy: { orderIndex: "asc" } },
+} satisfies Prisma.FormInclude;
+
+export type ResolvedForm = Prisma.FormGetPayload<{ include: typeof formWithFields }>;
+
+export async function resolveActiveForm(shopId: string): Promise<ResolvedForm | null> {
+  const settings = await prisma.shopSettings.findUnique({
+    where: { shopId },
+    select: { currentFormId: true },
+  });
+
+  const pinned = settings?.currentFormId
+    ? await prisma.form.findFirst({
+        where: { id: settings.currentFormId, shopId },
+        include: formWithFields,
+      })
+    : null;
+
+  if (pinned) return pinned;
+
+  return prisma.form.findFirst({
+    where: { shopId, isActive: true },
+    include: formWithFields,
+    orderBy: { updatedAt: "desc" },
+  });
+}
+
+/**
+ * The role's own form when it has one (archived forms are ignored), otherwise the shop default.
+ */
+export async function resolveFormForRole(
+  shopId: string,
+  roleType: RoleType
+): Promise<ResolvedForm | null> {
+  const role = await prisma.role.findFirst({
+    where: { shopId, type: roleType, active: true },
+    select: { formId: true },
+  });
+
+  const override = role?.formId
+    ? await prisma.form.findFirst({
+        where: { id: role.formId, shopId, status: { not: "archived" } },
+        include: formWithFields,
+      })
+    : null;
+
+  return override ?? resolveActiveForm(shopId);
+}
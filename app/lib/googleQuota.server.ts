@@ -0,0 +1,131 @@
+// app/lib/googleQuota.server.ts
+import { prisma } from "~/db.server";
+
+/**
+ * Rate limiting for Google Sheets API calls. The buckets live in Postgres so
+ * every app instance (and the cron runner) draws from the same budget.
+ * - "project": the per-project quota, shared by every shop
+ * - "shop:<id>": the per-user quota (each shop calls with its own Google account)
+ * - A 429 / rateLimitExceeded pauses the matching bucket for Retry-After and the
+ *   call is retried; waits longer than MAX_WAIT_MS fail with sheets_rate_limited
+ *   so the job backs off instead of holding the worker
+ */
+
+// Google defaults: 300 requests/min per project, 60/min per user
+const PROJECT_PER_MIN = Number(process.env.GOOGLE_SHEETS_PROJECT_PER_MIN || 300);
+const USER_PER_MIN = Number(process.env.GOOGLE_SHEETS_USER_PER_MIN || 60);
+
+// Burst = this many seconds of quota
+const BURST_SECONDS = 10;
+
+const MAX_WAIT_MS = 30_000;
+const MAX_RATE_RETRIES = 3;
+const DEFAULT_PAUSE_MS = 5_000;
+const MAX_PAUSE_MS = 60_000;
+
+type Bucket = { key: string; perSec: number; capacity: number };
+
+function bucket(key: string, perMin: number): Bucket {
+  const perSec = Math.max(0.01, perMin / 60);
+  return { key, perSec, capacity: Math.max(1, Math.floor(perSec * BURST_SECONDS)) };
+}
+
+const projectBucket = () => bucket("project", PROJECT_PER_MIN);
+const shopBucket = (shopId: string) => bucket(`shop:${shopId}`, USER_PER_MIN);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Take one token; null when granted, else how long to wait before trying again. */
+async function tryTake(b: Bucket): Promise<number | null> {
+  const rows = await prisma.$queryRaw<Array<{ tokens: number }>>`
+    INSERT INTO "GoogleRateBucket" ("key", "tokens", "refilledAt")
+    VALUES (${b.key}, ${b.capacity - 1}, now())
+    ON CONFLICT ("key") DO UPDATE SET
+      "tokens" = LEAST(${b.capacity}::float8, "GoogleRateBucket"."tokens"
+        + EXTRACT(EPOCH FROM (now() - "GoogleRateBucket"."refilledAt")) * ${b.perSec}::float8) - 1,
+      "refilledAt" = now()
+    WHERE ("GoogleRateBucket"."pausedUntil" IS NULL OR "GoogleRateBucket"."pausedUntil" <= now())
+      AND LEAST(${b.capacity}::float8, "GoogleRateBucket"."tokens"
+        + EXTRACT(EPOCH FROM (now() - "GoogleRateBucket"."refilledAt")) * ${b.perSec}::float8) >= 1
+    RETURNING "tokens"
+  `;
+  if (rows.length) return null;
+
+  const row = await prisma.googleRateBucket.findUnique({
+    where: { key: b.key },
+    select: { tokens: true, refilledAt: true, pausedUntil: true },
+  });
+  if (!row) return 100;
+
+  const paused = row.pausedUntil ? row.pausedUntil.getTime() - Date.now() : 0;
+  const elapsed = (Date.now() - row.refilledAt.getTime()) / 1000;
+  const missing = 1 - Math.min(b.capacity, row.tokens + elapsed * b.perSec);
+  return Math.max(50, paused, Math.ceil((missing / b.perSec) * 1000));
+}
+
+async function take(b: Bucket, deadline: number) {
+  for (;;) {
+    const wait = await tryTake(b);
+    if (wait == null) return;
+    if (Date.now() + wait > deadline) throw new Error("sheets_rate_limited");
+    await sleep(wait);
+  }
+}
+
+async function pauseBucket(b: Bucket, ms: number) {
+  const until = new Date(Date.now() + ms);
+  await prisma.googleRateBucket.upsert({
+    where: { key: b.key },
+    update: { pausedUntil: until, tokens: 0, refilledAt: until },
+    create: { key: b.key, tokens: 0, refilledAt: until, pausedUntil: until },
+  });
+}
+
+function isRateLimited(e: any) {
+  const status = Number(e?.response?.status ?? e?.code ?? 0);
+  const reason = String(e?.errors?.[0]?.reason ?? e?.response?.data?.error?.errors?.[0]?.reason ?? "");
+  return status === 429 || reason === "rateLimitExceeded" || reason === "userRateLimitExceeded";
+}
+
+/** Retry-After (seconds or HTTP date) in ms, when Google sent one. */
+function retryAfterMs(e: any) {
+  const headers = e?.response?.headers;
+  const raw = typeof headers?.get === "function" ? headers.get("retry-after") : headers?.["retry-after"];
+  if (raw == null || raw === "") return null;
+
+  const seconds = Number(raw);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const at = Date.parse(String(raw));
+  return Number.isNaN(at) ? null : Math.max(0, at - Date.now());
+}
+
+/** Per-user quota messages name the user limit; anything else counts against the project. */
+function isUserQuota(e: any) {
+  const text = [e?.message, e?.errors?.[0]?.reason, e?.response?.data?.error?.message].join(" ").toLowerCase();
+  return text.includes("per user") || text.includes("userratelimitexceeded");
+}
+
+/**
+ * Run one Sheets API call within the project + shop budgets, retrying rate
+ * limited responses after Retry-After (or an exponential pause).
+ */
+export async function withSheetsQuota<T>(shopId: string, call: () => Promise<T>): Promise<T> {
+  const project = projectBucket();
+  const shop = shopBucket(shopId);
+
+  for (let attempt = 0; ; attempt++) {
+    const deadline = Date.now() + MAX_WAIT_MS;
+    await take(shop, deadline);
+    await take(project, deadline);
+
+    try {
+      return await call();
+    } catch (e: any) {
+      if (!isRateLimited(e) || attempt >= MAX_RATE_RETRIES) throw e;
+
+      const pause = Math.min(MAX_PAUSE_MS, retryAfterMs(e) ?? DEFAULT_PAUSE_MS * 2 ** attempt);
+      await pauseBucket(isUserQuota(e) ? shop : project, pause).catch(() => {});
+      console.warn(`[sheets] rate limited (${shopId}), retrying in ${Math.round(pause / 1000)}s`);
+    }
+  }
+}
@@ -0,0 +1,701 @@
+// app/lib/jobs.server.ts
+import { hostname } from "node:os";
+import { randomBytes } from "node:crypto";
+import { Prisma, type Job, type PixelPlatform } from "@prisma/client";
+import { prisma } from "~/db.server";
+import {
+  hasSheetDestination,
+  logQueuedSheetSync,
+  syncRequestsFromSheetToDb,
+  syncRequestsToSheets,
+} from "~/lib/sheets.server";
+import {
+  firePixelsForRequest,
+  loadPixelRequestContext,
+  PIXEL_EVENTS,
+  type PixelEventName,
+} from "~/lib/pixels.server";
+import { rollupRecentAnalytics } from "~/lib/analytics.server";
+import { priceRequest } from "~/lib/pricing.server";
+import { pollActiveShipments } from "~/lib/shipping.server";
+
+/**
+ * Postgres-backed background jobs.
+ * - enqueueJob() inserts a row (idempotencyKey dedupes repeated enqueues)
+ * - processJobs() claims due rows with FOR UPDATE SKIP LOCKED, so several
+ *   app instances (or the cron route) can run side by side
+ * - Failures retry with exponential backoff until maxAttempts, then the job is "dead"
+ * - A handler can throw permanentJobError() to dead-letter immediately
+ * - Types with a batch handler (sheets.upsert) run together when claimed in
+ *   the same batch for the same shop; submit upserts are delayed a couple of
+ *   seconds so bursts land in one batch
+ *
+ * Runners:
+ * - startJobWorker(): in-process poll loop (JOB_WORKER=off disables it)
+ * - /api/jobs/run: cron tick for hosts without long-lived processes
+ */
+
+export type JobType = "sheets.upsert" | "sheets.pull" | "pixel.fire" | "analytics.rollup" | "shipping.poll";
+
+export type JobPayloads = {
+  "sheets.upsert": { shopDomain: string; requestId: string; connectionIds?: string[] }; // set = retry these sheets only
+  "sheets.pull": { shopDomain?: string; slot?: string }; // no shopDomain = fan out to every opted-in shop
+  "pixel.fire": { requestId: string; event: PixelEventName; platforms?: PixelPlatform[] };
+  "analytics.rollup": { days: number };
+  "shipping.poll": { limit: number };
+};
+
+type JobHandler = (job: Job, payload: any) => Promise<void>;
+
+const WORKER_ID = `${hostname()}:${process.pid}:${randomBytes(3).toString("hex")}`;
+
+const BACKOFF_BASE_MS = 30_000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+// A job still "running" after this long is assumed to belong to a crashed worker
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+const DEFAULT_BATCH = 10;
+
+// Submit-time Sheets upserts run on the next window boundary, so a burst shares one runAt (and one batch)
+const SHEETS_COALESCE_MS = 2_000;
+
+function coalescedRunAt() {
+  return new Date((Math.floor(Date.now() / SHEETS_COALESCE_MS) + 1) * SHEETS_COALESCE_MS);
+}
+
+export function permanentJobError(code: string) {
+  return Object.assign(new Error(code), { permanent: true });
+}
+
+function isPermanent(e: any) {
+  return Boolean(e?.permanent);
+}
+
+function backoffMs(attempts: number) {
+  const exp = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1));
+  // ±20% jitter so a burst of failures doesn't retry in lockstep
+  const jitter = exp * 0.2 * (Math.random() * 2 - 1);
+  return Math.max(1000, Math.round(exp + jitter));
+}
+
+const GOOGLE_PERMANENT_ERRORS = new Set([
+  "google_not_connected",
+  "google_reconnect_required",
+  "request_not_found",
+]);
+
+/** sheets.upsert outcome: null = done (incl. nothing to sync into), else the error to fail with. */
+function sheetsUpsertError(e: any) {
+  const code = String(e?.message || "");
+  // Nothing to sync into; the merchant can export later from Integrations
+  if (code === "no_primary_sheet" || code === "shop_not_found") return null;
+  if (GOOGLE_PERMANENT_ERRORS.has(code)) return permanentJobError(code);
+  return e;
+}
+
+// Rows carry the order value: price first (no-op once priced); a pricing failure doesn't block the sync
+async function priceBeforeSheetSync(requestId: string) {
+  await priceRequest(requestId).catch((e: any) => {
+    if (e?.message !== "request_not_found") console.error("[jobs] pricing failed:", e?.message || e);
+  });
+}
+
+/**
+ * sheets.upsert jobs of one shop in one write. A job whose request failed on some
+ * sheets keeps only those in its payload, so the retry skips the ones that succeeded.
+ * Returns each job's error (null = succeeded).
+ */
+async function runSheetsUpserts(jobs: Job[]) {
+  const payloads = jobs.map((j) => j.payload as JobPayloads["sheets.upsert"]);
+  const outcome = new Map<string, any>();
+  for (const p of payloads) await priceBeforeSheetSync(p.requestId);
+
+  // A request also queued without a restriction (another job in the batch) goes everywhere
+  const connectionIds = new Map<string, string[]>();
+  const everywhere = new Set<string>();
+  for (const p of payloads) {
+    if (!p.connectionIds?.length) everywhere.add(p.requestId);
+    else connectionIds.set(p.requestId, [...(connectionIds.get(p.requestId) ?? []), ...p.connectionIds]);
+  }
+  for (const id of everywhere) connectionIds.delete(id);
+
+  let failures: Awaited<ReturnType<typeof syncRequestsToSheets>>;
+  try {
+    failures = await syncRequestsToSheets(
+      payloads[0].shopDomain,
+      payloads.map((p) => p.requestId),
+      { connectionIds }
+    );
+  } catch (e: any) {
+    const error = sheetsUpsertError(e);
+    for (const j of jobs) outcome.set(j.id, error);
+    return outcome;
+  }
+
+  for (const [i, j] of jobs.entries()) {
+    const failure = failures.get(payloads[i].requestId);
+    if (failure?.connectionIds.length) {
+      await prisma.job.update({
+        where: { id: j.id },
+        data: { payload: { ...payloads[i], connectionIds: failure.connectionIds } },
+      });
+    }
+    outcome.set(j.id, failure ? sheetsUpsertError(failure.error) : null);
+  }
+  return outcome;
+}
+
+const handlers: Record<JobType, JobHandler> = {
+  "sheets.upsert": async (job) => {
+    const error = (await runSheetsUpserts([job])).get(job.id);
+    if (error) throw error;
+  },
+
+  "sheets.pull": async (_job, payload: JobPayloads["sheets.pull"]) => {
+    if (!payload.shopDomain) {
+      const shops = await prisma.shop.findMany({
+        where: {
+          uninstalledAt: null,
+          settings: { is: { sheetsPullEnabled: true } },
+          sheetsConnections: { some: { active: true } },
+        },
+        select: { id: true, shopDomain: true },
+      });
+      for (const s of shops) {
+        await enqueueJob({
+          type: "sheets.pull",
+          shopId: s.id,
+          payload: { shopDomain: s.shopDomain },
+          idempotencyKey: `sheets.pull:${s.shopDomain}:${payload.slot ?? ""}`,
+          maxAttempts: 2,
+        });
+      }
+      return;
+    }
+
+    try {
+      // Cheap Drive metadata check first; the sheet is only read when it changed
+      const report = await syncRequestsFromSheetToDb(payload.shopDomain, { trigger: "schedule", onlyIfChanged: true });
+      if (report.conflicts.length) {
+        console.warn(`[jobs] sheets.pull ${payload.shopDomain}: ${report.conflicts.length} conflict(s)`);
+      }
+    } catch (e: any) {
+      const code = String(e?.message || "");
+      if (code === "no_primary_sheet" || code === "shop_not_found") return;
+      if (GOOGLE_PERMANENT_ERRORS.has(code)) throw permanentJobError(code);
+      throw e;
+    }
+  },
+
+  "pixel.fire": async (job, payload: JobPayloads["pixel.fire"]) => {
+    if (!PIXEL_EVENTS.includes(payload.event)) throw permanentJobError("unknown_pixel_event");
+
+    // Pricing errors retry like delivery errors; the last attempt sends value 0
+    const ctx = await loadPixelRequestContext(payload.requestId, {
+      lastAttempt: job.attempts >= job.maxAttempts,
+    });
+    if (!ctx) throw permanentJobError("request_not_found");
+
+    const { retryable } = await firePixelsForRequest({
+      shopId: ctx.shopId,
+      event: payload.event,
+      request: ctx.request,
+      platforms: payload.platforms,
+    });
+
+    if (retryable.length) {
+      // Next attempt only re-sends to the platforms that failed
+      await prisma.job.update({
+        where: { id: job.id },
+        data: { payload: { ...payload, platforms: retryable } },
+      });
+      throw new Error(`pixel_delivery_failed: ${retryable.join(", ")}`);
+    }
+  },
+
+  "analytics.rollup": async (_job, payload: JobPayloads["analytics.rollup"]) => {
+    await rollupRecentAnalytics(payload.days);
+  },
+
+  "shipping.poll": async (_job, payload: JobPayloads["shipping.poll"]) => {
+    const summary = await pollActiveShipments({ limit: payload.limit });
+    if (summary.failed) console.warn(`[jobs] shipping.poll: ${summary.failed} shipment(s) failed to refresh`);
+  },
+};
+
+// Run several claimed jobs of one type + shop at once; returns each job's error (null = succeeded)
+type BatchJobHandler = (jobs: Job[]) => Promise<Map<string, any>>;
+
+const batchHandlers: Partial<Record<JobType, BatchJobHandler>> = {
+  "sheets.upsert": runSheetsUpserts,
+};
+
+export async function enqueueJob<T extends JobType>(input: {
+  type: T;
+  payload: JobPayloads[T];
+  shopId?: string | null;
+  idempotencyKey?: string | null;
+  maxAttempts?: number;
+  runAt?: Date;
+}): Promise<{ id: string; deduped: boolean }> {
+  try {
+    const job = await prisma.job.create({
+      data: {
+        type: input.type,
+        payload: input.payload as any,
+        shopId: input.shopId ?? null,
+        idempotencyKey: input.idempotencyKey ?? null,
+        maxAttempts: input.maxAttempts ?? undefined,
+        runAt: input.runAt ?? undefined,
+      },
+      select: { id: true },
+    });
+
+    kickJobWorker(input.runAt);
+    return { id: job.id, deduped: false };
+  } catch (e: any) {
+    if (
+      input.idempotencyKey &&
+      e instanceof Prisma.PrismaClientKnownRequestError &&
+      e.code === "P2002"
+    ) {
+      const existing = await prisma.job.findUnique({
+        where: { idempotencyKey: input.idempotencyKey },
+        select: { id: true },
+      });
+      if (existing) return { id: existing.id, deduped: true };
+    }
+    throw e;
+  }
+}
+
+/**
+ * Bulk enqueue (one createMany; keys that already exist are skipped).
+ * Returns the idempotency keys that were newly queued.
+ */
+export async function enqueueJobs<T extends JobType>(
+  inputs: Array<{
+    type: T;
+    payload: JobPayloads[T];
+    shopId?: string | null;
+    idempotencyKey: string;
+    maxAttempts?: number;
+    runAt?: Date;
+  }>
+) {
+  const queued = new Set<string>();
+  if (!inputs.length) return queued;
+
+  const existing = await prisma.job.findMany({
+    where: { idempotencyKey: { in: inputs.map((i) => i.idempotencyKey) } },
+    select: { idempotencyKey: true },
+  });
+  const seen = new Set(existing.map((j) => j.idempotencyKey));
+  const fresh = inputs.filter((i) => !seen.has(i.idempotencyKey));
+  if (!fresh.length) return queued;
+
+  await prisma.job.createMany({
+    data: fresh.map((i) => ({
+      type: i.type,
+      payload: i.payload as any,
+      shopId: i.shopId ?? null,
+      idempotencyKey: i.idempotencyKey,
+      maxAttempts: i.maxAttempts ?? undefined,
+      runAt: i.runAt ?? undefined,
+    })),
+    skipDuplicates: true,
+  });
+
+  kickJobWorker(fresh[0].runAt);
+  for (const i of fresh) queued.add(i.idempotencyKey);
+  return queued;
+}
+
+/**
+ * Submit-time fan-out: DB -> Sheet upsert + "request_submitted" pixels.
+ */
+export async function enqueueRequestSubmittedJobs(input: {
+  shopId: string;
+  shopDomain: string;
+  requestId: string;
+}) {
+  const { shopId, shopDomain, requestId } = input;
+
+  await enqueueJob({
+    type: "sheets.upsert",
+    shopId,
+    payload: { shopDomain, requestId },
+    idempotencyKey: `sheets.upsert:${requestId}:submitted`,
+    runAt: coalescedRunAt(),
+  });
+  await logQueuedSheetSync(shopId, requestId).catch(() => {});
+
+  await enqueueJob({
+    type: "pixel.fire",
+    shopId,
+    payload: { requestId, event: "request_submitted" },
+    idempotencyKey: `pixel.fire:request_submitted:${requestId}`,
+  });
+}
+
+// Requests per enqueueJobs call when pushing admin changes
+const SHEET_REFRESH_BATCH = 500;
+
+/**
+ * Admin-side change (edits, assignment, status): push the rows to the sheets.
+ * Keyed per request and coalescing window, so changes inside one window share
+ * a job (it runs at the window's end, after them). No-op without a sheet.
+ */
+export async function enqueueSheetRefresh(shopId: string, requestIds: string[]) {
+  if (!requestIds.length || !(await hasSheetDestination(shopId))) return 0;
+
+  const shop = await prisma.shop.findUnique({ where: { id: shopId }, select: { shopDomain: true } });
+  if (!shop) return 0;
+
+  const runAt = coalescedRunAt();
+  let queued = 0;
+
+  for (let i = 0; i < requestIds.length; i += SHEET_REFRESH_BATCH) {
+    const keys = await enqueueJobs(
+      requestIds.slice(i, i + SHEET_REFRESH_BATCH).map((requestId) => ({
+        type: "sheets.upsert" as const,
+        shopId,
+        payload: { shopDomain: shop.shopDomain, requestId },
+        idempotencyKey: `sheets.upsert:${requestId}:changed:${runAt.getTime()}`,
+        runAt,
+      }))
+    );
+    queued += keys.size;
+  }
+
+  return queued;
+}
+
+/**
+ * Admin "Re-sync to Sheets" for a selection: one sheets.upsert job per request.
+ * Keyed per minute, so a double-click does not queue everything twice.
+ */
+export async function enqueueSheetResync(input: { shopId: string; shopDomain: string; requestIds: string[] }) {
+  const { shopId, shopDomain } = input;
+  if (!(await hasSheetDestination(shopId))) throw new Error("no_primary_sheet");
+
+  const slot = new Date().toISOString().slice(0, 16);
+  let queued = 0;
+
+  for (const requestId of input.requestIds) {
+    const { deduped } = await enqueueJob({
+      type: "sheets.upsert",
+      shopId,
+      payload: { shopDomain, requestId },
+      idempotencyKey: `sheets.upsert:${requestId}:resync:${slot}`,
+    });
+    if (deduped) continue;
+    queued += 1;
+    await logQueuedSheetSync(shopId, requestId).catch(() => {});
+  }
+
+  return { queued };
+}
+
+/**
+ * Recurring jobs: one AnalyticsDaily rollup per hour and one courier status poll
+ * per quarter hour (the time slot is the idempotency key, so several workers
+ * scheduling at once still create a single job). The hourly tick also prunes
+ * finished jobs.
+ */
+let lastScheduledHour: string | null = null;
+let lastShippingSlot: string | null = null;
+let lastSheetsPullSlot: string | null = null;
+
+// Sheet change checks are one Drive metadata call per shop, so they can run often
+const SHEETS_PULL_EVERY_MIN = 2;
+
+async function scheduleRecurringJobs() {
+  const now = new Date();
+  const hour = now.toISOString().slice(0, 13);
+
+  if (hour !== lastScheduledHour) {
+    await enqueueJob({
+      type: "analytics.rollup",
+      payload: { days: 2 },
+      idempotencyKey: `analytics.rollup:${hour}`,
+      maxAttempts: 3,
+    });
+    await pruneFinishedJobs().catch((e) => console.error("[jobs] prune failed:", e?.message || e));
+    lastScheduledHour = hour;
+  }
+
+  const slot = `${hour}:${Math.floor(now.getUTCMinutes() / 15)}`;
+  if (slot !== lastShippingSlot) {
+    await enqueueJob({
+      type: "shipping.poll",
+      payload: { limit: 50 },
+      idempotencyKey: `shipping.poll:${slot}`,
+      maxAttempts: 1,
+    });
+    lastShippingSlot = slot;
+  }
+
+  const pullSlot = `${hour}:${Math.floor(now.getUTCMinutes() / SHEETS_PULL_EVERY_MIN)}`;
+  if (pullSlot !== lastSheetsPullSlot) {
+    await enqueueJob({
+      type: "sheets.pull",
+      payload: { slot: pullSlot },
+      idempotencyKey: `sheets.pull:${pullSlot}`,
+      maxAttempts: 1,
+    });
+    lastSheetsPullSlot = pullSlot;
+  }
+}
+
+// Finished rows are kept this long (dead ones longer, for inspection)
+const SUCCEEDED_RETENTION_DAYS = Number(process.env.JOB_SUCCEEDED_RETENTION_DAYS || 14);
+const DEAD_RETENTION_DAYS = Number(process.env.JOB_DEAD_RETENTION_DAYS || 90);
+
+const PRUNE_BATCH = 5_000;
+
+/**
+ * Delete succeeded/dead jobs past retention, a bounded batch per statement.
+ * Their idempotency keys go with them, so keys only dedupe within retention.
+ */
+async function pruneFinishedJobs() {
+  const day = 24 * 60 * 60 * 1000;
+  const targets = [
+    { status: "succeeded", before: new Date(Date.now() - SUCCEEDED_RETENTION_DAYS * day) },
+    { status: "dead", before: new Date(Date.now() - DEAD_RETENTION_DAYS * day) },
+  ];
+
+  let deleted = 0;
+  for (const t of targets) {
+    for (;;) {
+      const count = await prisma.$executeRaw`
+        DELETE FROM "Job"
+        WHERE "id" IN (
+          SELECT "id" FROM "Job"
+          WHERE "status" = ${t.status}::"JobStatus" AND "finishedAt" < ${t.before}
+          LIMIT ${PRUNE_BATCH}
+        )
+      `;
+      deleted += count;
+      if (count < PRUNE_BATCH) break;
+    }
+  }
+
+  if (deleted) console.log(`[jobs] pruned ${deleted} finished job(s)`);
+}
+
+/**
+ * A lock older than STALE_LOCK_MS means the worker died mid-run. That run was
+ * counted when the job was claimed, so it fails like any other attempt: dead
+ * once maxAttempts is used up, otherwise requeued with backoff.
+ */
+async function releaseStaleLocks() {
+  const stale = await prisma.job.findMany({
+    where: { status: "running", lockedAt: { lt: new Date(Date.now() - STALE_LOCK_MS) } },
+    select: { id: true, type: true, attempts: true, maxAttempts: true, lockedAt: true },
+  });
+
+  for (const job of stale) {
+    const dead = job.attempts >= job.maxAttempts;
+
+    // Guarded on the lock we saw, so a concurrent release does not apply twice
+    const res = await prisma.job.updateMany({
+      where: { id: job.id, status: "running", lockedAt: job.lockedAt },
+      data: dead
+        ? {
+            status: "dead",
+            lockedAt: null,
+            lockedBy: null,
+            lastError: "stale_lock",
+            finishedAt: new Date(),
+          }
+        : {
+            status: "queued",
+            lockedAt: null,
+            lockedBy: null,
+            lastError: "stale_lock",
+            runAt: new Date(Date.now() + backoffMs(job.attempts)),
+          },
+    });
+
+    if (res.count && dead) {
+      console.error(`[jobs] ${job.type} ${job.id} dead after ${job.attempts} attempt(s): stale_lock`);
+    }
+  }
+}
+
+async function claimJobs(limit: number): Promise<Job[]> {
+  return prisma.$queryRaw<Job[]>`
+    UPDATE "Job"
+    SET "status" = 'running'::"JobStatus",
+        "lockedAt" = now(),
+        "lockedBy" = ${WORKER_ID},
+        "attempts" = "attempts" + 1,
+        "updatedAt" = now()
+    WHERE "id" IN (
+      SELECT "id" FROM "Job"
+      WHERE "status" = 'queued'::"JobStatus" AND "runAt" <= now()
+      ORDER BY "runAt" ASC
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING *
+  `;
+}
+
+async function runJob(job: Job) {
+  const handler = handlers[job.type as JobType];
+
+  try {
+    if (!handler) throw permanentJobError(`unknown_job_type: ${job.type}`);
+
+    await handler(job, job.payload);
+    return finishJob(job, null);
+  } catch (e: any) {
+    return finishJob(job, e);
+  }
+}
+
+/** Jobs of one batch handler and shop; a handler crash fails all of them (each retries on its own). */
+async function runJobBatch(jobs: Job[], handler: BatchJobHandler) {
+  let errors: Map<string, any>;
+  try {
+    errors = await handler(jobs);
+  } catch (e: any) {
+    errors = new Map(jobs.map((j) => [j.id, e]));
+  }
+
+  const outcomes = [];
+  for (const job of jobs) outcomes.push(await finishJob(job, errors.get(job.id) ?? null));
+  return outcomes;
+}
+
+async function finishJob(job: Job, e: any) {
+  if (!e) {
+    await prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: "succeeded",
+        lockedAt: null,
+        lockedBy: null,
+        lastError: null,
+        finishedAt: new Date(),
+      },
+    });
+    return "succeeded" as const;
+  }
+
+  const error = String(e?.message || e || "job_failed").slice(0, 1000);
+  const dead = isPermanent(e) || job.attempts >= job.maxAttempts;
+
+  await prisma.job.update({
+    where: { id: job.id },
+    data: dead
+      ? {
+          status: "dead",
+          lockedAt: null,
+          lockedBy: null,
+          lastError: error,
+          finishedAt: new Date(),
+        }
+      : {
+          status: "queued",
+          lockedAt: null,
+          lockedBy: null,
+          lastError: error,
+          runAt: new Date(Date.now() + backoffMs(job.attempts)),
+        },
+  });
+
+  if (dead) console.error(`[jobs] ${job.type} ${job.id} dead after ${job.attempts} attempt(s): ${error}`);
+  return dead ? ("dead" as const) : ("retry" as const);
+}
+
+/** Claimed jobs as run units: batchable types grouped per shop, everything else alone. */
+function groupJobs(jobs: Job[]) {
+  const groups = new Map<string, Job[]>();
+  for (const job of jobs) {
+    const key = batchHandlers[job.type as JobType] ? `${job.type}:${job.shopId ?? ""}` : job.id;
+    groups.set(key, [...(groups.get(key) ?? []), job]);
+  }
+  return Array.from(groups.values());
+}
+
+/**
+ * Run due jobs until none are left (or maxJobs is reached).
+ */
+export async function processJobs(opts?: { maxJobs?: number; batchSize?: number }) {
+  const maxJobs = opts?.maxJobs ?? 100;
+  const batchSize = opts?.batchSize ?? DEFAULT_BATCH;
+  const summary = { processed: 0, succeeded: 0, retried: 0, dead: 0 };
+
+  await scheduleRecurringJobs();
+  await releaseStaleLocks();
+
+  while (summary.processed < maxJobs) {
+    const jobs = await claimJobs(Math.min(batchSize, maxJobs - summary.processed));
+    if (!jobs.length) break;
+
+    for (const group of groupJobs(jobs)) {
+      const batch = batchHandlers[group[0].type as JobType];
+      const outcomes = batch && group.length > 1 ? await runJobBatch(group, batch) : [await runJob(group[0])];
+
+      for (const outcome of outcomes) {
+        summary.processed += 1;
+        if (outcome === "succeeded") summary.succeeded += 1;
+        else if (outcome === "retry") summary.retried += 1;
+        else summary.dead += 1;
+      }
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * In-process worker loop (one per Node process).
+ */
+type WorkerState = { timer: ReturnType<typeof setInterval> | null; running: boolean };
+
+const globalForJobs = globalThis as unknown as { leadformJobWorker?: WorkerState };
+
+function workerState(): WorkerState {
+  if (!globalForJobs.leadformJobWorker) {
+    globalForJobs.leadformJobWorker = { timer: null, running: false };
+  }
+  return globalForJobs.leadformJobWorker;
+}
+
+async function tick() {
+  const state = workerState();
+  if (state.running) return;
+  state.running = true;
+  try {
+    await processJobs();
+  } catch (e: any) {
+    console.error("[jobs] worker tick failed:", e?.message || e);
+  } finally {
+    state.running = false;
+  }
+}
+
+export function startJobWorker() {
+  if (process.env.JOB_WORKER === "off") return;
+
+  const state = workerState();
+  if (state.timer) return;
+
+  const intervalMs = Number(process.env.JOB_POLL_INTERVAL_MS || 5000);
+  state.timer = setInterval(() => void tick(), intervalMs);
+  state.timer.unref?.();
+}
+
+// Run soon after an enqueue (or when a slightly delayed job is due) instead of waiting for the next poll
+function kickJobWorker(runAt?: Date) {
+  if (process.env.JOB_WORKER === "off") return;
+  const delay = runAt ? runAt.getTime() - Date.now() : 0;
+  if (delay > 60_000) return;
+  if (delay > 0) setTimeout(() => void tick(), delay + 50).unref?.();
+  else setImmediate(() => void tick());
+}
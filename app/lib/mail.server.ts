@@ -0,0 +1,114 @@
+// app/lib/mail.server.ts
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { randomBytes } from "node:crypto";
+import nodemailer, { type Transporter } from "nodemailer";
+
+/**
+ * Pluggable mail transport.
+ * MAIL_TRANSPORT selects the implementation:
+ * - "smtp"    → SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASS / SMTP_SECURE
+ * - "file"    → writes .eml-like JSON files into MAIL_FILE_DIR (default ./.mail)
+ * - "console" → logs that a message was sent, without its content (default when
+ *               SMTP_HOST is not set, outside production)
+ *
+ * In production, without SMTP_HOST, MAIL_TRANSPORT has to be set explicitly:
+ * the local transports never deliver anything.
+ *
+ * MAIL_FROM is the fallback sender when the shop has no ShopSettings.emailFrom.
+ */
+
+export type MailMessage = {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+};
+
+export type MailResult = { messageId: string | null };
+
+export interface MailTransport {
+  name: "smtp" | "file" | "console";
+  delivers: boolean; // false = written locally, nothing reaches the recipient
+  send(message: MailMessage): Promise<MailResult>;
+}
+
+function localMessageId() {
+  return `<${Date.now()}.${randomBytes(6).toString("hex")}@leadform.local>`;
+}
+
+function createSmtpTransport(): MailTransport {
+  const host = process.env.SMTP_HOST;
+  if (!host) throw new Error("Missing env: SMTP_HOST");
+
+  const port = Number(process.env.SMTP_PORT || 587);
+  const secure = process.env.SMTP_SECURE ? process.env.SMTP_SECURE === "true" : port === 465;
+  const user = process.env.SMTP_USER;
+  const pass = process.env.SMTP_PASS;
+
+  const transporter: Transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure,
+    auth: user ? { user, pass } : undefined,
+  });
+
+  return {
+    name: "smtp",
+    delivers: true,
+    async send(message) {
+      const info = await transporter.sendMail(message);
+      return { messageId: info?.messageId ?? null };
+    },
+  };
+}
+
+function createFileTransport(): MailTransport {
+  const dir = process.env.MAIL_FILE_DIR || path.join(process.cwd(), ".mail");
+
+  return {
+    name: "file",
+    delivers: false,
+    async send(message) {
+      const messageId = localMessageId();
+      await mkdir(dir, { recursive: true });
+      const file = path.join(dir, `${Date.now()}-${randomBytes(4).toString("hex")}.json`);
+      await writeFile(file, JSON.stringify({ messageId, ...message }, null, 2), "utf8");
+      return { messageId };
+    },
+  };
+}
+
+function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    delivers: false,
+    async send() {
+      // Content stays out of the logs (customer details)
+      const messageId = localMessageId();
+      console.info(`[mail] ${messageId} not delivered (console transport)`);
+      return { messageId };
+    },
+  };
+}
+
+let _transport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+  if (_transport) return _transport;
+
+  const fallback = process.env.SMTP_HOST ? "smtp" : process.env.NODE_ENV === "production" ? "" : "console";
+  const kind = (process.env.MAIL_TRANSPORT || fallback).trim().toLowerCase();
+  if (!kind) throw new Error("mail_not_configured");
+
+  if (kind === "smtp") _transport = createSmtpTransport();
+  else if (kind === "file") _transport = createFileTransport();
+  else _transport = createConsoleTransport();
+
+  return _transport;
+}
+
+export function defaultFromAddress() {
+  return process.env.MAIL_FROM || "LeadForm <no-reply@leadform.app>";
+}
@@ -0,0 +1,259 @@
+// app/lib/notifications.server.ts
+import type { NotificationTrigger } from "@prisma/client";
+import { prisma } from "~/db.server";
+import { createSignedUrl } from "~/lib/uploads.server";
+import { defaultFromAddress, getMailTransport } from "~/lib/mail.server";
+import { recordRequestEvent } from "~/lib/requestEvents.server";
+
+/**
+ * "New request" emails to the shop's NotificationRecipient list.
+ * - One message per active recipient (no BCC leaks between recipients)
+ * - Every attempt is stored in NotificationLog (sent / failed + error)
+ * - Never throws: callers run it best-effort after the request is saved
+ */
+
+// Attachment links in emails must outlive the 1h default used in the admin
+const ATTACHMENT_LINK_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+type RequestForEmail = NonNullable<Awaited<ReturnType<typeof loadRequest>>>;
+
+type RenderedAttachment = { label: string; url: string | null };
+
+export type NotifyResult = { sent: number; failed: number; logged: number };
+
+async function loadRequest(requestId: string) {
+  return prisma.request.findUnique({
+    where: { id: requestId },
+    include: {
+      shop: { select: { id: true, shopDomain: true, settings: { select: { emailFrom: true } } } },
+      role: { select: { title: true } },
+      wilaya: { select: { code: true, nameFr: true, nameAr: true } },
+      commune: { select: { nameFr: true, nameAr: true } },
+      items: { orderBy: { createdAt: "asc" } },
+      attachments: {
+        orderBy: { createdAt: "asc" },
+        include: { upload: { select: { bucket: true, path: true, url: true } } },
+      },
+    },
+  });
+}
+
+function escapeHtml(s: string) {
+  return s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function adminRequestUrl(shopDomain: string, requestId: string) {
+  const appUrl = process.env.SHOPIFY_APP_URL || "";
+  return appUrl ? `${appUrl}/app/requests/${requestId}?shop=${encodeURIComponent(shopDomain)}` : "";
+}
+
+function customerName(r: RequestForEmail) {
+  return [r.firstName, r.lastName].filter(Boolean).join(" ").trim() || "—";
+}
+
+function locationLabel(r: RequestForEmail) {
+  const w = r.wilaya
+    ? `${r.wilaya.code} - ${r.wilaya.nameFr || r.wilaya.nameAr}`
+    : r.wilayaCode
+    ? String(r.wilayaCode)
+    : "";
+  const c = r.commune?.nameFr || r.commune?.nameAr || "";
+  return [w, c].filter(Boolean).join(" / ") || "—";
+}
+
+async function resolveAttachments(r: RequestForEmail): Promise<RenderedAttachment[]> {
+  return Promise.all(
+    r.attachments.map(async (a) => {
+      const url =
+        a.upload.url ||
+        (await createSignedUrl({
+          bucket: a.upload.bucket,
+          path: a.upload.path,
+          expiresInSeconds: ATTACHMENT_LINK_TTL_SECONDS,
+        }).catch(() => null));
+
+      return { label: a.label || a.requirementKey || "Document", url };
+    })
+  );
+}
+
+function renderRequestEmail(r: RequestForEmail, attachments: RenderedAttachment[]) {
+  const values = (r.values && typeof r.values === "object" ? r.values : {}) as Record<string, any>;
+  const productTitle = typeof values.productTitle === "string" ? values.productTitle : null;
+  const adminUrl = adminRequestUrl(r.shop.shopDomain, r.id);
+
+  const name = customerName(r);
+  const role = r.role?.title || r.roleType;
+  const location = locationLabel(r);
+
+  const subject = `New request from ${name === "—" ? "a customer" : name} (${role})`;
+
+  const rows: Array<[string, string]> = [
+    ["Customer", name],
+    ["Phone", r.phone || "—"],
+    ["Email", r.email || "—"],
+    ["Role", role],
+    ["Wilaya / Commune", location],
+    ["Address", r.address || "—"],
+    ["Received", r.createdAt.toISOString()],
+  ];
+
+  const items = r.items.map((it, i) => {
+    const title = i === 0 && productTitle ? productTitle : `Product ${it.productId}`;
+    const variant = it.variantId ? ` (variant ${it.variantId})` : "";
+    return `${title}${variant} × ${it.qty}`;
+  });
+
+  const text = [
+    subject,
+    "",
+    ...rows.map(([k, v]) => `${k}: ${v}`),
+    "",
+    "Items:",
+    ...(items.length ? items.map((x) => `- ${x}`) : ["- —"]),
+    "",
+    "Attachments:",
+    ...(attachments.length
+      ? attachments.map((a) => `- ${a.label}${a.url ? `: ${a.url}` : ""}`)
+      : ["- none"]),
+    ...(adminUrl ? ["", `Open in LeadForm: ${adminUrl}`] : []),
+  ].join("\n");
+
+  const cell = "padding:6px 10px;border-bottom:1px solid #e5e7eb;text-align:left;";
+
+  const html = `<!doctype html>
+<html>
+  <body style="font-family:-apple-system,Segoe UI,Roboto,Arial,sans-serif;color:#111827;">
+    <h2 style="margin:0 0 12px;">${escapeHtml(subject)}</h2>
+    <table style="border-collapse:collapse;width:100%;max-width:560px;">
+      ${rows
+        .map(
+          ([k, v]) =>
+            `<tr><th style="${cell}width:160px;color:#6b7280;font-weight:600;">${escapeHtml(k)}</th><td style="${cell}">${escapeHtml(v)}</td></tr>`
+        )
+        .join("\n      ")}
+    </table>
+    <h3 style="margin:18px 0 8px;">Items</h3>
+    <ul style="margin:0;padding-left:18px;">
+      ${items.length ? items.map((x) => `<li>${escapeHtml(x)}</li>`).join("") : "<li>—</li>"}
+    </ul>
+    <h3 style="margin:18px 0 8px;">Attachments</h3>
+    <ul style="margin:0;padding-left:18px;">
+      ${
+        attachments.length
+          ? attachments
+              .map((a) =>
+                a.url
+                  ? `<li><a href="${escapeHtml(a.url)}">${escapeHtml(a.label)}</a></li>`
+                  : `<li>${escapeHtml(a.label)}</li>`
+              )
+              .join("")
+          : "<li>None</li>"
+      }
+    </ul>
+    ${
+      adminUrl
+        ? `<p style="margin-top:20px;"><a href="${escapeHtml(adminUrl)}" style="display:inline-block;background:#111827;color:#fff;padding:10px 16px;border-radius:999px;text-decoration:none;">Open request</a></p>`
+        : ""
+    }
+  </body>
+</html>`;
+
+  return { subject, html, text };
+}
+
+async function logDelivery(data: {
+  shopId: string;
+  trigger: NotificationTrigger;
+  requestId: string;
+  recipient: string;
+  subject: string;
+  transport: string;
+  status: "sent" | "failed" | "logged";
+  messageId?: string | null;
+  error?: string | null;
+}) {
+  await prisma.notificationLog
+    .create({
+      data: {
+        ...data,
+        messageId: data.messageId ?? null,
+        error: data.error ? data.error.slice(0, 1000) : null,
+      },
+    })
+    .catch(() => {});
+
+  await recordRequestEvent({
+    shopId: data.shopId,
+    requestId: data.requestId,
+    type: "notification",
+    data: {
+      trigger: data.trigger,
+      recipient: data.recipient,
+      status: data.status,
+      error: data.error ? data.error.slice(0, 300) : null,
+    },
+  });
+}
+
+export async function notifyRequestReceived(requestId: string): Promise<NotifyResult> {
+  const result: NotifyResult = { sent: 0, failed: 0, logged: 0 };
+
+  const r = await loadRequest(requestId).catch(() => null);
+  if (!r) return result;
+
+  const recipients = await prisma.notificationRecipient.findMany({
+    where: { shopId: r.shopId, active: true },
+    orderBy: { createdAt: "asc" },
+    select: { email: true },
+  });
+  if (!recipients.length) return result;
+
+  const attachments = await resolveAttachments(r);
+  const { subject, html, text } = renderRequestEmail(r, attachments);
+  const from = r.shop.settings?.emailFrom?.trim() || defaultFromAddress();
+
+  let transportName = "unknown";
+
+  for (const { email } of recipients) {
+    try {
+      const transport = getMailTransport();
+      transportName = transport.name;
+
+      const sent = await transport.send({ from, to: email, subject, html, text });
+
+      // Local transports (console/file) don't reach anyone: never report them as sent
+      const status = transport.delivers ? "sent" : "logged";
+      result[status] += 1;
+      await logDelivery({
+        shopId: r.shopId,
+        trigger: "request_received",
+        requestId: r.id,
+        recipient: email,
+        subject,
+        transport: transportName,
+        status,
+        messageId: sent.messageId,
+      });
+    } catch (e: any) {
+      result.failed += 1;
+      await logDelivery({
+        shopId: r.shopId,
+        trigger: "request_received",
+        requestId: r.id,
+        recipient: email,
+        subject,
+        transport: transportName,
+        status: "failed",
+        error: String(e?.message || e || "send_failed"),
+      });
+    }
+  }
+
+  return result;
+}
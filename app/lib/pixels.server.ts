@@ -2,6 +2,8 @@
 import crypto from "node:crypto";
 import { prisma } from "~/db.server";
 import { decryptString, encryptString } from "~/lib/google.server";
+import { priceRequest } from "~/lib/pricing.server";
+import { recordRequestEvent } from "~/lib/requestEvents.server";
 import type { PixelPlatform, TrackingPixel, Request } from "@prisma/client";
 
 export const PIXEL_EVENTS = [
@@ -172,6 +174,13 @@ type FireContext = {
   test?: boolean;
 };
 
+// "retryable" = transient delivery failure (network, 429, 5xx); config errors are "failed"
+type FireOutcome = "success" | "failed" | "retryable";
+
+function isRetryableStatus(status: number) {
+  return status === 429 || status >= 500;
+}
+
 async function logPixelResult(args: {
   shopId: string;
   platform: PixelPlatform;
@@ -208,7 +217,7 @@ async function logPixelResult(args: {
  * Optional:
  * - pixel.testCode set (Meta test events)
  */
-async function fireFacebookCapi(ctx: FireContext) {
+async function fireFacebookCapi(ctx: FireContext): Promise<FireOutcome> {
   const accessToken =
     ctx.pixel.accessTokenEnc ? decryptString(ctx.pixel.accessTokenEnc) : null;
 
@@ -222,7 +231,7 @@ async function fireFacebookCapi(ctx: FireContext) {
       payload: { reason: "apiEnabled=false" },
       alsoUpdateLastFired: false,
     });
-    return;
+    return "failed";
   }
 
   if (!accessToken) {
@@ -235,7 +244,7 @@ async function fireFacebookCapi(ctx: FireContext) {
       payload: { reason: "accessTokenEnc missing" },
       alsoUpdateLastFired: false,
     });
-    return;
+    return "failed";
   }
 
   const event_name = mapEventName(ctx.pixel, ctx.event);
@@ -303,6 +312,8 @@ async function fireFacebookCapi(ctx: FireContext) {
       error: ok ? null : `Meta API error: ${res.status}`,
       alsoUpdateLastFired: ok,
     });
+
+    return ok ? "success" : isRetryableStatus(res.status) ? "retryable" : "failed";
   } catch (e: any) {
     await logPixelResult({
       shopId: ctx.shopId,
@@ -313,6 +324,9 @@ async function fireFacebookCapi(ctx: FireContext) {
       error: e?.message ?? "Meta API exception",
       alsoUpdateLastFired: false,
     });
+
+    // network errors / timeouts are worth another attempt
+    return "retryable";
   }
 }
 
@@ -325,7 +339,7 @@ async function fireFacebookCapi(ctx: FireContext) {
  * Optional:
  * - testCode set (TikTok test events code)
  */
-async function fireTikTokEventsApi(ctx: FireContext) {
+async function fireTikTokEventsApi(ctx: FireContext): Promise<FireOutcome> {
   const accessToken =
     ctx.pixel.accessTokenEnc ? decryptString(ctx.pixel.accessTokenEnc) : null;
 
@@ -339,7 +353,7 @@ async function fireTikTokEventsApi(ctx: FireContext) {
       payload: { reason: "apiEnabled=false" },
       alsoUpdateLastFired: false,
     });
-    return;
+    return "failed";
   }
 
   if (!accessToken) {
@@ -352,7 +366,7 @@ async function fireTikTokEventsApi(ctx: FireContext) {
       payload: { reason: "accessTokenEnc missing" },
       alsoUpdateLastFired: false,
     });
-    return;
+    return "failed";
   }
 
   const event = mapEventName(ctx.pixel, ctx.event);
@@ -431,6 +445,8 @@ async function fireTikTokEventsApi(ctx: FireContext) {
       error: ok ? null : `TikTok API error: ${res.status}`,
       alsoUpdateLastFired: ok,
     });
+
+    return ok ? "success" : isRetryableStatus(res.status) ? "retryable" : "failed";
   } catch (e: any) {
     await logPixelResult({
       shopId: ctx.shopId,
@@ -441,6 +457,9 @@ async function fireTikTokEventsApi(ctx: FireContext) {
       error: e?.message ?? "TikTok API exception",
       alsoUpdateLastFired: false,
     });
+
+    // network errors / timeouts are worth another attempt
+    return "retryable";
   }
 }
 
@@ -453,7 +472,7 @@ async function fireTikTokEventsApi(ctx: FireContext) {
  * - pixel.apiEnabled = true
  * - api_secret set
  */
-async function fireGoogleGa4MeasurementProtocol(ctx: FireContext) {
+async function fireGoogleGa4MeasurementProtocol(ctx: FireContext): Promise<FireOutcome> {
   const apiSecret =
     ctx.pixel.accessTokenEnc ? decryptString(ctx.pixel.accessTokenEnc) : null;
 
@@ -467,7 +486,7 @@ async function fireGoogleGa4MeasurementProtocol(ctx: FireContext) {
       payload: { reason: "apiEnabled=false" },
       alsoUpdateLastFired: false,
     });
-    return;
+    return "failed";
   }
 
   const measurementId = String(ctx.pixel.pixelId || "").trim();
@@ -481,7 +500,7 @@ async function fireGoogleGa4MeasurementProtocol(ctx: FireContext) {
       payload: { reason: "pixelId missing" },
       alsoUpdateLastFired: false,
     });
-    return;
+    return "failed";
   }
 
   if (!apiSecret) {
@@ -494,7 +513,7 @@ async function fireGoogleGa4MeasurementProtocol(ctx: FireContext) {
       payload: { reason: "accessTokenEnc missing (api_secret)" },
       alsoUpdateLastFired: false,
     });
-    return;
+    return "failed";
   }
 
   // Basic validation: GA4 measurement IDs are typically "G-XXXX"
@@ -509,7 +528,7 @@ async function fireGoogleGa4MeasurementProtocol(ctx: FireContext) {
       payload: { measurementId },
       alsoUpdateLastFired: false,
     });
-    return;
+    return "failed";
   }
 
   const name = sanitizeGa4EventName(mapEventName(ctx.pixel, ctx.event));
@@ -578,6 +597,8 @@ async function fireGoogleGa4MeasurementProtocol(ctx: FireContext) {
       error: ok ? null : `GA4 MP error: ${res.status}`,
       alsoUpdateLastFired: ok,
     });
+
+    return ok ? "success" : isRetryableStatus(res.status) ? "retryable" : "failed";
   } catch (e: any) {
     await logPixelResult({
       shopId: ctx.shopId,
@@ -588,6 +609,9 @@ async function fireGoogleGa4MeasurementProtocol(ctx: FireContext) {
       error: e?.message ?? "GA4 MP exception",
       alsoUpdateLastFired: false,
     });
+
+    // network errors / timeouts are worth another attempt
+    return "retryable";
   }
 }
 
@@ -597,11 +621,18 @@ export async function firePixelsForRequest(args: {
   request: FireContext["request"];
   force?: boolean; // for tests: bypass events toggles
   test?: boolean;
-}) {
+  platforms?: PixelPlatform[]; // limit to these platforms (job retries)
+}): Promise<{ retryable: PixelPlatform[] }> {
   const pixels = await prisma.trackingPixel.findMany({
-    where: { shopId: args.shopId, enabled: true },
+    where: {
+      shopId: args.shopId,
+      enabled: true,
+      ...(args.platforms?.length ? { platform: { in: args.platforms } } : {}),
+    },
   });
 
+  const retryable: PixelPlatform[] = [];
+
   for (const pixel of pixels) {
     const shouldFire = args.force ? true : isEnabled(pixel, args.event);
     if (!shouldFire) continue;
@@ -615,12 +646,14 @@ export async function firePixelsForRequest(args: {
       test: args.test,
     };
 
+    let outcome: FireOutcome = "failed";
+
     if (pixel.platform === "facebook") {
-      await fireFacebookCapi(ctx);
+      outcome = await fireFacebookCapi(ctx);
     } else if (pixel.platform === "tiktok") {
-      await fireTikTokEventsApi(ctx);
+      outcome = await fireTikTokEventsApi(ctx);
     } else if (pixel.platform === "google") {
-      await fireGoogleGa4MeasurementProtocol(ctx);
+      outcome = await fireGoogleGa4MeasurementProtocol(ctx);
     } else {
       await logPixelResult({
         shopId: ctx.shopId,
@@ -632,7 +665,81 @@ export async function firePixelsForRequest(args: {
         alsoUpdateLastFired: false,
       });
     }
+
+    if (outcome === "retryable") retryable.push(pixel.platform);
+
+    if (args.request?.id && !args.test) {
+      await recordRequestEvent({
+        shopId: args.shopId,
+        requestId: args.request.id,
+        type: "pixel",
+        data: { platform: pixel.platform, event: args.event, outcome },
+      });
+    }
   }
+
+  return { retryable };
+}
+
+/**
+ * Rebuild the pixel request context from a stored request (used by background jobs).
+ * Unpriced requests are priced first; a pricing failure throws (so the job retries)
+ * until `lastAttempt`, when the event goes out with value 0 instead.
+ */
+export async function loadPixelRequestContext(
+  requestId: string,
+  opts?: { lastAttempt?: boolean }
+): Promise<{ shopId: string; request: NonNullable<FireContext["request"]> } | null> {
+  const r = await prisma.request.findUnique({
+    where: { id: requestId },
+    select: {
+      id: true,
+      shopId: true,
+      email: true,
+      phone: true,
+      ip: true,
+      userAgent: true,
+      pageUrl: true,
+      referrer: true,
+      productId: true,
+      qty: true,
+      createdAt: true,
+      pricedAt: true,
+      value: true,
+      currency: true,
+      items: { orderBy: { createdAt: "asc" }, select: { productId: true, qty: true } },
+    },
+  });
+  if (!r) return null;
+
+  const { shopId, pricedAt, value: storedValue, currency: storedCurrency, ...request } = r;
+
+  // Requests already priced (Sheets job, earlier attempt) keep their stored value
+  let priced: { value: number | null; currency: string | null } | null = pricedAt
+    ? { value: storedValue !== null ? Number(storedValue) : null, currency: storedCurrency }
+    : null;
+
+  if (!priced) {
+    try {
+      priced = await priceRequest(requestId);
+    } catch (e: any) {
+      if (!opts?.lastAttempt) throw new Error(`pricing_failed: ${e?.message || e}`);
+      console.error("[pixels] pricing failed on last attempt, sending value 0:", e?.message || e);
+    }
+  }
+
+  const settings = priced?.currency
+    ? null
+    : await prisma.shopSettings.findUnique({ where: { shopId }, select: { currency: true } });
+
+  return {
+    shopId,
+    request: {
+      ...request,
+      currency: priced?.currency || settings?.currency || "DZD",
+      value: priced?.value ?? 0,
+    },
+  };
 }
 
 export async function upsertTrackingPixel(args: {
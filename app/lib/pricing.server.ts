@@ -0,0 +1,160 @@
+// app/lib/pricing.server.ts
+import { prisma } from "~/db.server";
+import { unauthenticated } from "~/shopify.server";
+
+/**
+ * Request value from Shopify variant prices.
+ * - Prices come from the Admin GraphQL API (offline session), cached per shop
+ * - Items without a variant use the product's first variant
+ * - Currency: ShopSettings.currency, else the shop's currencyCode
+ *
+ * priceRequest() stores RequestItem.unitPrice + Request.value/currency/pricedAt;
+ * pixel payloads and reports read the stored values.
+ */
+
+const PRICE_TTL_MS = 10 * 60 * 1000;
+const NODES_CHUNK = 100;
+
+type ShopPriceCache = {
+  currency: string | null;
+  currencyAt: number;
+  prices: Map<string, { amount: number | null; at: number }>; // key: variant/product gid
+};
+
+const cache = new Map<string, ShopPriceCache>();
+
+function shopCache(shopDomain: string): ShopPriceCache {
+  let c = cache.get(shopDomain);
+  if (!c) {
+    c = { currency: null, currencyAt: 0, prices: new Map() };
+    cache.set(shopDomain, c);
+  }
+  return c;
+}
+
+function asShopifyGid(kind: "Product" | "ProductVariant", idOrGid: string | null) {
+  if (!idOrGid) return null;
+  const raw = String(idOrGid).trim();
+  if (!raw) return null;
+  if (raw.startsWith("gid://shopify/")) return raw;
+  if (/^\d+$/.test(raw)) return `gid://shopify/${kind}/${raw}`;
+  return null;
+}
+
+function parseAmount(input: unknown): number | null {
+  const n = Number(input);
+  return Number.isFinite(n) && n >= 0 ? n : null;
+}
+
+function roundMoney(n: number) {
+  return Math.round(n * 100) / 100;
+}
+
+async function fetchPrices(shopDomain: string, ids: string[]) {
+  const c = shopCache(shopDomain);
+  const now = Date.now();
+
+  const missing = ids.filter((id) => {
+    const hit = c.prices.get(id);
+    return !hit || now - hit.at > PRICE_TTL_MS;
+  });
+  const needCurrency = !c.currency || now - c.currencyAt > PRICE_TTL_MS;
+
+  if (missing.length || needCurrency) {
+    const { admin } = await unauthenticated.admin(shopDomain);
+
+    const chunks: string[][] = [];
+    for (let i = 0; i < missing.length; i += NODES_CHUNK) chunks.push(missing.slice(i, i + NODES_CHUNK));
+    // Only the currency is stale: still one round-trip
+    if (!chunks.length) chunks.push([]);
+
+    for (const chunk of chunks) {
+      const resp = await admin.graphql(
+        `#graphql
+        query LeadformPrices($ids: [ID!]!) {
+          shop { currencyCode }
+          nodes(ids: $ids) {
+            ... on ProductVariant { id price }
+            ... on Product { id variants(first: 1) { nodes { id price } } }
+          }
+        }`,
+        { variables: { ids: chunk } }
+      );
+      const json: any = await resp.json();
+
+      const currencyCode = json?.data?.shop?.currencyCode;
+      if (typeof currencyCode === "string" && currencyCode) {
+        c.currency = currencyCode;
+        c.currencyAt = now;
+      }
+
+      const found = new Set<string>();
+      for (const n of json?.data?.nodes ?? []) {
+        if (!n?.id) continue;
+        const amount = n.variants
+          ? parseAmount(n.variants?.nodes?.[0]?.price)
+          : parseAmount(n.price);
+        c.prices.set(String(n.id), { amount, at: now });
+        found.add(String(n.id));
+      }
+
+      // Deleted products/variants come back as null; cache the miss too
+      for (const id of chunk) if (!found.has(id)) c.prices.set(id, { amount: null, at: now });
+    }
+  }
+
+  return {
+    currency: c.currency,
+    priceOf: (id: string | null) => (id ? c.prices.get(id)?.amount ?? null : null),
+  };
+}
+
+/**
+ * Resolve and store prices for a request. Safe to call repeatedly: an already
+ * priced request is left as is unless `force` is set.
+ */
+export async function priceRequest(requestId: string, opts?: { force?: boolean }) {
+  const r = await prisma.request.findUnique({
+    where: { id: requestId },
+    select: {
+      id: true,
+      pricedAt: true,
+      value: true,
+      currency: true,
+      shop: { select: { shopDomain: true, settings: { select: { currency: true } } } },
+      items: { select: { id: true, productId: true, variantId: true, qty: true } },
+    },
+  });
+  if (!r) throw new Error("request_not_found");
+
+  if (r.pricedAt && !opts?.force) {
+    return { value: r.value !== null ? Number(r.value) : null, currency: r.currency };
+  }
+
+  const gidFor = (it: { productId: string; variantId: string | null }) =>
+    asShopifyGid("ProductVariant", it.variantId) ?? asShopifyGid("Product", it.productId);
+
+  const ids = Array.from(new Set(r.items.map(gidFor).filter(Boolean) as string[]));
+  const { currency: shopCurrency, priceOf } = await fetchPrices(r.shop.shopDomain, ids);
+
+  const currency = r.shop.settings?.currency?.trim() || shopCurrency || null;
+
+  let value: number | null = null;
+  const unitPrices = r.items.map((it) => {
+    const unit = priceOf(gidFor(it));
+    if (unit !== null) value = roundMoney((value ?? 0) + unit * it.qty);
+    return { id: it.id, unit };
+  });
+
+  await prisma.$transaction([
+    ...unitPrices.map((u) =>
+      prisma.requestItem.update({ where: { id: u.id }, data: { unitPrice: u.unit } })
+    ),
+    prisma.request.update({
+      where: { id: r.id },
+      data: { value, currency, pricedAt: new Date() },
+    }),
+  ]);
+
+  return { value, currency };
+}
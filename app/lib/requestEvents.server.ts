@@ -0,0 +1,122 @@
+// app/lib/requestEvents.server.ts
+import type { RequestEventType } from "@prisma/client";
+import { prisma } from "~/db.server";
+
+/**
+ * Request audit trail (RequestEvent), rendered as the detail page timeline.
+ * - Staff actions carry the Shopify user from the session token (`sub`)
+ * - Integrations use a named actor without a user id ("Google Sheets")
+ * - No actor at all = system (jobs, storefront submit)
+ * - recordRequestEvent never throws: the audited action already happened
+ */
+
+export type RequestActor = {
+  userId: string | null;
+  name: string | null;
+};
+
+export const SYSTEM_ACTOR: RequestActor = { userId: null, name: null };
+export const SHEETS_ACTOR: RequestActor = { userId: null, name: "Google Sheets" };
+
+export type FieldChange = { field: string; from: any; to: any };
+
+/**
+ * Staff user behind an admin request. Sessions are offline, so the name comes
+ * from a stored online Session for that user when there is one.
+ */
+export async function staffActor(auth: { session: any; sessionToken?: any }): Promise<RequestActor> {
+  const sub = auth.sessionToken?.sub ? String(auth.sessionToken.sub) : null;
+  const online = auth.session?.onlineAccessInfo?.associated_user;
+
+  const userId = sub || (online?.id != null ? String(online.id) : null);
+  if (!userId) return { userId: null, name: "Staff" };
+
+  let first = online?.first_name || null;
+  let last = online?.last_name || null;
+  let email = online?.email || null;
+
+  if (!first && !last && !email && /^\d+$/.test(userId)) {
+    const row = await prisma.session
+      .findFirst({
+        where: { shop: auth.session?.shop, userId: BigInt(userId) },
+        select: { firstName: true, lastName: true, email: true },
+        orderBy: { updatedAt: "desc" },
+      })
+      .catch(() => null);
+    first = row?.firstName || null;
+    last = row?.lastName || null;
+    email = row?.email || null;
+  }
+
+  const name = [first, last].filter(Boolean).join(" ") || email || `Staff #${userId}`;
+  return { userId, name };
+}
+
+export async function recordRequestEvent(input: {
+  shopId: string;
+  requestId: string;
+  type: RequestEventType;
+  actor?: RequestActor | null;
+  data?: Record<string, any> | null;
+}) {
+  const actor = input.actor || SYSTEM_ACTOR;
+  await prisma.requestEvent
+    .create({
+      data: {
+        shopId: input.shopId,
+        requestId: input.requestId,
+        type: input.type,
+        actorUserId: actor.userId,
+        actorName: actor.name,
+        data: input.data ?? undefined,
+      },
+    })
+    .catch((e: any) => console.error("[requestEvents] record failed:", e?.message || e));
+}
+
+/** Batch variant for bulk syncs; same never-throw contract. */
+export async function recordRequestEvents(
+  events: Array<{
+    shopId: string;
+    requestId: string;
+    type: RequestEventType;
+    actor?: RequestActor | null;
+    data?: Record<string, any> | null;
+  }>
+) {
+  if (!events.length) return;
+  await prisma.requestEvent
+    .createMany({
+      data: events.map((e) => {
+        const actor = e.actor || SYSTEM_ACTOR;
+        return {
+          shopId: e.shopId,
+          requestId: e.requestId,
+          type: e.type,
+          actorUserId: actor.userId,
+          actorName: actor.name,
+          data: e.data ?? undefined,
+        };
+      }),
+    })
+    .catch((e: any) => console.error("[requestEvents] batch record failed:", e?.message || e));
+}
+
+/** Field-level diff between two plain objects (only keys listed in `fields`). */
+export function diffFields(before: Record<string, any>, after: Record<string, any>, fields: string[]) {
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    const from = before[field] ?? null;
+    const to = after[field] ?? null;
+    if (String(from ?? "") !== String(to ?? "")) changes.push({ field, from, to });
+  }
+  return changes;
+}
+
+export async function listRequestEvents(requestId: string) {
+  return prisma.requestEvent.findMany({
+    where: { requestId },
+    orderBy: { createdAt: "asc" },
+    take: 500,
+  });
+}
@@ -0,0 +1,461 @@
+// app/lib/requestExport.server.ts
+import { constants as zlibConstants, createDeflateRaw, deflateRawSync } from "node:zlib";
+import { Prisma } from "@prisma/client";
+import { prisma } from "~/db.server";
+import {
+  HEADERS as SHEET_HEADERS,
+  buildSheetRowValues,
+  loadProductInfo,
+  loadStoreBaseUrl,
+  type ProductInfoMap,
+  type ShopifyAdminClient,
+} from "~/lib/sheets.server";
+
+/**
+ * Requests -> CSV / XLSX download (admin export, any filter combination).
+ * - Same column model as the Google Sheet (buildSheetRowValues, plain URLs),
+ *   plus value/agent and one column per custom `values` key
+ * - Streamed: rows are read with a cursor in batches and written as they come,
+ *   so the export never holds more than one batch in memory
+ * - CSV: UTF-8 with BOM (Excel), cells starting with = + - @ are quoted as text
+ * - XLSX: minimal single-sheet workbook with inline strings (no dependency);
+ *   the sheet part is deflated on the fly and closed with a zip data descriptor
+ */
+
+export type ExportFormat = "csv" | "xlsx";
+
+const BATCH = 1000;
+
+// Sheet-only columns (image formula, sync timestamp) are left out of files
+const SHEET_ONLY = new Set<string>(["Product Image", "Last Sync"]);
+const SHEET_COLUMNS = SHEET_HEADERS.map((h, i) => ({ h: String(h), i })).filter((c) => !SHEET_ONLY.has(c.h));
+
+const EXTRA_COLUMNS = ["Value", "Currency", "Agent"];
+
+// `values` keys already covered by a column (or internal)
+const CORE_VALUE_KEYS = new Set([
+  "firstName",
+  "lastName",
+  "email",
+  "phone",
+  "address",
+  "wilaya",
+  "wilayaCode",
+  "commune",
+  "communeId",
+  "deliveryType",
+  "productTitle",
+  "productUrl",
+  "productImageUrl",
+]);
+
+// Safety net for shops with free-form keys
+const MAX_VALUE_COLUMNS = 200;
+
+type Cell = string | number | null;
+
+/** Custom `values` keys seen on the shop's requests (one form when `formId` is set). */
+async function loadValueKeys(shopId: string, formId?: string | null) {
+  const rows = await prisma.$queryRaw<Array<{ key: string }>>`
+    SELECT DISTINCT k AS key
+    FROM "Request" r, jsonb_object_keys(r."values") AS k
+    WHERE r."shopId" = ${shopId}
+      AND jsonb_typeof(r."values") = 'object'
+      ${formId ? Prisma.sql`AND r."formId" = ${formId}` : Prisma.empty}
+    ORDER BY 1
+  `;
+  return rows
+    .map((r) => r.key)
+    .filter((k) => !CORE_VALUE_KEYS.has(k))
+    .slice(0, MAX_VALUE_COLUMNS);
+}
+
+function valueCell(v: unknown): Cell {
+  if (v === null || v === undefined || v === "") return null;
+  if (typeof v === "number") return Number.isFinite(v) ? v : String(v);
+  if (typeof v === "string") return v;
+  if (typeof v === "boolean") return v ? "Yes" : "No";
+  if (Array.isArray(v) && v.every((x) => typeof x !== "object" || x === null)) return v.join(", ");
+  return JSON.stringify(v);
+}
+
+type ExportInput = {
+  shopId: string;
+  shopDomain: string;
+  admin?: ShopifyAdminClient | null; // product titles/urls, best-effort
+  where: Prisma.RequestWhereInput;
+  formId?: string | null; // narrows the custom columns to one form
+};
+
+const EXPORT_INCLUDE = {
+  items: true,
+  wilaya: true,
+  commune: true,
+  assignedAgent: { select: { name: true } },
+} as const;
+
+type ExportRequest = Prisma.RequestGetPayload<{ include: typeof EXPORT_INCLUDE }>;
+
+async function* exportRows(input: ExportInput, valueKeys: string[]): AsyncGenerator<Cell[][]> {
+  const baseStoreUrl = input.admin
+    ? await loadStoreBaseUrl(input.admin, input.shopDomain)
+    : `https://${input.shopDomain}`;
+  const productMap: ProductInfoMap = new Map();
+  let cursor: string | null = null;
+
+  for (;;) {
+    const rows: ExportRequest[] = await prisma.request.findMany({
+      where: { ...input.where, shopId: input.shopId },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: BATCH,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      include: EXPORT_INCLUDE,
+    });
+    if (!rows.length) return;
+    cursor = rows[rows.length - 1].id;
+
+    if (input.admin) {
+      await loadProductInfo(
+        input.admin,
+        rows.map((r) => r.productId || r.items?.[0]?.productId || null),
+        productMap
+      );
+    }
+
+    yield rows.map((r) => {
+      const sheetRow = buildSheetRowValues(input.shopDomain, r, { baseStoreUrl, productMap, plain: true });
+      const v = r.values && typeof r.values === "object" && !Array.isArray(r.values) ? r.values : {};
+      return [
+        ...SHEET_COLUMNS.map((c) => {
+          const x = sheetRow[c.i];
+          return x === "" || x === undefined ? null : (x as Cell);
+        }),
+        r.value !== null ? Number(r.value) : null,
+        r.currency,
+        r.assignedAgent?.name ?? null,
+        ...valueKeys.map((k) => valueCell(v[k])),
+      ];
+    });
+
+    if (rows.length < BATCH) return;
+  }
+}
+
+function csvCell(v: Cell) {
+  if (v === null || v === undefined) return "";
+  if (typeof v === "number") return String(v);
+  // Spreadsheet formula injection: force text
+  const s = /^[=+\-@]/.test(v) ? `'${v}` : v;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function csvLines(rows: Cell[][]) {
+  return Buffer.from(rows.map((row) => row.map(csvCell).join(",") + "\r\n").join(""), "utf8");
+}
+
+async function* csvChunks(columns: string[], batches: AsyncGenerator<Cell[][]>) {
+  yield Buffer.concat([Buffer.from("\ufeff", "utf8"), csvLines([columns])]);
+  for await (const rows of batches) yield csvLines(rows);
+}
+
+/* ---------------- XLSX (zip of SpreadsheetML parts) ---------------- */
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+/** CRC-32; pass the previous result to continue over the next chunk. */
+function crc32(buf: Buffer, prev = 0) {
+  let c = (prev ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+type ZipEntry = { name: Buffer; crc: number; compressed: number; size: number; offset: number; descriptor: boolean };
+
+// General purpose flags: UTF-8 names, + sizes in a trailing data descriptor
+const flagsOf = (e: ZipEntry) => (e.descriptor ? 0x0808 : 0x0800);
+
+function localHeader(e: ZipEntry) {
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(20, 4); // version needed
+  local.writeUInt16LE(flagsOf(e), 6);
+  local.writeUInt16LE(8, 8); // deflate
+  local.writeUInt32LE(0, 10); // time/date
+  local.writeUInt32LE(e.descriptor ? 0 : e.crc, 14);
+  local.writeUInt32LE(e.descriptor ? 0 : e.compressed, 18);
+  local.writeUInt32LE(e.descriptor ? 0 : e.size, 22);
+  local.writeUInt16LE(e.name.length, 26);
+  local.writeUInt16LE(0, 28);
+  return Buffer.concat([local, e.name]);
+}
+
+function dataDescriptor(e: ZipEntry) {
+  const d = Buffer.alloc(16);
+  d.writeUInt32LE(0x08074b50, 0);
+  d.writeUInt32LE(e.crc, 4);
+  d.writeUInt32LE(e.compressed, 8);
+  d.writeUInt32LE(e.size, 12);
+  return d;
+}
+
+function centralDirectory(entries: ZipEntry[], offset: number) {
+  const centrals = entries.map((e) => {
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(flagsOf(e), 8);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(0, 12);
+    central.writeUInt32LE(e.crc, 16);
+    central.writeUInt32LE(e.compressed, 20);
+    central.writeUInt32LE(e.size, 24);
+    central.writeUInt16LE(e.name.length, 28);
+    central.writeUInt32LE(e.offset, 42);
+    return Buffer.concat([central, e.name]);
+  });
+
+  const cd = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(cd.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([cd, end]);
+}
+
+/** Raw deflate fed chunk by chunk; each push returns the compressed bytes so far. */
+function streamingDeflate() {
+  const z = createDeflateRaw();
+  const out: Buffer[] = [];
+  let failure: Error | null = null;
+  z.on("data", (b: Buffer) => out.push(b));
+  z.on("error", (e) => (failure = e));
+
+  const drain = () => {
+    if (failure) throw failure;
+    const b = Buffer.concat(out);
+    out.length = 0;
+    return b;
+  };
+
+  return {
+    push: (data: Buffer) =>
+      new Promise<Buffer>((resolve, reject) => {
+        z.write(data);
+        z.flush(zlibConstants.Z_SYNC_FLUSH, () => {
+          try {
+            resolve(drain());
+          } catch (e) {
+            reject(e);
+          }
+        });
+      }),
+    end: () =>
+      new Promise<Buffer>((resolve, reject) => {
+        z.once("end", () => {
+          try {
+            resolve(drain());
+          } catch (e) {
+            reject(e);
+          }
+        });
+        z.once("error", reject);
+        z.end();
+      }),
+    close: () => z.close(),
+  };
+}
+
+function xmlEscape(s: string) {
+  return s
+    .replace(/[^\t\n\r\u0020-\ud7ff\ue000-\ufffd\u{10000}-\u{10ffff}]/gu, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function columnName(i: number) {
+  let n = i + 1;
+  let s = "";
+  while (n > 0) {
+    const m = (n - 1) % 26;
+    s = String.fromCharCode(65 + m) + s;
+    n = Math.floor((n - 1) / 26);
+  }
+  return s;
+}
+
+function rowXml(row: Cell[], r: number) {
+  const cells = row
+    .map((v, c) => {
+      const ref = `${columnName(c)}${r}`;
+      if (v === null || v === undefined || v === "") return "";
+      if (typeof v === "number") return `<c r="${ref}"><v>${v}</v></c>`;
+      return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${xmlEscape(v)}</t></is></c>`;
+    })
+    .join("");
+  return `<row r="${r}">${cells}</row>`;
+}
+
+const SHEET_HEAD =
+  `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+  `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+  `<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>` +
+  `<sheetData>`;
+
+const SHEET_TAIL = `</sheetData></worksheet>`;
+
+const STATIC_PARTS: Array<{ name: string; xml: string }> = [
+  {
+    name: "[Content_Types].xml",
+    xml:
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+      `<Default Extension="xml" ContentType="application/xml"/>` +
+      `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+      `<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>` +
+      `</Types>`,
+  },
+  {
+    name: "_rels/.rels",
+    xml:
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+      `</Relationships>`,
+  },
+  {
+    name: "xl/workbook.xml",
+    xml:
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+      `<sheets><sheet name="Requests" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+  },
+  {
+    name: "xl/_rels/workbook.xml.rels",
+    xml:
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+      `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+      `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>` +
+      `</Relationships>`,
+  },
+];
+
+async function* xlsxChunks(columns: string[], batches: AsyncGenerator<Cell[][]>) {
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (const part of STATIC_PARTS) {
+    const data = Buffer.from(part.xml, "utf8");
+    const compressed = deflateRawSync(data);
+    const e: ZipEntry = {
+      name: Buffer.from(part.name, "utf8"),
+      crc: crc32(data),
+      compressed: compressed.length,
+      size: data.length,
+      offset,
+      descriptor: false,
+    };
+    const chunk = Buffer.concat([localHeader(e), compressed]);
+    entries.push(e);
+    offset += chunk.length;
+    yield chunk;
+  }
+
+  // The worksheet: sizes/crc are only known at the end -> data descriptor
+  const sheet: ZipEntry = {
+    name: Buffer.from("xl/worksheets/sheet1.xml", "utf8"),
+    crc: 0,
+    compressed: 0,
+    size: 0,
+    offset,
+    descriptor: true,
+  };
+  const header = localHeader(sheet);
+  offset += header.length;
+  yield header;
+
+  const deflate = streamingDeflate();
+  const write = async (xml: string) => {
+    const data = Buffer.from(xml, "utf8");
+    sheet.crc = crc32(data, sheet.crc);
+    sheet.size += data.length;
+    const out = await deflate.push(data);
+    sheet.compressed += out.length;
+    return out;
+  };
+
+  try {
+    let r = 1;
+    yield await write(SHEET_HEAD + rowXml(columns, r++));
+    for await (const rows of batches) {
+      yield await write(rows.map((row) => rowXml(row, r++)).join(""));
+    }
+    const tail = await write(SHEET_TAIL);
+    const rest = await deflate.end();
+    sheet.compressed += rest.length;
+    yield Buffer.concat([tail, rest]);
+  } finally {
+    deflate.close();
+  }
+
+  const descriptor = dataDescriptor(sheet);
+  offset += sheet.compressed + descriptor.length;
+  entries.push(sheet);
+  yield Buffer.concat([descriptor, centralDirectory(entries, offset)]);
+}
+
+function toReadableStream(chunks: AsyncGenerator<Buffer>) {
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { value, done } = await chunks.next();
+        if (done) controller.close();
+        else controller.enqueue(new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+      } catch (e) {
+        console.error("[export] stream failed", e);
+        controller.error(e);
+      }
+    },
+    async cancel() {
+      // Client went away: stop reading batches
+      await chunks.return(undefined);
+    },
+  });
+}
+
+/**
+ * Streaming export of every request matching `where` (newest first).
+ * Columns are resolved up front; rows are produced batch by batch while the body is read.
+ */
+export async function streamRequestsExport(input: ExportInput & { format: ExportFormat }) {
+  const valueKeys = await loadValueKeys(input.shopId, input.formId);
+  const columns = [...SHEET_COLUMNS.map((c) => c.h), ...EXTRA_COLUMNS, ...valueKeys];
+  const batches = exportRows(input, valueKeys);
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  if (input.format === "xlsx") {
+    return {
+      filename: `leadform-requests-${stamp}.xlsx`,
+      contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      body: toReadableStream(xlsxChunks(columns, batches)),
+    };
+  }
+
+  return {
+    filename: `leadform-requests-${stamp}.csv`,
+    contentType: "text/csv; charset=utf-8",
+    body: toReadableStream(csvChunks(columns, batches)),
+  };
+}
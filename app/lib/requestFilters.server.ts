@@ -0,0 +1,128 @@
+// app/lib/requestFilters.server.ts
+import type { Prisma, RequestStatus, RoleType } from "@prisma/client";
+import { prisma } from "~/db.server";
+import { isRequestStatus } from "~/lib/requestStatus.server";
+
+/**
+ * Orders list filters, shared by the list loader and its bulk actions.
+ * - Filters travel as URL search params (q, status, range, agent, role, wilaya, form)
+ * - Bulk forms post either the selected ids or scope=matching + the current
+ *   search string, so "select all matching" covers every page
+ * - The trash (archived) is never part of the list
+ */
+
+export type RequestFilters = {
+  q: string;
+  status: "all" | Exclude<RequestStatus, "archived">;
+  range: string; // today | 7d | 30d | all
+  agent: string; // all | unassigned | <agentId>
+  role: "all" | RoleType;
+  wilaya: string; // all | <wilaya code>
+  form: string; // all | <formId>
+};
+
+const ROLE_TYPES: RoleType[] = ["individual", "installer", "company"];
+
+// Upper bound for one bulk action (status loop, job fan-out, export)
+export const MAX_BULK_REQUESTS = 10_000;
+
+function startOfDay(d: Date) {
+  const x = new Date(d);
+  x.setHours(0, 0, 0, 0);
+  return x;
+}
+
+function computeDateRange(range: string) {
+  const now = new Date();
+  if (range === "today") {
+    const start = startOfDay(now);
+    const end = new Date(start);
+    end.setDate(end.getDate() + 1);
+    return { start, end };
+  }
+  if (range === "7d") {
+    const start = new Date(now);
+    start.setDate(start.getDate() - 7);
+    return { start, end: now };
+  }
+  if (range === "30d") {
+    const start = new Date(now);
+    start.setDate(start.getDate() - 30);
+    return { start, end: now };
+  }
+  return { start: null as Date | null, end: null as Date | null };
+}
+
+export function parseRequestFilters(params: URLSearchParams): RequestFilters {
+  const rawStatus = (params.get("status") || "all").trim();
+  const rawRole = (params.get("role") || "all").trim() as RoleType;
+  const rawWilaya = (params.get("wilaya") || "all").trim();
+  return {
+    q: (params.get("q") || "").trim(),
+    status: isRequestStatus(rawStatus) && rawStatus !== "archived" ? rawStatus : "all",
+    range: (params.get("range") || "30d").trim(),
+    agent: (params.get("agent") || "all").trim() || "all",
+    role: ROLE_TYPES.includes(rawRole) ? rawRole : "all",
+    wilaya: /^\d{1,3}$/.test(rawWilaya) ? rawWilaya : "all",
+    form: (params.get("form") || "all").trim() || "all",
+  };
+}
+
+/** Prisma where for the filters; `ignoreStatus` is used for the per-status counts. */
+export function requestFiltersWhere(
+  shopId: string,
+  f: RequestFilters,
+  opts?: { ignoreStatus?: boolean }
+): Prisma.RequestWhereInput {
+  const { start, end } = computeDateRange(f.range);
+
+  return {
+    shopId,
+    // IMPORTANT: never show basket items in Requests list
+    status: f.status !== "all" && !opts?.ignoreStatus ? f.status : { not: "archived" },
+    ...(start && end ? { createdAt: { gte: start, lt: end } } : {}),
+    ...(f.agent === "unassigned" ? { assignedAgentId: null } : f.agent !== "all" ? { assignedAgentId: f.agent } : {}),
+    ...(f.role !== "all" ? { roleType: f.role } : {}),
+    ...(f.wilaya !== "all" ? { wilayaCode: Number(f.wilaya) } : {}),
+    ...(f.form !== "all" ? { formId: f.form } : {}),
+    ...(f.q
+      ? {
+          OR: [
+            { firstName: { contains: f.q, mode: "insensitive" } },
+            { lastName: { contains: f.q, mode: "insensitive" } },
+            { email: { contains: f.q, mode: "insensitive" } },
+            { phone: { contains: f.q, mode: "insensitive" } },
+            { id: { contains: f.q, mode: "insensitive" } },
+          ],
+        }
+      : {}),
+  };
+}
+
+/**
+ * Request ids targeted by a bulk form: explicit `selected` ids, or every
+ * request matching `filters` when scope=matching (newest first, capped).
+ */
+export async function resolveBulkSelection(shopId: string, formData: FormData) {
+  if (String(formData.get("scope") || "") === "matching") {
+    const filters = parseRequestFilters(new URLSearchParams(String(formData.get("filters") || "")));
+    const rows = await prisma.request.findMany({
+      where: requestFiltersWhere(shopId, filters),
+      orderBy: { createdAt: "desc" },
+      take: MAX_BULK_REQUESTS + 1,
+      select: { id: true },
+    });
+    return {
+      ids: rows.slice(0, MAX_BULK_REQUESTS).map((r) => r.id),
+      truncated: rows.length > MAX_BULK_REQUESTS,
+    };
+  }
+
+  const ids = Array.from(new Set(formData.getAll("selected").map(String).filter(Boolean)));
+  const owned = await prisma.request.findMany({
+    where: { shopId, id: { in: ids.slice(0, MAX_BULK_REQUESTS) } },
+    orderBy: { createdAt: "desc" },
+    select: { id: true },
+  });
+  return { ids: owned.map((r) => r.id), truncated: ids.length > MAX_BULK_REQUESTS };
+}
@@ -0,0 +1,209 @@
+// app/lib/requestStatus.server.ts
+import { Prisma, type RequestStatus } from "@prisma/client";
+import { prisma } from "~/db.server";
+import { enqueueJobs, enqueueSheetRefresh } from "~/lib/jobs.server";
+import { recordRequestsConfirmed } from "~/lib/analytics.server";
+import { recordRequestEvents, type RequestActor } from "~/lib/requestEvents.server";
+
+/**
+ * Side effects of a Request status transition (call after the row is updated).
+ *
+ * Every transition: "status_changed" timeline event (actor = staff user, if any).
+ * -> confirmed: "request_confirmed" pixels (offline conversion) + analytics event.
+ * Every transition also queues a sheet upsert, which moves the row between status tabs.
+ * The pixel job is keyed per request, so confirm -> received -> confirm fires once.
+ */
+export async function onRequestStatusChanged(input: {
+  shopId: string;
+  requestId: string;
+  from: RequestStatus;
+  to: RequestStatus;
+  actor?: RequestActor | null;
+}) {
+  await onRequestStatusesChanged({
+    shopId: input.shopId,
+    to: input.to,
+    actor: input.actor,
+    changes: [{ requestId: input.requestId, from: input.from }],
+  });
+}
+
+// Events / pixel jobs / analytics rows written per query in bulk changes
+const STATUS_HOOK_BATCH = 500;
+
+/** Same side effects for many requests moved to one status, written in batches. */
+export async function onRequestStatusesChanged(input: {
+  shopId: string;
+  to: RequestStatus;
+  changes: Array<{ requestId: string; from: RequestStatus }>;
+  actor?: RequestActor | null;
+}) {
+  const { shopId, to } = input;
+  const changes = input.changes.filter((c) => c.from !== to);
+
+  for (let i = 0; i < changes.length; i += STATUS_HOOK_BATCH) {
+    const chunk = changes.slice(i, i + STATUS_HOOK_BATCH);
+    await recordRequestEvents(
+      chunk.map((c) => ({
+        shopId,
+        requestId: c.requestId,
+        type: "status_changed" as const,
+        actor: input.actor,
+        data: { from: c.from, to },
+      }))
+    );
+
+    if (to !== "confirmed") continue;
+    try {
+      // The job reloads the stored request, so CAPI/Events API calls carry the
+      // original IP, user agent and (hashed) email/phone from the submit
+      const keyOf = (requestId: string) => `pixel.fire:request_confirmed:${requestId}`;
+      const queued = await enqueueJobs(
+        chunk.map((c) => ({
+          type: "pixel.fire" as const,
+          shopId,
+          payload: { requestId: c.requestId, event: "request_confirmed" as const },
+          idempotencyKey: keyOf(c.requestId),
+        }))
+      );
+
+      await recordRequestsConfirmed(
+        shopId,
+        chunk.map((c) => c.requestId).filter((id) => queued.has(keyOf(id)))
+      );
+    } catch (e: any) {
+      console.error("[requestStatus] confirmed hook failed:", e?.message || e);
+    }
+  }
+
+  await enqueueSheetRefresh(shopId, changes.map((c) => c.requestId)).catch((e) =>
+    console.error("[requestStatus] sheet refresh failed:", e?.message || e)
+  );
+}
+
+export const REQUEST_STATUS_VALUES: RequestStatus[] = [
+  "received",
+  "in_review",
+  "contacted",
+  "confirmed",
+  "cancelled",
+  "spam",
+  "archived",
+];
+
+export type StatusTransitions = Record<RequestStatus, RequestStatus[]>;
+
+/**
+ * Which status changes staff may make from the admin (detail page + bulk).
+ * Shops can override it (ShopSettings.statusTransitions). Moving to the trash
+ * (archived) and restoring from it are basket actions and always allowed;
+ * Sheet -> DB sync is not restricted (the sheet is edited by hand).
+ */
+export const DEFAULT_STATUS_TRANSITIONS: StatusTransitions = {
+  received: ["in_review", "contacted", "confirmed", "cancelled", "spam"],
+  in_review: ["received", "contacted", "confirmed", "cancelled", "spam"],
+  contacted: ["in_review", "confirmed", "cancelled", "spam"],
+  confirmed: ["contacted", "cancelled"],
+  cancelled: ["received", "in_review", "contacted", "confirmed"],
+  spam: ["received"],
+  archived: [],
+};
+
+export function isRequestStatus(v: unknown): v is RequestStatus {
+  return REQUEST_STATUS_VALUES.includes(v as RequestStatus);
+}
+
+/** Clean a stored/submitted map: known statuses only, no self-transitions, archived excluded. */
+export function normalizeStatusTransitions(raw: any): StatusTransitions {
+  const out = {} as StatusTransitions;
+  for (const from of REQUEST_STATUS_VALUES) {
+    const list = raw && Array.isArray(raw[from]) ? raw[from] : null;
+    out[from] = list
+      ? REQUEST_STATUS_VALUES.filter((to) => to !== from && to !== "archived" && list.includes(to))
+      : [...DEFAULT_STATUS_TRANSITIONS[from]];
+  }
+  out.archived = [];
+  return out;
+}
+
+export async function getStatusTransitions(shopId: string): Promise<StatusTransitions> {
+  const settings = await prisma.shopSettings.findUnique({
+    where: { shopId },
+    select: { statusTransitions: true },
+  });
+  return normalizeStatusTransitions(settings?.statusTransitions ?? null);
+}
+
+/** Pass null to go back to the defaults. */
+export async function saveStatusTransitions(shopId: string, map: StatusTransitions | null) {
+  const value = map ? normalizeStatusTransitions(map) : null;
+  await prisma.shopSettings.upsert({
+    where: { shopId },
+    create: { shopId, statusTransitions: value ?? undefined },
+    update: { statusTransitions: value ?? Prisma.DbNull },
+  });
+}
+
+export function canTransition(map: StatusTransitions, from: RequestStatus, to: RequestStatus) {
+  if (from === to) return false;
+  if (to === "archived") return true;
+  if (from === "archived") return to === "received";
+  return map[from]?.includes(to) ?? false;
+}
+
+const STATUS_UPDATE_BATCH = 1000;
+
+/**
+ * Admin status change for one or many requests (bulk selections can reach
+ * MAX_BULK_REQUESTS): checks the shop's transition map, updates the allowed
+ * rows set-based and runs the status hooks in batches.
+ */
+export async function changeRequestStatus(input: {
+  shopId: string;
+  requestIds: string[];
+  to: RequestStatus;
+  actor?: RequestActor | null;
+}) {
+  const { shopId, to } = input;
+  const result = { changed: 0, skipped: 0 };
+  if (!input.requestIds.length) return result;
+
+  const [map, rows] = await Promise.all([
+    getStatusTransitions(shopId),
+    prisma.request.findMany({
+      where: { shopId, id: { in: input.requestIds } },
+      select: { id: true, status: true },
+    }),
+  ]);
+
+  const allowed = rows.filter((r) => canTransition(map, r.status, to));
+  result.skipped = input.requestIds.length - allowed.length;
+  if (!allowed.length) return result;
+
+  const byFrom = new Map<RequestStatus, string[]>();
+  for (const r of allowed) byFrom.set(r.status, [...(byFrom.get(r.status) ?? []), r.id]);
+
+  // Set-based: one UPDATE per previous status (and chunk), guarded on that status so a
+  // concurrent change is not overwritten; RETURNING tells which rows actually moved
+  const changes: Array<{ requestId: string; from: RequestStatus }> = [];
+  for (const [from, ids] of byFrom) {
+    for (let i = 0; i < ids.length; i += STATUS_UPDATE_BATCH) {
+      const chunk = ids.slice(i, i + STATUS_UPDATE_BATCH);
+      const moved = await prisma.$queryRaw<Array<{ id: string }>>`
+        UPDATE "Request"
+        SET "status" = ${to}::"RequestStatus", "updatedAt" = now()
+        WHERE "shopId" = ${shopId}
+          AND "status" = ${from}::"RequestStatus"
+          AND "id" IN (${Prisma.join(chunk)})
+        RETURNING "id"
+      `;
+      for (const r of moved) changes.push({ requestId: r.id, from });
+    }
+  }
+
+  result.changed = changes.length;
+  result.skipped += allowed.length - changes.length;
+  await onRequestStatusesChanged({ shopId, to, changes, actor: input.actor });
+
+  return result;
+}
@@ -0,0 +1,92 @@
+// app/lib/roles.server.ts
+import type { RoleType } from "@prisma/client";
+import { prisma } from "~/db.server";
+
+/**
+ * Role rows are created lazily (one per RoleType per shop).
+ * Defaults mirror prisma/seed.ts.
+ */
+
+export const ROLE_TYPES: RoleType[] = ["individual", "installer", "company"];
+
+export const ROLE_DEFAULTS: Record<RoleType, { title: string; description: string }> = {
+  individual: { title: "Individual", description: "Personal purchase / quote request" },
+  installer: { title: "Installer", description: "Professional installer (document required)" },
+  company: { title: "Company", description: "Business / reseller (documents required)" },
+};
+
+export function asRoleType(input: unknown): RoleType | null {
+  return ROLE_TYPES.includes(input as RoleType) ? (input as RoleType) : null;
+}
+
+export async function ensureRole(shopId: string, type: RoleType) {
+  return prisma.role.upsert({
+    where: { shopId_type: { shopId, type } },
+    update: {},
+    create: {
+      shopId,
+      type,
+      title: ROLE_DEFAULTS[type].title,
+      description: ROLE_DEFAULTS[type].description,
+      active: true,
+    },
+    select: { id: true },
+  });
+}
+
+/**
+ * Accepted-file presets for RoleRequirement.acceptedMimeTypes (admin picker).
+ * "custom" keeps whatever list the merchant typed.
+ */
+export const MIME_PRESETS = [
+  { key: "pdf_images", label: "PDF or image", mimeTypes: ["application/pdf", "image/*"] },
+  { key: "pdf", label: "PDF only", mimeTypes: ["application/pdf"] },
+  { key: "images", label: "Images (JPG, PNG, WebP)", mimeTypes: ["image/jpeg", "image/png", "image/webp"] },
+  {
+    key: "office",
+    label: "PDF or Word",
+    mimeTypes: [
+      "application/pdf",
+      "application/msword",
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    ],
+  },
+] as const;
+
+export function mimeTypesForPreset(preset: string, custom: string): string[] {
+  const p = MIME_PRESETS.find((x) => x.key === preset);
+  if (p) return [...p.mimeTypes];
+
+  return Array.from(
+    new Set(
+      custom
+        .split(/[\s,]+/)
+        .map((s) => s.trim().toLowerCase())
+        .filter((s) => /^[a-z]+\/[a-z0-9.+*-]+$/.test(s))
+    )
+  );
+}
+
+export function presetForMimeTypes(mimeTypes: string[]): string {
+  const key = [...mimeTypes].sort().join(",");
+  const hit = MIME_PRESETS.find((p) => [...p.mimeTypes].sort().join(",") === key);
+  return hit?.key ?? "custom";
+}
+
+// Storefront-facing role UI options (Role.ui)
+export type RoleUi = {
+  icon?: string; // emoji or short text shown in the role chooser
+  badge?: string; // e.g. "Pro pricing"
+  submitLabel?: string; // overrides the form's submit label for this role
+};
+
+export function parseRoleUi(input: unknown): RoleUi {
+  const o = input && typeof input === "object" && !Array.isArray(input) ? (input as any) : {};
+  const pick = (k: string, max: number) =>
+    typeof o[k] === "string" && o[k].trim() ? o[k].trim().slice(0, max) : undefined;
+  return {
+    icon: pick("icon", 8),
+    badge: pick("badge", 40),
+    submitLabel: pick("submitLabel", 60),
+  };
+}
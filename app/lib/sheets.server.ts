@@ -1,14 +1,44 @@
 // app/lib/sheets.server.ts
-import { google } from "googleapis";
+import { createHash } from "node:crypto";
+import { google, type sheets_v4 } from "googleapis";
+import type { Prisma, RequestStatus, SheetsPartitionMode } from "@prisma/client";
 import { prisma } from "~/db.server";
 import { decryptString, encryptString, getGoogleOAuthClient } from "~/lib/google.server";
+import { recordAnalyticsEvent } from "~/lib/analytics.server";
+import { withSheetsQuota } from "~/lib/googleQuota.server";
+import { SHEETS_ACTOR, recordRequestEvents, type FieldChange } from "~/lib/requestEvents.server";
+import { onRequestStatusChanged } from "~/lib/requestStatus.server";
+import {
+  DEFAULT_SHEET_COLUMNS,
+  DEFAULT_SHEET_LAYOUT,
+  DEFAULT_SHEET_NAME,
+  columnLetter,
+  columnWidth,
+  expandFormula,
+  isEditableSource,
+  isPartitionTab,
+  isValueSource,
+  loadSheetLayouts,
+  partitionSheetName,
+  pickSheetLayout,
+  tabRange,
+  type SheetColumn,
+  type SheetLayout,
+} from "~/lib/sheetsMapping.server";
+import {
+  matchesSheetRouting,
+  parseSheetRouting,
+  sheetRoutingWhere,
+  type SheetRouting,
+} from "~/lib/sheetsRouting.server";
 
 /**
  * Google Sheets integration for LeadForm:
  * - Create / link / unlink sheet
  * - Premium formatting (headers, banding, filters, dropdown status, conditional colors)
+ * - Column layouts per connection / form / role (sheetsMapping.server.ts)
  * - DB -> Sheet upsert per request
- * - Sheet -> DB sync (status/email/phone/address)
+ * - Sheet -> DB sync (status, contact fields, mapped form values)
  * - Full export (rebuild) with optional Shopify Admin GraphQL enrichment
  * - Delete & replace primary sheet (Drive delete best-effort)
  *
@@ -19,8 +49,10 @@ import { decryptString, encryptString, getGoogleOAuthClient } from "~/lib/google
  * - Avoid filter conflicts (clear existing basic filter before re-setting)
  */
 
+type GoogleClient = ReturnType<typeof getGoogleOAuthClient>;
+
 type GoogleAuthForShop = {
-  client: any; // google.auth.OAuth2
+  client: GoogleClient;
   shopId: string;
 };
 
@@ -28,31 +60,15 @@ export type ShopifyAdminClient = {
   graphql: (query: string, opts?: any) => Promise<Response>;
 };
 
-const REQUESTS_SHEET_NAME = "Requests";
-
 /**
- * Premium, organized columns A..R (18 columns)
+ * Headers of the built-in layout (A..T). Sheets with a saved SheetsMapping use
+ * their own columns; this is also the column model of the CSV/XLSX export.
  */
-const HEADERS = [
-  "Request ID", // A
-  "Status", // B
-  "Created At", // C
-  "Role", // D
-  "Customer", // E
-  "Email", // F
-  "Phone", // G
-  "Wilaya", // H
-  "Commune", // I
-  "Address", // J
-  "Items", // K
-  "Product", // L
-  "Qty", // M
-  "Product URL", // N
-  "Product Image", // O (formula)
-  "Product Image URL", // P (raw url)
-  "Admin Link", // Q
-  "Last Sync", // R
-] as const;
+export const HEADERS = DEFAULT_SHEET_COLUMNS.map((c) => c.header);
+
+function lastColumn(layout: SheetLayout) {
+  return columnLetter(layout.columns.length);
+}
 
 const STATUS_VALUES = [
   "received",
@@ -95,7 +111,7 @@ function isInvalidGrant(e: any) {
   return m.includes("invalid_grant") || m.includes("invalid grant");
 }
 
-async function refreshAndPersistAccessToken(opts: { client: any; shopId: string }) {
+async function refreshAndPersistAccessToken(opts: { client: GoogleClient; shopId: string }) {
   const { client, shopId } = opts;
 
   // No refresh token => cannot refresh reliably; force reconnect
@@ -108,7 +124,7 @@ async function refreshAndPersistAccessToken(opts: { client: any; shopId: string
     const before = String(client.credentials.access_token || "");
     await client.getAccessToken();
     const after = String(client.credentials.access_token || "");
-    const expiry = (client.credentials as any)?.expiry_date;
+    const expiry = client.credentials.expiry_date;
 
     if (after && after !== before) {
       await prisma.oAuthGoogle.update({
@@ -156,11 +172,38 @@ async function getGoogleClientForShop(shopDomain: string): Promise<GoogleAuthFor
   return { client, shopId: shop.id };
 }
 
-export function sheetsApi(client: any) {
-  return google.sheets({ version: "v4", auth: client });
+/** Sheets client whose calls go through the shop + project rate limits. */
+export function sheetsApi(client: GoogleClient, shopId: string) {
+  const api = google.sheets({ version: "v4", auth: client });
+  const limited =
+    <P, R>(fn: (params: P) => Promise<R>) =>
+    (params: P): Promise<R> =>
+      withSheetsQuota(shopId, () => fn(params));
+
+  return {
+    spreadsheets: {
+      create: limited((p: sheets_v4.Params$Resource$Spreadsheets$Create) => api.spreadsheets.create(p)),
+      get: limited((p: sheets_v4.Params$Resource$Spreadsheets$Get) => api.spreadsheets.get(p)),
+      batchUpdate: limited((p: sheets_v4.Params$Resource$Spreadsheets$Batchupdate) => api.spreadsheets.batchUpdate(p)),
+      values: {
+        get: limited((p: sheets_v4.Params$Resource$Spreadsheets$Values$Get) => api.spreadsheets.values.get(p)),
+        batchGet: limited((p: sheets_v4.Params$Resource$Spreadsheets$Values$Batchget) =>
+          api.spreadsheets.values.batchGet(p)
+        ),
+        update: limited((p: sheets_v4.Params$Resource$Spreadsheets$Values$Update) => api.spreadsheets.values.update(p)),
+        batchUpdate: limited((p: sheets_v4.Params$Resource$Spreadsheets$Values$Batchupdate) =>
+          api.spreadsheets.values.batchUpdate(p)
+        ),
+        clear: limited((p: sheets_v4.Params$Resource$Spreadsheets$Values$Clear) => api.spreadsheets.values.clear(p)),
+        append: limited((p: sheets_v4.Params$Resource$Spreadsheets$Values$Append) => api.spreadsheets.values.append(p)),
+      },
+    },
+  };
 }
 
-export function driveApi(client: any) {
+export type SheetsApi = ReturnType<typeof sheetsApi>;
+
+export function driveApi(client: GoogleClient) {
   return google.drive({ version: "v3", auth: client });
 }
 
@@ -193,6 +236,9 @@ async function getPrimaryConnection(shopId: string) {
         spreadsheetName: true,
         defaultSheetName: true,
         active: true,
+        sheetModifiedAt: true,
+        routing: true,
+        partitionMode: true,
       },
     });
     if (conn?.active) return conn;
@@ -208,13 +254,58 @@ async function getPrimaryConnection(shopId: string) {
       spreadsheetName: true,
       defaultSheetName: true,
       active: true,
+      sheetModifiedAt: true,
+      routing: true,
+      partitionMode: true,
     },
   });
 }
 
-async function setPrimaryConnection(shopId: string, connectionId: string) {
+/** True when the shop has at least one active spreadsheet to sync into. */
+export async function hasSheetDestination(shopId: string) {
+  const n = await prisma.sheetsConnection.count({ where: { shopId, active: true } });
+  return n > 0;
+}
+
+export type SheetDestination = {
+  id: string;
+  spreadsheetId: string;
+  spreadsheetName: string | null;
+  routing: SheetRouting;
+  partitionMode: SheetsPartitionMode;
+  sheetModifiedAt: Date | null; // last pulled Drive version
+};
+
+/** Every active connection receives the requests its routing rules match. */
+export async function getSheetDestinations(shopId: string): Promise<SheetDestination[]> {
+  const rows = await prisma.sheetsConnection.findMany({
+    where: { shopId, active: true },
+    orderBy: { createdAt: "asc" },
+    select: {
+      id: true,
+      spreadsheetId: true,
+      spreadsheetName: true,
+      routing: true,
+      partitionMode: true,
+      sheetModifiedAt: true,
+    },
+  });
+  return rows.map((c) => ({ ...c, routing: parseSheetRouting(c.routing) }));
+}
+
+/** A newly added sheet becomes the primary one only when the shop has none. */
+async function ensurePrimaryConnection(shopId: string, connectionId: string) {
+  const settings = await prisma.shopSettings.findUnique({
+    where: { shopId },
+    select: { primarySheetsConnection: { select: { active: true } } },
+  });
+  if (settings?.primarySheetsConnection?.active) return;
+  await setPrimaryConnection(shopId, connectionId);
+}
+
+/** Make a connection the primary one; other destinations stay active. */
+export async function setPrimaryConnection(shopId: string, connectionId: string) {
   await prisma.$transaction([
-    prisma.sheetsConnection.updateMany({ where: { shopId }, data: { active: false } }),
     prisma.sheetsConnection.update({ where: { id: connectionId }, data: { active: true } }),
     prisma.shopSettings.upsert({
       where: { shopId },
@@ -259,12 +350,12 @@ export async function unlinkPrimarySpreadsheet(shopDomain: string) {
 
 export async function createLeadformSpreadsheet(shopDomain: string) {
   const { client, shopId } = await getGoogleClientForShop(shopDomain);
-  const sheets = sheetsApi(client);
+  const sheets = sheetsApi(client, shopId);
 
   const created = await sheets.spreadsheets.create({
     requestBody: {
       properties: { title: `LeadForm — Requests` },
-      sheets: [{ properties: { title: REQUESTS_SHEET_NAME } }],
+      sheets: [{ properties: { title: DEFAULT_SHEET_NAME } }],
     },
   });
 
@@ -280,19 +371,19 @@ export async function createLeadformSpreadsheet(shopDomain: string) {
     update: {
       active: true,
       spreadsheetName,
-      defaultSheetName: REQUESTS_SHEET_NAME,
+      defaultSheetName: DEFAULT_SHEET_NAME,
     },
     create: {
       shopId,
       spreadsheetId,
       spreadsheetName,
-      defaultSheetName: REQUESTS_SHEET_NAME,
+      defaultSheetName: DEFAULT_SHEET_NAME,
       active: true,
     },
     select: { id: true, spreadsheetId: true },
   });
 
-  await setPrimaryConnection(shopId, conn.id);
+  await ensurePrimaryConnection(shopId, conn.id);
 
   // Backfill so sheet is not empty
   await exportRequestsToSpreadsheet({ shopDomain, spreadsheetId });
@@ -324,6 +415,11 @@ export async function deletePrimarySpreadsheetAndRecreate(shopDomain: string) {
     }
   }
 
+  // Other destinations stay active; the new sheet takes over as primary
+  if (primary?.id) {
+    await prisma.sheetsConnection.update({ where: { id: primary.id }, data: { active: false } });
+  }
+
   const created = await createLeadformSpreadsheet(shopDomain);
   return { ...created, deleted, deleteError };
 }
@@ -333,7 +429,7 @@ export async function linkExistingSpreadsheet(shopDomain: string, spreadsheetIdR
   if (!spreadsheetId) throw new Error("bad_spreadsheet_id");
 
   const { client, shopId } = await getGoogleClientForShop(shopDomain);
-  const sheets = sheetsApi(client);
+  const sheets = sheetsApi(client, shopId);
 
   const meta = await sheets.spreadsheets.get({ spreadsheetId });
   const spreadsheetName = meta.data.properties?.title ?? null;
@@ -345,19 +441,19 @@ export async function linkExistingSpreadsheet(shopDomain: string, spreadsheetIdR
     update: {
       active: true,
       spreadsheetName,
-      defaultSheetName: REQUESTS_SHEET_NAME,
+      defaultSheetName: DEFAULT_SHEET_NAME,
     },
     create: {
       shopId,
       spreadsheetId,
       active: true,
       spreadsheetName,
-      defaultSheetName: REQUESTS_SHEET_NAME,
+      defaultSheetName: DEFAULT_SHEET_NAME,
     },
     select: { id: true },
   });
 
-  await setPrimaryConnection(shopId, conn.id);
+  await ensurePrimaryConnection(shopId, conn.id);
   await exportRequestsToSpreadsheet({ shopDomain, spreadsheetId });
 
   return {
@@ -367,121 +463,1015 @@ export async function linkExistingSpreadsheet(shopDomain: string, spreadsheetIdR
 }
 
 /**
- * DB -> Sheet: upsert one request row.
- * Writes SheetsSyncLog (success/failed).
+ * Mark a request as waiting for DB -> Sheet sync (SheetsSyncLog "queued").
+ * No-op when the shop has no active sheet.
  */
-export async function syncRequestToPrimarySheet(shopDomain: string, requestId: string) {
-  const { client, shopId } = await getGoogleClientForShop(shopDomain);
+export async function logQueuedSheetSync(shopId: string, requestId: string) {
+  const destinations = await getSheetDestinations(shopId);
+  if (!destinations.length) return;
 
-  const primary = await getPrimaryConnection(shopId);
-  if (!primary?.spreadsheetId) throw new Error("no_primary_sheet");
+  const r = await prisma.request.findFirst({
+    where: { id: requestId, shopId },
+    select: { roleType: true, formId: true, wilayaCode: true, productId: true, items: { select: { productId: true } } },
+  });
+  if (!r) return;
 
-  const sheets = sheetsApi(client);
-  const spreadsheetId = primary.spreadsheetId;
+  const targets = destinations.filter((d) => matchesSheetRouting(d.routing, r));
+  if (!targets.length) return;
 
-  try {
-    await ensureRequestsSheetFormatted(sheets, spreadsheetId);
+  await prisma.sheetsSyncLog.createMany({
+    data: targets.map((d) => ({ connectionId: d.id, requestId, status: "queued" as const, error: null })),
+  });
+}
 
-    const r = await loadRequestForSheet(shopId, requestId);
-    if (!r) throw new Error("request_not_found");
+/** Request as loaded for a sheet row (SHEET_REQUEST_INCLUDE). */
+type SheetRequest = Prisma.RequestGetPayload<{ include: typeof SHEET_REQUEST_INCLUDE }>;
 
-    const idToRow = await getRequestIdToRowMap(sheets, spreadsheetId);
-    const existingRow = idToRow.get(r.id) ?? null;
+type SheetRowValues = ReturnType<typeof buildSheetRowValues>;
 
-    const rowValues = buildSheetRowValues(shopDomain, r);
+/** The tab a request's row belongs to: its layout, split per the connection's partition mode. */
+function requestTab(
+  layouts: SheetLayout[],
+  mode: SheetsPartitionMode,
+  r: Parameters<typeof pickSheetLayout>[1] & Parameters<typeof partitionSheetName>[2]
+): SheetLayout {
+  const layout = pickSheetLayout(layouts, r);
+  return { ...layout, sheetName: partitionSheetName(layout.sheetName, mode, r) };
+}
 
-    if (existingRow) {
-      await sheets.spreadsheets.values.update({
+/** Row number from an append response range ("'Tab'!A15:T15"). */
+function appendedRow(updatedRange: string | null | undefined) {
+  const m = String(updatedRange || "").match(/![A-Z]+(\d+)/);
+  return m ? Number(m[1]) : null;
+}
+
+// Bump when ensureRequestsSheetFormatted changes what it writes, so every tab is re-formatted once
+const SHEET_FORMAT_REVISION = 2;
+
+type KnownTab = { sheetId: number; indexed: boolean };
+
+function tabFormatVersion(tab: SheetLayout) {
+  const hash = createHash("sha1").update(JSON.stringify(tab.columns)).digest("hex").slice(0, 16);
+  return `${SHEET_FORMAT_REVISION}:${hash}`;
+}
+
+/**
+ * sheetId of a connection's tab. Formatting (header, banding, validation...)
+ * only runs when the stored version is missing or outdated, or with `force`.
+ */
+async function ensureTab(
+  sheets: SheetsApi,
+  spreadsheetId: string,
+  connectionId: string,
+  tab: SheetLayout,
+  opts: { force?: boolean } = {}
+): Promise<KnownTab> {
+  const where = { connectionId_sheetName: { connectionId, sheetName: tab.sheetName } };
+  const version = tabFormatVersion(tab);
+
+  if (!opts.force) {
+    const known = await prisma.sheetTab.findUnique({ where, select: { sheetId: true, version: true, indexed: true } });
+    if (known?.version === version) return known;
+  }
+
+  const sheetId = await ensureRequestsSheetFormatted(sheets, spreadsheetId, tab);
+  await prisma.sheetTab.upsert({
+    where,
+    update: { sheetId, version, indexed: false },
+    create: { connectionId, sheetName: tab.sheetName, sheetId, version },
+  });
+  return { sheetId, indexed: false };
+}
+
+/** Forget the row index of a tab; the next lookup rescans it. */
+async function forgetTabIndex(connectionId: string, sheetName: string) {
+  await prisma.sheetRowIndex.deleteMany({ where: { connectionId, sheetName } });
+  await prisma.sheetTab.updateMany({ where: { connectionId, sheetName }, data: { indexed: false } });
+}
+
+/** The tab was deleted or renamed in Google Sheets (range / grid no longer resolves). */
+function isMissingTabError(e: any) {
+  const m = normalizeGoogleError(e).toLowerCase();
+  return m.includes("unable to parse range") || m.includes("no grid with id");
+}
+
+/**
+ * Row of a request in a tab. A SheetRowIndex entry is checked against the id
+ * cell (one-cell read); a stale entry triggers a rescan + re-index of the tab.
+ * Without an entry, a fully indexed tab means the request isn't there yet.
+ */
+async function findRequestRow(
+  sheets: SheetsApi,
+  spreadsheetId: string,
+  connectionId: string,
+  tab: SheetLayout,
+  known: KnownTab,
+  requestId: string,
+  cached: { sheetName: string; row: number } | null
+) {
+  const col = idColumnLetter(tab);
+  if (cached && cached.sheetName === tab.sheetName) {
+    const resp = await sheets.spreadsheets.values.get({
+      spreadsheetId,
+      range: tabRange(tab.sheetName, `${col}${cached.row}`),
+    });
+    if (String(resp.data.values?.[0]?.[0] ?? "").trim() === requestId) return cached.row;
+  } else if (known.indexed) {
+    return null;
+  }
+
+  const map = await getRequestIdToRowMap(sheets, spreadsheetId, tab);
+  await reindexTab(connectionId, tab.sheetName, known.sheetId, map);
+  return map.get(requestId) ?? null;
+}
+
+/** Replace the index entries of one tab (ids that aren't requests of this shop are ignored). */
+async function reindexTab(connectionId: string, sheetName: string, sheetId: number, map: Map<string, number>) {
+  const conn = await prisma.sheetsConnection.findUnique({ where: { id: connectionId }, select: { shopId: true } });
+  if (!conn) return;
+
+  const ids = Array.from(map.keys());
+  await prisma.sheetRowIndex.deleteMany({ where: { connectionId, sheetName } });
+
+  for (let i = 0; i < ids.length; i += ROW_INDEX_BATCH) {
+    const chunk = ids.slice(i, i + ROW_INDEX_BATCH);
+    const known = await prisma.request.findMany({
+      where: { shopId: conn.shopId, id: { in: chunk } },
+      select: { id: true },
+    });
+    const knownIds = known.map((r) => r.id);
+    // A request listed in another tab moved here
+    await prisma.sheetRowIndex.deleteMany({ where: { connectionId, requestId: { in: knownIds } } });
+    await prisma.sheetRowIndex.createMany({
+      data: knownIds.map((requestId) => ({
+        connectionId,
+        requestId,
+        sheetName,
+        sheetId,
+        row: map.get(requestId) as number,
+      })),
+      skipDuplicates: true,
+    });
+  }
+
+  await prisma.sheetTab.updateMany({ where: { connectionId, sheetName }, data: { indexed: true } });
+}
+
+async function setRowIndex(connectionId: string, requestId: string, sheetName: string, sheetId: number, row: number) {
+  await prisma.sheetRowIndex.upsert({
+    where: { connectionId_requestId: { connectionId, requestId } },
+    update: { sheetName, sheetId, row },
+    create: { connectionId, requestId, sheetName, sheetId, row },
+  });
+}
+
+/** Delete a request's row from the tab it used to be in (only when the row still holds that request). */
+async function removeIndexedRow(
+  sheets: SheetsApi,
+  spreadsheetId: string,
+  connectionId: string,
+  entry: { sheetName: string; sheetId: number | null; row: number },
+  requestId: string
+) {
+  const resp = await sheets.spreadsheets.values
+    .get({ spreadsheetId, range: tabRange(entry.sheetName, `${entry.row}:${entry.row}`) })
+    .catch(() => null);
+  const cells = resp?.data.values?.[0] ?? [];
+
+  if (cells.some((c) => String(c ?? "").trim() === requestId)) {
+    let sheetId = entry.sheetId;
+    if (sheetId == null) {
+      const meta = await sheets.spreadsheets.get({ spreadsheetId, fields: "sheets.properties" });
+      sheetId = meta.data.sheets?.find((x) => x.properties?.title === entry.sheetName)?.properties?.sheetId ?? null;
+    }
+    if (sheetId != null) {
+      await sheets.spreadsheets.batchUpdate({
         spreadsheetId,
-        range: `${REQUESTS_SHEET_NAME}!A${existingRow}:R${existingRow}`,
-        valueInputOption: "USER_ENTERED",
-        requestBody: { values: [rowValues] },
+        requestBody: {
+          requests: [
+            { deleteDimension: { range: { sheetId, dimension: "ROWS", startIndex: entry.row - 1, endIndex: entry.row } } },
+          ],
+        },
+      });
+      await prisma.sheetRowIndex.updateMany({
+        where: { connectionId, sheetName: entry.sheetName, row: { gt: entry.row } },
+        data: { row: { decrement: 1 } },
+      });
+    }
+  }
+
+  await prisma.sheetRowIndex.deleteMany({ where: { connectionId, requestId } });
+}
+
+/**
+ * Upsert one request row into one spreadsheet (tab + columns from the request's
+ * layout and partition). A row whose tab changed (status tabs, layout change)
+ * is moved: deleted from the old tab, appended to the new one.
+ * With a formatted, indexed tab this is 1-2 Sheets calls (verify + write).
+ * A tab deleted or renamed in Sheets is re-created and re-indexed once.
+ */
+async function writeRequestRow(sheets: SheetsApi, destination: SheetDestination, shopDomain: string, r: SheetRequest) {
+  const tab = requestTab(await loadSheetLayouts(destination.id), destination.partitionMode, r);
+  try {
+    return await writeRequestRowToTab(sheets, destination, shopDomain, r, tab, false);
+  } catch (e: any) {
+    if (!isMissingTabError(e)) throw e;
+    await forgetTabIndex(destination.id, tab.sheetName);
+    return writeRequestRowToTab(sheets, destination, shopDomain, r, tab, true);
+  }
+}
+
+async function writeRequestRowToTab(
+  sheets: SheetsApi,
+  destination: SheetDestination,
+  shopDomain: string,
+  r: SheetRequest,
+  tab: SheetLayout,
+  force: boolean
+) {
+  const spreadsheetId = destination.spreadsheetId;
+  const known = await ensureTab(sheets, spreadsheetId, destination.id, tab, { force });
+
+  const cached = await prisma.sheetRowIndex.findUnique({
+    where: { connectionId_requestId: { connectionId: destination.id, requestId: r.id } },
+    select: { sheetName: true, sheetId: true, row: true },
+  });
+  if (cached && cached.sheetName !== tab.sheetName) {
+    await removeIndexedRow(sheets, spreadsheetId, destination.id, cached, r.id);
+  }
+
+  const existingRow = await findRequestRow(sheets, spreadsheetId, destination.id, tab, known, r.id, cached);
+
+  const rowValues = buildSheetRowValues(shopDomain, r, { columns: tab.columns });
+  const last = lastColumn(tab);
+
+  if (existingRow) {
+    await sheets.spreadsheets.values.update({
+      spreadsheetId,
+      range: tabRange(tab.sheetName, `A${existingRow}:${last}${existingRow}`),
+      valueInputOption: "USER_ENTERED",
+      requestBody: { values: [rowValues] },
+    });
+    if (cached?.row !== existingRow || cached.sheetName !== tab.sheetName) {
+      await setRowIndex(destination.id, r.id, tab.sheetName, known.sheetId, existingRow);
+    }
+  } else {
+    const resp = await sheets.spreadsheets.values.append({
+      spreadsheetId,
+      range: tabRange(tab.sheetName, `A:${last}`),
+      valueInputOption: "USER_ENTERED",
+      insertDataOption: "INSERT_ROWS",
+      requestBody: { values: [rowValues] },
+    });
+    const row = appendedRow(resp.data.updates?.updatedRange);
+    if (row) await setRowIndex(destination.id, r.id, tab.sheetName, known.sheetId, row);
+    else await forgetTabIndex(destination.id, tab.sheetName);
+  }
+
+  return existingRow;
+}
+
+/**
+ * Several requests into one spreadsheet with as few calls as possible: one
+ * batchGet to verify indexed rows, one values.batchUpdate for the updates and
+ * one append per tab. Rows that change tabs are moved first, one by one
+ * (deleting rows shifts the index). Returns the previous row of each request
+ * (null = appended).
+ */
+async function writeRequestRows(
+  sheets: SheetsApi,
+  destination: SheetDestination,
+  shopDomain: string,
+  reqs: SheetRequest[]
+) {
+  const result = new Map<string, number | null>();
+  if (reqs.length === 1) {
+    result.set(reqs[0].id, await writeRequestRow(sheets, destination, shopDomain, reqs[0]));
+    return result;
+  }
+
+  try {
+    return await writeRequestRowsBatched(sheets, destination, shopDomain, reqs);
+  } catch (e: any) {
+    if (!isMissingTabError(e)) throw e;
+    // A tab went missing: the row-by-row path re-creates it
+    for (const r of reqs) result.set(r.id, await writeRequestRow(sheets, destination, shopDomain, r));
+    return result;
+  }
+}
+
+async function writeRequestRowsBatched(
+  sheets: SheetsApi,
+  destination: SheetDestination,
+  shopDomain: string,
+  reqs: SheetRequest[]
+) {
+  const spreadsheetId = destination.spreadsheetId;
+  const connectionId = destination.id;
+  const result = new Map<string, number | null>();
+
+  const layouts = await loadSheetLayouts(connectionId);
+  const tabOf = new Map(reqs.map((r) => [r.id as string, requestTab(layouts, destination.partitionMode, r)]));
+  const loadCached = async () => {
+    const rows = await prisma.sheetRowIndex.findMany({
+      where: { connectionId, requestId: { in: reqs.map((r) => r.id) } },
+      select: { requestId: true, sheetName: true, row: true },
+    });
+    return new Map(rows.map((x) => [x.requestId, x]));
+  };
+
+  let cached = await loadCached();
+  const moving = reqs.filter((r) => {
+    const c = cached.get(r.id);
+    return c && c.sheetName !== tabOf.get(r.id)?.sheetName;
+  });
+  for (const r of moving) result.set(r.id, await writeRequestRow(sheets, destination, shopDomain, r));
+  if (moving.length) cached = await loadCached();
+
+  const rest = reqs.filter((r) => !moving.includes(r));
+
+  // One read for every indexed row
+  const toVerify = rest.filter((r) => cached.has(r.id));
+  const verified = new Map<string, number>();
+  if (toVerify.length) {
+    const resp = await sheets.spreadsheets.values.batchGet({
+      spreadsheetId,
+      ranges: toVerify.map((r) => {
+        const tab = tabOf.get(r.id) as SheetLayout;
+        return tabRange(tab.sheetName, `${idColumnLetter(tab)}${cached.get(r.id)?.row}`);
+      }),
+    });
+    toVerify.forEach((r, i) => {
+      const cell = String(resp.data.valueRanges?.[i]?.values?.[0]?.[0] ?? "").trim();
+      if (cell === r.id) verified.set(r.id, cached.get(r.id)?.row as number);
+    });
+  }
+
+  const byTab = new Map<string, SheetRequest[]>();
+  for (const r of rest) {
+    const name = (tabOf.get(r.id) as SheetLayout).sheetName;
+    byTab.set(name, [...(byTab.get(name) ?? []), r]);
+  }
+
+  const data: Array<{ range: string; values: SheetRowValues[] }> = [];
+  const indexUpdates: Array<{ requestId: string; sheetName: string; sheetId: number; row: number }> = [];
+
+  for (const group of byTab.values()) {
+    const tab = tabOf.get(group[0].id) as SheetLayout;
+    const known = await ensureTab(sheets, spreadsheetId, connectionId, tab);
+    const last = lastColumn(tab);
+
+    // Stale entry, or a tab not fully indexed: one rescan for the whole group
+    const needsScan = group.some((r) => !verified.has(r.id) && (cached.has(r.id) || !known.indexed));
+    let scanned: Map<string, number> | null = null;
+    if (needsScan) {
+      scanned = await getRequestIdToRowMap(sheets, spreadsheetId, tab);
+      await reindexTab(connectionId, tab.sheetName, known.sheetId, scanned);
+    }
+
+    const toAppend: SheetRequest[] = [];
+    for (const r of group) {
+      const row = verified.get(r.id) ?? scanned?.get(r.id) ?? null;
+      if (!row) {
+        toAppend.push(r);
+        continue;
+      }
+      data.push({
+        range: tabRange(tab.sheetName, `A${row}:${last}${row}`),
+        values: [buildSheetRowValues(shopDomain, r, { columns: tab.columns })],
       });
-    } else {
-      await sheets.spreadsheets.values.append({
+      if (!verified.has(r.id)) indexUpdates.push({ requestId: r.id, sheetName: tab.sheetName, sheetId: known.sheetId, row });
+      result.set(r.id, row);
+    }
+
+    if (toAppend.length) {
+      const resp = await sheets.spreadsheets.values.append({
         spreadsheetId,
-        range: `${REQUESTS_SHEET_NAME}!A:R`,
+        range: tabRange(tab.sheetName, `A:${last}`),
         valueInputOption: "USER_ENTERED",
         insertDataOption: "INSERT_ROWS",
-        requestBody: { values: [rowValues] },
+        requestBody: { values: toAppend.map((r) => buildSheetRowValues(shopDomain, r, { columns: tab.columns })) },
+      });
+      const first = appendedRow(resp.data.updates?.updatedRange);
+      toAppend.forEach((r, i) => {
+        result.set(r.id, null);
+        if (first) indexUpdates.push({ requestId: r.id, sheetName: tab.sheetName, sheetId: known.sheetId, row: first + i });
       });
+      if (!first) await forgetTabIndex(connectionId, tab.sheetName);
     }
+  }
 
-    await prisma.sheetsSyncLog.create({
-      data: {
-        connectionId: primary.id,
-        requestId: r.id,
-        status: "success",
-        error: null,
-      },
+  if (data.length) {
+    await sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId,
+      requestBody: { valueInputOption: "USER_ENTERED", data },
     });
-  } catch (e: any) {
-    if (primary?.id) {
+  }
+  for (const x of indexUpdates) await setRowIndex(connectionId, x.requestId, x.sheetName, x.sheetId, x.row);
+
+  return result;
+}
+
+/**
+ * DB -> Sheet: upsert request rows into every destination whose routing matches.
+ * Requests are written together (see writeRequestRows), so upserts coalesced by
+ * the job runner cost a handful of calls per spreadsheet.
+ * Writes one SheetsSyncLog (success/failed) per request and destination. A failed
+ * destination doesn't stop the others. Returns the failed requests with their first
+ * error and the destinations that failed; a retry passes those as `connectionIds`,
+ * so destinations that already succeeded aren't written (and logged) again.
+ * Rows aren't removed from sheets a request stops matching; a re-export rebuilds them.
+ */
+export async function syncRequestsToSheets(
+  shopDomain: string,
+  requestIds: string[],
+  opts?: { connectionIds?: Map<string, string[]> } // per request, when only some destinations are left
+) {
+  const { client, shopId } = await getGoogleClientForShop(shopDomain);
+
+  const destinations = await getSheetDestinations(shopId);
+  if (!destinations.length) throw new Error("no_primary_sheet");
+
+  const sheets = sheetsApi(client, shopId);
+  const failures = new Map<string, SheetSyncFailure>();
+
+  const reqs = await prisma.request.findMany({
+    where: { shopId, id: { in: requestIds } },
+    include: SHEET_REQUEST_INCLUDE,
+  });
+  for (const requestId of requestIds) {
+    if (reqs.some((r) => r.id === requestId)) continue;
+    await recordAnalyticsEvent({
+      shopId,
+      type: "request_sync_failed",
+      requestId,
+      meta: { error: "request_not_found" },
+    });
+    failures.set(requestId, { error: new Error("request_not_found"), connectionIds: [] });
+  }
+
+  const pending = (requestId: string, connectionId: string) => {
+    const only = opts?.connectionIds?.get(requestId);
+    return !only || only.includes(connectionId);
+  };
+
+  for (const destination of destinations) {
+    const targets = reqs.filter((r) => pending(r.id, destination.id) && matchesSheetRouting(destination.routing, r));
+    if (!targets.length) continue;
+
+    try {
+      const rows = await writeRequestRows(sheets, destination, shopDomain, targets);
+
+      await prisma.sheetsSyncLog.createMany({
+        data: targets.map((r) => ({ connectionId: destination.id, requestId: r.id, status: "success" as const, error: null })),
+      });
+      for (const r of targets) {
+        await recordAnalyticsEvent({ shopId, type: "request_sync_success", requestId: r.id });
+      }
+      await recordRequestEvents(
+        targets.map((r) => ({
+          shopId,
+          requestId: r.id,
+          type: "sheet_sync" as const,
+          data: { direction: "to_sheet", status: "success", row: rows.get(r.id) ?? null, sheet: destination.spreadsheetName },
+        }))
+      );
+    } catch (e: any) {
+      const error = normalizeGoogleError(e);
+      for (const r of targets) {
+        const failure: SheetSyncFailure = failures.get(r.id) ?? { error: e, connectionIds: [] };
+        failure.connectionIds.push(destination.id);
+        failures.set(r.id, failure);
+      }
+
       await prisma.sheetsSyncLog
-        .create({
-          data: {
-            connectionId: primary.id,
-            requestId,
-            status: "failed",
-            error: normalizeGoogleError(e),
-          },
+        .createMany({
+          data: targets.map((r) => ({ connectionId: destination.id, requestId: r.id, status: "failed" as const, error })),
         })
         .catch(() => {});
+
+      for (const r of targets) {
+        await recordAnalyticsEvent({
+          shopId,
+          type: "request_sync_failed",
+          requestId: r.id,
+          meta: { error },
+        });
+      }
+      await recordRequestEvents(
+        targets.map((r) => ({
+          shopId,
+          requestId: r.id,
+          type: "sheet_sync" as const,
+          data: { direction: "to_sheet", status: "failed", error, sheet: destination.spreadsheetName },
+        }))
+      );
     }
-    throw e;
   }
+
+  return failures;
+}
+
+/** A request's failed DB -> Sheet sync: first error + destinations still to write. */
+export type SheetSyncFailure = { error: unknown; connectionIds: string[] };
+
+export type SheetPullConflict = {
+  requestId: string;
+  field: string;
+  sheet: string | null;
+  db: string | null;
+  winner: "sheet" | "admin";
+};
+
+export type SheetPullReport = {
+  ok: true;
+  updated: number; // requests changed from sheet edits
+  unchanged: number;
+  refreshed: number; // rows rewritten from the DB (stale, conflict, or after an update)
+  skipped: number; // edited rows without a readable Last Sync
+  conflicts: SheetPullConflict[];
+  sheetChanged: boolean; // false = Drive says nothing changed since the last pull, no diff ran
+};
+
+type SheetsSyncTrigger = "schedule" | "manual";
+
+// SheetRowIndex rows written per query
+const ROW_INDEX_BATCH = 1000;
+
+// Requests updated per DB transaction / rows rewritten per Sheets call
+const PULL_WRITE_BATCH = 50;
+const PULL_REFRESH_BATCH = 200;
+
+/** Drive modifiedTime of the spreadsheet (file level), null when Drive can't tell. */
+async function loadSheetModifiedAt(client: GoogleClient, spreadsheetId: string) {
+  try {
+    const resp = await driveApi(client).files.get({
+      fileId: spreadsheetId,
+      fields: "modifiedTime",
+      supportsAllDrives: true,
+    });
+    const t = resp.data.modifiedTime ? new Date(resp.data.modifiedTime) : null;
+    return t && !Number.isNaN(t.getTime()) ? t : null;
+  } catch {
+    return null;
+  }
+}
+
+/** SheetsSyncRun history rows; failing to write history never fails the sync. */
+async function startSyncRun(connectionId: string, direction: "to_sheet" | "from_sheet", trigger: SheetsSyncTrigger) {
+  const run = await prisma.sheetsSyncRun
+    .create({ data: { connectionId, direction, trigger, status: "queued" }, select: { id: true } })
+    .catch(() => null);
+  return run?.id ?? null;
+}
+
+async function finishSyncRun(id: string | null, data: Record<string, unknown>) {
+  if (!id) return;
+  await prisma.sheetsSyncRun.update({ where: { id }, data: { ...data, finishedAt: new Date() } }).catch(() => {});
 }
 
 /**
- * Sheet -> DB sync
+ * Sheet -> DB sync (manual "Pull now" and the scheduled sheets.pull job).
+ * - onlyIfChanged: compare the file's Drive modifiedTime with the last pulled
+ *   version first and skip the diff when nothing changed (our own pushes also
+ *   bump it, so a push is followed by one diff that finds nothing to apply)
+ * - Only editable columns (status, contact fields, values.*) are read back,
+ *   and a row only counts in the tab of the layout its request currently uses
+ * - Each row's Last Sync says when it last matched the DB; admin edits after
+ *   that (RequestEvent) tell a stale sheet cell from a real two-sided conflict
+ * - Conflicts follow ShopSettings.sheetsConflictPolicy and are reported
+ *   (returned + a sheet_sync event on the request)
+ * - Empty cells never clear DB values; unchanged rows are skipped
+ * - DB updates are batched; touched rows are rewritten so Last Sync moves on
  */
-export async function syncRequestsFromSheetToDb(shopDomain: string) {
+export async function syncRequestsFromSheetToDb(
+  shopDomain: string,
+  opts: { trigger?: SheetsSyncTrigger; onlyIfChanged?: boolean } = {}
+): Promise<SheetPullReport> {
   const { client, shopId } = await getGoogleClientForShop(shopDomain);
 
-  const primary = await getPrimaryConnection(shopId);
-  if (!primary?.spreadsheetId) throw new Error("no_primary_sheet");
+  const destinations = await getSheetDestinations(shopId);
+  if (!destinations.length) throw new Error("no_primary_sheet");
 
-  const sheets = sheetsApi(client);
-  const spreadsheetId = primary.spreadsheetId;
+  const settings = await prisma.shopSettings.findUnique({
+    where: { shopId },
+    select: { sheetsConflictPolicy: true },
+  });
+  const policy = settings?.sheetsConflictPolicy ?? "admin_wins";
+
+  const report: SheetPullReport = {
+    ok: true,
+    updated: 0,
+    unchanged: 0,
+    refreshed: 0,
+    skipped: 0,
+    conflicts: [],
+    sheetChanged: false,
+  };
 
-  await ensureRequestsSheetFormatted(sheets, spreadsheetId);
+  // Every destination is pulled; one failing sheet doesn't block the others
+  let firstError: unknown = null;
+  for (const destination of destinations) {
+    try {
+      await pullDestination({ client, shopId, shopDomain, destination, policy, opts, report });
+    } catch (e: any) {
+      firstError = firstError ?? e;
+    }
+  }
+  if (firstError) throw firstError;
+
+  return report;
+}
+
+async function pullDestination(input: {
+  client: GoogleClient;
+  shopId: string;
+  shopDomain: string;
+  destination: SheetDestination;
+  policy: "admin_wins" | "last_writer_wins";
+  opts: { trigger?: SheetsSyncTrigger; onlyIfChanged?: boolean };
+  report: SheetPullReport;
+}) {
+  const { client, destination, opts, report } = input;
+
+  const checkedAt = new Date();
+  // Read before the diff: edits made while it runs show up as a newer version next time
+  const sheetModifiedAt = await loadSheetModifiedAt(client, destination.spreadsheetId);
+
+  if (
+    opts.onlyIfChanged &&
+    sheetModifiedAt &&
+    destination.sheetModifiedAt &&
+    sheetModifiedAt <= destination.sheetModifiedAt
+  ) {
+    await prisma.sheetsConnection.update({ where: { id: destination.id }, data: { sheetCheckedAt: checkedAt } });
+    return;
+  }
+
+  report.sheetChanged = true;
+  // Per-destination counters for its history row
+  const before = {
+    updated: report.updated,
+    unchanged: report.unchanged,
+    refreshed: report.refreshed,
+    skipped: report.skipped,
+    conflicts: report.conflicts.length,
+  };
+
+  const runId = await startSyncRun(destination.id, "from_sheet", opts.trigger ?? "manual");
+  try {
+    await pullSheet({ ...input, sheetModifiedAt });
+  } catch (e: any) {
+    await finishSyncRun(runId, { status: "failed", error: normalizeGoogleError(e), sheetModifiedAt });
+    throw e;
+  }
+
+  await finishSyncRun(runId, {
+    status: "success",
+    updated: report.updated - before.updated,
+    unchanged: report.unchanged - before.unchanged,
+    refreshed: report.refreshed - before.refreshed,
+    skipped: report.skipped - before.skipped,
+    conflicts: report.conflicts.length - before.conflicts,
+    sheetModifiedAt,
+  });
+  await prisma.sheetsConnection.update({
+    where: { id: destination.id },
+    data: { sheetCheckedAt: checkedAt, ...(sheetModifiedAt ? { sheetModifiedAt } : {}) },
+  });
+}
+
+async function pullSheet(input: {
+  client: GoogleClient;
+  shopId: string;
+  shopDomain: string;
+  destination: SheetDestination;
+  policy: "admin_wins" | "last_writer_wins";
+  sheetModifiedAt: Date | null;
+  report: SheetPullReport;
+}) {
+  const { client, shopId, shopDomain, destination, policy, report } = input;
+
+  const sheets = sheetsApi(client, shopId);
+  const spreadsheetId = destination.spreadsheetId;
+  const layouts = await loadSheetLayouts(destination.id);
+  // last_writer_wins compares it with admin edit times
+  const sheetModifiedAt = policy === "last_writer_wins" ? input.sheetModifiedAt : null;
+
+  for (const layout of layouts) {
+    const mode = destination.partitionMode;
+    const tabs =
+      mode === "none"
+        ? [layout.sheetName]
+        : (await layoutTabTitles(sheets, spreadsheetId, layout.sheetName)).filter((t) =>
+            isPartitionTab(layout.sheetName, mode, t)
+          );
+
+    for (const sheetName of tabs) {
+      await pullLayoutTab({
+        sheets,
+        spreadsheetId,
+        shopId,
+        shopDomain,
+        destination,
+        layouts,
+        tab: { ...layout, sheetName },
+        policy,
+        sheetModifiedAt,
+        report,
+      });
+    }
+  }
+}
+
+type CellDiff = { field: string; sheet: string; db: string };
+
+// Editable core columns other than status (see SHEET_SOURCES `editable`)
+type ContactField = "firstName" | "lastName" | "email" | "phone" | "address";
+
+/** First admin edit per field after each request's Last Sync (`from` = value the sheet last had). */
+async function loadAdminEditsSince(shopId: string, since: Map<string, Date>) {
+  const out = new Map<string, Map<string, { from: string; at: Date }>>();
+  if (!since.size) return out;
+
+  const min = new Date(Math.min(...Array.from(since.values()).map((d) => d.getTime())));
+  const events = await prisma.requestEvent.findMany({
+    where: {
+      shopId,
+      requestId: { in: Array.from(since.keys()) },
+      type: { in: ["edited", "status_changed"] },
+      createdAt: { gt: min },
+      // Edits that came from the sheet itself are not admin edits (NULL = system)
+      OR: [{ actorName: null }, { actorName: { not: SHEETS_ACTOR.name as string } }],
+    },
+    orderBy: { createdAt: "asc" },
+    select: { requestId: true, type: true, data: true, createdAt: true },
+  });
+
+  for (const e of events) {
+    if (e.createdAt <= (since.get(e.requestId) as Date)) continue;
+    const d = (e.data ?? {}) as { from?: unknown; changes?: Array<{ field: string; from: unknown }> };
+    const changes: Array<{ field: string; from: unknown }> =
+      e.type === "status_changed" ? [{ field: "status", from: d.from }] : Array.isArray(d.changes) ? d.changes : [];
+
+    const byField = out.get(e.requestId) ?? new Map<string, { from: string; at: Date }>();
+    for (const c of changes) {
+      const prev = byField.get(c.field);
+      // Keep the oldest `from`, move `at` to the latest edit
+      byField.set(c.field, { from: prev ? prev.from : sheetValueText(c.from), at: e.createdAt });
+    }
+    out.set(e.requestId, byField);
+  }
+
+  return out;
+}
+
+async function pullLayoutTab(input: {
+  sheets: SheetsApi;
+  spreadsheetId: string;
+  shopId: string;
+  shopDomain: string;
+  destination: SheetDestination;
+  layouts: SheetLayout[];
+  tab: SheetLayout; // layout with the (partition) tab name
+  policy: "admin_wins" | "last_writer_wins";
+  sheetModifiedAt: Date | null;
+  report: SheetPullReport;
+}) {
+  const { sheets, spreadsheetId, shopId, shopDomain, destination, layouts, policy, sheetModifiedAt, report } = input;
+  const layout = input.tab;
+
+  const idIndex = layout.columns.findIndex((c) => c.source === "id");
+  const syncIndex = layout.columns.findIndex((c) => c.source === "lastSync");
+  const editable = layout.columns
+    .map((c, i) => ({ source: c.source, i }))
+    .filter((c) => isEditableSource(c.source));
+  // Without Last Sync there is no way to tell which side changed
+  if (!editable.length || idIndex < 0 || syncIndex < 0) return;
+
+  const { sheetId } = await ensureTab(sheets, spreadsheetId, destination.id, layout);
 
   const resp = await sheets.spreadsheets.values.get({
     spreadsheetId,
-    range: `${REQUESTS_SHEET_NAME}!A2:R`,
+    range: tabRange(layout.sheetName, `A2:${lastColumn(layout)}`),
   });
 
-  const rows: any[][] = resp.data.values || [];
-  if (!rows.length) return { ok: true, updated: 0 };
+  const rows = resp.data.values || [];
+  if (!rows.length) return;
 
   const allowedStatus = new Set<string>(STATUS_VALUES as unknown as string[]);
 
-  let updated = 0;
+  const ids = rows.map((row) => String(row[idIndex] || "").trim()).filter(Boolean);
+  const existing = await prisma.request.findMany({
+    where: { shopId, id: { in: ids } },
+    select: {
+      id: true,
+      formId: true,
+      roleType: true,
+      status: true,
+      firstName: true,
+      lastName: true,
+      email: true,
+      phone: true,
+      address: true,
+      values: true,
+      createdAt: true,
+      updatedAt: true,
+      wilayaCode: true,
+      productId: true,
+      items: { select: { productId: true } },
+    },
+  });
+  const byId = new Map(existing.map((r) => [r.id, r]));
+
+  // 1) Cell diffs per row (sheet text vs DB text)
+  type PullRow = (typeof existing)[number];
+  const candidates: Array<{ before: PullRow; syncedAt: Date; diffs: CellDiff[] }> = [];
 
   for (const row of rows) {
-    const requestId = String(row[0] || "").trim();
-    if (!requestId) continue;
-
-    const status = String(row[1] || "").trim();
-    const email = String(row[5] || "").trim();
-    const phone = String(row[6] || "").trim();
-    const address = String(row[9] || "").trim();
-
-    const data: any = {};
-    if (status && allowedStatus.has(status)) data.status = status as any;
-    data.email = email || null;
-    data.phone = phone || null;
-    data.address = address || null;
-
-    const res = await prisma.request.updateMany({
-      where: { id: requestId, shopId },
-      data,
+    const requestId = String(row[idIndex] || "").trim();
+    const before = byId.get(requestId);
+    if (!before) continue;
+    // Stale row in a tab (or a sheet) the request no longer belongs to
+    if (requestTab(layouts, destination.partitionMode, before).sheetName !== layout.sheetName) continue;
+    if (!matchesSheetRouting(destination.routing, before)) continue;
+
+    const beforeValues =
+      before.values && typeof before.values === "object" && !Array.isArray(before.values) ? before.values : {};
+    const diffs: CellDiff[] = [];
+
+    for (const c of editable) {
+      const sheet = String(row[c.i] ?? "").trim();
+      if (!sheet) continue; // empty cells never clear the DB
+      if (c.source === "status" && !allowedStatus.has(sheet)) continue;
+
+      const db = isValueSource(c.source)
+        ? sheetValueText(beforeValues[c.source.slice("values.".length)])
+        : String(before[c.source as ContactField | "status"] ?? "");
+      if (!sameSheetText(sheet, db)) diffs.push({ field: c.source, sheet, db });
+    }
+
+    if (!diffs.length) {
+      report.unchanged += 1;
+      continue;
+    }
+
+    const syncedAt = new Date(String(row[syncIndex] ?? "").trim());
+    if (Number.isNaN(syncedAt.getTime())) {
+      report.skipped += 1;
+      continue;
+    }
+
+    candidates.push({ before, syncedAt, diffs });
+  }
+
+  if (!candidates.length) return;
+
+  // 2) Which of those fields did an admin change since the row was synced?
+  const since = new Map(
+    candidates.filter((c) => c.before.updatedAt > c.syncedAt).map((c) => [c.before.id as string, c.syncedAt])
+  );
+  const adminEdits = await loadAdminEditsSince(shopId, since);
+
+  // 3) Resolve
+  const updates: Array<{ id: string; data: Prisma.RequestUpdateInput }> = [];
+  const statusChanges: Array<{ requestId: string; from: RequestStatus; to: RequestStatus }> = [];
+  const events: Parameters<typeof recordRequestEvents>[0] = [];
+  const refresh = new Set<string>();
+
+  for (const { before, diffs } of candidates) {
+    const edits = adminEdits.get(before.id);
+    const apply: CellDiff[] = [];
+
+    for (const d of diffs) {
+      const edit = edits?.get(d.field);
+      if (!edit) {
+        apply.push(d); // only the sheet changed
+        continue;
+      }
+      if (sameSheetText(d.sheet, edit.from)) {
+        refresh.add(before.id); // only the admin changed, the sheet is behind
+        continue;
+      }
+
+      const winner = policy === "last_writer_wins" && sheetModifiedAt && sheetModifiedAt > edit.at ? "sheet" : "admin";
+      const conflict: SheetPullConflict = { requestId: before.id, field: d.field, sheet: d.sheet, db: d.db || null, winner };
+      report.conflicts.push(conflict);
+      events.push({
+        shopId,
+        requestId: before.id,
+        type: "sheet_sync",
+        actor: SHEETS_ACTOR,
+        data: { direction: "from_sheet", status: "conflict", field: d.field, sheet: d.sheet, db: d.db || null, winner },
+      });
+      if (winner === "sheet") apply.push(d);
+      else refresh.add(before.id);
+    }
+
+    if (!apply.length) continue;
+
+    const data: Prisma.RequestUpdateInput = {};
+    let nextStatus: RequestStatus | null = null;
+    const changes: FieldChange[] = [];
+    const beforeValues =
+      before.values && typeof before.values === "object" && !Array.isArray(before.values) ? before.values : {};
+    const nextValues: Record<string, unknown> = { ...beforeValues };
+    let valuesChanged = false;
+
+    for (const d of apply) {
+      if (d.field === "status") {
+        nextStatus = d.sheet as RequestStatus; // checked against STATUS_VALUES above
+        data.status = nextStatus;
+      } else if (isValueSource(d.field)) {
+        const key = d.field.slice("values.".length);
+        nextValues[key] = sheetTextToValue(d.sheet, beforeValues[key]);
+        valuesChanged = true;
+        changes.push({ field: d.field, from: d.db || null, to: d.sheet });
+      } else {
+        const field = d.field as ContactField;
+        data[field] = d.sheet;
+        changes.push({ field, from: before[field] ?? null, to: d.sheet });
+      }
+    }
+    if (valuesChanged) data.values = nextValues as Prisma.InputJsonObject;
+
+    updates.push({ id: before.id, data });
+    refresh.add(before.id);
+
+    if (nextStatus) statusChanges.push({ requestId: before.id, from: before.status, to: nextStatus });
+    if (changes.length) {
+      events.push({ shopId, requestId: before.id, type: "edited", actor: SHEETS_ACTOR, data: { changes } });
+    }
+  }
+
+  for (let i = 0; i < updates.length; i += PULL_WRITE_BATCH) {
+    const chunk = updates.slice(i, i + PULL_WRITE_BATCH);
+    await prisma.$transaction(chunk.map((u) => prisma.request.update({ where: { id: u.id }, data: u.data })));
+  }
+  report.updated += updates.length;
+  await recordRequestEvents(events);
+
+  // Same hooks as an admin status change (event, request_confirmed pixels + analytics)
+  for (const c of statusChanges) {
+    await onRequestStatusChanged({ shopId, requestId: c.requestId, from: c.from, to: c.to, actor: SHEETS_ACTOR });
+  }
+
+  // 4) Rewrite touched rows from the DB (new Last Sync, admin values where the admin won)
+  if (!refresh.size) return;
+
+  const rowById = new Map<string, number>();
+  rows.forEach((row, i) => {
+    const id = String(row[idIndex] || "").trim();
+    if (refresh.has(id)) rowById.set(id, i + 2);
+  });
+
+  const fresh = await prisma.request.findMany({
+    where: { shopId, id: { in: Array.from(refresh) } },
+    include: SHEET_REQUEST_INCLUDE,
+  });
+  const inTab = fresh.filter((r) => rowById.has(r.id));
+  // A status edit can move the row to another status tab
+  const moved = inTab.filter((r) => requestTab(layouts, destination.partitionMode, r).sheetName !== layout.sheetName);
+  const stay = inTab.filter((r) => !moved.includes(r));
+
+  const last = lastColumn(layout);
+  const data = stay
+    .map((r) => {
+      const n = rowById.get(r.id) as number;
+      return {
+        range: tabRange(layout.sheetName, `A${n}:${last}${n}`),
+        values: [buildSheetRowValues(shopDomain, r, { columns: layout.columns })],
+      };
     });
 
-    if (res.count > 0) updated += 1;
+  for (let i = 0; i < data.length; i += PULL_REFRESH_BATCH) {
+    await sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId,
+      requestBody: { valueInputOption: "USER_ENTERED", data: data.slice(i, i + PULL_REFRESH_BATCH) },
+    });
   }
+  report.refreshed += data.length;
+
+  if (!moved.length) return;
 
-  return { ok: true, updated };
+  // Bottom-up so earlier deletions don't shift the later rows
+  const rowsDown = moved.map((r) => rowById.get(r.id) as number).sort((a, b) => b - a);
+  await sheets.spreadsheets.batchUpdate({
+    spreadsheetId,
+    requestBody: {
+      requests: rowsDown.map((n) => ({
+        deleteDimension: { range: { sheetId, dimension: "ROWS", startIndex: n - 1, endIndex: n } },
+      })),
+    },
+  });
+  // Row numbers of this tab shifted: drop its index (rebuilt on the next lookup)
+  await forgetTabIndex(destination.id, layout.sheetName);
+  await prisma.sheetRowIndex.deleteMany({
+    where: { connectionId: destination.id, requestId: { in: moved.map((r) => r.id) } },
+  });
+
+  for (const r of moved) await writeRequestRow(sheets, destination, shopDomain, r);
+  report.refreshed += moved.length;
 }
 
 export async function exportRequestsToSpreadsheet(opts: {
@@ -498,114 +1488,223 @@ export async function exportRequestsToSpreadsheet(opts: {
   if (!shop) throw new Error("shop_not_found");
 
   const { client, shopId } = await getGoogleClientForShop(shopDomain);
-  const sheets = sheetsApi(client);
+  const sheets = sheetsApi(client, shopId);
 
-  const primaryConn = opts.spreadsheetId
-    ? { spreadsheetId: opts.spreadsheetId }
+  const conn = opts.spreadsheetId
+    ? await prisma.sheetsConnection.findUnique({
+        where: { shopId_spreadsheetId: { shopId, spreadsheetId: opts.spreadsheetId } },
+        select: { id: true, spreadsheetId: true, routing: true, partitionMode: true },
+      })
     : await getPrimaryConnection(shopId);
 
-  const spreadsheetId = (primaryConn as any)?.spreadsheetId;
+  const spreadsheetId = opts.spreadsheetId || conn?.spreadsheetId;
   if (!spreadsheetId) throw new Error("no_sheet");
 
-  await ensureRequestsSheetFormatted(sheets, spreadsheetId);
+  const runId = conn?.id ? await startSyncRun(conn.id, "to_sheet", "manual") : null;
+  try {
+    const exported = await writeAllRequestRows({
+      sheets,
+      spreadsheetId,
+      shopId,
+      shopDomain,
+      admin,
+      connectionId: conn?.id,
+      routing: parseSheetRouting(conn?.routing),
+      partitionMode: conn?.partitionMode ?? "none",
+    });
+    await finishSyncRun(runId, { status: "success", updated: exported });
+    return { ok: true, exported };
+  } catch (e: any) {
+    await finishSyncRun(runId, { status: "failed", error: normalizeGoogleError(e) });
+    throw e;
+  }
+}
+
+async function writeAllRequestRows(input: {
+  sheets: SheetsApi;
+  spreadsheetId: string;
+  shopId: string;
+  shopDomain: string;
+  admin?: ShopifyAdminClient;
+  connectionId?: string;
+  routing: SheetRouting;
+  partitionMode: SheetsPartitionMode;
+}) {
+  const { sheets, spreadsheetId, shopId, shopDomain, admin, partitionMode } = input;
+  const layouts = input.connectionId ? await loadSheetLayouts(input.connectionId) : [DEFAULT_SHEET_LAYOUT];
 
   const reqs = await prisma.request.findMany({
-    where: { shopId: shop.id },
+    where: { shopId, ...sheetRoutingWhere(input.routing) },
     orderBy: { createdAt: "desc" },
     take: 5000,
-    include: { items: true, wilaya: true, commune: true },
+    include: SHEET_REQUEST_INCLUDE,
   });
 
-  let baseStoreUrl = `https://${shopDomain}`;
-  const productMap = new Map<string, { title: string | null; handle: string | null; imageUrl: string | null }>();
-
+  const baseStoreUrl = admin ? await loadStoreBaseUrl(admin, shopDomain) : `https://${shopDomain}`;
+  const productMap: ProductInfoMap = new Map();
   if (admin) {
-    try {
-      const resp = await admin.graphql(
-        `#graphql
-        query ShopPrimaryDomain {
-          shop { primaryDomain { url } }
-        }`
-      );
-      const json = await resp.json();
-      const pd = json?.data?.shop?.primaryDomain?.url;
-      if (typeof pd === "string" && pd) baseStoreUrl = pd;
-    } catch {
-      // ignore
-    }
-
-    const productIds = Array.from(
-      new Set(
-        reqs
-          .map((r) => r.productId || r.items?.[0]?.productId || null)
-          .map((id) => asShopifyGid("Product", id))
-          .filter(Boolean) as string[]
-      )
+    await loadProductInfo(
+      admin,
+      reqs.map((r) => r.productId || r.items?.[0]?.productId || null),
+      productMap
     );
+  }
 
-    for (let i = 0; i < productIds.length; i += 80) {
-      const chunk = productIds.slice(i, i + 80);
-      try {
-        const resp = await admin.graphql(
-          `#graphql
-          query ProductsNodes($ids: [ID!]!) {
-            nodes(ids: $ids) {
-              ... on Product {
-                id
-                title
-                handle
-                featuredImage { url }
-                images(first: 1) { nodes { url } }
-              }
-            }
-          }`,
-          { variables: { ids: chunk } }
-        );
-        const json = await resp.json();
-        const nodes = json?.data?.nodes ?? [];
-        for (const n of nodes) {
-          if (!n?.id) continue;
-          const imageUrl = n?.featuredImage?.url ?? n?.images?.nodes?.[0]?.url ?? null;
-          productMap.set(String(n.id), {
-            title: n?.title ?? null,
-            handle: n?.handle ?? null,
-            imageUrl,
-          });
-        }
-      } catch {
-        // ignore chunk errors
-      }
+  // Keep order oldest -> newest in sheet, one tab per layout (or per partition)
+  const byTab = new Map<string, { tab: SheetLayout; rows: SheetRowValues[]; ids: string[] }>();
+  if (partitionMode === "none") {
+    for (const l of layouts) byTab.set(l.sheetName, { tab: l, rows: [], ids: [] });
+  }
+  for (const r of reqs.slice().reverse()) {
+    const tab = requestTab(layouts, partitionMode, r);
+    const entry = byTab.get(tab.sheetName) ?? { tab, rows: [], ids: [] };
+    byTab.set(tab.sheetName, entry);
+    entry.rows.push(buildSheetRowValues(shopDomain, r, { baseStoreUrl, productMap, columns: tab.columns }));
+    entry.ids.push(r.id);
+  }
+
+  // Empty the other tabs of the layouts, so rows of an old partition (or mode) don't linger
+  const rewritten = Array.from(byTab.keys());
+  for (const layout of layouts) {
+    for (const title of await layoutTabTitles(sheets, spreadsheetId, layout.sheetName)) {
+      if (byTab.has(title)) continue;
+      await sheets.spreadsheets.values.clear({ spreadsheetId, range: tabRange(title, "A2:ZZ") });
+      rewritten.push(title);
     }
   }
 
-  await sheets.spreadsheets.values.clear({
-    spreadsheetId,
-    range: `${REQUESTS_SHEET_NAME}!A2:R`,
-  });
+  let exported = 0;
+  const CHUNK = 400;
+  const index: Array<{ requestId: string; sheetName: string; sheetId: number; row: number }> = [];
+
+  for (const { tab, rows, ids } of byTab.values()) {
+    // A rebuild always re-applies formatting (repairs manual changes)
+    const sheetId = input.connectionId
+      ? (await ensureTab(sheets, spreadsheetId, input.connectionId, tab, { force: true })).sheetId
+      : await ensureRequestsSheetFormatted(sheets, spreadsheetId, tab);
+    await sheets.spreadsheets.values.clear({
+      spreadsheetId,
+      range: tabRange(tab.sheetName, "A2:ZZ"),
+    });
 
-  // Keep order oldest -> newest in sheet
-  const rows = reqs
-    .slice()
-    .reverse()
-    .map((r) => buildSheetRowValues(shopDomain, r, { baseStoreUrl, productMap }));
+    const last = lastColumn(tab);
+    for (let i = 0; i < rows.length; i += CHUNK) {
+      const chunk = rows.slice(i, i + CHUNK);
+      const startRow = 2 + i;
 
-  const CHUNK = 400;
-  for (let i = 0; i < rows.length; i += CHUNK) {
-    const chunk = rows.slice(i, i + CHUNK);
-    const startRow = 2 + i;
+      await sheets.spreadsheets.values.update({
+        spreadsheetId,
+        range: tabRange(tab.sheetName, `A${startRow}:${last}${startRow + chunk.length - 1}`),
+        valueInputOption: "USER_ENTERED",
+        requestBody: { values: chunk },
+      });
+    }
+    ids.forEach((requestId, i) => index.push({ requestId, sheetName: tab.sheetName, sheetId, row: 2 + i }));
+    exported += rows.length;
+  }
 
-    await sheets.spreadsheets.values.update({
-      spreadsheetId,
-      range: `${REQUESTS_SHEET_NAME}!A${startRow}:R${startRow + chunk.length - 1}`,
-      valueInputOption: "USER_ENTERED",
-      requestBody: { values: chunk },
+  // Full rewrite: the row index of this connection starts over
+  if (input.connectionId) {
+    const connectionId = input.connectionId;
+    await prisma.sheetRowIndex.deleteMany({ where: { connectionId } });
+    for (let i = 0; i < index.length; i += ROW_INDEX_BATCH) {
+      await prisma.sheetRowIndex.createMany({
+        data: index.slice(i, i + ROW_INDEX_BATCH).map((x) => ({ ...x, connectionId })),
+        skipDuplicates: true,
+      });
+    }
+    await prisma.sheetTab.updateMany({
+      where: { connectionId, sheetName: { in: rewritten } },
+      data: { indexed: true },
     });
   }
 
-  return { ok: true, exported: rows.length };
+  return exported;
+}
+
+export type ProductInfoMap = Map<string, { title: string | null; handle: string | null; imageUrl: string | null }>;
+
+/** Storefront base URL (primary domain), falls back to the myshopify domain. */
+export async function loadStoreBaseUrl(admin: ShopifyAdminClient, shopDomain: string) {
+  try {
+    const resp = await admin.graphql(
+      `#graphql
+      query ShopPrimaryDomain {
+        shop { primaryDomain { url } }
+      }`
+    );
+    const json = await resp.json();
+    const pd = json?.data?.shop?.primaryDomain?.url;
+    if (typeof pd === "string" && pd) return pd;
+  } catch {
+    // ignore
+  }
+  return `https://${shopDomain}`;
 }
 
-async function ensureRequestsSheetFormatted(sheets: any, spreadsheetId: string) {
+/**
+ * Product title/handle/image for row enrichment, keyed by Product GID.
+ * Ids already in `productMap` are skipped, so callers can reuse one map across batches.
+ */
+export async function loadProductInfo(
+  admin: ShopifyAdminClient,
+  productIds: Array<string | null>,
+  productMap: ProductInfoMap
+) {
+  const gids = Array.from(
+    new Set(
+      productIds
+        .map((id) => asShopifyGid("Product", id))
+        .filter((gid): gid is string => Boolean(gid) && !productMap.has(gid as string))
+    )
+  );
+
+  for (let i = 0; i < gids.length; i += 80) {
+    const chunk = gids.slice(i, i + 80);
+    try {
+      const resp = await admin.graphql(
+        `#graphql
+        query ProductsNodes($ids: [ID!]!) {
+          nodes(ids: $ids) {
+            ... on Product {
+              id
+              title
+              handle
+              featuredImage { url }
+              images(first: 1) { nodes { url } }
+            }
+          }
+        }`,
+        { variables: { ids: chunk } }
+      );
+      const json = await resp.json();
+      const nodes = json?.data?.nodes ?? [];
+      for (const n of nodes) {
+        if (!n?.id) continue;
+        const imageUrl = n?.featuredImage?.url ?? n?.images?.nodes?.[0]?.url ?? null;
+        productMap.set(String(n.id), {
+          title: n?.title ?? null,
+          handle: n?.handle ?? null,
+          imageUrl,
+        });
+      }
+    } catch {
+      // ignore chunk errors
+    }
+    // Not found / not a product: remember it so later batches don't ask again
+    for (const gid of chunk) if (!productMap.has(gid)) productMap.set(gid, { title: null, handle: null, imageUrl: null });
+  }
+}
+
+/** Tab of a layout (or one of its partitions): created when missing, header row + formatting rewritten. Returns its sheetId. */
+async function ensureRequestsSheetFormatted(
+  sheets: SheetsApi,
+  spreadsheetId: string,
+  layout: SheetLayout = DEFAULT_SHEET_LAYOUT
+) {
+  const tabName = layout.sheetName;
+  const columnCount = layout.columns.length;
+
   // Include basicFilter so we can safely clear it only when present
   const meta = await sheets.spreadsheets.get({
     spreadsheetId,
@@ -614,14 +1713,23 @@ async function ensureRequestsSheetFormatted(sheets: any, spreadsheetId: string)
   });
 
   const found =
-    meta.data.sheets?.find((s: any) => s.properties?.title === REQUESTS_SHEET_NAME) ?? null;
+    meta.data.sheets?.find((s) => s.properties?.title === tabName) ?? null;
 
   let sheetId: number | null = found?.properties?.sheetId ?? null;
+  let gridColumns: number = found?.properties?.gridProperties?.columnCount ?? 26;
 
   if (sheetId == null) {
     await sheets.spreadsheets.batchUpdate({
       spreadsheetId,
-      requestBody: { requests: [{ addSheet: { properties: { title: REQUESTS_SHEET_NAME } } }] },
+      requestBody: {
+        requests: [
+          {
+            addSheet: {
+              properties: { title: tabName, gridProperties: { columnCount: Math.max(26, columnCount) } },
+            },
+          },
+        ],
+      },
     });
 
     const meta2 = await sheets.spreadsheets.get({
@@ -630,21 +1738,33 @@ async function ensureRequestsSheetFormatted(sheets: any, spreadsheetId: string)
     });
 
     const created =
-      meta2.data.sheets?.find((s: any) => s.properties?.title === REQUESTS_SHEET_NAME) ?? null;
+      meta2.data.sheets?.find((s) => s.properties?.title === tabName) ?? null;
 
     sheetId = created?.properties?.sheetId ?? null;
+    gridColumns = created?.properties?.gridProperties?.columnCount ?? gridColumns;
   }
 
   if (sheetId == null) {
     throw new Error("requests_sheet_missing_sheetId");
   }
 
-  // Header row
+  // Wide layouts: values.update does not grow the grid by itself
+  if (gridColumns < columnCount) {
+    await sheets.spreadsheets.batchUpdate({
+      spreadsheetId,
+      requestBody: {
+        requests: [{ appendDimension: { sheetId, dimension: "COLUMNS", length: columnCount - gridColumns } }],
+      },
+    });
+  }
+
+  // Header row (cleared first so a shorter layout leaves no stale headers)
+  await sheets.spreadsheets.values.clear({ spreadsheetId, range: tabRange(tabName, "1:1") });
   await sheets.spreadsheets.values.update({
     spreadsheetId,
-    range: `${REQUESTS_SHEET_NAME}!A1:R1`,
+    range: tabRange(tabName, `A1:${lastColumn(layout)}1`),
     valueInputOption: "RAW",
-    requestBody: { values: [Array.from(HEADERS)] },
+    requestBody: { values: [layout.columns.map((c) => c.header)] },
   });
 
   // Re-fetch for cleanup (banding + conditional rules + filter state)
@@ -655,13 +1775,13 @@ async function ensureRequestsSheetFormatted(sheets: any, spreadsheetId: string)
   });
 
   const sheet =
-    meta3.data.sheets?.find((s: any) => s.properties?.title === REQUESTS_SHEET_NAME) ?? null;
+    meta3.data.sheets?.find((s) => s.properties?.title === tabName) ?? null;
 
-  const bandedRanges = (sheet as any)?.bandedRanges ?? [];
-  const conditionalFormats = (sheet as any)?.conditionalFormats ?? [];
-  const hasBasicFilter = Boolean((sheet as any)?.basicFilter);
+  const bandedRanges = sheet?.bandedRanges ?? [];
+  const conditionalFormats = sheet?.conditionalFormats ?? [];
+  const hasBasicFilter = Boolean(sheet?.basicFilter);
 
-  const requests: any[] = [];
+  const requests: sheets_v4.Schema$Request[] = [];
 
   for (const br of bandedRanges) {
     if (br?.bandedRangeId != null) {
@@ -715,13 +1835,13 @@ async function ensureRequestsSheetFormatted(sheets: any, spreadsheetId: string)
           sheetId,
           startRowIndex: 0,
           startColumnIndex: 0,
-          endColumnIndex: 18,
+          endColumnIndex: columnCount,
         },
         rowProperties: {
+          headerColor: { red: 0.10, green: 0.12, blue: 0.18 },
           firstBandColor: { red: 0.98, green: 0.98, blue: 0.99 },
           secondBandColor: { red: 1, green: 1, blue: 1 },
         },
-        headerColor: { red: 0.10, green: 0.12, blue: 0.18 },
       },
     },
   });
@@ -733,93 +1853,123 @@ async function ensureRequestsSheetFormatted(sheets: any, spreadsheetId: string)
           sheetId,
           startRowIndex: 0,
           startColumnIndex: 0,
-          endColumnIndex: 18,
+          endColumnIndex: columnCount,
         },
       },
     },
   });
 
-  // Status dropdown validation (Column B, from row 2 down)
-  requests.push({
-    setDataValidation: {
-      range: { sheetId, startRowIndex: 1, startColumnIndex: 1, endColumnIndex: 2 },
-      rule: {
-        condition: {
-          type: "ONE_OF_LIST",
-          values: STATUS_VALUES.map((v) => ({ userEnteredValue: v })),
-        },
-        strict: true,
-        showCustomUi: true,
-      },
-    },
-  });
+  // Drop validation left by a previous layout, then re-add it on the status column
+  requests.push({ setDataValidation: { range: { sheetId, startRowIndex: 1 } } });
 
-  const statusRange = {
-    sheetId,
-    startRowIndex: 1,
-    startColumnIndex: 1,
-    endColumnIndex: 2,
-  };
+  const statusIndex = layout.columns.findIndex((c) => c.source === "status");
+  if (statusIndex >= 0) {
+    const statusRange = {
+      sheetId,
+      startRowIndex: 1,
+      startColumnIndex: statusIndex,
+      endColumnIndex: statusIndex + 1,
+    };
 
-  // Conditional formatting by status (adds a couple more without removing yours)
-  const addStatusRule = (value: string, rgb: { red: number; green: number; blue: number }) => {
+    // Status dropdown validation (from row 2 down)
     requests.push({
-      addConditionalFormatRule: {
+      setDataValidation: {
+        range: statusRange,
         rule: {
-          ranges: [statusRange],
-          booleanRule: {
-            condition: { type: "TEXT_EQ", values: [{ userEnteredValue: value }] },
-            format: { backgroundColor: rgb },
+          condition: {
+            type: "ONE_OF_LIST",
+            values: STATUS_VALUES.map((v) => ({ userEnteredValue: v })),
           },
+          strict: true,
+          showCustomUi: true,
         },
-        index: 0,
       },
     });
-  };
 
-  addStatusRule("confirmed", { red: 0.86, green: 0.97, blue: 0.90 });
-  addStatusRule("in_review", { red: 0.90, green: 0.94, blue: 0.99 });
-  addStatusRule("contacted", { red: 0.93, green: 0.97, blue: 0.99 });
-  addStatusRule("received", { red: 0.99, green: 0.95, blue: 0.87 });
-  addStatusRule("cancelled", { red: 0.99, green: 0.90, blue: 0.90 });
-  addStatusRule("spam", { red: 0.93, green: 0.93, blue: 0.93 });
-  addStatusRule("archived", { red: 0.95, green: 0.95, blue: 0.95 });
+    // Conditional formatting by status (adds a couple more without removing yours)
+    const addStatusRule = (value: string, rgb: { red: number; green: number; blue: number }) => {
+      requests.push({
+        addConditionalFormatRule: {
+          rule: {
+            ranges: [statusRange],
+            booleanRule: {
+              condition: { type: "TEXT_EQ", values: [{ userEnteredValue: value }] },
+              format: { backgroundColor: rgb },
+            },
+          },
+          index: 0,
+        },
+      });
+    };
+
+    addStatusRule("confirmed", { red: 0.86, green: 0.97, blue: 0.90 });
+    addStatusRule("in_review", { red: 0.90, green: 0.94, blue: 0.99 });
+    addStatusRule("contacted", { red: 0.93, green: 0.97, blue: 0.99 });
+    addStatusRule("received", { red: 0.99, green: 0.95, blue: 0.87 });
+    addStatusRule("cancelled", { red: 0.99, green: 0.90, blue: 0.90 });
+    addStatusRule("spam", { red: 0.93, green: 0.93, blue: 0.93 });
+    addStatusRule("archived", { red: 0.95, green: 0.95, blue: 0.95 });
+  }
 
-  // Column widths (A..R)
-  const colWidths = [
-    210, 120, 170, 110, 220, 220, 160, 160, 160, 260, 90, 240, 70, 260, 140, 260, 240, 170,
-  ];
+  // Editable columns are plain text: Sheets would otherwise turn "0555…" / "+213…"
+  // into numbers and dates into serials, and the next pull would write those back
+  layout.columns.forEach((c, i) => {
+    if (!isEditableSource(c.source)) return;
+    requests.push({
+      repeatCell: {
+        range: { sheetId, startRowIndex: 1, startColumnIndex: i, endColumnIndex: i + 1 },
+        cell: { userEnteredFormat: { numberFormat: { type: "TEXT" } } },
+        fields: "userEnteredFormat.numberFormat",
+      },
+    });
+  });
 
-  for (let i = 0; i < colWidths.length; i++) {
+  // Column widths (per source, see SHEET_SOURCES)
+  layout.columns.forEach((c, i) => {
     requests.push({
       updateDimensionProperties: {
         range: { sheetId, dimension: "COLUMNS", startIndex: i, endIndex: i + 1 },
-        properties: { pixelSize: colWidths[i] },
+        properties: { pixelSize: columnWidth(c) },
         fields: "pixelSize",
       },
     });
-  }
+  });
 
   await sheets.spreadsheets.batchUpdate({
     spreadsheetId,
     requestBody: { requests },
   });
+
+  return sheetId;
 }
 
-async function loadRequestForSheet(shopId: string, requestId: string) {
-  return prisma.request.findFirst({
-    where: { id: requestId, shopId },
-    include: { items: true, wilaya: true, commune: true },
-  });
+/** Existing tab titles that belong to a layout tab under any partition mode. */
+async function layoutTabTitles(sheets: SheetsApi, spreadsheetId: string, sheetName: string) {
+  const meta = await sheets.spreadsheets.get({ spreadsheetId, fields: "sheets.properties.title" });
+  const titles: string[] = (meta.data.sheets ?? []).map((x) => String(x.properties?.title ?? ""));
+  const modes: SheetsPartitionMode[] = ["none", "monthly", "status"];
+  return titles.filter((t) => modes.some((m) => isPartitionTab(sheetName, m, t)));
 }
 
-async function getRequestIdToRowMap(sheets: any, spreadsheetId: string) {
+const SHEET_REQUEST_INCLUDE = {
+  items: true,
+  wilaya: true,
+  commune: true,
+  assignedAgent: { select: { name: true } },
+} as const;
+
+function idColumnLetter(layout: SheetLayout) {
+  return columnLetter(layout.columns.findIndex((c) => c.source === "id") + 1);
+}
+
+async function getRequestIdToRowMap(sheets: SheetsApi, spreadsheetId: string, layout: SheetLayout) {
+  const col = idColumnLetter(layout);
   const resp = await sheets.spreadsheets.values.get({
     spreadsheetId,
-    range: `${REQUESTS_SHEET_NAME}!A2:A`,
+    range: tabRange(layout.sheetName, `${col}2:${col}`),
   });
 
-  const values: any[][] = resp.data.values || [];
+  const values = resp.data.values || [];
   const map = new Map<string, number>();
 
   for (let i = 0; i < values.length; i++) {
@@ -831,14 +1981,69 @@ async function getRequestIdToRowMap(sheets: any, spreadsheetId: string) {
   return map;
 }
 
-function buildSheetRowValues(
+/** Text of a `values` entry in the sheet; Sheet -> DB compares against the same text. */
+function sheetValueText(v: unknown): string {
+  if (v === null || v === undefined) return "";
+  if (typeof v === "boolean") return v ? "Yes" : "No";
+  if (Array.isArray(v) && v.every((x) => typeof x !== "object" || x === null)) return v.join(", ");
+  if (typeof v === "object") return JSON.stringify(v);
+  return String(v);
+}
+
+/**
+ * Sheet text vs DB text. Cells written before editable columns were plain text
+ * may hold a number Sheets parsed ("0555123456" -> 555123456); those count as unchanged.
+ */
+function sameSheetText(sheet: string, db: string) {
+  if (sheet === db) return true;
+  const isNum = (x: string) => x.trim() !== "" && Number.isFinite(Number(x));
+  return isNum(sheet) && isNum(db) && Number(sheet) === Number(db);
+}
+
+/** A `values` entry edited in the sheet, back in the type the DB had (see sheetValueText). */
+function sheetTextToValue(text: string, before: unknown): unknown {
+  if (typeof before === "boolean") {
+    const t = text.trim().toLowerCase();
+    if (t === "yes" || t === "true") return true;
+    if (t === "no" || t === "false") return false;
+    return text;
+  }
+  if (typeof before === "number") {
+    const n = Number(text);
+    return text.trim() !== "" && Number.isFinite(n) ? n : text;
+  }
+  if (Array.isArray(before) && before.every((x) => typeof x !== "object" || x === null)) {
+    return text
+      .split(",")
+      .map((x) => x.trim())
+      .filter(Boolean);
+  }
+  if (before && typeof before === "object") {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text;
+    }
+  }
+  return text;
+}
+
+/**
+ * One row in layout order (built-in columns when none is given). `plain`
+ * (file export) writes raw URLs instead of Sheets formulas and leaves
+ * image/formula columns empty.
+ */
+export function buildSheetRowValues(
   shopDomain: string,
   r: any,
   enrich?: {
     baseStoreUrl?: string;
-    productMap?: Map<string, { title: string | null; handle: string | null; imageUrl: string | null }>;
+    productMap?: ProductInfoMap;
+    plain?: boolean;
+    columns?: SheetColumn[];
   }
 ) {
+  const columns = enrich?.columns ?? DEFAULT_SHEET_COLUMNS;
   const fullName = `${r.firstName ?? ""} ${r.lastName ?? ""}`.trim();
   const customer = fullName || r.email || r.phone || "—";
 
@@ -863,11 +2068,13 @@ function buildSheetRowValues(
   const appUrl = process.env.SHOPIFY_APP_URL || "";
   const adminUrl = appUrl ? `${appUrl}/app/requests/${r.id}?shop=${encodeURIComponent(shopDomain)}` : "";
 
-  const adminLink = adminUrl ? `=HYPERLINK("${adminUrl}", "Open")` : "";
-  const productLink = productUrl ? `=HYPERLINK("${productUrl}", "Open")` : "";
+  const plain = Boolean(enrich?.plain);
+  const adminLink = adminUrl ? (plain ? adminUrl : `=HYPERLINK("${adminUrl}", "Open")`) : "";
+  const productLink = productUrl ? (plain ? productUrl : `=HYPERLINK("${productUrl}", "Open")`) : "";
 
-  // Uses column P (Product Image URL) and renders an 80x80 image
-  const imageFormula = `=IF(LEN(INDIRECT("P"&ROW())),IMAGE(INDIRECT("P"&ROW()),4,80,80),"")`;
+  // 80x80 image, independent of where the URL column sits
+  const imageFormula =
+    !plain && productImageUrl ? `=IMAGE("${String(productImageUrl).replace(/"/g, '""')}",4,80,80)` : "";
 
   const itemsSummary = Array.isArray(r.items) && r.items.length ? String(r.items.length) : "0";
 
@@ -878,24 +2085,51 @@ function buildSheetRowValues(
 
   const c = r.commune?.nameFr ?? r.commune?.nameAr ?? "";
 
-  return [
-    r.id, // A
-    String(r.status), // B
-    new Date(r.createdAt).toISOString(), // C
-    String(r.roleType), // D
-    customer, // E
-    r.email ?? "", // F
-    r.phone ?? "", // G
-    w ?? "", // H
-    c ?? "", // I
-    r.address ?? "", // J
-    itemsSummary, // K
-    String(productTitle ?? "—"), // L
-    String(qty ?? 1), // M
-    productLink, // N
-    imageFormula, // O
-    String(productImageUrl ?? ""), // P
-    adminLink, // Q
-    nowIso(), // R
-  ];
+  const delivery = r.deliveryType === "home" ? "Home" : r.deliveryType === "desk" ? "Stop desk" : "";
+  const num = (x: any) => (x !== null && x !== undefined ? Number(x) : "");
+
+  const cells: Record<string, string | number> = {
+    id: r.id,
+    status: String(r.status),
+    createdAt: new Date(r.createdAt).toISOString(),
+    roleType: String(r.roleType),
+    firstName: r.firstName ?? "",
+    lastName: r.lastName ?? "",
+    email: r.email ?? "",
+    phone: r.phone ?? "",
+    country: r.country ?? "",
+    address: r.address ?? "",
+    zip: r.zip ?? "",
+    wilayaCode: num(r.wilayaCode),
+    deliveryFee: num(r.deliveryFee),
+    value: num(r.value),
+    currency: r.currency ?? "",
+    pageUrl: r.pageUrl ?? "",
+    referrer: r.referrer ?? "",
+    draftOrderName: r.draftOrderName ?? "",
+
+    customer,
+    wilaya: w ?? "",
+    commune: c ?? "",
+    delivery,
+    items: itemsSummary,
+    productTitle: String(productTitle ?? "—"),
+    qty: String(qty ?? 1),
+    productUrl: productLink,
+    productImage: imageFormula,
+    productImageUrl: String(productImageUrl ?? ""),
+    adminLink,
+    agent: r.assignedAgent?.name ?? "",
+    lastSync: nowIso(),
+  };
+
+  return columns.map((col) => {
+    if (col.source === "formula") return plain ? "" : expandFormula(col.formula || "", columns);
+    if (isValueSource(col.source)) {
+      const text = sheetValueText(v[col.source.slice("values.".length)]);
+      // Customer input is never evaluated as a formula
+      return !plain && text.startsWith("=") ? `'${text}` : text;
+    }
+    return cells[col.source] ?? "";
+  });
 }
@@ -0,0 +1,325 @@
+// app/lib/sheetsMapping.server.ts
+import type { RoleType, SheetsPartitionMode } from "@prisma/client";
+import { prisma } from "~/db.server";
+
+/**
+ * Google Sheet column layouts (SheetsMapping rows, per connection).
+ * - A layout is the tab it writes to + an ordered list of columns
+ * - Column sources: core request fields, `values.<nameKey>` (form answers),
+ *   computed fields and formulas
+ * - A request uses the most specific layout: form+role > form > role >
+ *   connection default > built-in default (the historical A..T layout)
+ * - Partitioned connections split each layout tab per month or status group
+ *   ("Requests 2026-10", "Requests - Confirmed"); the layout tab is the prefix
+ * - Sheet -> DB only reads back editable sources (status, contact, values.*),
+ *   and only on tabs that also have a Last Sync column
+ */
+
+export type SheetColumn = {
+  header: string;
+  source: string; // SHEET_SOURCES key | values.<nameKey> | formula
+  formula?: string; // source=formula; {Header} -> that column on the same row
+};
+
+export type SheetLayout = {
+  id: string | null; // null = built-in default
+  formId: string | null;
+  roleType: RoleType | null;
+  sheetName: string;
+  columns: SheetColumn[];
+};
+
+export const DEFAULT_SHEET_NAME = "Requests";
+
+export const MAX_SHEET_COLUMNS = 60;
+
+type SourceDef = { label: string; group: "core" | "computed"; editable?: boolean; width?: number };
+
+/** Column sources other than values.* and formula. */
+export const SHEET_SOURCES: Record<string, SourceDef> = {
+  id: { label: "Request ID", group: "core", width: 210 },
+  status: { label: "Status", group: "core", editable: true, width: 120 },
+  createdAt: { label: "Created at", group: "core", width: 170 },
+  roleType: { label: "Role", group: "core", width: 110 },
+  firstName: { label: "First name", group: "core", editable: true },
+  lastName: { label: "Last name", group: "core", editable: true },
+  email: { label: "Email", group: "core", editable: true, width: 220 },
+  phone: { label: "Phone", group: "core", editable: true, width: 160 },
+  country: { label: "Country", group: "core" },
+  address: { label: "Address", group: "core", editable: true, width: 260 },
+  zip: { label: "Zip", group: "core" },
+  wilayaCode: { label: "Wilaya code", group: "core", width: 90 },
+  deliveryFee: { label: "Delivery fee", group: "core", width: 110 },
+  value: { label: "Order value", group: "core", width: 110 },
+  currency: { label: "Currency", group: "core", width: 90 },
+  pageUrl: { label: "Page URL", group: "core", width: 260 },
+  referrer: { label: "Referrer", group: "core", width: 260 },
+  draftOrderName: { label: "Draft order", group: "core" },
+
+  customer: { label: "Customer (name, email or phone)", group: "computed", width: 220 },
+  wilaya: { label: "Wilaya name", group: "computed", width: 160 },
+  commune: { label: "Commune name", group: "computed", width: 160 },
+  delivery: { label: "Delivery type", group: "computed", width: 120 },
+  items: { label: "Items count", group: "computed", width: 90 },
+  productTitle: { label: "Product", group: "computed", width: 240 },
+  qty: { label: "Quantity", group: "computed", width: 70 },
+  productUrl: { label: "Product link", group: "computed", width: 260 },
+  productImage: { label: "Product image", group: "computed", width: 140 },
+  productImageUrl: { label: "Product image URL", group: "computed", width: 260 },
+  adminLink: { label: "Admin link", group: "computed", width: 240 },
+  agent: { label: "Assigned agent", group: "computed" },
+  lastSync: { label: "Last sync", group: "computed", width: 170 },
+};
+
+/** The historical A..T layout; existing sheets keep it unless a mapping is saved. */
+export const DEFAULT_SHEET_COLUMNS: SheetColumn[] = [
+  { header: "Request ID", source: "id" }, // A
+  { header: "Status", source: "status" }, // B
+  { header: "Created At", source: "createdAt" }, // C
+  { header: "Role", source: "roleType" }, // D
+  { header: "Customer", source: "customer" }, // E
+  { header: "Email", source: "email" }, // F
+  { header: "Phone", source: "phone" }, // G
+  { header: "Wilaya", source: "wilaya" }, // H
+  { header: "Commune", source: "commune" }, // I
+  { header: "Address", source: "address" }, // J
+  { header: "Items", source: "items" }, // K
+  { header: "Product", source: "productTitle" }, // L
+  { header: "Qty", source: "qty" }, // M
+  { header: "Product URL", source: "productUrl" }, // N
+  { header: "Product Image", source: "productImage" }, // O (formula)
+  { header: "Product Image URL", source: "productImageUrl" }, // P (raw url)
+  { header: "Admin Link", source: "adminLink" }, // Q
+  { header: "Last Sync", source: "lastSync" }, // R
+  { header: "Delivery", source: "delivery" }, // S
+  { header: "Delivery Fee", source: "deliveryFee" }, // T
+];
+
+export const DEFAULT_SHEET_LAYOUT: SheetLayout = {
+  id: null,
+  formId: null,
+  roleType: null,
+  sheetName: DEFAULT_SHEET_NAME,
+  columns: DEFAULT_SHEET_COLUMNS,
+};
+
+const ROLE_TYPES: RoleType[] = ["individual", "installer", "company"];
+
+const VALUE_KEY_RE = /^values\.[A-Za-z0-9_-]{1,64}$/;
+
+export function isValueSource(source: string) {
+  return VALUE_KEY_RE.test(source);
+}
+
+export function isEditableSource(source: string) {
+  return isValueSource(source) || Boolean(SHEET_SOURCES[source]?.editable);
+}
+
+export function columnWidth(c: SheetColumn) {
+  return SHEET_SOURCES[c.source]?.width ?? 180;
+}
+
+export function columnLetter(n: number) {
+  let out = "";
+  for (let x = n; x > 0; x = Math.floor((x - 1) / 26)) {
+    out = String.fromCharCode(65 + ((x - 1) % 26)) + out;
+  }
+  return out;
+}
+
+/** A1 range on a tab; names are always quoted (spaces, accents). */
+export function tabRange(sheetName: string, range: string) {
+  return `'${sheetName.replace(/'/g, "''")}'!${range}`;
+}
+
+const STATUS_TABS: Record<string, string> = {
+  received: "New",
+  in_review: "New",
+  contacted: "New",
+  confirmed: "Confirmed",
+  cancelled: "Cancelled",
+  spam: "Cancelled",
+  archived: "Archived",
+};
+
+const STATUS_TAB_NAMES = Array.from(new Set(Object.values(STATUS_TABS)));
+
+/** Tab a request's row goes to under a partition mode. */
+export function partitionSheetName(
+  sheetName: string,
+  mode: SheetsPartitionMode,
+  r: { createdAt: Date | string; status: string }
+) {
+  if (mode === "monthly") return `${sheetName} ${new Date(r.createdAt).toISOString().slice(0, 7)}`;
+  if (mode === "status") return `${sheetName} - ${STATUS_TABS[r.status] ?? "New"}`;
+  return sheetName;
+}
+
+/** True when `title` is one of the tabs `sheetName` is split into. */
+export function isPartitionTab(sheetName: string, mode: SheetsPartitionMode, title: string) {
+  if (mode === "monthly") {
+    return title.startsWith(`${sheetName} `) && /^\d{4}-\d{2}$/.test(title.slice(sheetName.length + 1));
+  }
+  if (mode === "status") return STATUS_TAB_NAMES.some((t) => title === `${sheetName} - ${t}`);
+  return title === sheetName;
+}
+
+/** `{Header}` placeholders -> the cell of that column on the current row. */
+export function expandFormula(formula: string, columns: SheetColumn[]) {
+  const byHeader = new Map(columns.map((c, i) => [c.header.trim().toLowerCase(), columnLetter(i + 1)]));
+  return formula.replace(/\{([^{}]+)\}/g, (m, name: string) => {
+    const letter = byHeader.get(name.trim().toLowerCase());
+    return letter ? `INDIRECT("${letter}"&ROW())` : m;
+  });
+}
+
+function normalizeColumns(raw: unknown): SheetColumn[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .map((c: any) => ({
+      header: String(c?.header ?? "").trim(),
+      source: String(c?.source ?? "").trim(),
+      ...(String(c?.source ?? "").trim() === "formula" ? { formula: String(c?.formula ?? "").trim() } : {}),
+    }))
+    .filter((c) => c.header && c.source);
+}
+
+/** Layout from a SheetsMapping row; broken or empty mappings fall back to the default columns. */
+function toLayout(row: { id: string; formId: string | null; roleType: RoleType | null; mapping: any }): SheetLayout {
+  const m = row.mapping && typeof row.mapping === "object" ? row.mapping : {};
+  const columns = normalizeColumns(m.columns);
+  const valid = columns.length > 0 && columns.some((c) => c.source === "id");
+  return {
+    id: row.id,
+    formId: row.formId,
+    roleType: row.roleType,
+    sheetName: String(m.sheetName || "").trim() || DEFAULT_SHEET_NAME,
+    columns: valid ? columns : DEFAULT_SHEET_COLUMNS,
+  };
+}
+
+/** Saved layouts of a connection, the default one first (built-in when none is saved). */
+export async function loadSheetLayouts(connectionId: string): Promise<SheetLayout[]> {
+  const rows = await prisma.sheetsMapping.findMany({
+    where: { connectionId },
+    orderBy: { createdAt: "asc" },
+    select: { id: true, formId: true, roleType: true, mapping: true },
+  });
+
+  const layouts = rows.map(toLayout);
+  const hasDefault = layouts.some((l) => !l.formId && !l.roleType);
+  const sorted = layouts.sort((a, b) => Number(Boolean(a.formId || a.roleType)) - Number(Boolean(b.formId || b.roleType)));
+  return hasDefault ? sorted : [DEFAULT_SHEET_LAYOUT, ...sorted];
+}
+
+/** Most specific layout for a request. */
+export function pickSheetLayout(layouts: SheetLayout[], r: { formId?: string | null; roleType?: string | null }) {
+  const formId = r.formId ?? null;
+  const roleType = r.roleType ?? null;
+  return (
+    layouts.find((l) => l.formId && l.roleType && l.formId === formId && l.roleType === roleType) ??
+    layouts.find((l) => l.formId && !l.roleType && l.formId === formId) ??
+    layouts.find((l) => !l.formId && l.roleType && l.roleType === roleType) ??
+    layouts.find((l) => !l.formId && !l.roleType) ??
+    DEFAULT_SHEET_LAYOUT
+  );
+}
+
+function validateColumns(columns: SheetColumn[]) {
+  if (!columns.length) throw new Error("no_columns");
+  if (columns.length > MAX_SHEET_COLUMNS) throw new Error("too_many_columns");
+  if (columns.filter((c) => c.source === "id").length !== 1) throw new Error("missing_id_column");
+  // Sheet -> DB needs each row's Last Sync to tell sheet edits from stale cells
+  if (columns.some((c) => isEditableSource(c.source)) && !columns.some((c) => c.source === "lastSync")) {
+    throw new Error("missing_last_sync_column");
+  }
+
+  const headers = new Set<string>();
+  for (const c of columns) {
+    if (c.header.length > 100) throw new Error("header_too_long");
+    const key = c.header.toLowerCase();
+    if (headers.has(key)) throw new Error("duplicate_header");
+    headers.add(key);
+
+    if (c.source === "formula") {
+      if (!c.formula || !c.formula.startsWith("=")) throw new Error("invalid_formula");
+      if (c.formula.length > 1000) throw new Error("invalid_formula");
+    } else if (!SHEET_SOURCES[c.source] && !isValueSource(c.source)) {
+      throw new Error("invalid_source");
+    }
+  }
+}
+
+/** Create or update a layout; returns the SheetsMapping id. */
+export async function saveSheetLayout(input: {
+  shopId: string;
+  connectionId: string;
+  id?: string | null;
+  formId: string | null;
+  roleType: string | null;
+  sheetName: string;
+  columns: unknown;
+}) {
+  const roleType = input.roleType ? (input.roleType as RoleType) : null;
+  if (roleType && !ROLE_TYPES.includes(roleType)) throw new Error("invalid_role");
+
+  const sheetName = input.sheetName.trim();
+  if (!sheetName) throw new Error("missing_sheet_name");
+  if (sheetName.length > 100) throw new Error("sheet_name_too_long");
+
+  const columns = normalizeColumns(input.columns);
+  validateColumns(columns);
+
+  if (input.formId) {
+    const form = await prisma.form.findFirst({ where: { id: input.formId, shopId: input.shopId }, select: { id: true } });
+    if (!form) throw new Error("form_not_found");
+  }
+
+  const others = await prisma.sheetsMapping.findMany({
+    where: { connectionId: input.connectionId, ...(input.id ? { id: { not: input.id } } : {}) },
+    select: { id: true, formId: true, roleType: true, mapping: true },
+  });
+  for (const o of others.map(toLayout)) {
+    if (o.formId === input.formId && o.roleType === roleType) throw new Error("duplicate_layout");
+    if (o.sheetName.toLowerCase() === sheetName.toLowerCase()) throw new Error("duplicate_sheet_name");
+  }
+  // The built-in default owns "Requests" until a default layout is saved
+  const hasDefault = others.some((o) => !o.formId && !o.roleType);
+  if ((input.formId || roleType) && !hasDefault && sheetName.toLowerCase() === DEFAULT_SHEET_NAME.toLowerCase()) {
+    throw new Error("duplicate_sheet_name");
+  }
+
+  const mapping = { sheetName, columns };
+
+  if (input.id) {
+    const updated = await prisma.sheetsMapping.updateMany({
+      where: { id: input.id, connectionId: input.connectionId },
+      data: { formId: input.formId, roleType, mapping },
+    });
+    if (!updated.count) throw new Error("layout_not_found");
+    return input.id;
+  }
+
+  const created = await prisma.sheetsMapping.create({
+    data: { connectionId: input.connectionId, formId: input.formId, roleType, mapping },
+    select: { id: true },
+  });
+  return created.id;
+}
+
+export async function deleteSheetLayout(connectionId: string, id: string) {
+  await prisma.sheetsMapping.deleteMany({ where: { id, connectionId } });
+}
+
+const PARTITION_MODES: SheetsPartitionMode[] = ["none", "monthly", "status"];
+
+/** Switch how a connection splits its tabs; the caller rebuilds the sheet afterwards. */
+export async function saveSheetPartitionMode(shopId: string, connectionId: string, mode: string) {
+  if (!PARTITION_MODES.includes(mode as SheetsPartitionMode)) throw new Error("invalid_partition_mode");
+
+  const res = await prisma.sheetsConnection.updateMany({
+    where: { id: connectionId, shopId },
+    data: { partitionMode: mode as SheetsPartitionMode },
+  });
+  if (!res.count) throw new Error("sheet_not_found");
+}
@@ -0,0 +1,163 @@
+// app/lib/sheetsRouting.server.ts
+import { Prisma, type RoleType } from "@prisma/client";
+import { prisma } from "~/db.server";
+
+/**
+ * Routing rules of a Google Sheets destination (SheetsConnection.routing).
+ * - A request is written to every active connection whose rules match
+ * - Rules are ANDed; an empty rule matches everything (no rules = catch-all)
+ * - Products match the request product or any of its items; ids are stored
+ *   numeric and compared against both numeric and GID forms
+ */
+
+export type SheetRouting = {
+  roleTypes: RoleType[];
+  formIds: string[];
+  wilayaFrom: number | null;
+  wilayaTo: number | null;
+  productIds: string[];
+};
+
+export const EMPTY_SHEET_ROUTING: SheetRouting = {
+  roleTypes: [],
+  formIds: [],
+  wilayaFrom: null,
+  wilayaTo: null,
+  productIds: [],
+};
+
+const ROLE_TYPES: RoleType[] = ["individual", "installer", "company"];
+
+const MAX_ROUTING_PRODUCTS = 100;
+
+const PRODUCT_GID_PREFIX = "gid://shopify/Product/";
+
+function productNumericId(id: string | null | undefined) {
+  const s = String(id ?? "").trim();
+  return s.startsWith(PRODUCT_GID_PREFIX) ? s.slice(PRODUCT_GID_PREFIX.length) : s;
+}
+
+function wilayaOrNull(v: unknown) {
+  const n = typeof v === "number" ? v : Number(String(v ?? "").trim() || NaN);
+  return Number.isInteger(n) && n >= 1 && n <= 999 ? n : null;
+}
+
+/** Lenient read of the stored JSON; anything unexpected is dropped. */
+export function parseSheetRouting(raw: unknown): SheetRouting {
+  const r: any = raw && typeof raw === "object" && !Array.isArray(raw) ? raw : {};
+  const strings = (v: unknown) => (Array.isArray(v) ? v.map((x) => String(x ?? "").trim()).filter(Boolean) : []);
+
+  return {
+    roleTypes: strings(r.roleTypes).filter((x): x is RoleType => ROLE_TYPES.includes(x as RoleType)),
+    formIds: strings(r.formIds),
+    wilayaFrom: wilayaOrNull(r.wilayaFrom),
+    wilayaTo: wilayaOrNull(r.wilayaTo),
+    productIds: strings(r.productIds).map(productNumericId),
+  };
+}
+
+export function hasSheetRoutingRules(r: SheetRouting) {
+  return Boolean(r.roleTypes.length || r.formIds.length || r.wilayaFrom || r.wilayaTo || r.productIds.length);
+}
+
+export function matchesSheetRouting(
+  routing: SheetRouting,
+  r: {
+    roleType?: string | null;
+    formId?: string | null;
+    wilayaCode?: number | null;
+    productId?: string | null;
+    items?: Array<{ productId?: string | null }> | null;
+  }
+) {
+  if (routing.roleTypes.length && !routing.roleTypes.includes(r.roleType as RoleType)) return false;
+  if (routing.formIds.length && !routing.formIds.includes(r.formId ?? "")) return false;
+
+  if (routing.wilayaFrom || routing.wilayaTo) {
+    if (!r.wilayaCode) return false;
+    if (routing.wilayaFrom && r.wilayaCode < routing.wilayaFrom) return false;
+    if (routing.wilayaTo && r.wilayaCode > routing.wilayaTo) return false;
+  }
+
+  if (routing.productIds.length) {
+    const ids = [r.productId, ...(r.items ?? []).map((it) => it.productId)].map(productNumericId).filter(Boolean);
+    if (!ids.some((id) => routing.productIds.includes(id))) return false;
+  }
+
+  return true;
+}
+
+/** Same rules as a Request where clause (backfills and exports of one destination). */
+export function sheetRoutingWhere(routing: SheetRouting): Prisma.RequestWhereInput {
+  const and: Prisma.RequestWhereInput[] = [];
+
+  if (routing.roleTypes.length) and.push({ roleType: { in: routing.roleTypes } });
+  if (routing.formIds.length) and.push({ formId: { in: routing.formIds } });
+  if (routing.wilayaFrom || routing.wilayaTo) {
+    and.push({
+      wilayaCode: {
+        not: null,
+        ...(routing.wilayaFrom ? { gte: routing.wilayaFrom } : {}),
+        ...(routing.wilayaTo ? { lte: routing.wilayaTo } : {}),
+      },
+    });
+  }
+  if (routing.productIds.length) {
+    const ids = routing.productIds.flatMap((id) => [id, `${PRODUCT_GID_PREFIX}${id}`]);
+    and.push({ OR: [{ productId: { in: ids } }, { items: { some: { productId: { in: ids } } } }] });
+  }
+
+  return and.length ? { AND: and } : {};
+}
+
+/** Validate and store the rules of one connection. */
+export async function saveSheetRouting(input: {
+  shopId: string;
+  connectionId: string;
+  roleTypes: string[];
+  formIds: string[];
+  wilayaFrom: string;
+  wilayaTo: string;
+  productIds: string;
+}) {
+  const conn = await prisma.sheetsConnection.findFirst({
+    where: { id: input.connectionId, shopId: input.shopId },
+    select: { id: true },
+  });
+  if (!conn) throw new Error("sheet_not_found");
+
+  const roleTypes = Array.from(new Set(input.roleTypes.filter(Boolean)));
+  if (roleTypes.some((r) => !ROLE_TYPES.includes(r as RoleType))) throw new Error("invalid_role");
+
+  const formIds = Array.from(new Set(input.formIds.filter(Boolean)));
+  if (formIds.length) {
+    const found = await prisma.form.count({ where: { shopId: input.shopId, id: { in: formIds } } });
+    if (found !== formIds.length) throw new Error("form_not_found");
+  }
+
+  const wilayaFrom = input.wilayaFrom.trim() ? wilayaOrNull(input.wilayaFrom) : null;
+  const wilayaTo = input.wilayaTo.trim() ? wilayaOrNull(input.wilayaTo) : null;
+  if ((input.wilayaFrom.trim() && !wilayaFrom) || (input.wilayaTo.trim() && !wilayaTo)) {
+    throw new Error("invalid_wilaya_range");
+  }
+  if (wilayaFrom && wilayaTo && wilayaFrom > wilayaTo) throw new Error("invalid_wilaya_range");
+
+  // Comma/space separated; numeric ids or product GIDs
+  const productIds = Array.from(
+    new Set(
+      input.productIds
+        .split(/[\s,]+/)
+        .map(productNumericId)
+        .filter(Boolean)
+    )
+  );
+  if (productIds.some((id) => !/^\d{1,20}$/.test(id))) throw new Error("invalid_product_id");
+  if (productIds.length > MAX_ROUTING_PRODUCTS) throw new Error("too_many_products");
+
+  const routing: SheetRouting = { roleTypes: roleTypes as RoleType[], formIds, wilayaFrom, wilayaTo, productIds };
+  await prisma.sheetsConnection.update({
+    where: { id: conn.id },
+    data: { routing: hasSheetRoutingRules(routing) ? routing : Prisma.DbNull },
+  });
+  return routing;
+}
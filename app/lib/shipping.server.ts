@@ -0,0 +1,826 @@
+// app/lib/shipping.server.ts
+import { randomBytes } from "node:crypto";
+import type { Shipment, ShipmentStatus } from "@prisma/client";
+import { prisma } from "~/db.server";
+import { decryptString, encryptString } from "~/lib/google.server";
+import { createSignedUrl, uploadToSupabase } from "~/lib/uploads.server";
+import {
+  importCarrierLocations,
+  readCarrierTable,
+  resolveCarrierLocation,
+  type CarrierLocationInput,
+} from "~/lib/carrierLocations.server";
+import { recordRequestEvent, type RequestActor } from "~/lib/requestEvents.server";
+
+/**
+ * Courier integration (ship confirmed requests).
+ * - ShippingProvider: one adapter per courier API, registered by key
+ * - ShippingAccount: per-shop credentials (secret fields encrypted as JSON) + config
+ * - Shipment: parcel booked for a request; the label PDF is copied to storage and
+ *   the status is polled back by the "shipping.poll" job (jobs.server.ts)
+ *
+ * Addresses use the courier's own wilaya/commune codes and spellings
+ * (carrierLocations.server.ts); listLocations() refreshes them from the API.
+ *
+ * "mock" books fake parcels locally so the flow works offline
+ * (always listed in development, SHIPPING_MOCK=on elsewhere).
+ */
+
+export type ShippingField = {
+  key: string;
+  label: string;
+  secret?: boolean; // stored encrypted, never sent back to the browser
+  required?: boolean;
+  placeholder?: string;
+};
+
+export type ProviderContext = {
+  credentials: Record<string, string>;
+  config: Record<string, string>;
+};
+
+export type ParcelInput = {
+  reference: string; // request id
+  firstName: string;
+  lastName: string;
+  phone: string;
+  address: string;
+  wilayaCode: number; // ours (GeoWilaya.code)
+  // Courier codes/spellings when its location table is loaded, else ours
+  wilayaId: string;
+  wilayaName: string;
+  communeId: string | null;
+  communeName: string;
+  stopDesk: boolean;
+  stopDeskId: string | null;
+  codAmount: number; // collected from the customer, delivery fee included
+  declaredValue: number;
+  products: string;
+  note: string | null;
+};
+
+export type ParcelRef = { trackingNumber: string; externalId: string | null };
+
+export type CreatedParcel = ParcelRef & {
+  carrierStatus: string | null;
+  label: { pdf: Uint8Array } | { url: string } | null;
+};
+
+export type ParcelStatus = {
+  status: ShipmentStatus;
+  carrierStatus: string | null;
+  labelUrl?: string | null;
+};
+
+export type ShippingProvider = {
+  key: string;
+  label: string;
+  fields: ShippingField[];
+  verify: (ctx: ProviderContext) => Promise<void>; // throws when the credentials are rejected
+  createParcel: (ctx: ProviderContext, parcel: ParcelInput) => Promise<CreatedParcel>;
+  getStatus: (ctx: ProviderContext, ref: ParcelRef) => Promise<ParcelStatus>;
+  fetchLabel?: (ctx: ProviderContext, ref: ParcelRef) => Promise<Uint8Array | null>;
+  listLocations?: (ctx: ProviderContext) => Promise<CarrierLocationInput[]>;
+};
+
+// Still moving: polled until they reach delivered / returned / cancelled
+export const ACTIVE_SHIPMENT_STATUSES: ShipmentStatus[] = ["pending", "in_transit", "out_for_delivery", "failed"];
+
+const POLL_INTERVAL_MS = 30 * 60 * 1000;
+const HTTP_TIMEOUT_MS = 20_000;
+
+// ───────────────────────────────────────────────────────────────────────────
+// Helpers
+// ───────────────────────────────────────────────────────────────────────────
+
+function fold(s: string) {
+  return String(s || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .trim();
+}
+
+// First match wins; couriers report free text (mostly French)
+const STATUS_PATTERNS: Array<[RegExp, ShipmentStatus]> = [
+  [/annul|cancel/, "cancelled"],
+  [/retour|return/, "returned"],
+  [/sorti.*livraison|en cours de livraison|attente du client|out for delivery/, "out_for_delivery"],
+  [/echec|tentative|failed|injoignable/, "failed"],
+  [/\blivre\b|delivered|encaisse/, "delivered"],
+  [/preparation|pas encore|en attente|pret a expedier|created|pending/, "pending"],
+];
+
+export function normalizeCarrierStatus(text: string | null | undefined): ShipmentStatus {
+  const s = fold(text || "");
+  if (!s) return "pending";
+  for (const [re, status] of STATUS_PATTERNS) if (re.test(s)) return status;
+  return "in_transit";
+}
+
+function carrierError(code: string, detail?: unknown) {
+  const d = typeof detail === "string" ? detail : detail ? JSON.stringify(detail) : "";
+  return new Error(d ? `${code}: ${d.slice(0, 300)}` : code);
+}
+
+async function httpRequest(url: string, init: RequestInit = {}) {
+  const res = await fetch(url, { ...init, signal: AbortSignal.timeout(HTTP_TIMEOUT_MS) });
+  const type = res.headers.get("content-type") || "";
+  if (type.includes("application/pdf")) {
+    return { res, json: null as any, bytes: new Uint8Array(await res.arrayBuffer()) };
+  }
+  const text = await res.text();
+  let json: any = null;
+  try {
+    json = text ? JSON.parse(text) : null;
+  } catch {
+    json = text;
+  }
+  return { res, json, bytes: null as Uint8Array | null };
+}
+
+function required(ctx: ProviderContext, key: string) {
+  const v = ctx.credentials[key] ?? ctx.config[key];
+  if (!v) throw new Error(`missing_${key}`);
+  return v;
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Providers
+// ───────────────────────────────────────────────────────────────────────────
+
+// Single-page PDF with a few lines of ASCII text (mock labels)
+function textPdf(lines: string[]) {
+  const esc = (l: string) => l.replace(/[^\x20-\x7e]/g, "?").replace(/[()\\]/g, "\\$&");
+  const content = lines.map((l, i) => `BT /F1 12 Tf 24 ${210 - i * 18} Td (${esc(l)}) Tj ET`).join("\n");
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 298 240] /Contents 4 0 R /Resources << /Font << /F1 5 0 R >> >> >>",
+    `<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+  ];
+
+  let out = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((o, i) => {
+    offsets.push(Buffer.byteLength(out, "latin1"));
+    out += `${i + 1} 0 obj\n${o}\nendobj\n`;
+  });
+  const xref = Buffer.byteLength(out, "latin1");
+  out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  out += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  return new Uint8Array(Buffer.from(out, "latin1"));
+}
+
+/**
+ * Offline courier: the parcel moves one step every few minutes after booking
+ * (pending -> in_transit -> out_for_delivery -> delivered).
+ */
+const mockProvider: ShippingProvider = {
+  key: "mock",
+  label: "Mock courier (testing)",
+  fields: [{ key: "apiToken", label: "API token (any value)", secret: true, required: true }],
+
+  async verify(ctx) {
+    required(ctx, "apiToken");
+  },
+
+  async createParcel(_ctx, parcel) {
+    const trackingNumber = `MOCK-${randomBytes(4).toString("hex").toUpperCase()}`;
+    return {
+      trackingNumber,
+      externalId: `mock_${Date.now()}`,
+      carrierStatus: "En préparation",
+      label: {
+        pdf: textPdf([
+          `MOCK COURIER  ${trackingNumber}`,
+          `${parcel.firstName} ${parcel.lastName}`.trim(),
+          parcel.phone,
+          parcel.address,
+          `${parcel.communeName} (${parcel.communeId ?? "-"}), ${parcel.wilayaName} (${parcel.wilayaId})`,
+          parcel.stopDesk ? "STOP DESK" : "HOME DELIVERY",
+          `COD ${parcel.codAmount.toFixed(2)}`,
+          `Ref ${parcel.reference}`,
+        ]),
+      },
+    };
+  },
+
+  async getStatus(_ctx, ref) {
+    const bookedAt = Number(String(ref.externalId || "").replace("mock_", ""));
+    const minutes = Number.isFinite(bookedAt) ? (Date.now() - bookedAt) / 60_000 : 0;
+    const carrierStatus =
+      minutes < 2 ? "En préparation" : minutes < 5 ? "Expédié" : minutes < 10 ? "Sorti en livraison" : "Livré";
+    return { status: normalizeCarrierStatus(carrierStatus), carrierStatus };
+  },
+
+  async listLocations() {
+    return (await readCarrierTable("mock")) ?? [];
+  },
+};
+
+/**
+ * Yalidine (api.yalidine.app). Parcels are addressed by wilaya/commune names;
+ * stop-desk parcels need the courier's desk id.
+ */
+const YALIDINE_API = "https://api.yalidine.app/v1";
+
+function yalidineHeaders(ctx: ProviderContext) {
+  return {
+    "X-API-ID": required(ctx, "apiId"),
+    "X-API-TOKEN": required(ctx, "apiToken"),
+    "Content-Type": "application/json",
+    Accept: "application/json",
+  };
+}
+
+const yalidineProvider: ShippingProvider = {
+  key: "yalidine",
+  label: "Yalidine",
+  fields: [
+    { key: "apiId", label: "API ID", required: true },
+    { key: "apiToken", label: "API token", secret: true, required: true },
+    { key: "fromWilaya", label: "Ship-from wilaya", required: true, placeholder: "Alger" },
+  ],
+
+  async verify(ctx) {
+    const { res, json } = await httpRequest(`${YALIDINE_API}/wilayas/?page_size=1`, {
+      headers: yalidineHeaders(ctx),
+    });
+    if (!res.ok) throw carrierError(`carrier_http_${res.status}`, json);
+  },
+
+  async createParcel(ctx, parcel) {
+    if (parcel.stopDesk && !parcel.stopDeskId) throw new Error("stopdesk_id_required");
+
+    const body = [
+      {
+        order_id: parcel.reference,
+        from_wilaya_name: required(ctx, "fromWilaya"),
+        firstname: parcel.firstName,
+        familyname: parcel.lastName,
+        contact_phone: parcel.phone,
+        address: parcel.address,
+        to_commune_name: parcel.communeName, // courier spelling (location table)
+        to_wilaya_name: parcel.wilayaName,
+        product_list: parcel.products,
+        price: Math.round(parcel.codAmount),
+        declared_value: Math.round(parcel.declaredValue),
+        do_insurance: false,
+        // The COD amount already includes the delivery fee
+        freeshipping: true,
+        is_stopdesk: parcel.stopDesk,
+        stopdesk_id: parcel.stopDeskId ?? undefined,
+        has_exchange: false,
+      },
+    ];
+
+    const { res, json } = await httpRequest(`${YALIDINE_API}/parcels/`, {
+      method: "POST",
+      headers: yalidineHeaders(ctx),
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) throw carrierError(`carrier_http_${res.status}`, json);
+
+    const entry = json?.[parcel.reference];
+    if (!entry?.success || !entry?.tracking) throw carrierError("carrier_rejected", entry?.message || json);
+
+    return {
+      trackingNumber: String(entry.tracking),
+      externalId: entry.import_id != null ? String(entry.import_id) : null,
+      carrierStatus: null,
+      label: entry.label ? { url: String(entry.label) } : null,
+    };
+  },
+
+  async getStatus(ctx, ref) {
+    const { res, json } = await httpRequest(
+      `${YALIDINE_API}/parcels/?tracking=${encodeURIComponent(ref.trackingNumber)}`,
+      { headers: yalidineHeaders(ctx) }
+    );
+    if (!res.ok) throw carrierError(`carrier_http_${res.status}`, json);
+
+    const p = json?.data?.[0];
+    if (!p) throw new Error("parcel_not_found");
+    const carrierStatus = p.last_status ? String(p.last_status) : null;
+    return { status: normalizeCarrierStatus(carrierStatus), carrierStatus, labelUrl: p.label ?? null };
+  },
+
+  async listLocations(ctx) {
+    const all = async (resource: string) => {
+      const out: any[] = [];
+      for (let page = 1; page <= 20; page++) {
+        const { res, json } = await httpRequest(`${YALIDINE_API}/${resource}/?page=${page}&page_size=1000`, {
+          headers: yalidineHeaders(ctx),
+        });
+        if (!res.ok) throw carrierError(`carrier_http_${res.status}`, json);
+        out.push(...(json?.data ?? []));
+        if (!json?.has_more) break;
+      }
+      return out;
+    };
+
+    const [wilayas, communes, centers] = [await all("wilayas"), await all("communes"), await all("centers")];
+    return [
+      ...wilayas.map((w) => ({ kind: "wilaya" as const, externalId: String(w.id), name: String(w.name) })),
+      ...communes.map((c) => ({
+        kind: "commune" as const,
+        externalId: String(c.id),
+        name: String(c.name),
+        parentExternalId: c.wilaya_id != null ? String(c.wilaya_id) : null,
+      })),
+      ...centers.map((d) => ({
+        kind: "stopdesk" as const,
+        externalId: String(d.center_id),
+        name: String(d.name),
+        parentExternalId: d.commune_id != null ? String(d.commune_id) : null,
+      })),
+    ];
+  },
+};
+
+/**
+ * EcoTrack-based couriers: same API on a per-courier domain
+ * (e.g. https://<courier>.ecotrack.dz), bearer token auth.
+ */
+function ecotrackBase(ctx: ProviderContext) {
+  const raw = required(ctx, "baseUrl").replace(/\/+$/, "");
+  if (!/^https:\/\/[^/]+$/i.test(raw)) throw new Error("invalid_baseUrl");
+  return `${raw}/api/v1`;
+}
+
+function ecotrackHeaders(ctx: ProviderContext) {
+  return {
+    Authorization: `Bearer ${required(ctx, "apiToken")}`,
+    "Content-Type": "application/json",
+    Accept: "application/json",
+  };
+}
+
+const ecotrackProvider: ShippingProvider = {
+  key: "ecotrack",
+  label: "EcoTrack courier",
+  fields: [
+    { key: "baseUrl", label: "Courier URL", required: true, placeholder: "https://courier.ecotrack.dz" },
+    { key: "apiToken", label: "API token", secret: true, required: true },
+  ],
+
+  async verify(ctx) {
+    const { res, json } = await httpRequest(`${ecotrackBase(ctx)}/get/wilayas`, { headers: ecotrackHeaders(ctx) });
+    if (!res.ok) throw carrierError(`carrier_http_${res.status}`, json);
+  },
+
+  async createParcel(ctx, parcel) {
+    const body = {
+      reference: parcel.reference,
+      nom_client: `${parcel.firstName} ${parcel.lastName}`.trim(),
+      telephone: parcel.phone,
+      adresse: parcel.address,
+      code_wilaya: /^\d+$/.test(parcel.wilayaId) ? Number(parcel.wilayaId) : parcel.wilayaCode,
+      commune: parcel.communeName,
+      montant: Math.round(parcel.codAmount),
+      produit: parcel.products,
+      remarque: parcel.note ?? undefined,
+      type: 1, // delivery (not exchange / pickup)
+      stop_desk: parcel.stopDesk ? 1 : 0,
+    };
+
+    const { res, json } = await httpRequest(`${ecotrackBase(ctx)}/create/order`, {
+      method: "POST",
+      headers: ecotrackHeaders(ctx),
+      body: JSON.stringify(body),
+    });
+    if (!res.ok) throw carrierError(`carrier_http_${res.status}`, json);
+    if (!json?.success || !json?.tracking) throw carrierError("carrier_rejected", json?.message || json);
+
+    return { trackingNumber: String(json.tracking), externalId: null, carrierStatus: null, label: null };
+  },
+
+  async getStatus(ctx, ref) {
+    const { res, json } = await httpRequest(
+      `${ecotrackBase(ctx)}/get/tracking/info?tracking=${encodeURIComponent(ref.trackingNumber)}`,
+      { headers: ecotrackHeaders(ctx) }
+    );
+    if (!res.ok) throw carrierError(`carrier_http_${res.status}`, json);
+
+    const activity = Array.isArray(json?.activity) ? json.activity : [];
+    const last = activity[activity.length - 1];
+    const raw = last?.status ?? json?.status ?? null;
+    const carrierStatus = raw != null ? String(raw) : null;
+    return { status: normalizeCarrierStatus(carrierStatus), carrierStatus };
+  },
+
+  async fetchLabel(ctx, ref) {
+    const { res, bytes } = await httpRequest(
+      `${ecotrackBase(ctx)}/get/order/label?tracking=${encodeURIComponent(ref.trackingNumber)}`,
+      { headers: { ...ecotrackHeaders(ctx), Accept: "application/pdf" } }
+    );
+    return res.ok && bytes?.length ? bytes : null;
+  },
+
+  async listLocations(ctx) {
+    const list = (json: any): any[] => (Array.isArray(json) ? json : json && typeof json === "object" ? Object.values(json) : []);
+
+    const { res, json } = await httpRequest(`${ecotrackBase(ctx)}/get/wilayas`, { headers: ecotrackHeaders(ctx) });
+    if (!res.ok) throw carrierError(`carrier_http_${res.status}`, json);
+    const wilayas = list(json).filter((w) => w?.wilaya_id != null);
+
+    const out: CarrierLocationInput[] = wilayas.map((w) => ({
+      kind: "wilaya",
+      externalId: String(w.wilaya_id),
+      name: String(w.wilaya_name ?? w.wilaya_id),
+    }));
+
+    // Communes are sent by name: the id is "<wilaya>/<name>"
+    for (const w of wilayas) {
+      const r = await httpRequest(`${ecotrackBase(ctx)}/get/communes?wilaya_id=${encodeURIComponent(w.wilaya_id)}`, {
+        headers: ecotrackHeaders(ctx),
+      });
+      if (!r.res.ok) throw carrierError(`carrier_http_${r.res.status}`, r.json);
+      for (const c of list(r.json)) {
+        if (!c?.nom) continue;
+        out.push({
+          kind: "commune",
+          externalId: `${w.wilaya_id}/${c.nom}`,
+          name: String(c.nom),
+          parentExternalId: String(w.wilaya_id),
+        });
+      }
+    }
+    return out;
+  },
+};
+
+// ───────────────────────────────────────────────────────────────────────────
+// Registry
+// ───────────────────────────────────────────────────────────────────────────
+
+const registry = new Map<string, ShippingProvider>();
+
+export function registerShippingProvider(provider: ShippingProvider) {
+  registry.set(provider.key, provider);
+}
+
+registerShippingProvider(mockProvider);
+registerShippingProvider(yalidineProvider);
+registerShippingProvider(ecotrackProvider);
+
+function mockEnabled() {
+  return process.env.NODE_ENV !== "production" || process.env.SHIPPING_MOCK === "on";
+}
+
+export function getShippingProvider(key: string) {
+  if (key === "mock" && !mockEnabled()) return null;
+  return registry.get(key) ?? null;
+}
+
+export function listShippingProviders() {
+  return Array.from(registry.values()).filter((p) => p.key !== "mock" || mockEnabled());
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Accounts
+// ───────────────────────────────────────────────────────────────────────────
+
+function readCredentials(enc: string | null): Record<string, string> {
+  if (!enc) return {};
+  try {
+    const parsed = JSON.parse(decryptString(enc));
+    return parsed && typeof parsed === "object" ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function asConfig(v: unknown): Record<string, string> {
+  return v && typeof v === "object" ? (v as Record<string, string>) : {};
+}
+
+/**
+ * Accounts for the admin page: config values plus which secrets are set (never the secrets).
+ */
+export async function listShippingAccounts(shopId: string) {
+  const rows = await prisma.shippingAccount.findMany({ where: { shopId }, orderBy: { createdAt: "asc" } });
+  return rows.map((a) => {
+    const creds = readCredentials(a.credentialsEnc);
+    return {
+      provider: a.provider,
+      enabled: a.enabled,
+      config: asConfig(a.config),
+      secretsSet: Object.keys(creds).filter((k) => Boolean(creds[k])),
+      lastVerifiedAt: a.lastVerifiedAt,
+    };
+  });
+}
+
+/**
+ * Upsert credentials from the admin form. Blank secret fields keep the stored value.
+ */
+export async function saveShippingAccount(input: {
+  shopId: string;
+  provider: string;
+  enabled: boolean;
+  values: Record<string, string>;
+}) {
+  const provider = getShippingProvider(input.provider);
+  if (!provider) throw new Error("unknown_provider");
+
+  const existing = await prisma.shippingAccount.findUnique({
+    where: { shopId_provider: { shopId: input.shopId, provider: provider.key } },
+  });
+  const credentials = readCredentials(existing?.credentialsEnc ?? null);
+  const config: Record<string, string> = {};
+
+  for (const f of provider.fields) {
+    const v = String(input.values[f.key] ?? "").trim();
+    if (f.secret) {
+      if (v) credentials[f.key] = v;
+      if (f.required && !credentials[f.key]) throw new Error(`missing_${f.key}`);
+    } else {
+      if (f.required && !v) throw new Error(`missing_${f.key}`);
+      if (v) config[f.key] = v;
+    }
+  }
+
+  const data = {
+    enabled: input.enabled,
+    credentialsEnc: Object.keys(credentials).length ? encryptString(JSON.stringify(credentials)) : null,
+    config,
+  };
+
+  await prisma.shippingAccount.upsert({
+    where: { shopId_provider: { shopId: input.shopId, provider: provider.key } },
+    create: { shopId: input.shopId, provider: provider.key, ...data },
+    update: data,
+  });
+}
+
+export async function deleteShippingAccount(input: { shopId: string; provider: string }) {
+  await prisma.shippingAccount.deleteMany({ where: { shopId: input.shopId, provider: input.provider } });
+}
+
+async function providerContext(shopId: string, providerKey: string, opts?: { allowDisabled?: boolean }) {
+  const provider = getShippingProvider(providerKey);
+  if (!provider) throw new Error("unknown_provider");
+
+  const account = await prisma.shippingAccount.findUnique({
+    where: { shopId_provider: { shopId, provider: providerKey } },
+  });
+  if (!account) throw new Error("shipping_account_not_found");
+  if (!account.enabled && !opts?.allowDisabled) throw new Error("shipping_account_disabled");
+
+  const ctx: ProviderContext = {
+    credentials: readCredentials(account.credentialsEnc),
+    config: asConfig(account.config),
+  };
+  return { provider, account, ctx };
+}
+
+export async function verifyShippingAccount(input: { shopId: string; provider: string }) {
+  const { provider, account, ctx } = await providerContext(input.shopId, input.provider, { allowDisabled: true });
+  await provider.verify(ctx);
+  await prisma.shippingAccount.update({ where: { id: account.id }, data: { lastVerifiedAt: new Date() } });
+}
+
+/**
+ * Reload a courier's location table: from its API when it has one (shop
+ * credentials), else from the bundled prisma/data/carriers/<key>.json.
+ */
+export async function refreshCarrierLocations(input: { shopId: string; provider: string }) {
+  const provider = getShippingProvider(input.provider);
+  if (!provider) throw new Error("unknown_provider");
+
+  let rows: CarrierLocationInput[] | null = null;
+  if (provider.listLocations) {
+    const { ctx } = await providerContext(input.shopId, provider.key, { allowDisabled: true });
+    rows = await provider.listLocations(ctx);
+  } else {
+    rows = await readCarrierTable(provider.key);
+  }
+  if (!rows?.length) throw new Error("no_locations");
+
+  return importCarrierLocations(provider.key, rows);
+}
+
+// ───────────────────────────────────────────────────────────────────────────
+// Shipments
+// ───────────────────────────────────────────────────────────────────────────
+
+async function storeLabel(shipment: Shipment, label: Uint8Array) {
+  const bucket = process.env.SUPABASE_REVIEW_MEDIA_BUCKET || "leadform-uploads";
+  const path = `${shipment.shopId}/shipments/${shipment.id}/label-${Date.now()}.pdf`;
+  const file = new File([Buffer.from(label)], `label-${shipment.trackingNumber || shipment.id}.pdf`, {
+    type: "application/pdf",
+  });
+  await uploadToSupabase({ bucket, path, file });
+  return prisma.shipment.update({ where: { id: shipment.id }, data: { labelBucket: bucket, labelPath: path } });
+}
+
+// Copy the courier label into our storage; courier links often expire
+async function captureLabel(
+  shipment: Shipment,
+  provider: ShippingProvider,
+  ctx: ProviderContext,
+  label: CreatedParcel["label"]
+) {
+  const ref = { trackingNumber: shipment.trackingNumber ?? "", externalId: shipment.externalId };
+  try {
+    let pdf: Uint8Array | null = label && "pdf" in label ? label.pdf : null;
+
+    if (!pdf && label && "url" in label) {
+      const { res, bytes } = await httpRequest(label.url);
+      if (res.ok && bytes?.length) pdf = bytes;
+    }
+    if (!pdf && provider.fetchLabel) pdf = await provider.fetchLabel(ctx, ref);
+
+    if (pdf) return await storeLabel(shipment, pdf);
+  } catch (e: any) {
+    console.error(`[shipping] label copy failed for ${shipment.id}:`, e?.message || e);
+  }
+  return shipment;
+}
+
+/**
+ * Book a parcel for a confirmed request with one of the shop's couriers.
+ * A new shipment is only allowed once earlier ones were cancelled or returned.
+ */
+export async function createShipmentForRequest(input: {
+  shopId: string;
+  requestId: string;
+  provider: string;
+  codAmount?: number | null;
+  products?: string | null;
+  actor?: RequestActor | null;
+}) {
+  const r = await prisma.request.findFirst({
+    where: { id: input.requestId, shopId: input.shopId },
+    include: {
+      items: { select: { qty: true } },
+      wilaya: { select: { nameFr: true } },
+      commune: { select: { nameFr: true } },
+      shipments: { select: { status: true } },
+    },
+  });
+  if (!r) throw new Error("request_not_found");
+  if (r.status !== "confirmed") throw new Error("request_not_confirmed");
+  if (r.shipments.some((s) => s.status !== "cancelled" && s.status !== "returned")) {
+    throw new Error("shipment_exists");
+  }
+  if (!r.phone) throw new Error("missing_phone");
+  if (!r.wilayaCode || !r.wilaya) throw new Error("missing_wilaya");
+  if (!r.commune) throw new Error("missing_commune");
+
+  const { provider, ctx } = await providerContext(input.shopId, input.provider);
+
+  const loc = await resolveCarrierLocation(provider.key, { wilayaCode: r.wilayaCode, communeId: r.communeId });
+  if (loc.loaded && !loc.wilaya) throw new Error("unmapped_wilaya");
+  if (loc.loaded && !loc.commune) throw new Error("unmapped_commune");
+
+  const qty = r.items.length ? r.items.reduce((n, it) => n + it.qty, 0) : r.qty ?? 1;
+  const value = r.value !== null ? Number(r.value) : 0;
+  const fee = r.deliveryFee !== null ? Number(r.deliveryFee) : 0;
+  const codAmount =
+    input.codAmount != null && Number.isFinite(input.codAmount) && input.codAmount >= 0
+      ? input.codAmount
+      : value + fee;
+
+  const parcel: ParcelInput = {
+    reference: r.id,
+    firstName: r.firstName ?? "",
+    lastName: r.lastName ?? "",
+    phone: r.phone,
+    address: r.address || r.commune.nameFr,
+    wilayaCode: r.wilayaCode,
+    wilayaId: loc.wilaya?.externalId ?? String(r.wilayaCode),
+    wilayaName: loc.wilaya?.name ?? r.wilaya.nameFr,
+    communeId: loc.commune?.externalId ?? null,
+    communeName: loc.commune?.name ?? r.commune.nameFr,
+    stopDesk: r.deliveryType === "desk",
+    stopDeskId: loc.stopDesk?.externalId ?? null,
+    codAmount,
+    declaredValue: value,
+    products: input.products?.trim() || `${qty} article${qty > 1 ? "s" : ""}`,
+    note: null,
+  };
+
+  const booked = await provider.createParcel(ctx, parcel);
+
+  // The parcel exists at the courier from here on: record it before anything else can fail
+  const shipment = await prisma.shipment.create({
+    data: {
+      shopId: input.shopId,
+      requestId: r.id,
+      provider: provider.key,
+      externalId: booked.externalId,
+      trackingNumber: booked.trackingNumber,
+      carrierStatus: booked.carrierStatus,
+      status: normalizeCarrierStatus(booked.carrierStatus),
+      codAmount,
+      labelUrl: booked.label && "url" in booked.label ? booked.label.url : null,
+    },
+  });
+
+  await recordRequestEvent({
+    shopId: input.shopId,
+    requestId: r.id,
+    type: "shipment",
+    actor: input.actor,
+    data: {
+      action: "created",
+      provider: provider.key,
+      trackingNumber: shipment.trackingNumber,
+      codAmount,
+    },
+  });
+
+  return captureLabel(shipment, provider, ctx, booked.label);
+}
+
+/**
+ * Ask the courier for the current status and store it. Errors are kept on the
+ * shipment (lastError) and rethrown.
+ */
+export async function refreshShipment(shipment: Shipment) {
+  try {
+    const { provider, ctx } = await providerContext(shipment.shopId, shipment.provider, { allowDisabled: true });
+    const st = await provider.getStatus(ctx, {
+      trackingNumber: shipment.trackingNumber ?? "",
+      externalId: shipment.externalId,
+    });
+
+    if (st.status !== shipment.status) {
+      await recordRequestEvent({
+        shopId: shipment.shopId,
+        requestId: shipment.requestId,
+        type: "shipment",
+        data: {
+          action: "status",
+          provider: shipment.provider,
+          trackingNumber: shipment.trackingNumber,
+          from: shipment.status,
+          to: st.status,
+        },
+      });
+    }
+
+    return await prisma.shipment.update({
+      where: { id: shipment.id },
+      data: {
+        status: st.status,
+        carrierStatus: st.carrierStatus,
+        labelUrl: st.labelUrl ?? shipment.labelUrl,
+        lastError: null,
+        lastPolledAt: new Date(),
+        deliveredAt: st.status === "delivered" ? shipment.deliveredAt ?? new Date() : shipment.deliveredAt,
+      },
+    });
+  } catch (e: any) {
+    await prisma.shipment.update({
+      where: { id: shipment.id },
+      data: { lastError: String(e?.message || e).slice(0, 1000), lastPolledAt: new Date() },
+    });
+    throw e;
+  }
+}
+
+/**
+ * Poll shipments that are still moving and were not checked recently (oldest first).
+ */
+export async function pollActiveShipments(opts?: { limit?: number }) {
+  const due = await prisma.shipment.findMany({
+    where: {
+      status: { in: ACTIVE_SHIPMENT_STATUSES },
+      trackingNumber: { not: null },
+      OR: [{ lastPolledAt: null }, { lastPolledAt: { lt: new Date(Date.now() - POLL_INTERVAL_MS) } }],
+    },
+    orderBy: { lastPolledAt: { sort: "asc", nulls: "first" } },
+    take: opts?.limit ?? 50,
+  });
+
+  const summary = { polled: 0, changed: 0, failed: 0 };
+  for (const s of due) {
+    try {
+      const updated = await refreshShipment(s);
+      summary.polled += 1;
+      if (updated.status !== s.status) summary.changed += 1;
+    } catch {
+      summary.failed += 1;
+    }
+  }
+  return summary;
+}
+
+/**
+ * Link to the label: signed storage URL when we hold a copy, else the courier link.
+ */
+export async function shipmentLabelLink(shipment: Pick<Shipment, "labelBucket" | "labelPath" | "labelUrl">) {
+  if (shipment.labelBucket && shipment.labelPath) {
+    const signed = await createSignedUrl({ bucket: shipment.labelBucket, path: shipment.labelPath });
+    if (signed) return signed;
+  }
+  return shipment.labelUrl;
+}
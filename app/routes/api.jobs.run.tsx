@@ -0,0 +1,45 @@
+// app/routes/api.jobs.run.tsx
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { timingSafeEqual } from "node:crypto";
+import { processJobs } from "~/lib/jobs.server";
+
+/**
+ * Cron tick for the background job queue (for hosts that can't keep the
+ * in-process worker alive). Call with: Authorization: Bearer $CRON_SECRET
+ */
+
+function json(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+function isAuthorized(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const header = request.headers.get("authorization") || "";
+  const provided = header.startsWith("Bearer ") ? header.slice(7).trim() : "";
+
+  const a = Buffer.from(provided, "utf8");
+  const b = Buffer.from(secret, "utf8");
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+async function run(request: Request) {
+  if (!isAuthorized(request)) return json({ ok: false, error: "Unauthorized" }, 401);
+
+  const url = new URL(request.url);
+  const maxJobs = Math.min(500, Math.max(1, Number(url.searchParams.get("max")) || 100));
+
+  const summary = await processJobs({ maxJobs });
+  return json({ ok: true, ...summary });
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => run(request);
+
+export const action = async ({ request }: ActionFunctionArgs) => run(request);
@@ -0,0 +1 @@
+export { action } from "./apps.leadform.events";
\ No newline at end of file
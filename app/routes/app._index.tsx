@@ -16,10 +16,17 @@ type LoaderData = {
   kpis: {
     requestsToday: number;
     pending: number;
-    lastSyncAt: string | null; // ISO string
+    lastSyncAt: string | null; // ISO string, latest of both directions
+    lastPushAt: string | null; // Orders -> Sheet
+    lastPullAt: string | null; // Sheet -> Orders (a check that found no change counts)
   };
 };
 
+function latest(...dates: Array<Date | null | undefined>) {
+  const times = dates.filter((d): d is Date => Boolean(d)).map((d) => d.getTime());
+  return times.length ? new Date(Math.max(...times)) : null;
+}
+
 function startOfDay(d: Date) {
   const x = new Date(d);
   x.setHours(0, 0, 0, 0);
@@ -37,7 +44,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
   if (!shopRow) {
     const data: LoaderData = {
-      kpis: { requestsToday: 0, pending: 0, lastSyncAt: null },
+      kpis: { requestsToday: 0, pending: 0, lastSyncAt: null, lastPushAt: null, lastPullAt: null },
     };
     return data;
   }
@@ -50,7 +57,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   // RequestStatus enum values (lowercase) from schema.prisma
   const pendingStatuses = ["received", "in_review"] as const;
 
-  const [requestsToday, pending, last] = await Promise.all([
+  const [requestsToday, pending, lastLog, lastExport, lastPullRun, lastCheck] = await Promise.all([
     prisma.request.count({
       where: {
         shopId: shopRow.id,
@@ -64,16 +71,38 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       },
     }),
     prisma.sheetsSyncLog.findFirst({
-      where: { connection: { shopId: shopRow.id } },
+      where: { connection: { shopId: shopRow.id }, status: "success" },
       orderBy: { createdAt: "desc" },
       select: { createdAt: true },
     }),
+    prisma.sheetsSyncRun.findFirst({
+      where: { connection: { shopId: shopRow.id }, direction: "to_sheet", status: "success" },
+      orderBy: { finishedAt: "desc" },
+      select: { finishedAt: true },
+    }),
+    prisma.sheetsSyncRun.findFirst({
+      where: { connection: { shopId: shopRow.id }, direction: "from_sheet", status: "success" },
+      orderBy: { finishedAt: "desc" },
+      select: { finishedAt: true },
+    }),
+    prisma.sheetsConnection.aggregate({
+      where: { shopId: shopRow.id },
+      _max: { sheetCheckedAt: true },
+    }),
   ]);
 
-  const lastSyncAt = last?.createdAt ? last.createdAt.toISOString() : null;
+  const lastPush = latest(lastLog?.createdAt, lastExport?.finishedAt);
+  const lastPull = latest(lastPullRun?.finishedAt, lastCheck._max.sheetCheckedAt);
+  const lastSync = latest(lastPush, lastPull);
 
   const data: LoaderData = {
-    kpis: { requestsToday, pending, lastSyncAt },
+    kpis: {
+      requestsToday,
+      pending,
+      lastSyncAt: lastSync ? lastSync.toISOString() : null,
+      lastPushAt: lastPush ? lastPush.toISOString() : null,
+      lastPullAt: lastPull ? lastPull.toISOString() : null,
+    },
   };
   return data;
 };
@@ -206,7 +235,11 @@ export default function Index() {
           <div className="lf-card">
             <div className="lf-card-title">Last sync</div>
             <div className="lf-kpi">{lastSyncLabel}</div>
-            <div className="lf-muted lf-mt-2">Google Sheets</div>
+            <div className="lf-muted lf-mt-2">
+              Google Sheets
+              {kpis.lastPushAt ? ` · to sheet ${new Date(kpis.lastPushAt).toLocaleString()}` : ""}
+              {kpis.lastPullAt ? ` · from sheet ${new Date(kpis.lastPullAt).toLocaleString()}` : ""}
+            </div>
           </div>
         </div>
       </div>
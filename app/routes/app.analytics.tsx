@@ -0,0 +1,325 @@
+// app/routes/app.analytics.tsx
+import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Form, Link, useLoaderData, useLocation } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "~/shopify.server";
+import { prisma } from "~/db.server";
+import { AdminPage } from "~/ui/AdminPage";
+import {
+  getAnalyticsReport,
+  rollupAnalyticsDaily,
+  type AnalyticsReport,
+} from "~/lib/analytics.server";
+
+type LoaderData = {
+  report: AnalyticsReport | null;
+  range: { from: string; to: string; preset: string | null };
+  formNames: Record<string, string>;
+};
+
+const PRESETS = [
+  { key: "7d", label: "7 days", days: 7 },
+  { key: "30d", label: "30 days", days: 30 },
+  { key: "90d", label: "90 days", days: 90 },
+] as const;
+
+const MAX_RANGE_DAYS = 366;
+
+const STEP_LABELS: Record<string, string> = {
+  form_opened: "Form opened",
+  role_selected: "Role selected",
+  request_submitted: "Submitted",
+  request_confirmed: "Confirmed",
+};
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+function dayString(d: Date) {
+  return d.toISOString().slice(0, 10);
+}
+
+function addDays(d: Date, days: number) {
+  return new Date(d.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+function resolveRange(url: URL): LoaderData["range"] {
+  const today = new Date();
+  const preset = url.searchParams.get("preset");
+  const p = PRESETS.find((x) => x.key === preset);
+
+  let from = url.searchParams.get("from") || "";
+  let to = url.searchParams.get("to") || "";
+
+  if (p || !DAY_RE.test(from) || !DAY_RE.test(to)) {
+    const days = p?.days ?? 30;
+    return {
+      from: dayString(addDays(today, -(days - 1))),
+      to: dayString(today),
+      preset: p?.key ?? "30d",
+    };
+  }
+
+  if (from > to) [from, to] = [to, from];
+
+  // Clamp very large ranges (the daily table renders one row per day)
+  const min = dayString(addDays(new Date(`${to}T00:00:00Z`), -(MAX_RANGE_DAYS - 1)));
+  if (from < min) from = min;
+
+  return { from, to, preset: null };
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+  const range = resolveRange(url);
+
+  const shopRow = await prisma.shop.findUnique({
+    where: { shopDomain: session.shop },
+    select: { id: true },
+  });
+
+  if (!shopRow) {
+    const data: LoaderData = { report: null, range, formNames: {} };
+    return data;
+  }
+
+  // Keep the last two days fresh; older days come from the hourly rollup job
+  const today = new Date();
+  await rollupAnalyticsDaily({
+    shopId: shopRow.id,
+    fromDay: dayString(addDays(today, -1)),
+    toDay: dayString(addDays(today, 1)),
+  }).catch(() => {});
+
+  const [report, forms] = await Promise.all([
+    getAnalyticsReport({ shopId: shopRow.id, fromDay: range.from, toDay: range.to }),
+    prisma.form.findMany({
+      where: { shopId: shopRow.id },
+      select: { id: true, name: true },
+    }),
+  ]);
+
+  const data: LoaderData = {
+    report,
+    range,
+    formNames: Object.fromEntries(forms.map((f) => [f.id, f.name])),
+  };
+  return data;
+};
+
+function pct(n: number, d: number) {
+  if (!d) return "—";
+  return `${((n / d) * 100).toFixed(1)}%`;
+}
+
+function BreakdownTable({
+  title,
+  rows,
+  labelFor,
+}: {
+  title: string;
+  rows: AnalyticsReport["breakdowns"]["role"];
+  labelFor?: (key: string) => string;
+}) {
+  return (
+    <div className="lf-card">
+      <div className="lf-card-title">{title}</div>
+      <div style={{ overflowX: "auto", marginTop: 8 }}>
+        <table className="lf-table" style={{ width: "100%" }}>
+          <thead>
+            <tr>
+              <th>Key</th>
+              <th style={{ textAlign: "right" }}>Opened</th>
+              <th style={{ textAlign: "right" }}>Submitted</th>
+              <th style={{ textAlign: "right" }}>Confirmed</th>
+              <th style={{ textAlign: "right" }}>Conv.</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <tr key={r.key} className="lf-row-hover">
+                <td style={{ fontWeight: 650, wordBreak: "break-all" }}>
+                  {labelFor ? labelFor(r.key) : r.key}
+                </td>
+                <td style={{ textAlign: "right" }}>{r.opened}</td>
+                <td style={{ textAlign: "right" }}>{r.submitted}</td>
+                <td style={{ textAlign: "right" }}>{r.confirmed}</td>
+                <td style={{ textAlign: "right" }} className="lf-muted">
+                  {pct(r.submitted, r.opened)}
+                </td>
+              </tr>
+            ))}
+            {rows.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="lf-muted" style={{ padding: 14 }}>
+                  No data for this range.
+                </td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default function AnalyticsPage() {
+  const { report, range, formNames } = useLoaderData() as LoaderData;
+  const location = useLocation();
+
+  // Preserve embedded params (shop/host) when switching presets
+  const presetHref = (key: string) => {
+    const qs = new URLSearchParams(location.search);
+    qs.delete("from");
+    qs.delete("to");
+    qs.set("preset", key);
+    return `/app/analytics?${qs.toString()}`;
+  };
+
+  const embedded = new URLSearchParams(location.search);
+  ["from", "to", "preset"].forEach((k) => embedded.delete(k));
+
+  const funnel = report?.funnel ?? [];
+  const top = funnel[0]?.count ?? 0;
+  const maxDaily = Math.max(1, ...(report?.daily ?? []).map((d) => d.form_opened));
+
+  return (
+    <AdminPage title="Analytics">
+      <div className="lf-card">
+        <div className="lf-toolbar" style={{ gap: 10, flexWrap: "wrap" }}>
+          {PRESETS.map((p) => (
+            <Link
+              key={p.key}
+              to={presetHref(p.key)}
+              className={range.preset === p.key ? "lf-pill lf-pill--primary" : "lf-pill"}
+              style={{ textDecoration: "none" }}
+            >
+              {p.label}
+            </Link>
+          ))}
+
+          <Form method="get" style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+            {Array.from(embedded.entries()).map(([k, v]) => (
+              <input key={k} type="hidden" name={k} value={v} />
+            ))}
+            <input className="lf-input" type="date" name="from" defaultValue={range.from} />
+            <span className="lf-muted">→</span>
+            <input className="lf-input" type="date" name="to" defaultValue={range.to} />
+            <button className="lf-pill" type="submit">
+              Apply
+            </button>
+          </Form>
+        </div>
+      </div>
+
+      <div className="lf-grid lf-mt-4">
+        {funnel.map((step, i) => (
+          <div key={step.type} className="lf-col-3">
+            <div className="lf-card">
+              <div className="lf-card-title">{STEP_LABELS[step.type] ?? step.type}</div>
+              <div className="lf-kpi">{step.count}</div>
+              <div className="lf-muted lf-mt-2">
+                {i === 0 ? "Top of funnel" : `${pct(step.count, funnel[i - 1].count)} of previous step`}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="lf-card lf-mt-4">
+        <div className="lf-card-heading">Funnel</div>
+        <div style={{ display: "grid", gap: 10, marginTop: 8 }}>
+          {funnel.map((step) => {
+            const width = top ? Math.max(2, Math.round((step.count / top) * 100)) : 0;
+            return (
+              <div key={step.type} style={{ display: "grid", gridTemplateColumns: "140px 1fr 90px", gap: 12, alignItems: "center" }}>
+                <div style={{ fontWeight: 650 }}>{STEP_LABELS[step.type] ?? step.type}</div>
+                <div style={{ background: "rgba(17,24,39,.06)", borderRadius: 999, height: 14 }}>
+                  <div
+                    style={{
+                      width: `${width}%`,
+                      height: "100%",
+                      borderRadius: 999,
+                      background: "rgba(17,24,39,.85)",
+                    }}
+                  />
+                </div>
+                <div className="lf-muted" style={{ textAlign: "right" }}>
+                  {step.count} · {pct(step.count, top)}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+        <div className="lf-muted lf-mt-3">
+          Sheets sync: {report?.sync.success ?? 0} succeeded · {report?.sync.failed ?? 0} failed
+        </div>
+      </div>
+
+      <div className="lf-card lf-mt-4">
+        <div className="lf-card-heading">Daily</div>
+        <div style={{ overflowX: "auto", marginTop: 8 }}>
+          <table className="lf-table" style={{ width: "100%" }}>
+            <thead>
+              <tr>
+                <th style={{ width: 120 }}>Day</th>
+                <th>Opened</th>
+                <th style={{ textAlign: "right" }}>Role selected</th>
+                <th style={{ textAlign: "right" }}>Submitted</th>
+                <th style={{ textAlign: "right" }}>Confirmed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(report?.daily ?? [])
+                .slice()
+                .reverse()
+                .map((d) => (
+                  <tr key={d.day} className="lf-row-hover">
+                    <td className="lf-muted">{d.day}</td>
+                    <td>
+                      <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+                        <div
+                          style={{
+                            width: `${Math.round((d.form_opened / maxDaily) * 160)}px`,
+                            height: 8,
+                            borderRadius: 999,
+                            background: "rgba(17,24,39,.7)",
+                          }}
+                        />
+                        <span>{d.form_opened}</span>
+                      </div>
+                    </td>
+                    <td style={{ textAlign: "right" }}>{d.role_selected}</td>
+                    <td style={{ textAlign: "right" }}>{d.request_submitted}</td>
+                    <td style={{ textAlign: "right" }}>{d.request_confirmed}</td>
+                  </tr>
+                ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="lf-grid lf-mt-4">
+        <div className="lf-col-6">
+          <BreakdownTable title="By role" rows={report?.breakdowns.role ?? []} />
+        </div>
+        <div className="lf-col-6">
+          <BreakdownTable title="By placement" rows={report?.breakdowns.placement ?? []} />
+        </div>
+        <div className="lf-col-6">
+          <BreakdownTable
+            title="By form"
+            rows={report?.breakdowns.form ?? []}
+            labelFor={(key) => formNames[key] ?? key}
+          />
+        </div>
+        <div className="lf-col-6">
+          <BreakdownTable title="Top pages" rows={report?.breakdowns.page ?? []} />
+        </div>
+      </div>
+    </AdminPage>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => boundary.headers(headersArgs);
@@ -0,0 +1,548 @@
+// app/routes/app.delivery.tsx
+import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { Fragment, useEffect, useMemo, useState } from "react";
+import type { DeliveryType } from "@prisma/client";
+
+import { authenticate } from "~/shopify.server";
+import { prisma } from "~/db.server";
+import { AdminPage } from "~/ui/AdminPage";
+import {
+  DELIVERY_TYPES,
+  asDeliveryType,
+  importDeliveryRates,
+  parseDeliveryRatesCsv,
+  shopCurrency,
+} from "~/lib/delivery.server";
+
+type RateCell = { price: string; etaMinDays: string; etaMaxDays: string };
+
+type LoaderData = {
+  currency: string;
+  wilayas: Array<{ code: number; nameFr: string; rates: Record<DeliveryType, RateCell> }>;
+  communes: Array<{ id: string; wilayaCode: number; nameFr: string }>;
+  overrides: Array<{
+    id: string;
+    communeId: string;
+    communeName: string;
+    wilayaCode: number;
+    type: DeliveryType;
+    price: number;
+    etaMinDays: number | null;
+    etaMaxDays: number | null;
+    active: boolean;
+  }>;
+};
+
+const TYPE_LABELS: Record<DeliveryType, string> = { home: "Home", desk: "Stop desk" };
+
+const MAX_CSV_BYTES = 1024 * 1024;
+
+async function ensureShopId(shopDomain: string) {
+  const shop = await prisma.shop.upsert({
+    where: { shopDomain },
+    update: { uninstalledAt: null },
+    create: { shopDomain, installedAt: new Date() },
+    select: { id: true },
+  });
+  return shop.id;
+}
+
+function emptyCell(): RateCell {
+  return { price: "", etaMinDays: "", etaMaxDays: "" };
+}
+
+function parsePrice(input: unknown): number | null {
+  const s = String(input ?? "").trim().replace(",", ".");
+  if (!s) return null;
+  const n = Number(s);
+  return Number.isFinite(n) && n >= 0 ? Math.round(n * 100) / 100 : NaN;
+}
+
+function parseDays(input: unknown): number | null {
+  const s = String(input ?? "").trim();
+  if (!s) return null;
+  const n = Number(s);
+  return Number.isInteger(n) && n >= 0 && n <= 365 ? n : NaN;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shopId = await ensureShopId(session.shop);
+
+  const [wilayas, communes, rates, overrides, currency] = await Promise.all([
+    prisma.geoWilaya.findMany({ orderBy: { code: "asc" }, select: { code: true, nameFr: true } }),
+    prisma.geoCommune.findMany({
+      orderBy: [{ wilayaCode: "asc" }, { nameFr: "asc" }],
+      select: { id: true, wilayaCode: true, nameFr: true },
+    }),
+    prisma.deliveryRate.findMany({ where: { shopId } }),
+    prisma.deliveryCommuneRate.findMany({
+      where: { shopId },
+      include: { commune: { select: { nameFr: true, wilayaCode: true } } },
+      orderBy: [{ commune: { wilayaCode: "asc" } }, { commune: { nameFr: "asc" } }, { type: "asc" }],
+    }),
+    shopCurrency(shopId),
+  ]);
+
+  const byKey = new Map(rates.map((r) => [`${r.wilayaCode}|${r.type}`, r]));
+
+  const data: LoaderData = {
+    currency,
+    wilayas: wilayas.map((w) => ({
+      code: w.code,
+      nameFr: w.nameFr,
+      rates: Object.fromEntries(
+        DELIVERY_TYPES.map((type) => {
+          const r = byKey.get(`${w.code}|${type}`);
+          // Inactive rows show as blank ("not offered")
+          return [
+            type,
+            r && r.active
+              ? {
+                  price: String(Number(r.price)),
+                  etaMinDays: r.etaMinDays !== null ? String(r.etaMinDays) : "",
+                  etaMaxDays: r.etaMaxDays !== null ? String(r.etaMaxDays) : "",
+                }
+              : emptyCell(),
+          ];
+        })
+      ) as Record<DeliveryType, RateCell>,
+    })),
+    communes,
+    overrides: overrides.map((o) => ({
+      id: o.id,
+      communeId: o.communeId,
+      communeName: o.commune.nameFr,
+      wilayaCode: o.commune.wilayaCode,
+      type: o.type,
+      price: Number(o.price),
+      etaMinDays: o.etaMinDays,
+      etaMaxDays: o.etaMaxDays,
+      active: o.active,
+    })),
+  };
+
+  return data;
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shopId = await ensureShopId(session.shop);
+
+  const fd = await request.formData();
+  const intent = String(fd.get("intent") || "");
+
+  if (intent === "saveRates") {
+    let rows: any[] = [];
+    try {
+      rows = JSON.parse(String(fd.get("payload") || "[]"));
+    } catch {
+      return { ok: false, error: "Invalid payload" };
+    }
+    if (!Array.isArray(rows)) return { ok: false, error: "Invalid payload" };
+
+    const wilayaCodes = new Set(
+      (await prisma.geoWilaya.findMany({ select: { code: true } })).map((w) => w.code)
+    );
+
+    const upserts: Array<{
+      wilayaCode: number;
+      type: DeliveryType;
+      price: number;
+      etaMinDays: number | null;
+      etaMaxDays: number | null;
+    }> = [];
+    const removals: Array<{ wilayaCode: number; type: DeliveryType }> = [];
+
+    for (const r of rows) {
+      const wilayaCode = Number(r?.wilayaCode);
+      const type = asDeliveryType(r?.type);
+      if (!wilayaCodes.has(wilayaCode) || !type) return { ok: false, error: "Invalid rate row" };
+
+      const price = parsePrice(r?.price);
+      const etaMinDays = parseDays(r?.etaMinDays);
+      const etaMaxDays = parseDays(r?.etaMaxDays);
+
+      if (Number.isNaN(price)) return { ok: false, error: `Wilaya ${wilayaCode}: invalid ${TYPE_LABELS[type]} price` };
+      if (Number.isNaN(etaMinDays) || Number.isNaN(etaMaxDays)) {
+        return { ok: false, error: `Wilaya ${wilayaCode}: ETA must be a whole number of days` };
+      }
+      if (etaMinDays !== null && etaMaxDays !== null && etaMinDays > etaMaxDays) {
+        return { ok: false, error: `Wilaya ${wilayaCode}: ETA min is above max` };
+      }
+
+      // Blank price = option not offered in this wilaya
+      if (price === null) removals.push({ wilayaCode, type });
+      else upserts.push({ wilayaCode, type, price, etaMinDays, etaMaxDays });
+    }
+
+    await prisma.$transaction(
+      async (tx) => {
+        for (const r of removals) {
+          await tx.deliveryRate.deleteMany({ where: { shopId, wilayaCode: r.wilayaCode, type: r.type } });
+        }
+        for (const r of upserts) {
+          const data = { price: r.price, etaMinDays: r.etaMinDays, etaMaxDays: r.etaMaxDays, active: true };
+          await tx.deliveryRate.upsert({
+            where: { shopId_wilayaCode_type: { shopId, wilayaCode: r.wilayaCode, type: r.type } },
+            update: data,
+            create: { ...data, shopId, wilayaCode: r.wilayaCode, type: r.type },
+          });
+        }
+      },
+      { timeout: 60_000 }
+    );
+
+    return { ok: true, saved: upserts.length };
+  }
+
+  if (intent === "importCsv") {
+    const file = fd.get("file");
+    const pasted = String(fd.get("csv") || "");
+    let text = pasted;
+
+    if (file instanceof File && file.size > 0) {
+      if (file.size > MAX_CSV_BYTES) return { ok: false, error: "CSV is larger than 1MB" };
+      text = await file.text();
+    }
+    if (!text.trim()) return { ok: false, error: "Choose a CSV file or paste rows" };
+
+    const parsed = await parseDeliveryRatesCsv(text);
+    if (parsed.errors.length) {
+      // All-or-nothing: a half-imported table is harder to fix than a rejected file
+      return { ok: false, error: "CSV has errors; nothing was imported", csvErrors: parsed.errors.slice(0, 50) };
+    }
+    if (!parsed.rows.length) return { ok: false, error: "No rows found" };
+
+    const replace = String(fd.get("replace") || "") === "on";
+    const res = await importDeliveryRates(shopId, parsed.rows, { replace });
+    return { ok: true, imported: res.imported };
+  }
+
+  if (intent === "saveOverride") {
+    const communeId = String(fd.get("communeId") || "");
+    const type = asDeliveryType(fd.get("type"));
+    const price = parsePrice(fd.get("price"));
+    const etaMinDays = parseDays(fd.get("etaMinDays"));
+    const etaMaxDays = parseDays(fd.get("etaMaxDays"));
+    const active = String(fd.get("active") || "") === "on";
+
+    if (!type) return { ok: false, error: "Choose a delivery type" };
+    if (price === null || Number.isNaN(price)) return { ok: false, error: "Enter a valid price" };
+    if (Number.isNaN(etaMinDays) || Number.isNaN(etaMaxDays)) {
+      return { ok: false, error: "ETA must be a whole number of days" };
+    }
+
+    const commune = await prisma.geoCommune.findUnique({ where: { id: communeId }, select: { id: true } });
+    if (!commune) return { ok: false, error: "Choose a commune" };
+
+    const data = { price, etaMinDays, etaMaxDays, active };
+    await prisma.deliveryCommuneRate.upsert({
+      where: { shopId_communeId_type: { shopId, communeId, type } },
+      update: data,
+      create: { ...data, shopId, communeId, type },
+    });
+    return { ok: true };
+  }
+
+  if (intent === "deleteOverride") {
+    const id = String(fd.get("id") || "");
+    await prisma.deliveryCommuneRate.deleteMany({ where: { id, shopId } });
+    return { ok: true };
+  }
+
+  return { ok: false, error: "Unknown intent" };
+};
+
+function etaLabel(min: number | null, max: number | null) {
+  if (min === null && max === null) return "—";
+  if (min !== null && max !== null && min !== max) return `${min}–${max} d`;
+  return `${min ?? max} d`;
+}
+
+function OverrideRow({ o, currency }: { o: LoaderData["overrides"][number]; currency: string }) {
+  const fetcher = useFetcher();
+  return (
+    <tr className="lf-row-hover">
+      <td>
+        <div style={{ fontWeight: 650 }}>{o.communeName}</div>
+        <div className="lf-muted">Wilaya {o.wilayaCode}</div>
+      </td>
+      <td>{TYPE_LABELS[o.type]}</td>
+      <td>{o.active ? `${o.price.toFixed(2)} ${currency}` : <span className="lf-muted">Not offered</span>}</td>
+      <td className="lf-muted">{etaLabel(o.etaMinDays, o.etaMaxDays)}</td>
+      <td>
+        <fetcher.Form method="post">
+          <input type="hidden" name="intent" value="deleteOverride" />
+          <input type="hidden" name="id" value={o.id} />
+          <button className="lf-pill lf-pill--danger" type="submit" disabled={fetcher.state !== "idle"}>
+            Remove
+          </button>
+        </fetcher.Form>
+      </td>
+    </tr>
+  );
+}
+
+export default function DeliveryPage() {
+  const data = useLoaderData() as LoaderData;
+  const saveFetcher = useFetcher();
+  const importFetcher = useFetcher();
+  const overrideFetcher = useFetcher();
+
+  const [rates, setRates] = useState(data.wilayas);
+
+  // Pick up saved/imported values after revalidation
+  useEffect(() => setRates(data.wilayas), [data.wilayas]);
+  const [overrideWilaya, setOverrideWilaya] = useState<number>(data.wilayas[0]?.code ?? 16);
+
+  const communesForWilaya = useMemo(
+    () => data.communes.filter((c) => c.wilayaCode === overrideWilaya),
+    [data.communes, overrideWilaya]
+  );
+
+  const setCell = (code: number, type: DeliveryType, patch: Partial<RateCell>) =>
+    setRates((prev) =>
+      prev.map((w) => (w.code === code ? { ...w, rates: { ...w.rates, [type]: { ...w.rates[type], ...patch } } } : w))
+    );
+
+  const saveRates = () => {
+    const payload = rates.flatMap((w) =>
+      DELIVERY_TYPES.map((type) => ({ wilayaCode: w.code, type, ...w.rates[type] }))
+    );
+    saveFetcher.submit({ intent: "saveRates", payload: JSON.stringify(payload) }, { method: "post" });
+  };
+
+  const saveData = saveFetcher.data as any;
+  const importData = importFetcher.data as any;
+  const overrideData = overrideFetcher.data as any;
+
+  return (
+    <AdminPage title="Delivery">
+      <div className="lf-card">
+        <div className="lf-toolbar">
+          <div>
+            <div className="lf-card-heading" style={{ margin: 0 }}>Rates by wilaya</div>
+            <div className="lf-muted">
+              Fees in {data.currency}. Leave a price empty when the option is not offered. The storefront
+              shows these fees live once a wilaya is picked.
+            </div>
+          </div>
+          <div className="lf-btn-row">
+            {saveData?.ok ? <span className="lf-badge lf-badge--approved"><span className="lf-dot" />Saved</span> : null}
+            {saveData?.ok === false ? (
+              <span className="lf-badge lf-badge--rejected"><span className="lf-dot" />{String(saveData.error)}</span>
+            ) : null}
+            <button className="lf-pill lf-pill--primary" type="button" onClick={saveRates} disabled={saveFetcher.state !== "idle"}>
+              {saveFetcher.state !== "idle" ? "Saving…" : "Save rates"}
+            </button>
+          </div>
+        </div>
+
+        <div style={{ overflowX: "auto", marginTop: 12 }}>
+          <table className="lf-table" style={{ width: "100%" }}>
+            <thead>
+              <tr>
+                <th>Wilaya</th>
+                {DELIVERY_TYPES.map((type) => (
+                  <th key={type} colSpan={2}>
+                    {TYPE_LABELS[type]} <span className="lf-muted">(price · ETA days)</span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rates.map((w) => (
+                <tr key={w.code} className="lf-row-hover">
+                  <td style={{ whiteSpace: "nowrap" }}>
+                    <span className="lf-muted">{String(w.code).padStart(2, "0")}</span> {w.nameFr}
+                  </td>
+                  {DELIVERY_TYPES.map((type) => (
+                    <Fragment key={type}>
+                      <td style={{ width: 130 }}>
+                        <input
+                          className="lf-input"
+                          inputMode="decimal"
+                          value={w.rates[type].price}
+                          placeholder="—"
+                          onChange={(e) => setCell(w.code, type, { price: e.target.value })}
+                        />
+                      </td>
+                      <td style={{ width: 150 }}>
+                        <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                          <input
+                            className="lf-input"
+                            inputMode="numeric"
+                            value={w.rates[type].etaMinDays}
+                            placeholder="min"
+                            onChange={(e) => setCell(w.code, type, { etaMinDays: e.target.value })}
+                          />
+                          <span className="lf-muted">–</span>
+                          <input
+                            className="lf-input"
+                            inputMode="numeric"
+                            value={w.rates[type].etaMaxDays}
+                            placeholder="max"
+                            onChange={(e) => setCell(w.code, type, { etaMaxDays: e.target.value })}
+                          />
+                        </div>
+                      </td>
+                    </Fragment>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="lf-grid lf-mt-4">
+        <div className="lf-col-6">
+          <div className="lf-card">
+            <div className="lf-card-title">Import CSV</div>
+            <div className="lf-muted">
+              Header row: <code>wilaya,commune,type,price,eta_min,eta_max</code>. Wilaya is a code or name,
+              commune is optional (sets an override), type is <code>home</code> or <code>desk</code>.
+            </div>
+
+            <importFetcher.Form method="post" encType="multipart/form-data" className="lf-mt-3" style={{ display: "grid", gap: 10 }}>
+              <input type="hidden" name="intent" value="importCsv" />
+              <input className="lf-input" type="file" name="file" accept=".csv,text/csv" />
+              <textarea
+                className="lf-input"
+                name="csv"
+                rows={4}
+                placeholder={"wilaya,commune,type,price,eta_min,eta_max\n16,,home,400,1,2\n16,,desk,250,1,2"}
+              />
+              <label style={{ display: "flex", gap: 10, alignItems: "center" }}>
+                <input type="checkbox" name="replace" />
+                Replace all existing rates and overrides
+              </label>
+              <div className="lf-btn-row">
+                <button className="lf-pill lf-pill--primary" type="submit" disabled={importFetcher.state !== "idle"}>
+                  {importFetcher.state !== "idle" ? "Importing…" : "Import"}
+                </button>
+                {importData?.ok ? (
+                  <span className="lf-badge lf-badge--approved"><span className="lf-dot" />{importData.imported} rows imported</span>
+                ) : null}
+                {importData?.ok === false ? (
+                  <span className="lf-badge lf-badge--rejected"><span className="lf-dot" />{String(importData.error)}</span>
+                ) : null}
+              </div>
+            </importFetcher.Form>
+
+            {importData?.csvErrors?.length ? (
+              <ul className="lf-mt-3" style={{ margin: 0, paddingLeft: 18 }}>
+                {importData.csvErrors.map((e: any) => (
+                  <li key={`${e.line}-${e.error}`} className="lf-muted">
+                    Line {e.line}: {e.error}
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+          </div>
+        </div>
+
+        <div className="lf-col-6">
+          <div className="lf-card">
+            <div className="lf-card-title">Commune override</div>
+            <div className="lf-muted">Replaces the wilaya rate for one commune (e.g. a remote daïra).</div>
+
+            <overrideFetcher.Form method="post" className="lf-mt-3" style={{ display: "grid", gap: 10 }}>
+              <input type="hidden" name="intent" value="saveOverride" />
+              <div className="lf-field">
+                <div className="lf-field-label">Wilaya</div>
+                <select
+                  className="lf-input lf-input--select"
+                  value={overrideWilaya}
+                  onChange={(e) => setOverrideWilaya(Number(e.target.value))}
+                >
+                  {data.wilayas.map((w) => (
+                    <option key={w.code} value={w.code}>
+                      {String(w.code).padStart(2, "0")} — {w.nameFr}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="lf-field">
+                <div className="lf-field-label">Commune</div>
+                <select className="lf-input lf-input--select" name="communeId" key={overrideWilaya}>
+                  {communesForWilaya.map((c) => (
+                    <option key={c.id} value={c.id}>{c.nameFr}</option>
+                  ))}
+                </select>
+              </div>
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr 1fr", gap: 10 }}>
+                <div className="lf-field">
+                  <div className="lf-field-label">Type</div>
+                  <select className="lf-input lf-input--select" name="type">
+                    {DELIVERY_TYPES.map((t) => (
+                      <option key={t} value={t}>{TYPE_LABELS[t]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="lf-field">
+                  <div className="lf-field-label">Price</div>
+                  <input className="lf-input" name="price" inputMode="decimal" required />
+                </div>
+                <div className="lf-field">
+                  <div className="lf-field-label">ETA min</div>
+                  <input className="lf-input" name="etaMinDays" inputMode="numeric" />
+                </div>
+                <div className="lf-field">
+                  <div className="lf-field-label">ETA max</div>
+                  <input className="lf-input" name="etaMaxDays" inputMode="numeric" />
+                </div>
+              </div>
+              <label style={{ display: "flex", gap: 10, alignItems: "center" }}>
+                <input type="checkbox" name="active" defaultChecked />
+                Offered in this commune
+              </label>
+              <div className="lf-btn-row">
+                <button className="lf-pill lf-pill--primary" type="submit" disabled={overrideFetcher.state !== "idle"}>
+                  Save override
+                </button>
+                {overrideData?.ok === false ? (
+                  <span className="lf-badge lf-badge--rejected"><span className="lf-dot" />{String(overrideData.error)}</span>
+                ) : null}
+              </div>
+            </overrideFetcher.Form>
+          </div>
+        </div>
+      </div>
+
+      <div className="lf-card lf-mt-4">
+        <div className="lf-card-title">Commune overrides</div>
+        <div style={{ overflowX: "auto", marginTop: 8 }}>
+          <table className="lf-table" style={{ width: "100%" }}>
+            <thead>
+              <tr>
+                <th>Commune</th>
+                <th style={{ width: 120 }}>Type</th>
+                <th style={{ width: 160 }}>Price</th>
+                <th style={{ width: 110 }}>ETA</th>
+                <th style={{ width: 110 }} />
+              </tr>
+            </thead>
+            <tbody>
+              {data.overrides.map((o) => (
+                <OverrideRow key={o.id} o={o} currency={data.currency} />
+              ))}
+              {data.overrides.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="lf-muted" style={{ padding: 14 }}>
+                    No overrides: every commune uses its wilaya rate.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </AdminPage>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => boundary.headers(headersArgs);
@@ -169,6 +169,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     await prisma.$transaction(async (tx) => {
       await tx.form.update({ where: { id: formId }, data: { status: "archived", isActive: false } });
+      // Roles pointing at this form fall back to the shop default
+      await tx.role.updateMany({ where: { shopId, formId }, data: { formId: null } });
 
       const settings = await tx.shopSettings.findUnique({ where: { shopId }, select: { currentFormId: true } });
       if (settings?.currentFormId === formId) {
@@ -4,7 +4,7 @@ import type {
   HeadersFunction,
   LoaderFunctionArgs,
 } from "react-router";
-import { Form, useActionData, useLoaderData, useLocation } from "react-router";
+import { Form, Link, useActionData, useLoaderData, useLocation } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import { google } from "googleapis";
 
@@ -16,7 +16,11 @@ import {
   linkExistingSpreadsheet,
   parseSpreadsheetId,
   exportRequestsToSpreadsheet,
+  getSheetDestinations,
+  setPrimaryConnection,
+  syncRequestsFromSheetToDb,
 } from "~/lib/sheets.server";
+import { parseSheetRouting, type SheetRouting } from "~/lib/sheetsRouting.server";
 import {
   decryptString,
   encryptString,
@@ -28,6 +32,7 @@ type SheetConnRow = {
   spreadsheetId: string;
   spreadsheetName: string | null;
   active: boolean;
+  routing: SheetRouting;
   createdAt: string;
   updatedAt: string;
 };
@@ -43,7 +48,34 @@ type LoaderData = {
     spreadsheetUrl: string | null;
   };
   connections: SheetConnRow[];
+  sheetSync: {
+    pullEnabled: boolean;
+    conflictPolicy: "admin_wins" | "last_writer_wins";
+    checkedAt: string | null; // last Drive change check of the active sheet
+  };
+  syncRuns: Array<{
+    id: string;
+    sheet: string;
+    direction: "to_sheet" | "from_sheet";
+    trigger: "schedule" | "manual";
+    status: "queued" | "success" | "failed";
+    updated: number;
+    refreshed: number;
+    conflicts: number;
+    error: string | null;
+    startedAt: string;
+  }>;
   recipients: Array<{ id: string; email: string; active: boolean; createdAt: string }>;
+  deliveries: Array<{
+    id: string;
+    recipient: string;
+    subject: string;
+    transport: string;
+    status: "sent" | "failed" | "logged";
+    error: string | null;
+    requestId: string | null;
+    createdAt: string;
+  }>;
   limits: { recipientsMax: number };
 };
 
@@ -51,6 +83,17 @@ type ActionData =
   | { ok: true; message?: string }
   | { ok: false; error: string; message?: string };
 
+const ROLE_LABELS: Record<string, string> = { individual: "Individual", installer: "Installer", company: "Company" };
+
+function routingSummary(r: SheetRouting) {
+  const parts: string[] = [];
+  if (r.roleTypes.length) parts.push(r.roleTypes.map((x) => ROLE_LABELS[x] ?? x).join(" / "));
+  if (r.formIds.length) parts.push(`${r.formIds.length} form(s)`);
+  if (r.wilayaFrom || r.wilayaTo) parts.push(`wilayas ${r.wilayaFrom ?? 1}–${r.wilayaTo ?? "…"}`);
+  if (r.productIds.length) parts.push(`${r.productIds.length} product(s)`);
+  return parts.length ? parts.join(" · ") : "all requests";
+}
+
 function isValidEmail(email: string) {
   return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
 }
@@ -98,6 +141,8 @@ function friendlyErrorMessage(code: string, fallback?: string) {
   if (code === "sheet_create_failed") return "Failed to create a new sheet.";
   if (code === "limit_reached") return "Limit reached (10 emails).";
   if (code === "invalid_email") return "Invalid email.";
+  if (code === "invalid_conflict_policy") return "Unknown conflict policy.";
+  if (code === "no_primary_sheet") return "No active sheet to pull from.";
   return fallback || "Something went wrong.";
 }
 
@@ -117,6 +162,8 @@ function extractErrorCode(e: any): { code: string; message?: string } {
     return { code: "invalid_sheet_id", message: msg };
   if (msg.includes("sheet_not_found"))
     return { code: "sheet_not_found", message: msg };
+  if (msg.includes("no_primary_sheet"))
+    return { code: "no_primary_sheet", message: msg };
   return { code: "unknown", message: msg || undefined };
 }
 
@@ -192,6 +239,7 @@ async function pickPrimaryConnection(shopId: string) {
         spreadsheetId: true,
         spreadsheetName: true,
         active: true,
+        sheetCheckedAt: true,
         updatedAt: true,
         createdAt: true,
       },
@@ -209,6 +257,7 @@ async function pickPrimaryConnection(shopId: string) {
       spreadsheetId: true,
       spreadsheetName: true,
       active: true,
+      sheetCheckedAt: true,
       updatedAt: true,
       createdAt: true,
     },
@@ -230,13 +279,16 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       google: { connected: false, tokenExpiresAt: null },
       primary: { connectionId: null, spreadsheetId: null, spreadsheetUrl: null },
       connections: [],
+      sheetSync: { pullEnabled: false, conflictPolicy: "admin_wins", checkedAt: null },
+      syncRuns: [],
       recipients: [],
+      deliveries: [],
       limits: { recipientsMax: 10 },
     };
     return data;
   }
 
-  const [oauth, recipients, connections, primaryPick] = await Promise.all([
+  const [oauth, recipients, deliveries, connections, primaryPick, settings, syncRuns] = await Promise.all([
     prisma.oAuthGoogle.findUnique({
       where: { shopId: shop.id },
       select: { id: true, expiresAt: true },
@@ -246,6 +298,21 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       orderBy: { createdAt: "asc" },
       select: { id: true, email: true, active: true, createdAt: true },
     }),
+    prisma.notificationLog.findMany({
+      where: { shopId: shop.id },
+      orderBy: { createdAt: "desc" },
+      take: 20,
+      select: {
+        id: true,
+        recipient: true,
+        subject: true,
+        transport: true,
+        status: true,
+        error: true,
+        requestId: true,
+        createdAt: true,
+      },
+    }),
     prisma.sheetsConnection.findMany({
       where: { shopId: shop.id },
       orderBy: { updatedAt: "desc" },
@@ -254,11 +321,33 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         spreadsheetId: true,
         spreadsheetName: true,
         active: true,
+        routing: true,
         createdAt: true,
         updatedAt: true,
       },
     }),
     pickPrimaryConnection(shop.id),
+    prisma.shopSettings.findUnique({
+      where: { shopId: shop.id },
+      select: { sheetsPullEnabled: true, sheetsConflictPolicy: true },
+    }),
+    prisma.sheetsSyncRun.findMany({
+      where: { connection: { shopId: shop.id } },
+      orderBy: { startedAt: "desc" },
+      take: 10,
+      select: {
+        id: true,
+        direction: true,
+        trigger: true,
+        status: true,
+        updated: true,
+        refreshed: true,
+        conflicts: true,
+        error: true,
+        startedAt: true,
+        connection: { select: { spreadsheetName: true } },
+      },
+    }),
   ]);
 
   const primaryConn = primaryPick.conn ?? null;
@@ -282,13 +371,28 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       spreadsheetId: c.spreadsheetId,
       spreadsheetName: c.spreadsheetName,
       active: c.active,
+      routing: parseSheetRouting(c.routing),
       createdAt: c.createdAt.toISOString(),
       updatedAt: c.updatedAt.toISOString(),
     })),
+    sheetSync: {
+      pullEnabled: settings?.sheetsPullEnabled ?? false,
+      conflictPolicy: settings?.sheetsConflictPolicy ?? "admin_wins",
+      checkedAt: primaryConn?.sheetCheckedAt ? primaryConn.sheetCheckedAt.toISOString() : null,
+    },
+    syncRuns: syncRuns.map(({ connection, ...r }) => ({
+      ...r,
+      sheet: connection.spreadsheetName || "Google Sheet",
+      startedAt: r.startedAt.toISOString(),
+    })),
     recipients: recipients.map((r) => ({
       ...r,
       createdAt: r.createdAt.toISOString(),
     })),
+    deliveries: deliveries.map((d) => ({
+      ...d,
+      createdAt: d.createdAt.toISOString(),
+    })),
     limits: { recipientsMax: 10 },
   };
 
@@ -395,18 +499,12 @@ export const action = async ({
       });
       if (!conn) return { ok: false, error: "sheet_not_found" };
 
-      await prisma.$transaction([
-        prisma.sheetsConnection.updateMany({
-          where: { shopId: shop.id },
-          data: { active: false },
-        }),
-        prisma.sheetsConnection.update({ where: { id: conn.id }, data: { active: true } }),
-        prisma.shopSettings.upsert({
-          where: { shopId: shop.id },
-          update: { primarySheetsConnectionId: conn.id },
-          create: { shopId: shop.id, primarySheetsConnectionId: conn.id },
-        }),
-      ]);
+      const primary = await pickPrimaryConnection(shop.id);
+      if (primary.conn) {
+        await prisma.sheetsConnection.update({ where: { id: conn.id }, data: { active: true } });
+      } else {
+        await setPrimaryConnection(shop.id, conn.id);
+      }
 
       await exportRequestsToSpreadsheet({
         shopDomain: session.shop,
@@ -416,6 +514,18 @@ export const action = async ({
       return { ok: true, message: "Sheet activated and exported." };
     }
 
+    if (intent === "makePrimary") {
+      const connectionId = String(fd.get("connectionId") || "");
+      const conn = await prisma.sheetsConnection.findFirst({
+        where: { id: connectionId, shopId: shop.id, active: true },
+        select: { id: true },
+      });
+      if (!conn) return { ok: false, error: "sheet_not_found" };
+
+      await setPrimaryConnection(shop.id, conn.id);
+      return { ok: true, message: "Primary sheet changed." };
+    }
+
     if (intent === "removeSheet") {
       const connectionId = String(fd.get("connectionId") || "");
 
@@ -443,38 +553,19 @@ export const action = async ({
       ]);
 
       if (isPrimary) {
+        // Other destinations keep receiving requests; the oldest one becomes primary
         const fallback = await prisma.sheetsConnection.findFirst({
-          where: { shopId: shop.id, id: { not: connectionId } },
-          orderBy: { updatedAt: "desc" },
-          select: { id: true, spreadsheetId: true },
+          where: { shopId: shop.id, id: { not: connectionId }, active: true },
+          orderBy: { createdAt: "asc" },
+          select: { id: true },
         });
 
         if (fallback) {
-          await prisma.$transaction([
-            prisma.sheetsConnection.updateMany({
-              where: { shopId: shop.id },
-              data: { active: false },
-            }),
-            prisma.sheetsConnection.update({
-              where: { id: fallback.id },
-              data: { active: true },
-            }),
-            prisma.shopSettings.upsert({
-              where: { shopId: shop.id },
-              update: { primarySheetsConnectionId: fallback.id },
-              create: { shopId: shop.id, primarySheetsConnectionId: fallback.id },
-            }),
-          ]);
-
-          await exportRequestsToSpreadsheet({
-            shopDomain: session.shop,
-            spreadsheetId: fallback.spreadsheetId,
-          });
-
-          return { ok: true, message: "Primary removed. Another sheet was activated." };
+          await setPrimaryConnection(shop.id, fallback.id);
+          return { ok: true, message: "Primary removed. Another active sheet is now primary." };
         }
 
-        return { ok: true, message: "Primary removed. No remaining sheets to activate." };
+        return { ok: true, message: "Primary removed. No other active sheet." };
       }
 
       return { ok: true, message: "Sheet removed from app." };
@@ -512,34 +603,14 @@ export const action = async ({
 
       if (isPrimary) {
         const fallback = await prisma.sheetsConnection.findFirst({
-          where: { shopId: shop.id },
-          orderBy: { updatedAt: "desc" },
-          select: { id: true, spreadsheetId: true },
+          where: { shopId: shop.id, active: true },
+          orderBy: { createdAt: "asc" },
+          select: { id: true },
         });
 
         if (fallback) {
-          await prisma.$transaction([
-            prisma.sheetsConnection.updateMany({
-              where: { shopId: shop.id },
-              data: { active: false },
-            }),
-            prisma.sheetsConnection.update({
-              where: { id: fallback.id },
-              data: { active: true },
-            }),
-            prisma.shopSettings.upsert({
-              where: { shopId: shop.id },
-              update: { primarySheetsConnectionId: fallback.id },
-              create: { shopId: shop.id, primarySheetsConnectionId: fallback.id },
-            }),
-          ]);
-
-          await exportRequestsToSpreadsheet({
-            shopDomain: session.shop,
-            spreadsheetId: fallback.spreadsheetId,
-          });
-
-          return { ok: true, message: "Sheet deleted. Another sheet was activated." };
+          await setPrimaryConnection(shop.id, fallback.id);
+          return { ok: true, message: "Sheet deleted. Another active sheet is now primary." };
         }
       }
 
@@ -571,8 +642,46 @@ export const action = async ({
     }
 
     if (intent === "exportActive") {
-      await exportRequestsToSpreadsheet({ shopDomain: session.shop });
-      return { ok: true, message: "Active sheet exported." };
+      const destinations = await getSheetDestinations(shop.id);
+      if (!destinations.length) return { ok: false, error: "no_primary_sheet" };
+
+      for (const d of destinations) {
+        await exportRequestsToSpreadsheet({ shopDomain: session.shop, spreadsheetId: d.spreadsheetId });
+      }
+      return { ok: true, message: `Exported ${destinations.length} active sheet(s).` };
+    }
+
+    // ─────────────────────────────────────────
+    // Sheet -> DB sync (scheduled pull + manual)
+    // ─────────────────────────────────────────
+    if (intent === "saveSheetSync") {
+      const policy = String(fd.get("conflictPolicy") || "");
+      if (policy !== "admin_wins" && policy !== "last_writer_wins") {
+        return { ok: false, error: "invalid_conflict_policy" };
+      }
+      const pullEnabled = fd.get("pullEnabled") === "on";
+
+      await prisma.shopSettings.upsert({
+        where: { shopId: shop.id },
+        update: { sheetsPullEnabled: pullEnabled, sheetsConflictPolicy: policy },
+        create: { shopId: shop.id, sheetsPullEnabled: pullEnabled, sheetsConflictPolicy: policy },
+      });
+      return { ok: true, message: "Sheet sync settings saved." };
+    }
+
+    if (intent === "pullSheet") {
+      const report = await syncRequestsFromSheetToDb(session.shop, { trigger: "manual" });
+      const parts = [
+        `${report.updated} updated`,
+        `${report.refreshed} row(s) refreshed`,
+        `${report.unchanged} unchanged`,
+      ];
+      if (report.skipped) parts.push(`${report.skipped} skipped (no Last Sync)`);
+      if (report.conflicts.length) {
+        const kept = report.conflicts.filter((c) => c.winner === "admin").length;
+        parts.push(`${report.conflicts.length} conflict(s), ${kept} kept the admin value`);
+      }
+      return { ok: true, message: `Pulled sheet edits: ${parts.join(", ")}.` };
     }
 
     return { ok: false, error: "unknown_intent" };
@@ -668,7 +777,7 @@ export default function IntegrationsIndex() {
             <div style={{ fontWeight: 800 }}>Notification emails</div>
             <div className="lf-muted">
               Up to {data.limits.recipientsMax}. Every active email receives a “new request”
-              notification with a direct link to the active sheet.
+              notification with the request summary and a direct link to it.
             </div>
           </div>
           <div className="lf-muted">
@@ -744,6 +853,67 @@ export default function IntegrationsIndex() {
             </tbody>
           </table>
         </div>
+
+        <div style={{ fontWeight: 700, marginTop: 16 }}>Recent deliveries</div>
+        <div style={{ overflowX: "auto", marginTop: 8 }}>
+          <table className="lf-table" style={{ width: "100%" }}>
+            <thead>
+              <tr>
+                <th style={{ width: 170 }}>Sent</th>
+                <th>Recipient</th>
+                <th>Subject</th>
+                <th style={{ width: 110 }}>Status</th>
+                <th style={{ width: 110 }}>Request</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.deliveries.map((d) => (
+                <tr key={d.id} className="lf-row-hover">
+                  <td className="lf-muted">{new Date(d.createdAt).toLocaleString()}</td>
+                  <td style={{ fontWeight: 650 }}>{d.recipient}</td>
+                  <td>
+                    <div>{d.subject}</div>
+                    {d.error ? (
+                      <div className="lf-muted" style={{ color: "rgba(239,68,68,.9)" }}>
+                        {d.error}
+                      </div>
+                    ) : null}
+                  </td>
+                  <td>
+                    <span
+                      className={
+                        d.status === "sent"
+                          ? "lf-pill lf-pill--success"
+                          : d.status === "logged"
+                          ? "lf-pill"
+                          : "lf-pill lf-pill--danger"
+                      }
+                      title={d.transport}
+                    >
+                      {d.status === "sent" ? "Sent" : d.status === "logged" ? "Not delivered (test mode)" : "Failed"}
+                    </span>
+                  </td>
+                  <td>
+                    {d.requestId ? (
+                      <Link className="lf-link" to={`/app/requests/${d.requestId}`}>
+                        Open
+                      </Link>
+                    ) : (
+                      <span className="lf-muted">—</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {data.deliveries.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="lf-muted" style={{ padding: 14 }}>
+                    No notifications sent yet.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
       </div>
 
       {/* TABLE 2: Google Sheets */}
@@ -838,12 +1008,41 @@ export default function IntegrationsIndex() {
             <Form method="post">
               <input type="hidden" name="intent" value="exportActive" />
               <button className="lf-pill" type="submit">
-                Export active
+                Export active sheets
               </button>
             </Form>
           </div>
         )}
 
+        {connected && primaryConnId ? (
+          <Form method="post" className="lf-toolbar" style={{ marginTop: 12, gap: 10, flexWrap: "wrap" }}>
+            <label style={{ display: "flex", alignItems: "center", gap: 6 }}>
+              <input type="checkbox" name="pullEnabled" defaultChecked={data.sheetSync.pullEnabled} />
+              Watch the sheet for edits (checked every 2 minutes)
+            </label>
+            <select
+              className="lf-input lf-input--select"
+              name="conflictPolicy"
+              defaultValue={data.sheetSync.conflictPolicy}
+              aria-label="When both sides changed"
+            >
+              <option value="admin_wins">Conflicts: admin edits win</option>
+              <option value="last_writer_wins">Conflicts: latest edit wins</option>
+            </select>
+            <button className="lf-pill" type="submit" name="intent" value="saveSheetSync">
+              Save
+            </button>
+            <button className="lf-pill" type="submit" name="intent" value="pullSheet">
+              Pull sheet edits now
+            </button>
+            {data.sheetSync.checkedAt ? (
+              <span className="lf-muted">
+                Last checked {new Date(data.sheetSync.checkedAt).toLocaleString()}
+              </span>
+            ) : null}
+          </Form>
+        ) : null}
+
         {/* Saved sheets table */}
         <div style={{ overflowX: "auto", marginTop: 12 }}>
           <table className="lf-table" style={{ width: "100%" }}>
@@ -867,13 +1066,16 @@ export default function IntegrationsIndex() {
                         {c.spreadsheetName || "Google Sheet"}
                         {isPrimary ? (
                           <span className="lf-pill lf-pill--success" style={{ marginLeft: 8 }}>
-                            Active
+                            Primary
                           </span>
                         ) : null}
                       </div>
                       <div className="lf-muted" style={{ fontSize: 12 }}>
                         {c.spreadsheetId}
                       </div>
+                      <div className="lf-muted" style={{ fontSize: 12 }}>
+                        Receives: {routingSummary(c.routing)}
+                      </div>
                     </td>
 
                     <td className="lf-muted">{new Date(c.updatedAt).toLocaleString()}</td>
@@ -905,7 +1107,15 @@ export default function IntegrationsIndex() {
                           Open
                         </a>
 
-                        {!isPrimary ? (
+                        <Link
+                          className="lf-pill"
+                          to={`/app/integrations/sheets/${c.id}`}
+                          style={{ textDecoration: "none" }}
+                        >
+                          Columns &amp; routing
+                        </Link>
+
+                        {!c.active ? (
                           <Form method="post">
                             <input type="hidden" name="intent" value="activateSheet" />
                             <input type="hidden" name="connectionId" value={c.id} />
@@ -913,6 +1123,14 @@ export default function IntegrationsIndex() {
                               Activate
                             </button>
                           </Form>
+                        ) : !isPrimary ? (
+                          <Form method="post">
+                            <input type="hidden" name="intent" value="makePrimary" />
+                            <input type="hidden" name="connectionId" value={c.id} />
+                            <button className="lf-pill" type="submit">
+                              Make primary
+                            </button>
+                          </Form>
                         ) : null}
 
                         {connected && isPrimary ? (
@@ -959,6 +1177,45 @@ export default function IntegrationsIndex() {
           </table>
         </div>
 
+        {data.syncRuns.length ? (
+          <div style={{ overflowX: "auto", marginTop: 12 }}>
+            <div style={{ fontWeight: 700 }}>Sync history</div>
+            <table className="lf-table" style={{ width: "100%" }}>
+              <thead>
+                <tr>
+                  <th style={{ width: 170 }}>Started</th>
+                  <th>Sheet</th>
+                  <th>Direction</th>
+                  <th>Result</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.syncRuns.map((r) => (
+                  <tr key={r.id} className="lf-row-hover">
+                    <td>{new Date(r.startedAt).toLocaleString()}</td>
+                    <td>{r.sheet}</td>
+                    <td>
+                      {r.direction === "to_sheet" ? "Orders → Sheet" : "Sheet → Orders"}
+                      <span className="lf-muted"> ({r.trigger === "schedule" ? "auto" : "manual"})</span>
+                    </td>
+                    <td>
+                      {r.status === "failed" ? (
+                        <span className="lf-pill lf-pill--danger">Failed: {r.error || "unknown"}</span>
+                      ) : r.status === "queued" ? (
+                        <span className="lf-muted">Running…</span>
+                      ) : r.direction === "to_sheet" ? (
+                        `${r.updated} row(s) written`
+                      ) : (
+                        `${r.updated} updated, ${r.refreshed} refreshed${r.conflicts ? `, ${r.conflicts} conflict(s)` : ""}`
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : null}
+
         <div className="lf-muted lf-mt-2">
           Active sheet is used for: notification email links, DB → Sheet sync, and full exports.
         </div>
@@ -0,0 +1,703 @@
+// app/routes/app.integrations.sheets.$connectionId.tsx
+import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Form, Link, useActionData, useFetcher, useLoaderData, useNavigation } from "react-router";
+import { useEffect, useState } from "react";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "~/shopify.server";
+import { prisma } from "~/db.server";
+import { exportRequestsToSpreadsheet } from "~/lib/sheets.server";
+import {
+  DEFAULT_SHEET_COLUMNS,
+  MAX_SHEET_COLUMNS,
+  SHEET_SOURCES,
+  columnLetter,
+  deleteSheetLayout,
+  loadSheetLayouts,
+  saveSheetLayout,
+  saveSheetPartitionMode,
+  type SheetColumn,
+} from "~/lib/sheetsMapping.server";
+import { parseSheetRouting, saveSheetRouting, type SheetRouting } from "~/lib/sheetsRouting.server";
+
+type LayoutRow = {
+  id: string | null; // null = built-in default (not saved yet)
+  formId: string | null;
+  roleType: string | null;
+  sheetName: string;
+  columns: SheetColumn[];
+};
+
+type LoaderData = {
+  connection: {
+    id: string;
+    spreadsheetId: string;
+    spreadsheetName: string | null;
+    active: boolean;
+    routing: SheetRouting;
+    partitionMode: "none" | "monthly" | "status";
+  };
+  layouts: LayoutRow[];
+  wilayas: Array<{ code: number; nameFr: string }>;
+  forms: Array<{ id: string; name: string; fields: Array<{ nameKey: string; label: string }> }>;
+  sources: Array<{ value: string; label: string; group: "core" | "computed"; editable: boolean }>;
+  defaultColumns: SheetColumn[];
+  maxColumns: number;
+};
+
+type ActionData = { ok: true; message?: string } | { ok: false; error: string };
+
+const ROLE_OPTIONS = [
+  { value: "individual", label: "Individual" },
+  { value: "installer", label: "Installer" },
+  { value: "company", label: "Company" },
+];
+
+const PARTITION_OPTIONS = [
+  { value: "none", label: "One tab per layout" },
+  { value: "monthly", label: "One tab per month (e.g. Requests 2026-10)" },
+  { value: "status", label: "One tab per status (New, Confirmed, Cancelled, Archived)" },
+];
+
+const ERROR_MESSAGES: Record<string, string> = {
+  no_columns: "Add at least one column.",
+  too_many_columns: "Too many columns.",
+  missing_id_column: "Exactly one column must use “Request ID” (it links rows back to requests).",
+  missing_last_sync_column: "Layouts with editable columns need a “Last sync” column so sheet edits can be pulled back.",
+  header_too_long: "Headers are limited to 100 characters.",
+  duplicate_header: "Two columns have the same header.",
+  invalid_formula: "Formulas must start with = (max 1000 characters).",
+  invalid_source: "A column has no valid source (form value keys: letters, digits, _ and -).",
+  invalid_role: "Unknown role.",
+  missing_sheet_name: "Enter a tab name.",
+  sheet_name_too_long: "Tab names are limited to 100 characters.",
+  duplicate_layout: "Another layout already covers this form / role.",
+  duplicate_sheet_name: "Another layout already writes to this tab.",
+  form_not_found: "Form not found.",
+  layout_not_found: "This layout was deleted. Refresh the page.",
+  invalid_wilaya_range: "Wilaya range: pick a start before the end.",
+  invalid_product_id: "Product IDs must be numeric Shopify IDs (or product GIDs).",
+  too_many_products: "Route at most 100 products per sheet.",
+  sheet_not_found: "Sheet not found.",
+  invalid_partition_mode: "Unknown tab split.",
+};
+
+async function loadConnection(request: Request, connectionId: string) {
+  const { session } = await authenticate.admin(request);
+  const shopRow = await prisma.shop.findUnique({
+    where: { shopDomain: session.shop },
+    select: { id: true },
+  });
+  if (!shopRow) throw new Response("Shop not found", { status: 404 });
+
+  const connection = await prisma.sheetsConnection.findFirst({
+    where: { id: connectionId, shopId: shopRow.id },
+    select: {
+      id: true,
+      spreadsheetId: true,
+      spreadsheetName: true,
+      active: true,
+      routing: true,
+      partitionMode: true,
+    },
+  });
+  if (!connection) throw new Response("Sheet not found", { status: 404 });
+
+  return {
+    shopId: shopRow.id,
+    connection: {
+      ...connection,
+      routing: parseSheetRouting(connection.routing),
+    },
+  };
+}
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { shopId, connection } = await loadConnection(request, String(params.connectionId || ""));
+
+  const [layouts, forms, wilayas] = await Promise.all([
+    loadSheetLayouts(connection.id),
+    prisma.form.findMany({
+      where: { shopId },
+      orderBy: { createdAt: "desc" },
+      select: {
+        id: true,
+        name: true,
+        fields: { orderBy: { orderIndex: "asc" }, select: { nameKey: true, label: true } },
+      },
+    }),
+    prisma.geoWilaya.findMany({ orderBy: { code: "asc" }, select: { code: true, nameFr: true } }),
+  ]);
+
+  const data: LoaderData = {
+    connection,
+    layouts,
+    wilayas,
+    forms,
+    sources: Object.entries(SHEET_SOURCES).map(([value, s]) => ({
+      value,
+      label: s.label,
+      group: s.group,
+      editable: Boolean(s.editable),
+    })),
+    defaultColumns: DEFAULT_SHEET_COLUMNS,
+    maxColumns: MAX_SHEET_COLUMNS,
+  };
+  return data;
+};
+
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { shopId, connection } = await loadConnection(request, String(params.connectionId || ""));
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+
+  try {
+    if (intent === "save") {
+      let columns: unknown = [];
+      try {
+        columns = JSON.parse(String(formData.get("columns") || "[]"));
+      } catch {
+        return { ok: false, error: "no_columns" };
+      }
+      await saveSheetLayout({
+        shopId,
+        connectionId: connection.id,
+        id: String(formData.get("id") || "") || null,
+        formId: String(formData.get("formId") || "") || null,
+        roleType: String(formData.get("roleType") || "") || null,
+        sheetName: String(formData.get("sheetName") || ""),
+        columns,
+      });
+      return { ok: true, message: "Layout saved. Rebuild the sheet to rewrite existing rows." };
+    }
+
+    if (intent === "saveRouting") {
+      await saveSheetRouting({
+        shopId,
+        connectionId: connection.id,
+        roleTypes: formData.getAll("roleTypes").map(String),
+        formIds: formData.getAll("formIds").map(String),
+        wilayaFrom: String(formData.get("wilayaFrom") || ""),
+        wilayaTo: String(formData.get("wilayaTo") || ""),
+        productIds: String(formData.get("productIds") || ""),
+      });
+      return { ok: true, message: "Routing saved. New and updated requests follow it; rebuild the sheet to apply it to existing rows." };
+    }
+
+    if (intent === "savePartition") {
+      await saveSheetPartitionMode(shopId, connection.id, String(formData.get("partitionMode") || ""));
+      if (!connection.active) return { ok: true, message: "Tab split saved." };
+
+      // Rows have to move to their new tabs right away, or updates would land next to stale copies
+      const { admin, session } = await authenticate.admin(request);
+      const res = await exportRequestsToSpreadsheet({
+        shopDomain: session.shop,
+        spreadsheetId: connection.spreadsheetId,
+        admin,
+      });
+      return { ok: true, message: `Tab split saved, sheet rebuilt (${res.exported} rows).` };
+    }
+
+    if (intent === "delete") {
+      await deleteSheetLayout(connection.id, String(formData.get("id") || ""));
+      return { ok: true, message: "Layout removed." };
+    }
+
+    if (intent === "rebuild") {
+      const { admin, session } = await authenticate.admin(request);
+      const res = await exportRequestsToSpreadsheet({
+        shopDomain: session.shop,
+        spreadsheetId: connection.spreadsheetId,
+        admin,
+      });
+      return { ok: true, message: `Sheet rebuilt (${res.exported} rows).` };
+    }
+  } catch (e: any) {
+    return { ok: false, error: String(e?.message || "layout_save_failed") };
+  }
+
+  return { ok: false, error: "unknown_intent" };
+};
+
+function errorText(code: string) {
+  return ERROR_MESSAGES[code] ?? code;
+}
+
+function RoutingEditor({ data }: { data: LoaderData }) {
+  const fetcher = useFetcher<ActionData>();
+  const r = data.connection.routing;
+  const result = fetcher.state === "idle" ? fetcher.data : undefined;
+
+  return (
+    <div className="lf-card lf-mt-3">
+      <fetcher.Form method="post">
+        <input type="hidden" name="intent" value="saveRouting" />
+        <div className="lf-card-heading" style={{ display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
+          <div>
+            <div style={{ fontWeight: 700 }}>Routing</div>
+            <div className="lf-muted">
+              Which requests this sheet receives. Every active sheet gets the requests its rules match; rules combine
+              (all must match) and an empty rule matches everything.
+            </div>
+          </div>
+          <button className="lf-pill lf-pill--primary" type="submit" disabled={fetcher.state !== "idle"}>
+            {fetcher.state !== "idle" ? "Saving…" : "Save routing"}
+          </button>
+        </div>
+
+        <div className="lf-toolbar lf-mt-2" style={{ flexWrap: "wrap", alignItems: "flex-start" }}>
+          <fieldset style={{ border: 0, padding: 0, margin: 0 }}>
+            <div className="lf-muted">Roles</div>
+            {ROLE_OPTIONS.map((o) => (
+              <label key={o.value} style={{ display: "block" }}>
+                <input type="checkbox" name="roleTypes" value={o.value} defaultChecked={r.roleTypes.includes(o.value as any)} />{" "}
+                {o.label}
+              </label>
+            ))}
+          </fieldset>
+
+          <label className="lf-muted">
+            Forms (none = any)
+            <select
+              className="lf-input"
+              name="formIds"
+              multiple
+              defaultValue={r.formIds}
+              style={{ display: "block", minWidth: 200, height: 96 }}
+            >
+              {data.forms.map((f) => (
+                <option key={f.id} value={f.id}>
+                  {f.name}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="lf-muted">
+            Wilayas from{" "}
+            <select className="lf-input lf-input--select" name="wilayaFrom" defaultValue={r.wilayaFrom ? String(r.wilayaFrom) : ""}>
+              <option value="">—</option>
+              {data.wilayas.map((w) => (
+                <option key={w.code} value={String(w.code)}>
+                  {w.code} - {w.nameFr}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="lf-muted">
+            to{" "}
+            <select className="lf-input lf-input--select" name="wilayaTo" defaultValue={r.wilayaTo ? String(r.wilayaTo) : ""}>
+              <option value="">—</option>
+              {data.wilayas.map((w) => (
+                <option key={w.code} value={String(w.code)}>
+                  {w.code} - {w.nameFr}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <label className="lf-muted" style={{ flex: 1, minWidth: 240 }}>
+            Product IDs (comma separated)
+            <input
+              className="lf-input"
+              name="productIds"
+              defaultValue={r.productIds.join(", ")}
+              placeholder="e.g. 8123456789012"
+              style={{ display: "block", width: "100%" }}
+            />
+          </label>
+        </div>
+
+        {result && !result.ok ? <div className="lf-muted lf-mt-1">Error: {errorText(result.error)}</div> : null}
+        {result?.ok && result.message ? <div className="lf-muted lf-mt-1">{result.message}</div> : null}
+      </fetcher.Form>
+    </div>
+  );
+}
+
+function PartitionEditor({ data }: { data: LoaderData }) {
+  const fetcher = useFetcher<ActionData>();
+  const result = fetcher.state === "idle" ? fetcher.data : undefined;
+
+  return (
+    <div className="lf-card lf-mt-3">
+      <fetcher.Form method="post">
+        <input type="hidden" name="intent" value="savePartition" />
+        <div className="lf-card-heading" style={{ display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
+          <div>
+            <div style={{ fontWeight: 700 }}>Tabs</div>
+            <div className="lf-muted">
+              Split each layout tab by month (request date) or by status. Rows move between status tabs when the status
+              changes. Saving rebuilds the sheet.
+            </div>
+          </div>
+          <div className="lf-btn-row">
+            <select className="lf-input lf-input--select" name="partitionMode" defaultValue={data.connection.partitionMode}>
+              {PARTITION_OPTIONS.map((o) => (
+                <option key={o.value} value={o.value}>
+                  {o.label}
+                </option>
+              ))}
+            </select>
+            <button className="lf-pill lf-pill--primary" type="submit" disabled={fetcher.state !== "idle"}>
+              {fetcher.state !== "idle" ? "Saving…" : "Save"}
+            </button>
+          </div>
+        </div>
+
+        {result && !result.ok ? <div className="lf-muted lf-mt-1">Error: {errorText(result.error)}</div> : null}
+        {result?.ok && result.message ? <div className="lf-muted lf-mt-1">{result.message}</div> : null}
+      </fetcher.Form>
+    </div>
+  );
+}
+
+function LayoutEditor({
+  layout,
+  data,
+  isNew,
+  onSaved,
+  onDiscard,
+}: {
+  layout: LayoutRow;
+  isNew?: boolean;
+  data: LoaderData;
+  onSaved?: () => void;
+  onDiscard?: () => void;
+}) {
+  const fetcher = useFetcher<ActionData>();
+  const [columns, setColumns] = useState<SheetColumn[]>(layout.columns);
+  const [formId, setFormId] = useState(layout.formId ?? "");
+
+  const result = fetcher.state === "idle" ? fetcher.data : undefined;
+  useEffect(() => {
+    if (result?.ok) onSaved?.();
+  }, [result, onSaved]);
+
+  const sourceLabel = new Map(data.sources.map((s) => [s.value, s.label]));
+  // Form answers: fields of the selected form, or of every form
+  const valueOptions = new Map<string, string>();
+  for (const f of data.forms) {
+    if (formId && f.id !== formId) continue;
+    for (const field of f.fields) {
+      if (!valueOptions.has(field.nameKey)) valueOptions.set(field.nameKey, field.label);
+    }
+  }
+
+  const update = (i: number, patch: Partial<SheetColumn>) =>
+    setColumns((prev) => prev.map((c, j) => (j === i ? { ...c, ...patch } : c)));
+  const move = (i: number, by: number) =>
+    setColumns((prev) => {
+      const next = prev.slice();
+      const j = i + by;
+      if (j < 0 || j >= next.length) return prev;
+      [next[i], next[j]] = [next[j], next[i]];
+      return next;
+    });
+
+  const onSourceChange = (i: number, value: string) => {
+    const c = columns[i];
+    const source = value === "values.*" ? "values." : value;
+    const label =
+      value.startsWith("values.") && value !== "values.*"
+        ? valueOptions.get(value.slice("values.".length))
+        : value === "formula"
+          ? ""
+          : sourceLabel.get(value);
+    update(i, {
+      source,
+      header: c.header || label || "",
+      ...(source === "formula" ? { formula: c.formula ?? "=" } : { formula: undefined }),
+    });
+  };
+
+  const isDefault = !isNew && !layout.formId && !layout.roleType;
+
+  return (
+    <div className="lf-card lf-mt-3">
+      <fetcher.Form method="post">
+        <input type="hidden" name="intent" value="save" />
+        <input type="hidden" name="id" value={layout.id ?? ""} />
+        <input type="hidden" name="columns" value={JSON.stringify(columns)} />
+
+        <div className="lf-card-heading" style={{ display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}>
+          <div>
+            <div style={{ fontWeight: 800 }}>
+              {isNew ? "New layout" : isDefault ? "Default layout" : "Layout"}
+              {layout.id === null && isDefault ? <span className="lf-muted"> (built-in)</span> : null}
+            </div>
+            <div className="lf-muted">
+              {isDefault
+                ? "Used for every request that no other layout matches."
+                : "Used for requests from the selected form and/or role."}
+            </div>
+          </div>
+          <div className="lf-btn-row">
+            <button className="lf-pill lf-pill--primary" type="submit" disabled={fetcher.state !== "idle"}>
+              {fetcher.state !== "idle" ? "Saving…" : "Save layout"}
+            </button>
+            {layout.id ? (
+              <button
+                className="lf-pill lf-pill--danger"
+                type="submit"
+                name="intent"
+                value="delete"
+                onClick={(e) => {
+                  if (!confirm(isDefault ? "Reset the default layout to the built-in columns?" : "Remove this layout?")) {
+                    e.preventDefault();
+                  }
+                }}
+              >
+                {isDefault ? "Reset" : "Remove"}
+              </button>
+            ) : null}
+            {onDiscard ? (
+              <button className="lf-pill" type="button" onClick={onDiscard}>
+                Discard
+              </button>
+            ) : null}
+          </div>
+        </div>
+
+        <div className="lf-toolbar lf-mt-2" style={{ flexWrap: "wrap" }}>
+          <label className="lf-muted">
+            Form{" "}
+            <select
+              className="lf-input lf-input--select"
+              name="formId"
+              value={formId}
+              onChange={(e) => setFormId(e.currentTarget.value)}
+            >
+              <option value="">Any form</option>
+              {data.forms.map((f) => (
+                <option key={f.id} value={f.id}>
+                  {f.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="lf-muted">
+            Role{" "}
+            <select className="lf-input lf-input--select" name="roleType" defaultValue={layout.roleType ?? ""}>
+              <option value="">Any role</option>
+              {ROLE_OPTIONS.map((r) => (
+                <option key={r.value} value={r.value}>
+                  {r.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="lf-muted">
+            Tab{" "}
+            <input className="lf-input" name="sheetName" defaultValue={layout.sheetName} placeholder="Requests" required />
+          </label>
+        </div>
+
+        <div style={{ overflowX: "auto", marginTop: 12 }}>
+          <table className="lf-table" style={{ width: "100%" }}>
+            <thead>
+              <tr>
+                <th style={{ width: 40 }}>Col</th>
+                <th>Header</th>
+                <th>Source</th>
+                <th>Formula / key</th>
+                <th style={{ textAlign: "right" }}>Order</th>
+              </tr>
+            </thead>
+            <tbody>
+              {columns.map((c, i) => {
+                const isValue = c.source.startsWith("values.");
+                const key = isValue ? c.source.slice("values.".length) : "";
+                const selectValue = isValue && !valueOptions.has(key) ? "values.*" : c.source;
+                const editable = isValue || data.sources.find((s) => s.value === c.source)?.editable;
+
+                return (
+                  <tr key={i} className="lf-row-hover">
+                    <td className="lf-muted">{columnLetter(i + 1)}</td>
+                    <td>
+                      <input
+                        className="lf-input"
+                        value={c.header}
+                        onChange={(e) => update(i, { header: e.currentTarget.value })}
+                        aria-label="Header"
+                      />
+                    </td>
+                    <td>
+                      <select
+                        className="lf-input lf-input--select"
+                        value={selectValue}
+                        onChange={(e) => onSourceChange(i, e.currentTarget.value)}
+                        aria-label="Source"
+                      >
+                        <optgroup label="Request fields">
+                          {data.sources
+                            .filter((s) => s.group === "core")
+                            .map((s) => (
+                              <option key={s.value} value={s.value}>
+                                {s.label}
+                              </option>
+                            ))}
+                        </optgroup>
+                        <optgroup label="Computed">
+                          {data.sources
+                            .filter((s) => s.group === "computed")
+                            .map((s) => (
+                              <option key={s.value} value={s.value}>
+                                {s.label}
+                              </option>
+                            ))}
+                        </optgroup>
+                        <optgroup label="Form answers">
+                          {Array.from(valueOptions).map(([k, label]) => (
+                            <option key={k} value={`values.${k}`}>
+                              {label} ({k})
+                            </option>
+                          ))}
+                          <option value="values.*">Other form value…</option>
+                        </optgroup>
+                        <option value="formula">Formula</option>
+                      </select>
+                      {editable ? <div className="lf-muted lf-mt-1">Edits in the sheet sync back</div> : null}
+                    </td>
+                    <td>
+                      {c.source === "formula" ? (
+                        <input
+                          className="lf-input"
+                          value={c.formula ?? ""}
+                          onChange={(e) => update(i, { formula: e.currentTarget.value })}
+                          placeholder='=IF({Status}="confirmed",{Order value},"")'
+                          aria-label="Formula"
+                          style={{ minWidth: 260 }}
+                        />
+                      ) : selectValue === "values.*" ? (
+                        <input
+                          className="lf-input"
+                          value={key}
+                          onChange={(e) => update(i, { source: `values.${e.currentTarget.value.trim()}` })}
+                          placeholder="nameKey"
+                          aria-label="Form value key"
+                        />
+                      ) : (
+                        <span className="lf-muted">—</span>
+                      )}
+                    </td>
+                    <td style={{ textAlign: "right" }}>
+                      <div className="lf-btn-row" style={{ justifyContent: "flex-end" }}>
+                        <button className="lf-pill" type="button" onClick={() => move(i, -1)} disabled={i === 0}>
+                          ↑
+                        </button>
+                        <button
+                          className="lf-pill"
+                          type="button"
+                          onClick={() => move(i, 1)}
+                          disabled={i === columns.length - 1}
+                        >
+                          ↓
+                        </button>
+                        <button
+                          className="lf-pill lf-pill--danger"
+                          type="button"
+                          onClick={() => setColumns((prev) => prev.filter((_, j) => j !== i))}
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="lf-btn-row lf-mt-2">
+          <button
+            className="lf-pill"
+            type="button"
+            disabled={columns.length >= data.maxColumns}
+            onClick={() => setColumns((prev) => [...prev, { header: "", source: "email" }])}
+          >
+            + Add column
+          </button>
+          <button className="lf-pill" type="button" onClick={() => setColumns(data.defaultColumns)}>
+            Start from built-in columns
+          </button>
+        </div>
+
+        {result && !result.ok ? <div className="lf-muted lf-mt-1">Error: {errorText(result.error)}</div> : null}
+        {result?.ok && result.message ? <div className="lf-muted lf-mt-1">{result.message}</div> : null}
+      </fetcher.Form>
+    </div>
+  );
+}
+
+export default function SheetMappingPage() {
+  const data = useLoaderData() as LoaderData;
+  const actionData = useActionData() as ActionData | undefined;
+  const nav = useNavigation();
+  const [drafts, setDrafts] = useState<number[]>([]);
+
+  const rebuilding = nav.state !== "idle" && nav.formData?.get("intent") === "rebuild";
+
+  return (
+    <div className="lf-card lf-enter">
+      <div
+        className="lf-card-heading"
+        style={{ display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}
+      >
+        <div>
+          <div style={{ fontWeight: 800 }}>Sheet routing &amp; columns — {data.connection.spreadsheetName || "Google Sheet"}</div>
+          <div className="lf-muted">
+            Choose the columns written to the sheet. Each layout writes to its own tab; a request uses the most specific
+            layout (form + role, then form, then role, then default). In formulas, {"{Header}"} refers to that column on
+            the same row.
+          </div>
+        </div>
+        <div className="lf-btn-row">
+          <Form method="post">
+            <input type="hidden" name="intent" value="rebuild" />
+            <button className="lf-pill" type="submit" disabled={rebuilding || !data.connection.active}>
+              {rebuilding ? "Rebuilding…" : "Rebuild sheet"}
+            </button>
+          </Form>
+          <Link to="/app/integrations" className="lf-pill" style={{ textDecoration: "none" }}>
+            ← Integrations
+          </Link>
+        </div>
+      </div>
+
+      {!data.connection.active ? (
+        <div className="lf-muted lf-mt-2">This sheet is not active: routing and layouts apply once it is activated.</div>
+      ) : null}
+      {actionData && !actionData.ok ? (
+        <div className="lf-muted lf-mt-2">Error: {errorText(actionData.error)}</div>
+      ) : null}
+      {actionData?.ok && actionData.message ? <div className="lf-muted lf-mt-2">{actionData.message}</div> : null}
+
+      <RoutingEditor data={data} />
+      <PartitionEditor data={data} />
+
+      {data.layouts.map((l) => (
+        <LayoutEditor key={l.id ?? "builtin"} layout={l} data={data} />
+      ))}
+
+      {drafts.map((d) => (
+        <LayoutEditor
+          key={`draft-${d}`}
+          layout={{ id: null, formId: null, roleType: null, sheetName: "", columns: data.defaultColumns }}
+          data={data}
+          isNew
+          onSaved={() => setDrafts((prev) => prev.filter((x) => x !== d))}
+          onDiscard={() => setDrafts((prev) => prev.filter((x) => x !== d))}
+        />
+      ))}
+
+      <div className="lf-btn-row lf-mt-3">
+        <button className="lf-pill lf-pill--primary" type="button" onClick={() => setDrafts((prev) => [...prev, Date.now()])}>
+          + Add layout for a form or role
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => boundary.headers(headersArgs);
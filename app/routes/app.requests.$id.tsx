@@ -4,11 +4,40 @@ import type {
   HeadersFunction,
   LoaderFunctionArgs,
 } from "react-router";
+import { useEffect, useRef } from "react";
 import { Link, useFetcher, useLoaderData } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import { authenticate } from "~/shopify.server";
 import { prisma } from "~/db.server";
 import { createSignedUrl } from "~/lib/uploads.server";
+import {
+  canTransition,
+  changeRequestStatus,
+  getStatusTransitions,
+  isRequestStatus,
+} from "~/lib/requestStatus.server";
+import {
+  diffFields,
+  listRequestEvents,
+  recordRequestEvent,
+  staffActor,
+} from "~/lib/requestEvents.server";
+import {
+  DRAFT_ORDER_SCOPE,
+  createDraftOrderForRequest,
+  refreshDraftOrder,
+  type DraftOrderInfo,
+} from "~/lib/draftOrders.server";
+import {
+  createShipmentForRequest,
+  getShippingProvider,
+  refreshShipment,
+  shipmentLabelLink,
+} from "~/lib/shipping.server";
+import type { RequestEventType, RequestStatus, ShipmentStatus } from "@prisma/client";
+import { REQUEST_STATUSES, StatusBadge, statusLabel } from "~/ui/StatusBadge";
+import { assignRequests, listAgents } from "~/lib/agents.server";
+import { enqueueSheetRefresh } from "~/lib/jobs.server";
 
 type LoaderData = {
   request: {
@@ -39,8 +68,19 @@ type LoaderData = {
     productId: string | null;
     variantId: string | null;
     qty: number | null;
+    value: number | null;
+    currency: string | null;
+    deliveryType: "home" | "desk" | null;
+    deliveryFee: number | null;
+    assignedAgentId: string | null;
 
-    items: Array<{ id: string; productId: string; variantId: string | null; qty: number }>;
+    items: Array<{
+      id: string;
+      productId: string;
+      variantId: string | null;
+      qty: number;
+      unitPrice: number | null;
+    }>;
     attachments: Array<{
       id: string;
       label: string | null;
@@ -60,20 +100,114 @@ type LoaderData = {
     imageUrl: string | null;
     storefrontUrl: string | null; // customer-facing URL
   };
+
+  draftOrder: DraftOrderInfo | null;
+  draftOrderScope: boolean; // write_draft_orders granted
+
+  shipments: Array<{
+    id: string;
+    providerLabel: string;
+    trackingNumber: string | null;
+    status: ShipmentStatus;
+    carrierStatus: string | null;
+    codAmount: number | null;
+    labelUrl: string | null; // signed
+    lastError: string | null;
+    lastPolledAt: string | null;
+    createdAt: string;
+  }>;
+  shippingProviders: Array<{ key: string; label: string }>; // enabled courier accounts
+
+  agents: Array<{ id: string; name: string; active: boolean }>; // active + the current assignee
+  nextStatuses: RequestStatus[]; // allowed by the shop workflow (trash/restore excluded)
+
+  events: Array<{
+    id: string;
+    type: RequestEventType;
+    actorName: string | null; // null = system
+    data: any;
+    createdAt: string;
+  }>;
 };
 
-function statusLabel(s: string) {
-  if (s === "confirmed") return "Confirmed";
-  if (s === "cancelled") return "Canceled";
-  if (s === "archived") return "Basket";
-  return s === "received" ? "Received" : s;
+function hasScope(session: { scope?: string | null }, scope: string) {
+  return (session.scope || "").split(",").map((s) => s.trim()).includes(scope);
 }
 
-function statusBadgeClass(s: string) {
-  if (s === "confirmed") return "lf-badge lf-badge--approved";
-  if (s === "cancelled") return "lf-badge lf-badge--rejected";
-  if (s === "received") return "lf-badge lf-badge--pending";
-  return "lf-badge";
+function draftOrderStatusLabel(s: string | null) {
+  if (s === "COMPLETED") return "Completed";
+  if (s === "INVOICE_SENT") return "Invoice sent";
+  if (s === "OPEN") return "Open";
+  return s ?? "—";
+}
+
+function shipmentStatusLabel(s: ShipmentStatus) {
+  if (s === "pending") return "Booked";
+  if (s === "in_transit") return "In transit";
+  if (s === "out_for_delivery") return "Out for delivery";
+  if (s === "delivered") return "Delivered";
+  if (s === "returned") return "Returned";
+  if (s === "failed") return "Delivery failed";
+  return "Cancelled";
+}
+
+function shipmentBadgeClass(s: ShipmentStatus) {
+  if (s === "delivered") return "lf-badge lf-badge--approved";
+  if (s === "returned" || s === "cancelled" || s === "failed") return "lf-badge lf-badge--rejected";
+  return "lf-badge lf-badge--pending";
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  status: "Status",
+  firstName: "First name",
+  lastName: "Last name",
+  email: "Email",
+  phone: "Phone",
+  address: "Address",
+};
+
+const PIXEL_LABELS: Record<string, string> = { facebook: "Meta", tiktok: "TikTok", google: "Google" };
+
+function eventTitle(type: RequestEventType, d: any) {
+  if (type === "status_changed") return `Status: ${statusLabel(d?.from)} → ${statusLabel(d?.to)}`;
+  if (type === "edited") return "Details edited";
+  if (type === "assigned") return d?.to ? `Assigned to ${d.to}` : `Unassigned${d?.from ? ` from ${d.from}` : ""}`;
+  if (type === "note") return "Note";
+  if (type === "sheet_sync") {
+    if (d?.status === "conflict") {
+      const field = FIELD_LABELS[d?.field] ?? d?.field;
+      return `Sheet conflict on ${field}: ${d?.winner === "sheet" ? "sheet value kept" : "admin value kept"}`;
+    }
+    const where =
+      (d?.direction === "to_sheet" ? "Synced to Google Sheets" : "Synced from Google Sheets") +
+      (d?.sheet && d?.direction === "to_sheet" ? ` · ${d.sheet}` : "");
+    return d?.status === "failed" ? `${where} (failed)` : where;
+  }
+  if (type === "pixel") {
+    const outcome = d?.outcome === "success" ? "sent" : d?.outcome === "retryable" ? "will retry" : "failed";
+    return `${PIXEL_LABELS[d?.platform] ?? d?.platform} pixel ${d?.event}: ${outcome}`;
+  }
+  if (type === "notification") {
+    if (d?.status === "sent") return `Email sent to ${d?.recipient}`;
+    if (d?.status === "logged") return `Email to ${d?.recipient} not delivered (mail is in test mode)`;
+    return `Email to ${d?.recipient} failed`;
+  }
+  if (type === "draft_order") return d?.name ? `Draft order ${d.name} created` : "Draft order created";
+  if (d?.action === "created") return `Shipment booked${d?.trackingNumber ? ` (${d.trackingNumber})` : ""}`;
+  if (d?.action === "cancelled") return "Shipment cancelled";
+  return `Shipment: ${shipmentStatusLabel(d?.to)}`;
+}
+
+function eventDetail(type: RequestEventType, d: any) {
+  if (type === "edited") {
+    return (d?.changes || [])
+      .map((c: any) => `${FIELD_LABELS[c.field] ?? c.field}: ${c.from ?? "—"} → ${c.to ?? "—"}`)
+      .join("\n");
+  }
+  if (type === "note") return String(d?.text ?? "");
+  if (type === "sheet_sync" && d?.status === "conflict") return `Sheet: ${d?.sheet ?? "—"}\nAdmin: ${d?.db ?? "—"}`;
+  if (d?.error) return String(d.error);
+  return null;
 }
 
 // Your DB sometimes stores numeric IDs, but Shopify GraphQL needs GIDs.
@@ -107,7 +241,7 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
   const req = await prisma.request.findFirst({
     where: { id, shopId: shopRow.id },
     include: {
-      items: { select: { id: true, productId: true, variantId: true, qty: true } },
+      items: { select: { id: true, productId: true, variantId: true, qty: true, unitPrice: true } },
       attachments: {
         orderBy: { createdAt: "asc" },
         select: {
@@ -214,6 +348,53 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
   const baseStoreUrl = primaryDomainUrl || `https://${session.shop}`;
   const storefrontUrl = productHandle ? `${baseStoreUrl}/products/${productHandle}` : null;
 
+  // Linked draft order: live status from Shopify, stored copy as fallback
+  let draftOrder: DraftOrderInfo | null = null;
+  if (req.draftOrderId) {
+    const stored: DraftOrderInfo = {
+      id: req.draftOrderId,
+      name: req.draftOrderName,
+      status: req.draftOrderStatus,
+      invoiceUrl: req.draftOrderInvoiceUrl,
+      orderName: null,
+    };
+    draftOrder = await refreshDraftOrder({
+      admin,
+      requestId: req.id,
+      draftOrderId: req.draftOrderId,
+      stored: { status: req.draftOrderStatus, invoiceUrl: req.draftOrderInvoiceUrl },
+    }).catch(() => stored);
+  }
+
+  const [shipmentRows, shippingAccounts, eventRows, transitions, agentRows] = await Promise.all([
+    prisma.shipment.findMany({ where: { requestId: req.id }, orderBy: { createdAt: "desc" } }),
+    prisma.shippingAccount.findMany({
+      where: { shopId: shopRow.id, enabled: true },
+      orderBy: { createdAt: "asc" },
+      select: { provider: true },
+    }),
+    listRequestEvents(req.id),
+    getStatusTransitions(shopRow.id),
+    listAgents(shopRow.id),
+  ]);
+
+  const providerLabel = (key: string) => getShippingProvider(key)?.label ?? key;
+
+  const shipments: LoaderData["shipments"] = await Promise.all(
+    shipmentRows.map(async (s) => ({
+      id: s.id,
+      providerLabel: providerLabel(s.provider),
+      trackingNumber: s.trackingNumber,
+      status: s.status,
+      carrierStatus: s.carrierStatus,
+      codAmount: s.codAmount !== null ? Number(s.codAmount) : null,
+      labelUrl: await shipmentLabelLink(s).catch(() => s.labelUrl),
+      lastError: s.lastError,
+      lastPolledAt: s.lastPolledAt ? s.lastPolledAt.toISOString() : null,
+      createdAt: s.createdAt.toISOString(),
+    }))
+  );
+
   const data: LoaderData = {
     request: {
       id: req.id,
@@ -241,18 +422,45 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
       productId: req.productId,
       variantId: req.variantId,
       qty: req.qty,
-
-      items: req.items,
+      value: req.value !== null ? Number(req.value) : null,
+      currency: req.currency,
+      deliveryType: req.deliveryType,
+      deliveryFee: req.deliveryFee !== null ? Number(req.deliveryFee) : null,
+      assignedAgentId: req.assignedAgentId,
+
+      items: req.items.map((it) => ({
+        ...it,
+        unitPrice: it.unitPrice !== null ? Number(it.unitPrice) : null,
+      })),
       attachments: attachmentsWithSigned,
     },
     product: { title: productTitle, imageUrl: productImageUrl, storefrontUrl },
+    draftOrder,
+    draftOrderScope: hasScope(session, DRAFT_ORDER_SCOPE),
+    shipments,
+    shippingProviders: shippingAccounts
+      .filter((a) => getShippingProvider(a.provider))
+      .map((a) => ({ key: a.provider, label: providerLabel(a.provider) })),
+    agents: agentRows
+      .filter((a) => a.active || a.id === req.assignedAgentId)
+      .map((a) => ({ id: a.id, name: a.name, active: a.active })),
+    nextStatuses: REQUEST_STATUSES.map((x) => x.value).filter(
+      (to) => to !== "archived" && canTransition(transitions, req.status, to)
+    ),
+    events: eventRows.map((e) => ({
+      id: e.id,
+      type: e.type,
+      actorName: e.actorName,
+      data: e.data,
+      createdAt: e.createdAt.toISOString(),
+    })),
   };
 
   return data;
 };
 
 export const action = async ({ request, params }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { admin, session, sessionToken } = await authenticate.admin(request);
   const id = String(params.id || "");
   const formData = await request.formData();
   const intent = String(formData.get("intent") || "");
@@ -264,16 +472,97 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
   if (!shopRow) return { ok: false };
 
   const where = { id, shopId: shopRow.id };
+  const actor = await staffActor({ session, sessionToken });
 
-  if (intent === "setStatus") {
-    const status = String(formData.get("status") || "");
-    const allowed = new Set(["received", "confirmed", "cancelled", "archived"]);
-    if (!allowed.has(status)) return { ok: false, error: "Invalid status" };
+  if (intent === "setStatus" || intent === "archive" || intent === "restore") {
+    const status =
+      intent === "archive" ? "archived" : intent === "restore" ? "received" : String(formData.get("status") || "");
+    if (!isRequestStatus(status)) return { ok: false, error: "Invalid status" };
 
-    await prisma.request.update({ where: where as any, data: { status: status as any } });
+    const res = await changeRequestStatus({ shopId: shopRow.id, requestIds: [id], to: status, actor });
+    if (!res.changed) return { ok: false, error: "transition_not_allowed" };
     return { ok: true };
   }
 
+  if (intent === "assign") {
+    const agentId = String(formData.get("agentId") || "");
+    try {
+      await assignRequests({ shopId: shopRow.id, requestIds: [id], agentId: agentId || null, actor });
+      return { ok: true };
+    } catch (e: any) {
+      return { ok: false, error: String(e?.message || "assign_failed") };
+    }
+  }
+
+  if (intent === "createDraftOrder") {
+    if (!hasScope(session, DRAFT_ORDER_SCOPE)) {
+      return { ok: false, error: "missing_scope" };
+    }
+
+    try {
+      const draft = await createDraftOrderForRequest({ admin, shopId: shopRow.id, requestId: id });
+      await recordRequestEvent({
+        shopId: shopRow.id,
+        requestId: id,
+        type: "draft_order",
+        actor,
+        data: { name: draft.name, status: draft.status },
+      });
+      return { ok: true, draftOrder: draft };
+    } catch (e: any) {
+      return { ok: false, error: String(e?.message || "draft_order_failed") };
+    }
+  }
+
+  if (intent === "ship") {
+    const codRaw = String(formData.get("codAmount") || "").trim().replace(",", ".");
+    const codAmount = codRaw ? Number(codRaw) : null;
+    if (codAmount !== null && (!Number.isFinite(codAmount) || codAmount < 0)) {
+      return { ok: false, error: "invalid_cod_amount" };
+    }
+
+    try {
+      const shipment = await createShipmentForRequest({
+        shopId: shopRow.id,
+        requestId: id,
+        provider: String(formData.get("provider") || ""),
+        codAmount,
+        products: String(formData.get("products") || ""),
+        actor,
+      });
+      return { ok: true, shipmentId: shipment.id };
+    } catch (e: any) {
+      return { ok: false, error: String(e?.message || "shipment_failed") };
+    }
+  }
+
+  if (intent === "refreshShipment" || intent === "cancelShipment") {
+    const shipment = await prisma.shipment.findFirst({
+      where: { id: String(formData.get("shipmentId") || ""), requestId: id, shopId: shopRow.id },
+    });
+    if (!shipment) return { ok: false, error: "shipment_not_found" };
+
+    // Local only: the parcel must also be cancelled with the courier
+    if (intent === "cancelShipment") {
+      await prisma.shipment.update({ where: { id: shipment.id }, data: { status: "cancelled" } });
+      await recordRequestEvent({
+        shopId: shopRow.id,
+        requestId: id,
+        type: "shipment",
+        actor,
+        data: { action: "cancelled", provider: shipment.provider, trackingNumber: shipment.trackingNumber },
+      });
+      return { ok: true };
+    }
+
+    try {
+      await refreshShipment(shipment);
+      return { ok: true };
+    } catch (e: any) {
+      return { ok: false, error: String(e?.message || "shipment_refresh_failed") };
+    }
+  }
+
   if (intent === "saveEdits") {
     const firstName = (formData.get("firstName") as string | null) ?? null;
     const lastName = (formData.get("lastName") as string | null) ?? null;
@@ -281,29 +570,43 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     const phone = (formData.get("phone") as string | null) ?? null;
     const address = (formData.get("address") as string | null) ?? null;
 
-    await prisma.request.update({
-      where: where as any,
-      data: {
-        firstName: firstName?.trim() || null,
-        lastName: lastName?.trim() || null,
-        email: email?.trim() || null,
-        phone: phone?.trim() || null,
-        address: address?.trim() || null,
-      },
+    const before = await prisma.request.findFirst({
+      where,
+      select: { firstName: true, lastName: true, email: true, phone: true, address: true },
     });
+    if (!before) return { ok: false, error: "Request not found" };
+
+    const data = {
+      firstName: firstName?.trim() || null,
+      lastName: lastName?.trim() || null,
+      email: email?.trim() || null,
+      phone: phone?.trim() || null,
+      address: address?.trim() || null,
+    };
+    const changes = diffFields(before, data, Object.keys(data));
+    if (!changes.length) return { ok: true };
+
+    await prisma.request.update({ where: where as any, data });
+    await recordRequestEvent({ shopId: shopRow.id, requestId: id, type: "edited", actor, data: { changes } });
+    await enqueueSheetRefresh(shopRow.id, [id]).catch((e) =>
+      console.error("[requests] sheet refresh failed:", e?.message || e)
+    );
     return { ok: true };
   }
 
-  if (intent === "archive") {
-    await prisma.request.update({ where: where as any, data: { status: "archived" } });
-    return { ok: true };
-  }
+  if (intent === "addNote") {
+    const text = String(formData.get("note") || "").trim();
+    if (!text) return { ok: false, error: "empty_note" };
+    if (text.length > 2000) return { ok: false, error: "note_too_long" };
 
-  if (intent === "restore") {
-    await prisma.request.update({ where: where as any, data: { status: "received" } });
+    const exists = await prisma.request.findFirst({ where, select: { id: true } });
+    if (!exists) return { ok: false, error: "Request not found" };
+
+    await recordRequestEvent({ shopId: shopRow.id, requestId: id, type: "note", actor, data: { text } });
     return { ok: true };
   }
 
+
   if (intent === "deletePermanent") {
     await prisma.request.delete({ where: where as any });
     return { ok: true, deleted: true };
@@ -319,6 +622,30 @@ export default function RequestDetails() {
   const statusFetcher = useFetcher();
   const editFetcher = useFetcher();
   const archiveFetcher = useFetcher();
+  const draftFetcher = useFetcher();
+  const shipFetcher = useFetcher();
+  const shipmentFetcher = useFetcher();
+  const noteFetcher = useFetcher();
+  const assignFetcher = useFetcher();
+  const noteFormRef = useRef<HTMLFormElement | null>(null);
+
+  useEffect(() => {
+    if (noteFetcher.state === "idle" && (noteFetcher.data as any)?.ok) noteFormRef.current?.reset();
+  }, [noteFetcher.state, noteFetcher.data]);
+
+  const draftError = (draftFetcher.data as any)?.ok === false ? String((draftFetcher.data as any).error) : null;
+  const draftNumericId = data.draftOrder?.id.split("/").pop() ?? null;
+
+  const shipError = (shipFetcher.data as any)?.ok === false ? String((shipFetcher.data as any).error) : null;
+  const shipmentError =
+    (shipmentFetcher.data as any)?.ok === false ? String((shipmentFetcher.data as any).error) : null;
+  const activeShipment = data.shipments.find((s) => s.status !== "cancelled" && s.status !== "returned");
+  const codDefault = (r.value ?? 0) + (r.deliveryFee ?? 0);
+  const totalQty = r.items.length ? r.items.reduce((n, it) => n + it.qty, 0) : r.qty ?? 1;
+
+  const statusError =
+    (statusFetcher.data as any)?.ok === false ? String((statusFetcher.data as any).error) : null;
+  const otherStatuses = data.nextStatuses.filter((st) => st !== "confirmed" && st !== "cancelled");
 
   const fullName = `${r.firstName ?? ""} ${r.lastName ?? ""}`.trim() || "Customer";
   const isArchived = r.status === "archived";
@@ -336,29 +663,74 @@ export default function RequestDetails() {
           <div className="lf-muted lf-mt-1">
             Created {new Date(r.createdAt).toLocaleString()} • Role: {r.roleType}
           </div>
+          {data.agents.length ? (
+            <assignFetcher.Form method="post" className="lf-mt-2" key={r.assignedAgentId ?? "none"}>
+              <input type="hidden" name="intent" value="assign" />
+              <select
+                className="lf-input lf-input--select"
+                name="agentId"
+                defaultValue={r.assignedAgentId ?? ""}
+                aria-label="Assigned agent"
+                onChange={(e) => e.currentTarget.form?.requestSubmit()}
+              >
+                <option value="">Unassigned</option>
+                {data.agents.map((a) => (
+                  <option key={a.id} value={a.id} disabled={!a.active}>
+                    {a.name}
+                    {a.active ? "" : " (inactive)"}
+                  </option>
+                ))}
+              </select>
+            </assignFetcher.Form>
+          ) : null}
         </div>
 
         <div className="lf-btn-row">
-          <span className={statusBadgeClass(r.status)} title={r.status}>
-            <span className="lf-dot" />
-            {statusLabel(r.status)}
-          </span>
-
-          <statusFetcher.Form method="post">
-            <input type="hidden" name="intent" value="setStatus" />
-            <input type="hidden" name="status" value="confirmed" />
-            <button className="lf-pill lf-pill--success" type="submit">
-              Confirm
-            </button>
-          </statusFetcher.Form>
+          <StatusBadge status={r.status} />
+
+          {data.nextStatuses.includes("confirmed") ? (
+            <statusFetcher.Form method="post">
+              <input type="hidden" name="intent" value="setStatus" />
+              <input type="hidden" name="status" value="confirmed" />
+              <button className="lf-pill lf-pill--success" type="submit">
+                Confirm
+              </button>
+            </statusFetcher.Form>
+          ) : null}
 
-          <statusFetcher.Form method="post">
-            <input type="hidden" name="intent" value="setStatus" />
-            <input type="hidden" name="status" value="cancelled" />
-            <button className="lf-pill" type="submit" style={{ borderColor: "rgba(239,68,68,.30)" }}>
-              Cancel
-            </button>
-          </statusFetcher.Form>
+          {data.nextStatuses.includes("cancelled") ? (
+            <statusFetcher.Form method="post">
+              <input type="hidden" name="intent" value="setStatus" />
+              <input type="hidden" name="status" value="cancelled" />
+              <button className="lf-pill" type="submit" style={{ borderColor: "rgba(239,68,68,.30)" }}>
+                Cancel
+              </button>
+            </statusFetcher.Form>
+          ) : null}
+
+          {otherStatuses.length ? (
+            <statusFetcher.Form method="post" key={r.status}>
+              <input type="hidden" name="intent" value="setStatus" />
+              <select
+                className="lf-input lf-input--select"
+                name="status"
+                defaultValue=""
+                aria-label="Move to status"
+                onChange={(e) => e.currentTarget.form?.requestSubmit()}
+              >
+                <option value="" disabled>
+                  Move to…
+                </option>
+                {otherStatuses.map((st) => (
+                  <option key={st} value={st}>
+                    {statusLabel(st)}
+                  </option>
+                ))}
+              </select>
+            </statusFetcher.Form>
+          ) : null}
+
+          {statusError ? <span className="lf-muted">Error: {statusError}</span> : null}
 
           {!isArchived ? (
             <archiveFetcher.Form method="post">
@@ -423,6 +795,13 @@ export default function RequestDetails() {
                 <div className="lf-field-label">Commune</div>
                 <div className="lf-field-value">{r.communeName ?? "—"}</div>
               </div>
+              <div className="lf-field">
+                <div className="lf-field-label">Delivery</div>
+                <div className="lf-field-value">
+                  {r.deliveryType ? (r.deliveryType === "home" ? "Home" : "Stop desk") : "—"}
+                  {r.deliveryFee !== null ? ` · ${r.deliveryFee.toFixed(2)} ${r.currency ?? ""}` : ""}
+                </div>
+              </div>
             </div>
 
             <div style={{ display: "flex", justifyContent: "flex-end", marginTop: 10, gap: 10 }}>
@@ -464,7 +843,10 @@ export default function RequestDetails() {
                   >
                     {data.product.title ?? "—"}
                   </div>
-                  <div className="lf-muted lf-mt-1">Qty: {r.qty ?? r.items[0]?.qty ?? "—"}</div>
+                  <div className="lf-muted lf-mt-1">
+                    Qty: {r.qty ?? r.items[0]?.qty ?? "—"}
+                    {r.value !== null ? ` · ${r.value.toFixed(2)} ${r.currency ?? ""}` : ""}
+                  </div>
                 </div>
               </div>
             </a>
@@ -472,6 +854,141 @@ export default function RequestDetails() {
             <div className="lf-muted">Product link not available.</div>
           )}
 
+          <div className="lf-card-title lf-mt-4">Shopify draft order</div>
+          {data.draftOrder ? (
+            <div className="lf-mini-card">
+              <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                <div style={{ fontWeight: 700 }}>{data.draftOrder.name ?? "Draft order"}</div>
+                <span
+                  className={
+                    data.draftOrder.status === "COMPLETED" ? "lf-badge lf-badge--approved" : "lf-badge"
+                  }
+                >
+                  <span className="lf-dot" />
+                  {draftOrderStatusLabel(data.draftOrder.status)}
+                </span>
+                {data.draftOrder.orderName ? (
+                  <span className="lf-muted">Order {data.draftOrder.orderName}</span>
+                ) : null}
+              </div>
+              <div className="lf-btn-row" style={{ marginTop: 10 }}>
+                <a className="lf-link" href={`shopify://admin/draft_orders/${draftNumericId}`} target="_top">
+                  Open in Shopify
+                </a>
+                {data.draftOrder.invoiceUrl ? (
+                  <a className="lf-link" href={data.draftOrder.invoiceUrl} target="_blank" rel="noreferrer">
+                    Invoice link
+                  </a>
+                ) : null}
+              </div>
+            </div>
+          ) : data.draftOrderScope ? (
+            <draftFetcher.Form method="post" className="lf-btn-row">
+              <input type="hidden" name="intent" value="createDraftOrder" />
+              <button className="lf-pill lf-pill--primary" type="submit" disabled={draftFetcher.state !== "idle"}>
+                {draftFetcher.state !== "idle" ? "Creating…" : "Create draft order"}
+              </button>
+              {draftError ? <span className="lf-badge lf-badge--rejected">{draftError}</span> : null}
+            </draftFetcher.Form>
+          ) : (
+            <div className="lf-muted">
+              Draft orders need the “Draft orders” permission. Re-open the app from Shopify admin to
+              approve the updated access.
+            </div>
+          )}
+
+          <div className="lf-card-title lf-mt-4">Shipping</div>
+          {data.shipments.length ? (
+            <div className="lf-stack">
+              {data.shipments.map((s) => (
+                <div key={s.id} className="lf-mini-card">
+                  <div style={{ display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+                    <div style={{ fontWeight: 700 }}>{s.providerLabel}</div>
+                    <code>{s.trackingNumber ?? "—"}</code>
+                    <span className={shipmentBadgeClass(s.status)}>
+                      <span className="lf-dot" />
+                      {shipmentStatusLabel(s.status)}
+                    </span>
+                  </div>
+                  <div className="lf-muted lf-mt-1">
+                    {s.carrierStatus ? `${s.carrierStatus} · ` : ""}
+                    {s.codAmount !== null ? `COD ${s.codAmount.toFixed(2)} ${r.currency ?? ""} · ` : ""}
+                    Booked {new Date(s.createdAt).toLocaleString()}
+                    {s.lastPolledAt ? ` · checked ${new Date(s.lastPolledAt).toLocaleString()}` : ""}
+                  </div>
+                  {s.lastError ? <div className="lf-muted lf-mt-1">Last check failed: {s.lastError}</div> : null}
+                  <div className="lf-btn-row" style={{ marginTop: 10 }}>
+                    {s.labelUrl ? (
+                      <a className="lf-link" href={s.labelUrl} target="_blank" rel="noreferrer">
+                        Label (PDF)
+                      </a>
+                    ) : null}
+                    {s.status !== "cancelled" && s.status !== "delivered" && s.status !== "returned" ? (
+                      <>
+                        <shipmentFetcher.Form method="post">
+                          <input type="hidden" name="intent" value="refreshShipment" />
+                          <input type="hidden" name="shipmentId" value={s.id} />
+                          <button className="lf-pill" type="submit" disabled={shipmentFetcher.state !== "idle"}>
+                            Refresh status
+                          </button>
+                        </shipmentFetcher.Form>
+                        <shipmentFetcher.Form method="post">
+                          <input type="hidden" name="intent" value="cancelShipment" />
+                          <input type="hidden" name="shipmentId" value={s.id} />
+                          <button className="lf-pill lf-pill--danger" type="submit" disabled={shipmentFetcher.state !== "idle"}>
+                            Mark cancelled
+                          </button>
+                        </shipmentFetcher.Form>
+                      </>
+                    ) : null}
+                  </div>
+                </div>
+              ))}
+              {shipmentError ? <span className="lf-badge lf-badge--rejected">{shipmentError}</span> : null}
+            </div>
+          ) : null}
+
+          {activeShipment ? null : r.status !== "confirmed" ? (
+            <div className="lf-muted">Confirm the request to book a shipment.</div>
+          ) : data.shippingProviders.length ? (
+            <shipFetcher.Form method="post" className="lf-btn-row lf-mt-2">
+              <input type="hidden" name="intent" value="ship" />
+              <input
+                type="hidden"
+                name="products"
+                value={data.product.title ? `${data.product.title} x${totalQty}` : ""}
+              />
+              <select className="lf-input lf-input--select" name="provider" style={{ width: "auto" }}>
+                {data.shippingProviders.map((p) => (
+                  <option key={p.key} value={p.key}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
+              <input
+                className="lf-input"
+                name="codAmount"
+                inputMode="decimal"
+                defaultValue={codDefault ? codDefault.toFixed(2) : ""}
+                placeholder="COD amount"
+                style={{ width: 130 }}
+              />
+              <button className="lf-pill lf-pill--primary" type="submit" disabled={shipFetcher.state !== "idle"}>
+                {shipFetcher.state !== "idle" ? "Booking…" : "Ship"}
+              </button>
+              {shipError ? <span className="lf-badge lf-badge--rejected">{shipError}</span> : null}
+              {shipError?.startsWith("unmapped_") ? (
+                <Link className="lf-link" to="/app/shipping/locations">
+                  Map location codes
+                </Link>
+              ) : null}
+            </shipFetcher.Form>
+          ) : (
+            <div className="lf-muted">
+              No courier connected. <Link className="lf-link" to="/app/shipping">Set up shipping</Link>
+            </div>
+          )}
+
           {/* Attachments: show ONLY if present */}
           {r.attachments.length ? (
             <>
@@ -548,6 +1065,45 @@ export default function RequestDetails() {
           ) : null}
         </div>
       </div>
+
+      <div className="lf-card lf-mt-4">
+        <div className="lf-card-title">Activity</div>
+
+        <noteFetcher.Form
+          method="post"
+          ref={noteFormRef}
+          className="lf-mt-2"
+          style={{ display: "flex", gap: 10, alignItems: "flex-start" }}
+        >
+          <input type="hidden" name="intent" value="addNote" />
+          <textarea className="lf-input" name="note" rows={2} maxLength={2000} placeholder="Add a note for your team…" />
+          <button className="lf-pill lf-pill--primary" type="submit" disabled={noteFetcher.state !== "idle"}>
+            Add note
+          </button>
+        </noteFetcher.Form>
+
+        <ol className="lf-timeline lf-mt-3">
+          <li className="lf-timeline-item">
+            <div style={{ fontWeight: 700 }}>Request submitted</div>
+            <div className="lf-muted">{new Date(r.createdAt).toLocaleString()} • Storefront</div>
+          </li>
+          {data.events.map((e) => {
+            const detail = eventDetail(e.type, e.data);
+            return (
+              <li
+                key={e.id}
+                className={`lf-timeline-item${e.type === "note" ? " lf-timeline-item--note" : ""}`}
+              >
+                <div style={{ fontWeight: 700 }}>{eventTitle(e.type, e.data)}</div>
+                {detail ? <div className="lf-timeline-detail">{detail}</div> : null}
+                <div className="lf-muted">
+                  {new Date(e.createdAt).toLocaleString()} • {e.actorName ?? "System"}
+                </div>
+              </li>
+            );
+          })}
+        </ol>
+      </div>
     </div>
   );
 }
@@ -1,27 +1,51 @@
 // app/routes/app.requests._index.tsx
 import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
-import { Form, Link, useLoaderData, useSearchParams, useSubmit, useNavigation } from "react-router";
+import {
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useSearchParams,
+  useSubmit,
+  useNavigation,
+} from "react-router";
 import { useEffect, useMemo, useRef, useState } from "react";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import { authenticate } from "~/shopify.server";
 import { prisma } from "~/db.server";
+import { changeRequestStatus, isRequestStatus } from "~/lib/requestStatus.server";
+import { staffActor } from "~/lib/requestEvents.server";
+import { parseRequestFilters, requestFiltersWhere, resolveBulkSelection } from "~/lib/requestFilters.server";
+import { assignRequests, listAgents } from "~/lib/agents.server";
+import { enqueueSheetResync } from "~/lib/jobs.server";
+import { hasSheetDestination } from "~/lib/sheets.server";
+import { REQUEST_STATUSES, StatusBadge, type RequestStatusValue } from "~/ui/StatusBadge";
+import { downloadExport } from "~/ui/downloadExport";
+
+// The trash (archived) has its own page
+const LIST_STATUSES = REQUEST_STATUSES.filter((s) => s.value !== "archived");
 
 type LoaderData = {
   q: string;
-  status: "all" | "received" | "confirmed" | "cancelled";
+  status: "all" | RequestStatusValue;
   range: string;
+  agent: string; // all | unassigned | <agentId>
   page: number;
   pageSize: number;
   total: number;
+  counts: Partial<Record<RequestStatusValue, number>>; // per status, same search/range filters
+  agents: Array<{ id: string; name: string; active: boolean }>;
+  sheetConnected: boolean;
   rows: Array<{
     id: string;
-    status: "received" | "confirmed" | "cancelled";
+    status: RequestStatusValue;
     roleType: string;
     firstName: string | null;
     lastName: string | null;
     email: string | null;
     phone: string | null;
     wilaya: { code: number; nameFr: string; nameAr: string } | null;
+    agentName: string | null;
     itemsCount: number;
     createdAt: string;
   }>;
@@ -32,56 +56,12 @@ function parseIntSafe(v: string | null, fallback: number) {
   return Number.isFinite(n) && n > 0 ? Math.floor(n) : fallback;
 }
 
-function startOfDay(d: Date) {
-  const x = new Date(d);
-  x.setHours(0, 0, 0, 0);
-  return x;
-}
-
-function computeDateRange(range: string) {
-  const now = new Date();
-  if (range === "today") {
-    const start = startOfDay(now);
-    const end = new Date(start);
-    end.setDate(end.getDate() + 1);
-    return { start, end };
-  }
-  if (range === "7d") {
-    const start = new Date(now);
-    start.setDate(start.getDate() - 7);
-    return { start, end: now };
-  }
-  if (range === "30d") {
-    const start = new Date(now);
-    start.setDate(start.getDate() - 30);
-    return { start, end: now };
-  }
-  return { start: null as Date | null, end: null as Date | null };
-}
-
-function statusLabel(s: string) {
-  if (s === "received") return "New";
-  if (s === "confirmed") return "Confirmed";
-  if (s === "cancelled") return "Cancelled";
-  return s;
-}
-
-function statusBadgeClass(s: string) {
-  if (s === "confirmed") return "lf-badge lf-badge--approved";
-  if (s === "cancelled") return "lf-badge lf-badge--rejected";
-  return "lf-badge lf-badge--pending";
-}
-
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
 
   const url = new URL(request.url);
-  const q = (url.searchParams.get("q") || "").trim();
-  const rawStatus = (url.searchParams.get("status") || "all").trim();
-  const status: LoaderData["status"] =
-    rawStatus === "received" || rawStatus === "confirmed" || rawStatus === "cancelled" ? rawStatus : "all";
-
-  const range = (url.searchParams.get("range") || "30d").trim();
+  const filters = parseRequestFilters(url.searchParams);
+  const { q, status, range, agent } = filters;
   const page = parseIntSafe(url.searchParams.get("page"), 1);
 
   const pageSize = 20;
@@ -93,32 +73,25 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   });
 
   if (!shopRow) {
-    const data: LoaderData = { q, status, range, page, pageSize, total: 0, rows: [] };
+    const data: LoaderData = {
+      q,
+      status,
+      range,
+      agent,
+      page,
+      pageSize,
+      total: 0,
+      counts: {},
+      agents: [],
+      sheetConnected: false,
+      rows: [],
+    };
     return data;
   }
 
-  const { start, end } = computeDateRange(range);
-
-  // IMPORTANT: never show basket items in Requests list
-  const where: any = {
-    shopId: shopRow.id,
-    status: { not: "archived" },
-    ...(status !== "all" ? { status } : {}),
-    ...(start && end ? { createdAt: { gte: start, lt: end } } : {}),
-    ...(q
-      ? {
-          OR: [
-            { firstName: { contains: q, mode: "insensitive" } },
-            { lastName: { contains: q, mode: "insensitive" } },
-            { email: { contains: q, mode: "insensitive" } },
-            { phone: { contains: q, mode: "insensitive" } },
-            { id: { contains: q, mode: "insensitive" } },
-          ],
-        }
-      : {}),
-  };
+  const where = requestFiltersWhere(shopRow.id, filters);
 
-  const [total, items] = await Promise.all([
+  const [total, items, grouped, agents, sheetConnected] = await Promise.all([
     prisma.request.count({ where }),
     prisma.request.findMany({
       where,
@@ -135,27 +108,40 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         phone: true,
         createdAt: true,
         wilaya: { select: { code: true, nameFr: true, nameAr: true } },
+        assignedAgent: { select: { name: true } },
         _count: { select: { items: true } },
       },
     }),
+    prisma.request.groupBy({
+      by: ["status"],
+      where: requestFiltersWhere(shopRow.id, filters, { ignoreStatus: true }),
+      _count: { _all: true },
+    }),
+    listAgents(shopRow.id),
+    hasSheetDestination(shopRow.id),
   ]);
 
   const data: LoaderData = {
     q,
     status,
     range,
+    agent,
     page,
     pageSize,
     total,
+    counts: Object.fromEntries(grouped.map((g) => [g.status, g._count._all])),
+    agents: agents.map((a) => ({ id: a.id, name: a.name, active: a.active })),
+    sheetConnected,
     rows: items.map((r) => ({
       id: r.id,
-      status: (r.status as any) as LoaderData["rows"][number]["status"],
+      status: r.status,
       roleType: String(r.roleType),
       firstName: r.firstName,
       lastName: r.lastName,
       email: r.email,
       phone: r.phone,
       wilaya: r.wilaya ? { ...r.wilaya } : null,
+      agentName: r.assignedAgent?.name ?? null,
       itemsCount: r._count.items,
       createdAt: r.createdAt.toISOString(),
     })),
@@ -164,8 +150,18 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   return data;
 };
 
-export const action = async ({ request }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+type ActionData = {
+  ok: boolean;
+  intent?: string;
+  changed?: number;
+  skipped?: number;
+  queued?: number;
+  truncated?: boolean;
+  error?: string;
+};
+
+export const action = async ({ request }: ActionFunctionArgs): Promise<ActionData> => {
+  const { session, sessionToken } = await authenticate.admin(request);
   const formData = await request.formData();
   const intent = String(formData.get("intent") || "");
 
@@ -175,28 +171,81 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   });
   if (!shopRow) return { ok: false };
 
-  if (intent === "bulkToBasket") {
-    const ids = formData.getAll("selected").map(String).filter(Boolean);
-    if (!ids.length) return { ok: true, moved: 0 };
+  const { ids, truncated } = await resolveBulkSelection(shopRow.id, formData);
+  if (!ids.length) return { ok: false, intent, error: "nothing_selected" };
+
+  const actor = await staffActor({ session, sessionToken });
+
+  if (intent === "bulkToBasket" || intent === "bulkSpam" || intent === "bulkStatus") {
+    const to =
+      intent === "bulkToBasket" ? "archived" : intent === "bulkSpam" ? "spam" : String(formData.get("toStatus") || "");
+    if (!isRequestStatus(to)) return { ok: false, intent, error: "invalid_status" };
+
+    const res = await changeRequestStatus({ shopId: shopRow.id, requestIds: ids, to, actor });
+    return { ok: true, intent, truncated, ...res };
+  }
+
+  if (intent === "bulkAssign") {
+    const agentId = String(formData.get("agentId") || "");
+    try {
+      const res = await assignRequests({
+        shopId: shopRow.id,
+        requestIds: ids,
+        agentId: agentId === "none" ? null : agentId,
+        actor,
+      });
+      return { ok: true, intent, truncated, changed: res.changed, skipped: ids.length - res.changed };
+    } catch (e: any) {
+      return { ok: false, intent, error: String(e?.message || "assign_failed") };
+    }
+  }
 
-    const res = await prisma.request.updateMany({
-      where: { shopId: shopRow.id, id: { in: ids } },
-      data: { status: "archived" as any },
-    });
-    return { ok: true, moved: res.count };
+  if (intent === "bulkResync") {
+    try {
+      const res = await enqueueSheetResync({ shopId: shopRow.id, shopDomain: session.shop, requestIds: ids });
+      return { ok: true, intent, truncated, queued: res.queued };
+    } catch (e: any) {
+      return { ok: false, intent, error: String(e?.message || "resync_failed") };
+    }
   }
 
-  return { ok: false };
+  return { ok: false, intent, error: "unknown_intent" };
 };
 
+function resultMessage(r: ActionData) {
+  if (!r.ok) return r.error ? `Error: ${r.error}` : null;
+  const cap = r.truncated ? " (selection capped at 10,000 requests)" : "";
+  if (r.intent === "bulkResync") return `${r.queued ?? 0} request(s) queued for Google Sheets${cap}`;
+  const skipped =
+    r.skipped && r.intent === "bulkAssign"
+      ? ` • ${r.skipped} already assigned`
+      : r.skipped
+        ? ` • ${r.skipped} skipped (transition not allowed by your workflow)`
+        : "";
+  return `${r.changed ?? 0} request(s) updated${skipped}${cap}`;
+}
+
 export default function RequestsIndex() {
   const data = useLoaderData() as LoaderData;
+  const actionData = useActionData() as ActionData | undefined;
   const [params] = useSearchParams();
   const submit = useSubmit();
   const nav = useNavigation();
 
   const [selected, setSelected] = useState<string[]>([]);
   const selectedSet = useMemo(() => new Set(selected), [selected]);
+  // "Select all matching": the bulk form posts the filters instead of ids
+  const [allMatching, setAllMatching] = useState(false);
+  const [toStatus, setToStatus] = useState("");
+  const [agentId, setAgentId] = useState("");
+  const [exporting, setExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const bulkFormRef = useRef<HTMLFormElement | null>(null);
+
+  const visibleAllSelected = data.rows.length > 0 && data.rows.every((r) => selectedSet.has(r.id));
+  const selectedCount = allMatching ? data.total : selected.length;
+  const activeAgents = data.agents.filter((a) => a.active);
+  const message = actionData ? resultMessage(actionData) : null;
 
   const totalPages = Math.max(1, Math.ceil(data.total / data.pageSize));
   const isLoading = nav.state !== "idle";
@@ -233,10 +282,32 @@ export default function RequestsIndex() {
   };
 
   const toggleOne = (id: string) => {
+    setAllMatching(false);
     setSelected((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
   };
 
+  const clearSelection = () => {
+    setSelected([]);
+    setAllMatching(false);
+  };
+
+  const exportSelection = async (format: "csv" | "xlsx") => {
+    if (!bulkFormRef.current) return;
+    const fd = new FormData(bulkFormRef.current);
+    fd.set("format", format);
+    setExporting(true);
+    setExportError(null);
+    try {
+      await downloadExport(fd, `requests.${format}`);
+    } catch (e: any) {
+      setExportError(String(e?.message || "export_failed"));
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const toggleAllVisible = () => {
+    setAllMatching(false);
     const visibleIds = data.rows.map((r) => r.id);
     const allSelected = visibleIds.length > 0 && visibleIds.every((id) => selectedSet.has(id));
     if (allSelected) {
@@ -248,8 +319,16 @@ export default function RequestsIndex() {
 
   useEffect(() => {
     setSelected([]);
+    setAllMatching(false);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [data.q, data.status, data.range, data.page]);
+  }, [data.q, data.status, data.range, data.agent, data.page]);
+
+  useEffect(() => {
+    if (actionData?.ok) {
+      setSelected([]);
+      setAllMatching(false);
+    }
+  }, [actionData]);
 
   return (
     <div className="lf-card lf-enter">
@@ -261,7 +340,22 @@ export default function RequestsIndex() {
           <div style={{ fontWeight: 800 }}>All requests</div>
           <div className="lf-muted">Showing {data.rows.length} of {data.total} request(s).</div>
         </div>
-        <div className="lf-muted">{isLoading ? "Updating…" : `Page ${data.page} / ${totalPages}`}</div>
+        <div className="lf-btn-row">
+          <div className="lf-muted">{isLoading ? "Updating…" : `Page ${data.page} / ${totalPages}`}</div>
+          <Link to="/app/requests/agents" className="lf-pill" style={{ textDecoration: "none" }}>
+            Agents
+          </Link>
+          <Link to="/app/requests/workflow" className="lf-pill" style={{ textDecoration: "none" }}>
+            Workflow
+          </Link>
+          <Link
+            to={`/app/requests/export?${params.toString()}`}
+            className="lf-pill"
+            style={{ textDecoration: "none" }}
+          >
+            Export
+          </Link>
+        </div>
       </div>
 
       <Form method="get" ref={formRef} className="lf-toolbar" style={{ marginTop: 12 }}>
@@ -281,9 +375,22 @@ export default function RequestsIndex() {
         <div className="lf-selects">
           <select className="lf-input lf-input--select" name="status" defaultValue={data.status} onChange={onFilterChange}>
             <option value="all">All statuses</option>
-            <option value="received">New</option>
-            <option value="confirmed">Confirmed</option>
-            <option value="cancelled">Cancelled</option>
+            {LIST_STATUSES.map((s) => (
+              <option key={s.value} value={s.value}>
+                {s.label} ({data.counts[s.value] ?? 0})
+              </option>
+            ))}
+          </select>
+
+          <select className="lf-input lf-input--select" name="agent" defaultValue={data.agent} onChange={onFilterChange}>
+            <option value="all">All agents</option>
+            <option value="unassigned">Unassigned</option>
+            {data.agents.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.name}
+                {a.active ? "" : " (inactive)"}
+              </option>
+            ))}
           </select>
 
           <select className="lf-input lf-input--select" name="range" defaultValue={data.range} onChange={onFilterChange}>
@@ -295,24 +402,121 @@ export default function RequestsIndex() {
         </div>
       </Form>
 
-      {selected.length > 0 ? (
-        <Form method="post" className="lf-bulkbar" style={{ marginTop: 12 }}>
-          <input type="hidden" name="intent" value="bulkToBasket" />
-          {selected.map((id) => (
-            <input key={id} type="hidden" name="selected" value={id} />
-          ))}
-          <div className="lf-muted">{selected.length} selected</div>
-          <div className="lf-btn-row">
-            <button className="lf-pill lf-pill--danger" type="submit">
+      {selectedCount > 0 ? (
+        <Form method="post" ref={bulkFormRef} className="lf-bulkbar" style={{ marginTop: 12, flexWrap: "wrap" }}>
+          {allMatching ? (
+            <>
+              <input type="hidden" name="scope" value="matching" />
+              <input type="hidden" name="filters" value={params.toString()} />
+            </>
+          ) : (
+            selected.map((id) => <input key={id} type="hidden" name="selected" value={id} />)
+          )}
+          <div className="lf-muted">{selectedCount} selected</div>
+          <div className="lf-btn-row" style={{ flexWrap: "wrap" }}>
+            <select
+              className="lf-input lf-input--select"
+              name="toStatus"
+              value={toStatus}
+              onChange={(e) => setToStatus(e.target.value)}
+              aria-label="New status"
+            >
+              <option value="" disabled>
+                Set status…
+              </option>
+              {LIST_STATUSES.map((s) => (
+                <option key={s.value} value={s.value}>
+                  {s.label}
+                </option>
+              ))}
+            </select>
+            <button className="lf-pill lf-pill--primary" type="submit" name="intent" value="bulkStatus" disabled={!toStatus}>
+              Apply
+            </button>
+
+            <select
+              className="lf-input lf-input--select"
+              name="agentId"
+              value={agentId}
+              onChange={(e) => setAgentId(e.target.value)}
+              aria-label="Assign to agent"
+            >
+              <option value="" disabled>
+                Assign to…
+              </option>
+              {activeAgents.map((a) => (
+                <option key={a.id} value={a.id}>
+                  {a.name}
+                </option>
+              ))}
+              <option value="none">Unassign</option>
+            </select>
+            <button className="lf-pill" type="submit" name="intent" value="bulkAssign" disabled={!agentId}>
+              Assign
+            </button>
+
+            <button className="lf-pill" type="submit" name="intent" value="bulkSpam">
+              Mark as spam
+            </button>
+            <button
+              className="lf-pill"
+              type="submit"
+              name="intent"
+              value="bulkResync"
+              disabled={!data.sheetConnected}
+              title={data.sheetConnected ? undefined : "Connect a Google Sheet first"}
+            >
+              Re-sync to Sheets
+            </button>
+            <button className="lf-pill" type="button" disabled={exporting} onClick={() => exportSelection("csv")}>
+              Export CSV
+            </button>
+            <button className="lf-pill" type="button" disabled={exporting} onClick={() => exportSelection("xlsx")}>
+              Export XLSX
+            </button>
+            <button className="lf-pill lf-pill--danger" type="submit" name="intent" value="bulkToBasket">
               Delete
             </button>
-            <button className="lf-pill" type="button" onClick={() => setSelected([])}>
+            <button className="lf-pill" type="button" onClick={clearSelection}>
               Clear
             </button>
           </div>
         </Form>
       ) : null}
 
+      {visibleAllSelected && data.total > data.rows.length ? (
+        <div className="lf-muted" style={{ marginTop: 8 }}>
+          {allMatching ? (
+            <>
+              All {data.total} matching request(s) are selected.{" "}
+              <button type="button" className="lf-link" style={{ border: 0, background: "none" }} onClick={clearSelection}>
+                Clear selection
+              </button>
+            </>
+          ) : (
+            <>
+              All {data.rows.length} request(s) on this page are selected.{" "}
+              <button
+                type="button"
+                className="lf-link"
+                style={{ border: 0, background: "none" }}
+                onClick={() => setAllMatching(true)}
+              >
+                Select all {data.total} matching
+              </button>
+            </>
+          )}
+        </div>
+      ) : null}
+
+      {exporting ? <div className="lf-muted" style={{ marginTop: 12 }}>Preparing export…</div> : null}
+      {exportError ? <div className="lf-muted" style={{ marginTop: 12 }}>Export failed: {exportError}</div> : null}
+      {message ? (
+        <div className="lf-muted" style={{ marginTop: 12 }}>
+          {message}
+        </div>
+      ) : null}
+
       <div style={{ overflowX: "auto", marginTop: 12 }}>
         <table className="lf-table" style={{ width: "100%" }}>
           <thead>
@@ -321,7 +525,7 @@ export default function RequestsIndex() {
                 <input
                   type="checkbox"
                   onChange={toggleAllVisible}
-                  checked={data.rows.length > 0 && data.rows.every((r) => selectedSet.has(r.id))}
+                  checked={visibleAllSelected}
                 />
               </th>
               <th>ID</th>
@@ -329,6 +533,7 @@ export default function RequestsIndex() {
               <th>Role</th>
               <th>Customer</th>
               <th>Wilaya</th>
+              <th>Agent</th>
               <th>Items</th>
               <th>Created</th>
               <th style={{ textAlign: "right" }}>Open</th>
@@ -342,14 +547,12 @@ export default function RequestsIndex() {
                 </td>
                 <td title={r.id}>{r.id.slice(0, 10)}…</td>
                 <td>
-                  <span className={statusBadgeClass(r.status)}>
-                    <span className="lf-dot" />
-                    {statusLabel(r.status)}
-                  </span>
+                  <StatusBadge status={r.status} />
                 </td>
                 <td>{r.roleType}</td>
                 <td>{customerLabel(r)}</td>
                 <td>{r.wilaya ? `${r.wilaya.code} — ${r.wilaya.nameFr}` : "—"}</td>
+                <td>{r.agentName ?? "—"}</td>
                 <td>{r.itemsCount}</td>
                 <td>{new Date(r.createdAt).toLocaleString()}</td>
                 <td style={{ textAlign: "right" }}>
@@ -361,7 +564,7 @@ export default function RequestsIndex() {
             ))}
             {data.rows.length === 0 ? (
               <tr>
-                <td colSpan={9} className="lf-muted" style={{ padding: 14 }}>
+                <td colSpan={10} className="lf-muted" style={{ padding: 14 }}>
                   No requests match your filters.
                 </td>
               </tr>
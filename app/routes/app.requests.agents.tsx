@@ -0,0 +1,229 @@
+// app/routes/app.requests.agents.tsx
+import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Link, useFetcher, useLoaderData } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "~/shopify.server";
+import { prisma } from "~/db.server";
+import { deleteAgent, listAgents, saveAgent, setAgentActive } from "~/lib/agents.server";
+
+type LoaderData = {
+  agents: Array<{
+    id: string;
+    name: string;
+    email: string | null;
+    userId: string | null;
+    active: boolean;
+    openLeads: number; // assigned, not confirmed/cancelled/spam/trash
+  }>;
+};
+
+async function ensureShopId(shopDomain: string) {
+  const shop = await prisma.shop.upsert({
+    where: { shopDomain },
+    update: { uninstalledAt: null },
+    create: { shopDomain, installedAt: new Date() },
+    select: { id: true },
+  });
+  return shop.id;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shopId = await ensureShopId(session.shop);
+
+  const [agents, open] = await Promise.all([
+    listAgents(shopId),
+    prisma.request.groupBy({
+      by: ["assignedAgentId"],
+      where: {
+        shopId,
+        assignedAgentId: { not: null },
+        status: { in: ["received", "in_review", "contacted"] },
+      },
+      _count: { _all: true },
+    }),
+  ]);
+  const openByAgent = new Map(open.map((g) => [g.assignedAgentId, g._count._all]));
+
+  const data: LoaderData = {
+    agents: agents.map((a) => ({
+      id: a.id,
+      name: a.name,
+      email: a.email,
+      userId: a.userId,
+      active: a.active,
+      openLeads: openByAgent.get(a.id) ?? 0,
+    })),
+  };
+  return data;
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shopId = await ensureShopId(session.shop);
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+  const id = String(formData.get("id") || "");
+
+  try {
+    if (intent === "save") {
+      await saveAgent({
+        shopId,
+        id: id || null,
+        name: String(formData.get("name") || ""),
+        email: String(formData.get("email") || ""),
+        userId: String(formData.get("userId") || ""),
+      });
+      return { ok: true };
+    }
+
+    if (intent === "activate" || intent === "deactivate") {
+      await setAgentActive(shopId, id, intent === "activate");
+      return { ok: true };
+    }
+
+    if (intent === "delete") {
+      await deleteAgent(shopId, id);
+      return { ok: true };
+    }
+  } catch (e: any) {
+    return { ok: false, error: String(e?.message || "agent_save_failed") };
+  }
+
+  return { ok: false, error: "unknown_intent" };
+};
+
+function AgentRow({ agent }: { agent: LoaderData["agents"][number] }) {
+  const fetcher = useFetcher();
+  const error = (fetcher.data as any)?.ok === false ? String((fetcher.data as any).error) : null;
+
+  return (
+    <tr className="lf-row-hover">
+      <td>
+        <fetcher.Form method="post" id={`agent-${agent.id}`}>
+          <input type="hidden" name="intent" value="save" />
+          <input type="hidden" name="id" value={agent.id} />
+          <input className="lf-input" name="name" defaultValue={agent.name} aria-label="Name" />
+        </fetcher.Form>
+      </td>
+      <td>
+        <input className="lf-input" name="email" form={`agent-${agent.id}`} defaultValue={agent.email ?? ""} aria-label="Email" />
+      </td>
+      <td>
+        <input
+          className="lf-input"
+          name="userId"
+          form={`agent-${agent.id}`}
+          defaultValue={agent.userId ?? ""}
+          aria-label="Shopify staff user ID"
+        />
+      </td>
+      <td>
+        <Link className="lf-link" to={`/app/requests?agent=${agent.id}&range=all`} style={{ marginTop: 0 }}>
+          {agent.openLeads}
+        </Link>
+      </td>
+      <td>
+        <span className={agent.active ? "lf-badge lf-badge--approved" : "lf-badge"}>
+          <span className="lf-dot" />
+          {agent.active ? "Active" : "Inactive"}
+        </span>
+      </td>
+      <td style={{ textAlign: "right" }}>
+        <div className="lf-btn-row" style={{ justifyContent: "flex-end" }}>
+          <button className="lf-pill" type="submit" form={`agent-${agent.id}`}>
+            Save
+          </button>
+          <fetcher.Form method="post">
+            <input type="hidden" name="id" value={agent.id} />
+            <button className="lf-pill" type="submit" name="intent" value={agent.active ? "deactivate" : "activate"}>
+              {agent.active ? "Deactivate" : "Activate"}
+            </button>
+          </fetcher.Form>
+          <fetcher.Form
+            method="post"
+            onSubmit={(e) => {
+              if (!confirm(`Delete ${agent.name}? Their leads become unassigned.`)) e.preventDefault();
+            }}
+          >
+            <input type="hidden" name="id" value={agent.id} />
+            <button className="lf-pill lf-pill--danger" type="submit" name="intent" value="delete">
+              Delete
+            </button>
+          </fetcher.Form>
+        </div>
+        {error ? <div className="lf-muted lf-mt-1">Error: {error}</div> : null}
+      </td>
+    </tr>
+  );
+}
+
+export default function AgentsPage() {
+  const data = useLoaderData() as LoaderData;
+  const addFetcher = useFetcher();
+  const addError = (addFetcher.data as any)?.ok === false ? String((addFetcher.data as any).error) : null;
+
+  return (
+    <div className="lf-card lf-enter">
+      <div
+        className="lf-card-heading"
+        style={{ display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}
+      >
+        <div>
+          <div style={{ fontWeight: 800 }}>Agents</div>
+          <div className="lf-muted">
+            People your leads can be assigned to from the Orders list. Deactivated agents keep their leads but
+            cannot receive new ones.
+          </div>
+        </div>
+        <Link to="/app/requests" className="lf-pill" style={{ textDecoration: "none" }}>
+          ← Orders
+        </Link>
+      </div>
+
+      <addFetcher.Form
+        method="post"
+        key={data.agents.length}
+        className="lf-toolbar lf-mt-3"
+      >
+        <input type="hidden" name="intent" value="save" />
+        <input className="lf-input" name="name" placeholder="Name" required />
+        <input className="lf-input" name="email" type="email" placeholder="Email (optional)" />
+        <input className="lf-input" name="userId" placeholder="Shopify staff user ID (optional)" />
+        <button className="lf-pill lf-pill--primary" type="submit" disabled={addFetcher.state !== "idle"}>
+          Add agent
+        </button>
+      </addFetcher.Form>
+      {addError ? <div className="lf-muted lf-mt-1">Error: {addError}</div> : null}
+
+      <div style={{ overflowX: "auto", marginTop: 12 }}>
+        <table className="lf-table" style={{ width: "100%" }}>
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Email</th>
+              <th>Staff user ID</th>
+              <th>Open leads</th>
+              <th>Status</th>
+              <th style={{ textAlign: "right" }}>Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.agents.map((a) => (
+              <AgentRow key={a.id} agent={a} />
+            ))}
+            {data.agents.length === 0 ? (
+              <tr>
+                <td colSpan={6} className="lf-muted" style={{ padding: 14 }}>
+                  No agents yet.
+                </td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => boundary.headers(headersArgs);
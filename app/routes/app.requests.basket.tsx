@@ -5,6 +5,8 @@ import { useEffect, useMemo, useRef, useState } from "react";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import { authenticate } from "~/shopify.server";
 import { prisma } from "~/db.server";
+import { changeRequestStatus } from "~/lib/requestStatus.server";
+import { staffActor } from "~/lib/requestEvents.server";
 
 type LoaderData = {
   q: string;
@@ -102,7 +104,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { session, sessionToken } = await authenticate.admin(request);
   const formData = await request.formData();
   const intent = String(formData.get("intent") || "");
 
@@ -116,11 +118,19 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   if (intent === "restore") {
     if (!ids.length) return { ok: true, restored: 0 };
-    const res = await prisma.request.updateMany({
+    const archived = await prisma.request.findMany({
       where: { shopId: shopRow.id, id: { in: ids }, status: "archived" },
-      data: { status: "received" as any },
+      select: { id: true },
+    });
+
+    const actor = await staffActor({ session, sessionToken });
+    const res = await changeRequestStatus({
+      shopId: shopRow.id,
+      requestIds: archived.map((r) => r.id),
+      to: "received",
+      actor,
     });
-    return { ok: true, restored: res.count };
+    return { ok: true, restored: res.changed };
   }
 
   if (intent === "deletePermanent") {
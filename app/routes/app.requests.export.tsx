@@ -0,0 +1,252 @@
+// app/routes/app.requests.export.tsx
+import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Form, Link, useLoaderData, useNavigation, useSearchParams, useSubmit } from "react-router";
+import { useRef, useState } from "react";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "~/shopify.server";
+import { prisma } from "~/db.server";
+import {
+  parseRequestFilters,
+  requestFiltersWhere,
+  resolveBulkSelection,
+  type RequestFilters,
+} from "~/lib/requestFilters.server";
+import { listAgents } from "~/lib/agents.server";
+import { streamRequestsExport } from "~/lib/requestExport.server";
+import { REQUEST_STATUSES } from "~/ui/StatusBadge";
+import { downloadExport } from "~/ui/downloadExport";
+
+const LIST_STATUSES = REQUEST_STATUSES.filter((s) => s.value !== "archived");
+
+const ROLE_OPTIONS = [
+  { value: "individual", label: "Individual" },
+  { value: "installer", label: "Installer" },
+  { value: "company", label: "Company" },
+];
+
+type LoaderData = {
+  filters: RequestFilters;
+  total: number;
+  agents: Array<{ id: string; name: string }>;
+  forms: Array<{ id: string; name: string }>;
+  wilayas: Array<{ code: number; nameFr: string }>;
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shopRow = await prisma.shop.findUnique({
+    where: { shopDomain: session.shop },
+    select: { id: true },
+  });
+  if (!shopRow) throw new Response("Shop not found", { status: 404 });
+
+  const filters = parseRequestFilters(new URL(request.url).searchParams);
+
+  const [total, agents, forms, wilayas] = await Promise.all([
+    prisma.request.count({ where: requestFiltersWhere(shopRow.id, filters) }),
+    listAgents(shopRow.id),
+    prisma.form.findMany({
+      where: { shopId: shopRow.id },
+      orderBy: { createdAt: "desc" },
+      select: { id: true, name: true },
+    }),
+    prisma.geoWilaya.findMany({ orderBy: { code: "asc" }, select: { code: true, nameFr: true } }),
+  ]);
+
+  const data: LoaderData = {
+    filters,
+    total,
+    agents: agents.map((a) => ({ id: a.id, name: a.name })),
+    forms,
+    wilayas,
+  };
+  return data;
+};
+
+/**
+ * File download, used by this page and the Orders list bulk bar. Posted with
+ * fetch() (App Bridge adds the session token), the client turns the streamed
+ * response into a download.
+ * - scope=matching + filters: every matching request (no cap, streamed)
+ * - selected ids: the explicit selection
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
+  const formData = await request.formData();
+
+  const shopRow = await prisma.shop.findUnique({
+    where: { shopDomain: session.shop },
+    select: { id: true },
+  });
+  if (!shopRow) return new Response("Shop not found", { status: 404 });
+
+  const format = String(formData.get("format") || "csv") === "xlsx" ? "xlsx" : "csv";
+
+  let where;
+  let formId: string | null = null;
+  if (String(formData.get("scope") || "") === "matching") {
+    const filters = parseRequestFilters(new URLSearchParams(String(formData.get("filters") || "")));
+    where = requestFiltersWhere(shopRow.id, filters);
+    formId = filters.form !== "all" ? filters.form : null;
+  } else {
+    const { ids } = await resolveBulkSelection(shopRow.id, formData);
+    if (!ids.length) return new Response("Nothing selected", { status: 400 });
+    where = { id: { in: ids } };
+  }
+
+  const file = await streamRequestsExport({
+    shopId: shopRow.id,
+    shopDomain: session.shop,
+    admin,
+    where,
+    formId,
+    format,
+  });
+
+  return new Response(file.body, {
+    headers: {
+      "Content-Type": file.contentType,
+      "Content-Disposition": `attachment; filename="${file.filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+};
+
+export default function RequestsExportPage() {
+  const data = useLoaderData() as LoaderData;
+  const [params] = useSearchParams();
+  const submit = useSubmit();
+  const nav = useNavigation();
+  const formRef = useRef<HTMLFormElement | null>(null);
+  const [exporting, setExporting] = useState<null | "csv" | "xlsx">(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const f = data.filters;
+
+  const onFilterChange = () => {
+    if (!formRef.current) return;
+    submit(new FormData(formRef.current), { method: "get", replace: true });
+  };
+
+  const runExport = async (format: "csv" | "xlsx") => {
+    const fd = new FormData();
+    fd.set("scope", "matching");
+    fd.set("filters", params.toString());
+    fd.set("format", format);
+    setExporting(format);
+    setError(null);
+    try {
+      await downloadExport(fd, `requests.${format}`);
+    } catch (e: any) {
+      setError(String(e?.message || "export_failed"));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className="lf-card lf-enter">
+      <div
+        className="lf-card-heading"
+        style={{ display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}
+      >
+        <div>
+          <div style={{ fontWeight: 800 }}>Export requests</div>
+          <div className="lf-muted">
+            Download every request matching the filters as CSV or Excel. Columns follow the Google Sheet, plus the
+            order value, the agent and one column per custom form field.
+          </div>
+        </div>
+        <Link to={`/app/requests?${params.toString()}`} className="lf-pill" style={{ textDecoration: "none" }}>
+          ← Orders
+        </Link>
+      </div>
+
+      <Form method="get" ref={formRef} className="lf-toolbar" style={{ marginTop: 12 }}>
+        {f.q ? <input type="hidden" name="q" value={f.q} /> : null}
+        <div className="lf-selects" style={{ flexWrap: "wrap" }}>
+          <select className="lf-input lf-input--select" name="status" defaultValue={f.status} onChange={onFilterChange}>
+            <option value="all">All statuses</option>
+            {LIST_STATUSES.map((s) => (
+              <option key={s.value} value={s.value}>
+                {s.label}
+              </option>
+            ))}
+          </select>
+
+          <select className="lf-input lf-input--select" name="range" defaultValue={f.range} onChange={onFilterChange}>
+            <option value="today">Today</option>
+            <option value="7d">Last 7 days</option>
+            <option value="30d">Last 30 days</option>
+            <option value="all">All time</option>
+          </select>
+
+          <select className="lf-input lf-input--select" name="role" defaultValue={f.role} onChange={onFilterChange}>
+            <option value="all">All roles</option>
+            {ROLE_OPTIONS.map((r) => (
+              <option key={r.value} value={r.value}>
+                {r.label}
+              </option>
+            ))}
+          </select>
+
+          <select className="lf-input lf-input--select" name="wilaya" defaultValue={f.wilaya} onChange={onFilterChange}>
+            <option value="all">All wilayas</option>
+            {data.wilayas.map((w) => (
+              <option key={w.code} value={String(w.code)}>
+                {w.code} - {w.nameFr}
+              </option>
+            ))}
+          </select>
+
+          <select className="lf-input lf-input--select" name="form" defaultValue={f.form} onChange={onFilterChange}>
+            <option value="all">All forms</option>
+            {data.forms.map((x) => (
+              <option key={x.id} value={x.id}>
+                {x.name}
+              </option>
+            ))}
+          </select>
+
+          <select className="lf-input lf-input--select" name="agent" defaultValue={f.agent} onChange={onFilterChange}>
+            <option value="all">All agents</option>
+            <option value="unassigned">Unassigned</option>
+            {data.agents.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </Form>
+
+      <div className="lf-toolbar lf-mt-3">
+        <div className="lf-muted">
+          {nav.state !== "idle" ? "Updating…" : `${data.total} request(s) match`}
+          {f.q ? ` (search: "${f.q}")` : ""}
+        </div>
+        <div className="lf-btn-row">
+          <button
+            className="lf-pill lf-pill--primary"
+            type="button"
+            disabled={!data.total || exporting !== null}
+            onClick={() => runExport("csv")}
+          >
+            {exporting === "csv" ? "Exporting…" : "Download CSV"}
+          </button>
+          <button
+            className="lf-pill"
+            type="button"
+            disabled={!data.total || exporting !== null}
+            onClick={() => runExport("xlsx")}
+          >
+            {exporting === "xlsx" ? "Exporting…" : "Download XLSX"}
+          </button>
+        </div>
+      </div>
+      {error ? <div className="lf-muted lf-mt-1">Export failed: {error}</div> : null}
+    </div>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => boundary.headers(headersArgs);
@@ -0,0 +1,159 @@
+// app/routes/app.requests.workflow.tsx
+import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Link, useFetcher, useLoaderData } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "~/shopify.server";
+import { prisma } from "~/db.server";
+import {
+  DEFAULT_STATUS_TRANSITIONS,
+  REQUEST_STATUS_VALUES,
+  getStatusTransitions,
+  saveStatusTransitions,
+  type StatusTransitions,
+} from "~/lib/requestStatus.server";
+import { StatusBadge, statusLabel } from "~/ui/StatusBadge";
+
+type LoaderData = {
+  statuses: string[]; // matrix rows/columns (trash excluded)
+  transitions: Record<string, string[]>;
+  defaults: Record<string, string[]>;
+  custom: boolean;
+};
+
+async function ensureShopId(shopDomain: string) {
+  const shop = await prisma.shop.upsert({
+    where: { shopDomain },
+    update: { uninstalledAt: null },
+    create: { shopDomain, installedAt: new Date() },
+    select: { id: true },
+  });
+  return shop.id;
+}
+
+const MATRIX_STATUSES = REQUEST_STATUS_VALUES.filter((s) => s !== "archived");
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shopId = await ensureShopId(session.shop);
+
+  const [transitions, settings] = await Promise.all([
+    getStatusTransitions(shopId),
+    prisma.shopSettings.findUnique({ where: { shopId }, select: { statusTransitions: true } }),
+  ]);
+
+  const data: LoaderData = {
+    statuses: MATRIX_STATUSES,
+    transitions,
+    defaults: DEFAULT_STATUS_TRANSITIONS,
+    custom: settings?.statusTransitions != null,
+  };
+  return data;
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shopId = await ensureShopId(session.shop);
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+
+  if (intent === "reset") {
+    await saveStatusTransitions(shopId, null);
+    return { ok: true };
+  }
+
+  if (intent === "save") {
+    // One checkbox per allowed pair: name="t:<from>" value="<to>"
+    const map = {} as StatusTransitions;
+    for (const from of REQUEST_STATUS_VALUES) {
+      map[from] = formData.getAll(`t:${from}`).map(String) as any;
+    }
+    await saveStatusTransitions(shopId, map);
+    return { ok: true };
+  }
+
+  return { ok: false, error: "unknown_intent" };
+};
+
+export default function RequestWorkflow() {
+  const data = useLoaderData() as LoaderData;
+  const fetcher = useFetcher();
+  const busy = fetcher.state !== "idle";
+
+  return (
+    <div className="lf-card lf-enter">
+      <div
+        className="lf-card-heading"
+        style={{ display: "flex", justifyContent: "space-between", gap: 12, flexWrap: "wrap" }}
+      >
+        <div>
+          <div style={{ fontWeight: 800 }}>Status workflow</div>
+          <div className="lf-muted">
+            Choose which status changes your team can make from the Orders list and request page. Moving to the
+            trash and restoring are always allowed; changes made in Google Sheets are not restricted.
+          </div>
+        </div>
+        <Link to="/app/requests" className="lf-pill" style={{ textDecoration: "none" }}>
+          ← Orders
+        </Link>
+      </div>
+
+      <fetcher.Form method="post" key={JSON.stringify(data.transitions)} className="lf-mt-3">
+        <div style={{ overflowX: "auto" }}>
+          <table className="lf-table" style={{ width: "100%" }}>
+            <thead>
+              <tr>
+                <th>From \ To</th>
+                {data.statuses.map((to) => (
+                  <th key={to} style={{ textAlign: "center" }}>
+                    {statusLabel(to)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {data.statuses.map((from) => (
+                <tr key={from} className="lf-row-hover">
+                  <td>
+                    <StatusBadge status={from} />
+                  </td>
+                  {data.statuses.map((to) => (
+                    <td key={to} style={{ textAlign: "center" }}>
+                      {from === to ? (
+                        <span className="lf-muted">—</span>
+                      ) : (
+                        <input
+                          type="checkbox"
+                          name={`t:${from}`}
+                          value={to}
+                          defaultChecked={data.transitions[from]?.includes(to)}
+                          aria-label={`${statusLabel(from)} to ${statusLabel(to)}`}
+                          title={data.defaults[from]?.includes(to) ? "Allowed by default" : undefined}
+                        />
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="lf-btn-row lf-mt-3" style={{ justifyContent: "flex-end" }}>
+          <span className="lf-muted" style={{ alignSelf: "center" }}>
+            {data.custom ? "Custom workflow" : "Default workflow"}
+          </span>
+          {data.custom ? (
+            <button className="lf-pill" type="submit" name="intent" value="reset" disabled={busy}>
+              Reset to defaults
+            </button>
+          ) : null}
+          <button className="lf-pill lf-pill--primary" type="submit" name="intent" value="save" disabled={busy}>
+            {busy ? "Saving…" : "Save workflow"}
+          </button>
+        </div>
+      </fetcher.Form>
+    </div>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => boundary.headers(headersArgs);
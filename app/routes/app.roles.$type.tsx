@@ -0,0 +1,511 @@
+// app/routes/app.roles.$type.tsx
+import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Link, useFetcher, useLoaderData } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import { useMemo, useState } from "react";
+import { authenticate } from "~/shopify.server";
+import { prisma } from "~/db.server";
+import {
+  MIME_PRESETS,
+  asRoleType,
+  ensureRole,
+  mimeTypesForPreset,
+  parseRoleUi,
+  presetForMimeTypes,
+  type RoleUi,
+} from "~/lib/roles.server";
+
+type RequirementDTO = {
+  id: string; // "" for new rows
+  key: string;
+  label: string;
+  description: string | null;
+  required: boolean;
+  preset: string; // MIME_PRESETS key or "custom"
+  mimeTypes: string; // comma list (custom preset)
+  maxSizeMb: string; // "" = default (10MB)
+};
+
+type RoleDTO = {
+  type: string;
+  title: string;
+  description: string;
+  active: boolean;
+  ui: RoleUi;
+};
+
+type LoaderData = {
+  role: RoleDTO;
+  requirements: RequirementDTO[];
+  // Other active roles, for the chooser preview
+  siblings: Array<{ type: string; title: string; description: string | null; ui: RoleUi }>;
+  presets: Array<{ key: string; label: string; mimeTypes: string[] }>;
+};
+
+const MB = 1024 * 1024;
+const MAX_UPLOAD_MB = 50;
+
+function sanitizeKey(raw: string) {
+  const s = String(raw || "")
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  return (s || "document").slice(0, 40);
+}
+
+async function ensureShopId(shopDomain: string) {
+  const shop = await prisma.shop.upsert({
+    where: { shopDomain },
+    update: { uninstalledAt: null },
+    create: { shopDomain, installedAt: new Date() },
+    select: { id: true },
+  });
+  return shop.id;
+}
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shopId = await ensureShopId(session.shop);
+
+  const type = asRoleType(params.type);
+  if (!type) throw new Response("Role not found", { status: 404 });
+
+  await ensureRole(shopId, type);
+
+  const [role, siblings] = await Promise.all([
+    prisma.role.findUniqueOrThrow({
+      where: { shopId_type: { shopId, type } },
+      include: { requirements: { orderBy: [{ orderIndex: "asc" }, { createdAt: "asc" }] } },
+    }),
+    prisma.role.findMany({
+      where: { shopId, active: true, NOT: { type } },
+      orderBy: [{ type: "asc" }],
+      select: { type: true, title: true, description: true, ui: true },
+    }),
+  ]);
+
+  const data: LoaderData = {
+    role: {
+      type: role.type,
+      title: role.title,
+      description: role.description ?? "",
+      active: role.active,
+      ui: parseRoleUi(role.ui),
+    },
+    requirements: role.requirements.map((r) => {
+      const preset = presetForMimeTypes(r.acceptedMimeTypes);
+      return {
+        id: r.id,
+        key: r.key,
+        label: r.label,
+        description: r.description,
+        required: r.required,
+        preset,
+        mimeTypes: r.acceptedMimeTypes.join(", "),
+        maxSizeMb: r.maxSizeBytes ? String(Math.round((r.maxSizeBytes / MB) * 10) / 10) : "",
+      };
+    }),
+    siblings: siblings.map((s) => ({ ...s, ui: parseRoleUi(s.ui) })),
+    presets: MIME_PRESETS.map((p) => ({ key: p.key, label: p.label, mimeTypes: [...p.mimeTypes] })),
+  };
+
+  return data;
+};
+
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shopId = await ensureShopId(session.shop);
+
+  const type = asRoleType(params.type);
+  if (!type) return { ok: false, error: "Role not found" };
+
+  const fd = await request.formData();
+  const intent = String(fd.get("intent") || "");
+  if (intent !== "saveAll") return { ok: false, error: "Unknown intent" };
+
+  let payload: any = null;
+  try {
+    payload = JSON.parse(String(fd.get("payload") || ""));
+  } catch {
+    return { ok: false, error: "Invalid payload" };
+  }
+
+  const title = String(payload?.role?.title || "").trim().slice(0, 80);
+  if (!title) return { ok: false, error: "Title is required" };
+
+  const description = String(payload?.role?.description || "").trim().slice(0, 300) || null;
+  const active = Boolean(payload?.role?.active);
+  const ui = parseRoleUi(payload?.role?.ui);
+
+  const incoming: any[] = Array.isArray(payload?.requirements) ? payload.requirements : [];
+  if (incoming.length > 10) return { ok: false, error: "Maximum 10 documents per role" };
+
+  const seen = new Set<string>();
+  const requirements: Array<{
+    id: string;
+    key: string;
+    label: string;
+    description: string | null;
+    required: boolean;
+    acceptedMimeTypes: string[];
+    maxSizeBytes: number | null;
+    orderIndex: number;
+  }> = [];
+
+  for (const [idx, r] of incoming.entries()) {
+    const key = sanitizeKey(r?.key || r?.label);
+    if (seen.has(key)) return { ok: false, error: `Duplicate document key: ${key}` };
+    seen.add(key);
+
+    const label = String(r?.label || "").trim().slice(0, 120);
+    if (!label) return { ok: false, error: `Document #${idx + 1} needs a label` };
+
+    const acceptedMimeTypes = mimeTypesForPreset(String(r?.preset || ""), String(r?.mimeTypes || ""));
+    if (!acceptedMimeTypes.length) {
+      return { ok: false, error: `${label}: add at least one file type (e.g. application/pdf)` };
+    }
+
+    const rawMb = String(r?.maxSizeMb ?? "").trim();
+    const mb = rawMb ? Number(rawMb) : null;
+    if (mb !== null && (!Number.isFinite(mb) || mb <= 0 || mb > MAX_UPLOAD_MB)) {
+      return { ok: false, error: `${label}: max size must be between 0 and ${MAX_UPLOAD_MB} MB` };
+    }
+
+    requirements.push({
+      id: String(r?.id || ""),
+      key,
+      label,
+      description: String(r?.description || "").trim().slice(0, 300) || null,
+      required: Boolean(r?.required),
+      acceptedMimeTypes,
+      maxSizeBytes: mb !== null ? Math.round(mb * MB) : null,
+      orderIndex: idx,
+    });
+  }
+
+  await prisma.$transaction(async (tx) => {
+    const role = await tx.role.update({
+      where: { shopId_type: { shopId, type } },
+      data: { title, description, active, ui },
+      select: { id: true },
+    });
+
+    const keepIds = requirements.map((r) => r.id).filter(Boolean);
+    await tx.roleRequirement.deleteMany({
+      where: { roleId: role.id, ...(keepIds.length ? { id: { notIn: keepIds } } : {}) },
+    });
+
+    // Keys may be swapped between rows: park existing rows on temp keys first (unique [roleId, key])
+    for (const r of requirements) {
+      if (!r.id) continue;
+      await tx.roleRequirement.updateMany({
+        where: { id: r.id, roleId: role.id },
+        data: { key: `__tmp_${r.id}` },
+      });
+    }
+
+    for (const r of requirements) {
+      const { id, ...data } = r;
+      if (id) {
+        await tx.roleRequirement.updateMany({ where: { id, roleId: role.id }, data });
+      } else {
+        await tx.roleRequirement.create({ data: { ...data, roleId: role.id } });
+      }
+    }
+  });
+
+  return { ok: true };
+};
+
+function newRequirement(index: number): RequirementDTO {
+  return {
+    id: "",
+    key: `document_${index + 1}`,
+    label: "Document",
+    description: null,
+    required: true,
+    preset: "pdf_images",
+    mimeTypes: "",
+    maxSizeMb: "",
+  };
+}
+
+function ChooserPreview({
+  roles,
+  current,
+}: {
+  roles: Array<{ type: string; title: string; description: string | null; ui: RoleUi }>;
+  current: string;
+}) {
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      {roles.map((r) => (
+        <div
+          key={r.type}
+          style={{
+            border: `1px solid ${r.type === current ? "rgba(17,24,39,.85)" : "rgba(17,24,39,.14)"}`,
+            borderRadius: 14,
+            padding: "14px 16px",
+            background: "#fff",
+          }}
+        >
+          <div style={{ display: "flex", gap: 8, alignItems: "center", fontWeight: 700 }}>
+            {r.ui.icon ? <span>{r.ui.icon}</span> : null}
+            <span>{r.title || "Untitled role"}</span>
+            {r.ui.badge ? <span className="lf-badge">{r.ui.badge}</span> : null}
+          </div>
+          {r.description ? (
+            <div className="lf-muted" style={{ marginTop: 4, fontSize: "0.92em" }}>
+              {r.description}
+            </div>
+          ) : null}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function RoleEditor() {
+  const data = useLoaderData() as LoaderData;
+  const saveFetcher = useFetcher();
+
+  const [role, setRole] = useState<RoleDTO>(data.role);
+  const [reqs, setReqs] = useState<RequirementDTO[]>(data.requirements);
+
+  const saving = saveFetcher.state !== "idle";
+  const saveOk = (saveFetcher.data as any)?.ok;
+  const saveErr = (saveFetcher.data as any)?.error;
+
+  const previewRoles = useMemo(() => {
+    const all = [...data.siblings];
+    if (role.active) all.push({ type: role.type, title: role.title, description: role.description, ui: role.ui });
+    const order = ["individual", "installer", "company"];
+    return all.sort((a, b) => order.indexOf(a.type) - order.indexOf(b.type));
+  }, [data.siblings, role]);
+
+  const updateReq = (i: number, patch: Partial<RequirementDTO>) =>
+    setReqs((prev) => prev.map((r, idx) => (idx === i ? { ...r, ...patch } : r)));
+
+  const moveReq = (i: number, dir: -1 | 1) =>
+    setReqs((prev) => {
+      const j = i + dir;
+      if (j < 0 || j >= prev.length) return prev;
+      const next = prev.slice();
+      [next[i], next[j]] = [next[j], next[i]];
+      return next;
+    });
+
+  const removeReq = (i: number) => setReqs((prev) => prev.filter((_, idx) => idx !== i));
+
+  const saveAll = () => {
+    saveFetcher.submit(
+      { intent: "saveAll", payload: JSON.stringify({ role, requirements: reqs }) },
+      { method: "post" }
+    );
+  };
+
+  const acceptFor = (r: RequirementDTO) =>
+    r.preset === "custom"
+      ? r.mimeTypes
+      : (data.presets.find((p) => p.key === r.preset)?.mimeTypes ?? []).join(",");
+
+  return (
+    <div className="lf-enter">
+      <div className="lf-card lf-mb-4">
+        <div className="lf-builder-top">
+          <div style={{ display: "flex", gap: 10, flexWrap: "wrap", alignItems: "center" }}>
+            <Link to="/app/roles" className="lf-pill" style={{ textDecoration: "none" }}>← Roles</Link>
+            <div className="lf-badge" title="Role type">
+              <span className="lf-dot" />
+              {role.type}
+            </div>
+            {saveOk ? <span className="lf-badge lf-badge--approved"><span className="lf-dot" />Saved</span> : null}
+            {saveErr ? <span className="lf-badge lf-badge--rejected"><span className="lf-dot" />{String(saveErr)}</span> : null}
+          </div>
+
+          <div className="lf-btn-row">
+            <button
+              className={role.active ? "lf-pill lf-pill--success" : "lf-pill"}
+              type="button"
+              onClick={() => setRole((p) => ({ ...p, active: !p.active }))}
+            >
+              {role.active ? "Active" : "Inactive"}
+            </button>
+            <button className="lf-pill lf-pill--primary" type="button" onClick={saveAll} disabled={saving}>
+              {saving ? "Saving…" : "Save changes"}
+            </button>
+          </div>
+        </div>
+
+        <div className="lf-form-meta">
+          <div className="lf-field">
+            <div className="lf-field-label">Title</div>
+            <input className="lf-input" value={role.title} onChange={(e) => setRole((p) => ({ ...p, title: e.target.value }))} />
+          </div>
+          <div className="lf-field">
+            <div className="lf-field-label">Description</div>
+            <input className="lf-input" value={role.description} onChange={(e) => setRole((p) => ({ ...p, description: e.target.value }))} />
+          </div>
+          <div className="lf-field">
+            <div className="lf-field-label">Icon</div>
+            <input
+              className="lf-input"
+              value={role.ui.icon ?? ""}
+              placeholder="e.g. 🏠"
+              onChange={(e) => setRole((p) => ({ ...p, ui: { ...p.ui, icon: e.target.value } }))}
+            />
+          </div>
+          <div className="lf-field">
+            <div className="lf-field-label">Badge</div>
+            <input
+              className="lf-input"
+              value={role.ui.badge ?? ""}
+              placeholder="e.g. Pro pricing"
+              onChange={(e) => setRole((p) => ({ ...p, ui: { ...p.ui, badge: e.target.value } }))}
+            />
+          </div>
+          <div className="lf-field">
+            <div className="lf-field-label">Submit button label</div>
+            <input
+              className="lf-input"
+              value={role.ui.submitLabel ?? ""}
+              placeholder="Form default"
+              onChange={(e) => setRole((p) => ({ ...p, ui: { ...p.ui, submitLabel: e.target.value } }))}
+            />
+          </div>
+        </div>
+      </div>
+
+      <div className="lf-grid">
+        <div className="lf-col-8">
+          <div className="lf-card">
+            <div className="lf-toolbar">
+              <div>
+                <div className="lf-card-title">Required documents</div>
+                <div className="lf-muted">Shown as upload fields after the form, in this order.</div>
+              </div>
+              <button
+                className="lf-pill"
+                type="button"
+                disabled={reqs.length >= 10}
+                onClick={() => setReqs((prev) => [...prev, newRequirement(prev.length)])}
+              >
+                + Add document
+              </button>
+            </div>
+
+            <div style={{ display: "grid", gap: 12, marginTop: 12 }}>
+              {reqs.map((r, i) => (
+                <div key={r.id || `new-${i}`} className="lf-card" style={{ padding: 14 }}>
+                  <div style={{ display: "flex", justifyContent: "space-between", gap: 10, alignItems: "center" }}>
+                    <div style={{ fontWeight: 750 }}>{r.label || "Untitled document"}</div>
+                    <div className="lf-btn-row">
+                      <button className="lf-pill" type="button" onClick={() => moveReq(i, -1)} disabled={i === 0} aria-label="Move up">↑</button>
+                      <button className="lf-pill" type="button" onClick={() => moveReq(i, 1)} disabled={i === reqs.length - 1} aria-label="Move down">↓</button>
+                      <button className="lf-pill lf-pill--danger" type="button" onClick={() => removeReq(i)}>Remove</button>
+                    </div>
+                  </div>
+
+                  <div className="lf-form-meta" style={{ marginTop: 10 }}>
+                    <div className="lf-field">
+                      <div className="lf-field-label">Label</div>
+                      <input className="lf-input" value={r.label} onChange={(e) => updateReq(i, { label: e.target.value })} />
+                    </div>
+                    <div className="lf-field">
+                      <div className="lf-field-label">Key</div>
+                      <input className="lf-input" value={r.key} onChange={(e) => updateReq(i, { key: e.target.value })} />
+                    </div>
+                    <div className="lf-field">
+                      <div className="lf-field-label">Accepted files</div>
+                      <select className="lf-input lf-input--select" value={r.preset} onChange={(e) => updateReq(i, { preset: e.target.value })}>
+                        {data.presets.map((p) => (
+                          <option key={p.key} value={p.key}>{p.label}</option>
+                        ))}
+                        <option value="custom">Custom MIME types…</option>
+                      </select>
+                    </div>
+                    {r.preset === "custom" ? (
+                      <div className="lf-field">
+                        <div className="lf-field-label">MIME types (comma separated)</div>
+                        <input
+                          className="lf-input"
+                          value={r.mimeTypes}
+                          placeholder="application/pdf, image/*"
+                          onChange={(e) => updateReq(i, { mimeTypes: e.target.value })}
+                        />
+                      </div>
+                    ) : null}
+                    <div className="lf-field">
+                      <div className="lf-field-label">Max size (MB)</div>
+                      <input
+                        className="lf-input"
+                        type="number"
+                        min={1}
+                        max={MAX_UPLOAD_MB}
+                        value={r.maxSizeMb}
+                        placeholder="10"
+                        onChange={(e) => updateReq(i, { maxSizeMb: e.target.value })}
+                      />
+                    </div>
+                    <div className="lf-field">
+                      <div className="lf-field-label">Help text</div>
+                      <input
+                        className="lf-input"
+                        value={r.description ?? ""}
+                        onChange={(e) => updateReq(i, { description: e.target.value || null })}
+                      />
+                    </div>
+                    <div className="lf-field">
+                      <label style={{ display: "flex", gap: 10, alignItems: "center" }}>
+                        <input type="checkbox" checked={r.required} onChange={(e) => updateReq(i, { required: e.target.checked })} />
+                        Required
+                      </label>
+                    </div>
+                  </div>
+                </div>
+              ))}
+              {reqs.length === 0 ? <div className="lf-muted">No documents required for this role.</div> : null}
+            </div>
+          </div>
+        </div>
+
+        <div className="lf-col-4">
+          <div className="lf-card">
+            <div className="lf-card-title">Storefront preview</div>
+            <div className="lf-muted lf-mb-4">Role chooser</div>
+            {previewRoles.length ? (
+              <ChooserPreview roles={previewRoles} current={role.type} />
+            ) : (
+              <div className="lf-muted">No active roles: the form opens directly.</div>
+            )}
+
+            {reqs.length ? (
+              <div className="lf-mt-4" style={{ display: "grid", gap: 10 }}>
+                <div className="lf-muted">Upload fields</div>
+                {reqs.map((r, i) => (
+                  <div key={r.id || `p-${i}`} style={{ display: "grid", gap: 6 }}>
+                    <label style={{ fontWeight: 600, fontSize: "0.92em" }}>
+                      {r.label || "Untitled document"}
+                      {r.required ? <span style={{ color: "#dc2626" }}> *</span> : null}
+                    </label>
+                    <input className="lf-input" type="file" accept={acceptFor(r)} disabled />
+                    {r.description ? <div className="lf-muted" style={{ fontSize: "0.85em" }}>{r.description}</div> : null}
+                  </div>
+                ))}
+              </div>
+            ) : null}
+
+            {role.ui.submitLabel ? (
+              <div className="lf-mt-4">
+                <span className="lf-pill lf-pill--primary">{role.ui.submitLabel}</span>
+              </div>
+            ) : null}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export const headers: HeadersFunction = (args) => boundary.headers(args);
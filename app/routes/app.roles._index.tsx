@@ -0,0 +1,209 @@
+// app/routes/app.roles._index.tsx
+import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Link, useFetcher, useLoaderData } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import type { RoleType } from "@prisma/client";
+import { authenticate } from "~/shopify.server";
+import { prisma } from "~/db.server";
+import { ROLE_DEFAULTS, ROLE_TYPES, asRoleType, ensureRole } from "~/lib/roles.server";
+
+type LoaderData = {
+  defaultForm: { id: string; name: string } | null;
+  forms: Array<{ id: string; name: string; status: string }>;
+  roles: Array<{
+    type: RoleType;
+    id: string | null;
+    title: string;
+    description: string | null;
+    active: boolean;
+    formId: string | null;
+  }>;
+};
+
+async function ensureShopId(shopDomain: string) {
+  const shop = await prisma.shop.upsert({
+    where: { shopDomain },
+    update: { uninstalledAt: null },
+    create: { shopDomain, installedAt: new Date() },
+    select: { id: true },
+  });
+  return shop.id;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shopId = await ensureShopId(session.shop);
+
+  const [settings, forms, roles] = await Promise.all([
+    prisma.shopSettings.findUnique({
+      where: { shopId },
+      select: { currentForm: { select: { id: true, name: true } } },
+    }),
+    prisma.form.findMany({
+      where: { shopId, status: { not: "archived" } },
+      orderBy: [{ updatedAt: "desc" }],
+      select: { id: true, name: true, status: true },
+    }),
+    prisma.role.findMany({
+      where: { shopId },
+      select: { id: true, type: true, title: true, description: true, active: true, formId: true },
+    }),
+  ]);
+
+  const byType = new Map(roles.map((r) => [r.type, r]));
+
+  const data: LoaderData = {
+    defaultForm: settings?.currentForm ?? null,
+    forms,
+    // Always show the three role types; missing rows are created on first save
+    roles: ROLE_TYPES.map((type) => {
+      const r = byType.get(type);
+      return {
+        type,
+        id: r?.id ?? null,
+        title: r?.title ?? ROLE_DEFAULTS[type].title,
+        description: r?.description ?? ROLE_DEFAULTS[type].description,
+        active: r?.active ?? false,
+        formId: r?.formId ?? null,
+      };
+    }),
+  };
+
+  return data;
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shopId = await ensureShopId(session.shop);
+
+  const fd = await request.formData();
+  const intent = String(fd.get("intent") || "");
+
+  const roleType = asRoleType(fd.get("roleType"));
+  if (!roleType) return { ok: false, error: "Invalid role" };
+
+  if (intent === "setForm") {
+    const formId = String(fd.get("formId") || "").trim() || null;
+
+    if (formId) {
+      const form = await prisma.form.findFirst({
+        where: { id: formId, shopId, status: { not: "archived" } },
+        select: { id: true },
+      });
+      if (!form) return { ok: false, error: "Form not found" };
+    }
+
+    const role = await ensureRole(shopId, roleType);
+    await prisma.role.update({ where: { id: role.id }, data: { formId } });
+    return { ok: true };
+  }
+
+  if (intent === "toggleActive") {
+    const active = String(fd.get("active") || "") === "true";
+    const role = await ensureRole(shopId, roleType);
+    await prisma.role.update({ where: { id: role.id }, data: { active } });
+    return { ok: true };
+  }
+
+  return { ok: false, error: "Unknown intent" };
+};
+
+function RoleRow({
+  role,
+  forms,
+  defaultForm,
+}: {
+  role: LoaderData["roles"][number];
+  forms: LoaderData["forms"];
+  defaultForm: LoaderData["defaultForm"];
+}) {
+  const formFetcher = useFetcher();
+  const activeFetcher = useFetcher();
+
+  return (
+    <tr className="lf-row-hover">
+      <td>
+        <div style={{ fontWeight: 750 }}>{role.title}</div>
+        <div className="lf-muted">{role.description || role.type}</div>
+      </td>
+      <td>
+        <activeFetcher.Form method="post">
+          <input type="hidden" name="intent" value="toggleActive" />
+          <input type="hidden" name="roleType" value={role.type} />
+          <input type="hidden" name="active" value={String(!role.active)} />
+          <button className={role.active ? "lf-pill lf-pill--success" : "lf-pill"} type="submit">
+            {role.active ? "On" : "Off"}
+          </button>
+        </activeFetcher.Form>
+      </td>
+      <td>
+        <formFetcher.Form method="post" className="lf-btn-row">
+          <input type="hidden" name="intent" value="setForm" />
+          <input type="hidden" name="roleType" value={role.type} />
+          <select
+            className="lf-input lf-input--select"
+            name="formId"
+            defaultValue={role.formId ?? ""}
+            onChange={(e) => formFetcher.submit(e.currentTarget.form)}
+          >
+            <option value="">
+              Shop default{defaultForm ? ` (${defaultForm.name})` : ""}
+            </option>
+            {forms.map((f) => (
+              <option key={f.id} value={f.id}>
+                {f.name}
+                {f.status !== "active" ? ` — ${f.status}` : ""}
+              </option>
+            ))}
+          </select>
+          {formFetcher.state !== "idle" ? <span className="lf-muted">Saving…</span> : null}
+        </formFetcher.Form>
+      </td>
+      <td>
+        <Link to={`/app/roles/${role.type}`} className="lf-pill" style={{ textDecoration: "none" }}>
+          Edit
+        </Link>
+      </td>
+    </tr>
+  );
+}
+
+export default function RolesIndex() {
+  const { roles, forms, defaultForm } = useLoaderData() as LoaderData;
+
+  return (
+    <div className="lf-enter">
+      <div className="lf-card">
+        <div className="lf-toolbar">
+          <div>
+            <div style={{ fontWeight: 800, letterSpacing: "-0.02em" }}>Roles</div>
+            <div className="lf-muted">
+              Each role can use its own form. Submissions are validated against, and attributed to,
+              the role’s form. Edit a role to change its storefront copy and required documents.
+            </div>
+          </div>
+        </div>
+
+        <div style={{ overflowX: "auto", marginTop: 12 }}>
+          <table className="lf-table" style={{ width: "100%" }}>
+            <thead>
+              <tr>
+                <th>Role</th>
+                <th style={{ width: 120 }}>Active</th>
+                <th style={{ width: 340 }}>Form</th>
+                <th style={{ width: 90 }} />
+              </tr>
+            </thead>
+            <tbody>
+              {roles.map((r) => (
+                <RoleRow key={r.type} role={r} forms={forms} defaultForm={defaultForm} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export const headers: HeadersFunction = (args) => boundary.headers(args);
@@ -0,0 +1,329 @@
+// app/routes/app.shipping._index.tsx
+import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Link, useFetcher, useLoaderData } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import type { ShipmentStatus } from "@prisma/client";
+
+import { authenticate } from "~/shopify.server";
+import { prisma } from "~/db.server";
+import {
+  deleteShippingAccount,
+  listShippingAccounts,
+  listShippingProviders,
+  pollActiveShipments,
+  saveShippingAccount,
+  verifyShippingAccount,
+  type ShippingField,
+} from "~/lib/shipping.server";
+
+type LoaderData = {
+  providers: Array<{
+    key: string;
+    label: string;
+    fields: ShippingField[];
+    account: {
+      enabled: boolean;
+      config: Record<string, string>;
+      secretsSet: string[];
+      lastVerifiedAt: string | null;
+    } | null;
+  }>;
+  shipments: Array<{
+    id: string;
+    requestId: string;
+    customer: string;
+    provider: string;
+    trackingNumber: string | null;
+    status: ShipmentStatus;
+    carrierStatus: string | null;
+    lastError: string | null;
+    lastPolledAt: string | null;
+    createdAt: string;
+  }>;
+};
+
+async function ensureShopId(shopDomain: string) {
+  const shop = await prisma.shop.upsert({
+    where: { shopDomain },
+    update: { uninstalledAt: null },
+    create: { shopDomain, installedAt: new Date() },
+    select: { id: true },
+  });
+  return shop.id;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shopId = await ensureShopId(session.shop);
+
+  const [accounts, shipments] = await Promise.all([
+    listShippingAccounts(shopId),
+    prisma.shipment.findMany({
+      where: { shopId },
+      orderBy: { createdAt: "desc" },
+      take: 50,
+      include: { request: { select: { firstName: true, lastName: true } } },
+    }),
+  ]);
+
+  const byProvider = new Map(accounts.map((a) => [a.provider, a]));
+
+  const data: LoaderData = {
+    providers: listShippingProviders().map((p) => {
+      const a = byProvider.get(p.key);
+      return {
+        key: p.key,
+        label: p.label,
+        fields: p.fields,
+        account: a
+          ? {
+              enabled: a.enabled,
+              config: a.config,
+              secretsSet: a.secretsSet,
+              lastVerifiedAt: a.lastVerifiedAt ? a.lastVerifiedAt.toISOString() : null,
+            }
+          : null,
+      };
+    }),
+    shipments: shipments.map((s) => ({
+      id: s.id,
+      requestId: s.requestId,
+      customer: `${s.request.firstName ?? ""} ${s.request.lastName ?? ""}`.trim() || "Customer",
+      provider: s.provider,
+      trackingNumber: s.trackingNumber,
+      status: s.status,
+      carrierStatus: s.carrierStatus,
+      lastError: s.lastError,
+      lastPolledAt: s.lastPolledAt ? s.lastPolledAt.toISOString() : null,
+      createdAt: s.createdAt.toISOString(),
+    })),
+  };
+
+  return data;
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shopId = await ensureShopId(session.shop);
+
+  const fd = await request.formData();
+  const intent = String(fd.get("intent") || "");
+  const provider = String(fd.get("provider") || "");
+
+  try {
+    if (intent === "saveAccount") {
+      const values: Record<string, string> = {};
+      for (const [k, v] of fd.entries()) {
+        if (k.startsWith("f_") && typeof v === "string") values[k.slice(2)] = v;
+      }
+      await saveShippingAccount({ shopId, provider, enabled: fd.get("enabled") === "on", values });
+      return { ok: true, provider };
+    }
+
+    if (intent === "verifyAccount") {
+      await verifyShippingAccount({ shopId, provider });
+      return { ok: true, provider, verified: true };
+    }
+
+    if (intent === "deleteAccount") {
+      await deleteShippingAccount({ shopId, provider });
+      return { ok: true, provider };
+    }
+
+    if (intent === "pollNow") {
+      const summary = await pollActiveShipments({ limit: 50 });
+      return { ok: true, summary };
+    }
+  } catch (e: any) {
+    return { ok: false, provider, error: String(e?.message || "shipping_error") };
+  }
+
+  return { ok: false, error: "Unknown intent" };
+};
+
+function shipmentStatusLabel(s: ShipmentStatus) {
+  if (s === "pending") return "Booked";
+  if (s === "in_transit") return "In transit";
+  if (s === "out_for_delivery") return "Out for delivery";
+  if (s === "delivered") return "Delivered";
+  if (s === "returned") return "Returned";
+  if (s === "failed") return "Delivery failed";
+  return "Cancelled";
+}
+
+function shipmentBadgeClass(s: ShipmentStatus) {
+  if (s === "delivered") return "lf-badge lf-badge--approved";
+  if (s === "returned" || s === "cancelled" || s === "failed") return "lf-badge lf-badge--rejected";
+  return "lf-badge lf-badge--pending";
+}
+
+function ProviderCard({ p }: { p: LoaderData["providers"][number] }) {
+  const saveFetcher = useFetcher();
+  const verifyFetcher = useFetcher();
+  const deleteFetcher = useFetcher();
+
+  const saveData = saveFetcher.data as any;
+  const verifyData = verifyFetcher.data as any;
+  const a = p.account;
+
+  return (
+    <div className="lf-card">
+      <div className="lf-toolbar">
+        <div className="lf-card-title" style={{ margin: 0 }}>{p.label}</div>
+        {a ? (
+          <span className={a.enabled ? "lf-badge lf-badge--approved" : "lf-badge"}>
+            <span className="lf-dot" />
+            {a.enabled ? "Enabled" : "Disabled"}
+          </span>
+        ) : (
+          <span className="lf-muted">Not connected</span>
+        )}
+      </div>
+
+      <saveFetcher.Form method="post" className="lf-mt-3" style={{ display: "grid", gap: 10 }}>
+        <input type="hidden" name="intent" value="saveAccount" />
+        <input type="hidden" name="provider" value={p.key} />
+
+        {p.fields.map((f) => (
+          <div key={f.key} className="lf-field">
+            <div className="lf-field-label">
+              {f.label}
+              {f.required ? " *" : ""}
+            </div>
+            <input
+              className="lf-input"
+              name={`f_${f.key}`}
+              type={f.secret ? "password" : "text"}
+              autoComplete="off"
+              defaultValue={f.secret ? "" : a?.config[f.key] ?? ""}
+              placeholder={f.secret && a?.secretsSet.includes(f.key) ? "•••••••• (saved, leave blank to keep)" : f.placeholder}
+            />
+          </div>
+        ))}
+
+        <label style={{ display: "flex", gap: 10, alignItems: "center" }}>
+          <input type="checkbox" name="enabled" defaultChecked={a ? a.enabled : true} />
+          Use for new shipments
+        </label>
+
+        <div className="lf-btn-row">
+          <button className="lf-pill lf-pill--primary" type="submit" disabled={saveFetcher.state !== "idle"}>
+            {saveFetcher.state !== "idle" ? "Saving…" : "Save"}
+          </button>
+          {saveData?.ok ? <span className="lf-badge lf-badge--approved"><span className="lf-dot" />Saved</span> : null}
+          {saveData?.ok === false ? (
+            <span className="lf-badge lf-badge--rejected"><span className="lf-dot" />{String(saveData.error)}</span>
+          ) : null}
+        </div>
+      </saveFetcher.Form>
+
+      {a ? (
+        <div className="lf-btn-row lf-mt-3">
+          <verifyFetcher.Form method="post">
+            <input type="hidden" name="intent" value="verifyAccount" />
+            <input type="hidden" name="provider" value={p.key} />
+            <button className="lf-pill" type="submit" disabled={verifyFetcher.state !== "idle"}>
+              {verifyFetcher.state !== "idle" ? "Checking…" : "Test connection"}
+            </button>
+          </verifyFetcher.Form>
+          <deleteFetcher.Form method="post">
+            <input type="hidden" name="intent" value="deleteAccount" />
+            <input type="hidden" name="provider" value={p.key} />
+            <button className="lf-pill lf-pill--danger" type="submit" disabled={deleteFetcher.state !== "idle"}>
+              Disconnect
+            </button>
+          </deleteFetcher.Form>
+          {verifyData?.ok ? <span className="lf-badge lf-badge--approved"><span className="lf-dot" />Connected</span> : null}
+          {verifyData?.ok === false ? (
+            <span className="lf-badge lf-badge--rejected"><span className="lf-dot" />{String(verifyData.error)}</span>
+          ) : null}
+          <Link className="lf-link" to={`/app/shipping/locations?provider=${p.key}`}>
+            Location codes
+          </Link>
+          {a.lastVerifiedAt && !verifyData ? (
+            <span className="lf-muted">Verified {new Date(a.lastVerifiedAt).toLocaleString()}</span>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export default function ShippingPage() {
+  const data = useLoaderData() as LoaderData;
+  const pollFetcher = useFetcher();
+  const pollData = pollFetcher.data as any;
+
+  return (
+    <div className="lf-enter">
+      <div className="lf-grid">
+        {data.providers.map((p) => (
+          <div key={p.key} className="lf-col-6">
+            <ProviderCard p={p} />
+          </div>
+        ))}
+      </div>
+
+      <div className="lf-card lf-mt-4">
+        <div className="lf-toolbar">
+          <div>
+            <div className="lf-card-heading" style={{ margin: 0 }}>Shipments</div>
+            <div className="lf-muted">Statuses are refreshed from the courier every 30 minutes.</div>
+          </div>
+          <pollFetcher.Form method="post" className="lf-btn-row">
+            <input type="hidden" name="intent" value="pollNow" />
+            {pollData?.summary ? (
+              <span className="lf-muted">
+                {pollData.summary.polled} checked · {pollData.summary.changed} changed
+                {pollData.summary.failed ? ` · ${pollData.summary.failed} failed` : ""}
+              </span>
+            ) : null}
+            <button className="lf-pill" type="submit" disabled={pollFetcher.state !== "idle"}>
+              {pollFetcher.state !== "idle" ? "Refreshing…" : "Refresh due statuses"}
+            </button>
+          </pollFetcher.Form>
+        </div>
+
+        {data.shipments.length ? (
+          <div style={{ overflowX: "auto", marginTop: 12 }}>
+            <table className="lf-table" style={{ width: "100%" }}>
+              <thead>
+                <tr>
+                  <th>Request</th>
+                  <th>Courier</th>
+                  <th>Tracking</th>
+                  <th>Status</th>
+                  <th>Booked</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.shipments.map((s) => (
+                  <tr key={s.id} className="lf-row-hover">
+                    <td>
+                      <Link className="lf-link" to={`/app/requests/${s.requestId}`}>{s.customer}</Link>
+                    </td>
+                    <td>{data.providers.find((p) => p.key === s.provider)?.label ?? s.provider}</td>
+                    <td><code>{s.trackingNumber ?? "—"}</code></td>
+                    <td>
+                      <span className={shipmentBadgeClass(s.status)}>
+                        <span className="lf-dot" />
+                        {shipmentStatusLabel(s.status)}
+                      </span>
+                      {s.carrierStatus ? <div className="lf-muted">{s.carrierStatus}</div> : null}
+                      {s.lastError ? <div className="lf-muted" title={s.lastError}>Last check failed</div> : null}
+                    </td>
+                    <td className="lf-muted">{new Date(s.createdAt).toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <div className="lf-muted lf-mt-3">No shipments yet. Use “Ship” on a confirmed request.</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export const headers: HeadersFunction = (args) => boundary.headers(args);
@@ -0,0 +1,359 @@
+// app/routes/app.shipping.locations.tsx
+import type { ActionFunctionArgs, HeadersFunction, LoaderFunctionArgs } from "react-router";
+import { Form, Link, useFetcher, useLoaderData } from "react-router";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+
+import { authenticate } from "~/shopify.server";
+import { prisma } from "~/db.server";
+import { listShippingProviders, refreshCarrierLocations } from "~/lib/shipping.server";
+import {
+  carrierLocationReport,
+  ensureCarrierLocations,
+  matchCarrierLocations,
+  setManualCommuneMapping,
+} from "~/lib/carrierLocations.server";
+
+const MAX_ROWS = 300;
+
+type Report = Awaited<ReturnType<typeof carrierLocationReport>>;
+
+type LoaderData = {
+  provider: string;
+  providers: Array<{ key: string; label: string }>;
+  wilayaCode: number | null;
+  wilayas: Array<{ code: number; nameFr: string }>;
+  communes: Array<{ id: string; wilayaCode: number; nameFr: string }>;
+  report: Report;
+};
+
+async function ensureShopId(shopDomain: string) {
+  const shop = await prisma.shop.upsert({
+    where: { shopDomain },
+    update: { uninstalledAt: null },
+    create: { shopDomain, installedAt: new Date() },
+    select: { id: true },
+  });
+  return shop.id;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  await authenticate.admin(request);
+  const url = new URL(request.url);
+
+  const providers = listShippingProviders().map((p) => ({ key: p.key, label: p.label }));
+  const requested = url.searchParams.get("provider") || "";
+  const provider = providers.find((p) => p.key === requested)?.key ?? providers[0]?.key ?? "";
+
+  const w = Number(url.searchParams.get("wilaya") || "");
+  const wilayaCode = Number.isInteger(w) && w > 0 ? w : null;
+
+  // Bundled tables load on first view
+  if (provider) await ensureCarrierLocations(provider);
+
+  const [wilayas, communes, report] = await Promise.all([
+    prisma.geoWilaya.findMany({ orderBy: { code: "asc" }, select: { code: true, nameFr: true } }),
+    prisma.geoCommune.findMany({
+      orderBy: [{ wilayaCode: "asc" }, { nameFr: "asc" }],
+      select: { id: true, wilayaCode: true, nameFr: true },
+    }),
+    carrierLocationReport(provider, { wilayaCode }),
+  ]);
+
+  const data: LoaderData = { provider, providers, wilayaCode, wilayas, communes, report };
+  return data;
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shopId = await ensureShopId(session.shop);
+
+  const fd = await request.formData();
+  const intent = String(fd.get("intent") || "");
+  const provider = String(fd.get("provider") || "");
+
+  try {
+    if (intent === "refresh") {
+      const res = await refreshCarrierLocations({ shopId, provider });
+      return { ok: true, ...res };
+    }
+
+    if (intent === "rematch") {
+      const res = await matchCarrierLocations(provider);
+      return { ok: true, ...res };
+    }
+
+    if (intent === "map") {
+      await setManualCommuneMapping({
+        provider,
+        carrierLocationId: String(fd.get("carrierLocationId") || ""),
+        communeId: String(fd.get("communeId") || "") || null,
+      });
+      return { ok: true };
+    }
+  } catch (e: any) {
+    return { ok: false, error: String(e?.message || "locations_error") };
+  }
+
+  return { ok: false, error: "Unknown intent" };
+};
+
+function MapRow({
+  row,
+  provider,
+  communes,
+}: {
+  row: Report["unmatchedCarrier"][number];
+  provider: string;
+  communes: LoaderData["communes"];
+}) {
+  const fetcher = useFetcher();
+  const pool = row.wilayaCode !== null ? communes.filter((c) => c.wilayaCode === row.wilayaCode) : [];
+
+  return (
+    <tr className="lf-row-hover">
+      <td>
+        <div style={{ fontWeight: 650 }}>{row.name}</div>
+        <div className="lf-muted">
+          <code>{row.externalId}</code>
+          {row.nameAr ? ` · ${row.nameAr}` : ""}
+        </div>
+      </td>
+      <td className="lf-muted">{row.wilayaCode ?? "—"}</td>
+      <td className="lf-muted">
+        {row.suggestion ? `${row.suggestion.nameFr} (${Math.round(row.suggestion.score * 100)}%)` : "—"}
+      </td>
+      <td>
+        {pool.length ? (
+          <fetcher.Form method="post" className="lf-btn-row">
+            <input type="hidden" name="intent" value="map" />
+            <input type="hidden" name="provider" value={provider} />
+            <input type="hidden" name="carrierLocationId" value={row.id} />
+            <select
+              className="lf-input lf-input--select"
+              name="communeId"
+              defaultValue={row.suggestion?.communeId ?? ""}
+              style={{ width: "auto" }}
+            >
+              <option value="">—</option>
+              {pool.map((c) => (
+                <option key={c.id} value={c.id}>{c.nameFr}</option>
+              ))}
+            </select>
+            <button className="lf-pill lf-pill--primary" type="submit" disabled={fetcher.state !== "idle"}>
+              Map
+            </button>
+          </fetcher.Form>
+        ) : (
+          <span className="lf-muted">Wilaya not matched</span>
+        )}
+      </td>
+    </tr>
+  );
+}
+
+function ClearMappingButton({ id, provider }: { id: string; provider: string }) {
+  const fetcher = useFetcher();
+  return (
+    <fetcher.Form method="post">
+      <input type="hidden" name="intent" value="map" />
+      <input type="hidden" name="provider" value={provider} />
+      <input type="hidden" name="carrierLocationId" value={id} />
+      <input type="hidden" name="communeId" value="" />
+      <button className="lf-pill lf-pill--danger" type="submit" disabled={fetcher.state !== "idle"}>
+        Clear
+      </button>
+    </fetcher.Form>
+  );
+}
+
+export default function ShippingLocationsPage() {
+  const data = useLoaderData() as LoaderData;
+  const refreshFetcher = useFetcher();
+  const rematchFetcher = useFetcher();
+  const refreshData = refreshFetcher.data as any;
+
+  const { report, provider } = data;
+  const wilayaName = (code: number) => data.wilayas.find((w) => w.code === code)?.nameFr ?? String(code);
+
+  if (!provider) {
+    return (
+      <div className="lf-card">
+        <div className="lf-muted">No courier is available.</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="lf-enter">
+      <div className="lf-card">
+        <div className="lf-toolbar">
+          <div>
+            <div className="lf-card-heading" style={{ margin: 0 }}>Location codes</div>
+            <div className="lf-muted">
+              Courier wilaya/commune codes matched to ours. Parcels to an unmapped commune are refused.{" "}
+              <Link className="lf-link" to="/app/shipping">Back to shipping</Link>
+            </div>
+          </div>
+          <div className="lf-btn-row">
+            <refreshFetcher.Form method="post">
+              <input type="hidden" name="intent" value="refresh" />
+              <input type="hidden" name="provider" value={provider} />
+              <button className="lf-pill lf-pill--primary" type="submit" disabled={refreshFetcher.state !== "idle"}>
+                {refreshFetcher.state !== "idle" ? "Loading…" : "Reload from courier"}
+              </button>
+            </refreshFetcher.Form>
+            <rematchFetcher.Form method="post">
+              <input type="hidden" name="intent" value="rematch" />
+              <input type="hidden" name="provider" value={provider} />
+              <button className="lf-pill" type="submit" disabled={rematchFetcher.state !== "idle"}>
+                Re-run matching
+              </button>
+            </rematchFetcher.Form>
+          </div>
+        </div>
+
+        {refreshData?.ok ? (
+          <div className="lf-badge lf-badge--approved lf-mt-2">
+            <span className="lf-dot" />
+            {refreshData.imported} locations loaded · {refreshData.matched} matched · {refreshData.unmatched} unmatched
+          </div>
+        ) : null}
+        {refreshData?.ok === false ? (
+          <div className="lf-badge lf-badge--rejected lf-mt-2">
+            <span className="lf-dot" />
+            {String(refreshData.error)}
+          </div>
+        ) : null}
+
+        <Form method="get" className="lf-btn-row lf-mt-3">
+          <select className="lf-input lf-input--select" name="provider" defaultValue={provider} style={{ width: "auto" }}>
+            {data.providers.map((p) => (
+              <option key={p.key} value={p.key}>{p.label}</option>
+            ))}
+          </select>
+          <select
+            className="lf-input lf-input--select"
+            name="wilaya"
+            defaultValue={data.wilayaCode ?? ""}
+            style={{ width: "auto" }}
+          >
+            <option value="">All wilayas</option>
+            {data.wilayas.map((w) => (
+              <option key={w.code} value={w.code}>
+                {String(w.code).padStart(2, "0")} — {w.nameFr}
+              </option>
+            ))}
+          </select>
+          <button className="lf-pill" type="submit">Show</button>
+        </Form>
+
+        {report.loaded ? (
+          <div className="lf-form-meta lf-mt-3">
+            <div className="lf-mini-card">
+              <div className="lf-muted">Communes with a code</div>
+              <div style={{ fontWeight: 750, fontSize: 20 }}>
+                {report.totals.mapped} / {report.totals.communes}
+              </div>
+            </div>
+            <div className="lf-mini-card">
+              <div className="lf-muted">Courier communes</div>
+              <div style={{ fontWeight: 750, fontSize: 20 }}>{report.totals.carrierCommunes}</div>
+            </div>
+            <div className="lf-mini-card">
+              <div className="lf-muted">Courier wilayas not matched</div>
+              <div style={{ fontWeight: 750, fontSize: 20 }}>{report.totals.unmatchedWilayas}</div>
+            </div>
+          </div>
+        ) : (
+          <div className="lf-muted lf-mt-3">
+            No location table for this courier yet. Save its credentials, then use “Reload from courier”.
+          </div>
+        )}
+      </div>
+
+      {report.loaded && report.unmatchedCarrier.length ? (
+        <div className="lf-card lf-mt-4">
+          <div className="lf-card-title">Courier communes to review ({report.unmatchedCarrier.length})</div>
+          <div className="lf-muted">No confident match. Pick the commune it stands for.</div>
+          <div style={{ overflowX: "auto", marginTop: 8 }}>
+            <table className="lf-table" style={{ width: "100%" }}>
+              <thead>
+                <tr>
+                  <th>Courier commune</th>
+                  <th>Wilaya</th>
+                  <th>Best guess</th>
+                  <th>Map to</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.unmatchedCarrier.slice(0, MAX_ROWS).map((row) => (
+                  <MapRow key={row.id} row={row} provider={provider} communes={data.communes} />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+
+      {report.loaded ? (
+        <div className="lf-card lf-mt-4">
+          <div className="lf-card-title">Our communes without a courier code ({report.unmappedCommunes.length})</div>
+          {report.unmappedCommunes.length ? (
+            <div style={{ overflowX: "auto", marginTop: 8 }}>
+              <table className="lf-table" style={{ width: "100%" }}>
+                <thead>
+                  <tr>
+                    <th>Commune</th>
+                    <th>Wilaya</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.unmappedCommunes.slice(0, MAX_ROWS).map((c) => (
+                    <tr key={c.id} className="lf-row-hover">
+                      <td>
+                        <div style={{ fontWeight: 650 }}>{c.nameFr}</div>
+                        <div className="lf-muted">{c.nameAr}</div>
+                      </td>
+                      <td className="lf-muted">
+                        {String(c.wilayaCode).padStart(2, "0")} — {wilayaName(c.wilayaCode)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {report.unmappedCommunes.length > MAX_ROWS ? (
+                <div className="lf-muted lf-mt-2">Showing {MAX_ROWS}; filter by wilaya to see the rest.</div>
+              ) : null}
+            </div>
+          ) : (
+            <div className="lf-muted lf-mt-2">Every commune has a code.</div>
+          )}
+        </div>
+      ) : null}
+
+      {report.manual.length ? (
+        <div className="lf-card lf-mt-4">
+          <div className="lf-card-title">Manual mappings</div>
+          <div style={{ overflowX: "auto", marginTop: 8 }}>
+            <table className="lf-table" style={{ width: "100%" }}>
+              <tbody>
+                {report.manual.map((m) => (
+                  <tr key={m.id} className="lf-row-hover">
+                    <td>{m.name}</td>
+                    <td className="lf-muted">→ {m.communeName ?? "—"}</td>
+                    <td className="lf-muted">{m.wilayaCode ?? "—"}</td>
+                    <td>
+                      <ClearMappingButton id={m.id} provider={provider} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+export const headers: HeadersFunction = (args) => boundary.headers(args);
@@ -42,7 +42,11 @@ export default function App() {
         <NavLink href="/app/requests" label="Orders" match="prefix" />
         <NavLink href="/app/integrations" label="Google sheets" match="prefix" />
         <NavLink href="/app/pixels" label="Pixels" match="prefix" />
+        <NavLink href="/app/delivery" label="Delivery" match="prefix" />
+        <NavLink href="/app/shipping" label="Shipping" match="prefix" />
+        <NavLink href="/app/analytics" label="Analytics" match="prefix" />
         <NavLink href="/app/forms" label="Form Builder" match="prefix" />
+        <NavLink href="/app/roles" label="Roles" match="prefix" />
         <NavLink href="/app/requests/basket" label="Trash" match="exact" />
       </s-app-nav>
 
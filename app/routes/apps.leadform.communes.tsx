@@ -1,6 +1,7 @@
 // app/routes/apps.leadform.communes.tsx
 import type { LoaderFunctionArgs } from "react-router";
 import prisma from "~/db.server";
+import { getCommuneQuotes, hasDeliveryOptions } from "~/lib/delivery.server";
 import { createHmac, timingSafeEqual } from "node:crypto";
 import { parse as parseQuery } from "node:querystring";
 
@@ -76,18 +77,29 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
   // Ensure Shop exists (optional)
   const shopDomain: string = verified.shop;
-  await prisma.shop.upsert({
+  const shop = await prisma.shop.upsert({
     where: { shopDomain },
     update: { uninstalledAt: null },
     create: { shopDomain, installedAt: new Date() },
     select: { id: true },
   });
 
-  const communes = await prisma.geoCommune.findMany({
-    where: { wilayaCode },
-    orderBy: { nameFr: "asc" },
-    select: { id: true, wilayaCode: true, nameFr: true, nameAr: true },
+  const [communes, quotes] = await Promise.all([
+    prisma.geoCommune.findMany({
+      where: { wilayaCode },
+      orderBy: { nameFr: "asc" },
+      select: { id: true, wilayaCode: true, nameFr: true, nameAr: true },
+    }),
+    getCommuneQuotes(shop.id, wilayaCode),
+  ]);
+
+  // Commune overrides applied; null when neither the wilaya nor the commune has a rate
+  return json({
+    ok: true,
+    wilayaCode,
+    communes: communes.map((c) => {
+      const q = quotes.quoteFor(c.id);
+      return { ...c, delivery: hasDeliveryOptions(q) ? q : null };
+    }),
   });
-
-  return json({ ok: true, wilayaCode, communes });
 };
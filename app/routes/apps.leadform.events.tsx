@@ -0,0 +1,86 @@
+// app/routes/apps.leadform.events.tsx
+import type { ActionFunctionArgs } from "react-router";
+import prisma from "~/db.server";
+import {
+  asPlacementOrNull,
+  asRoleTypeOrNull,
+  recordAnalyticsEvent,
+  STOREFRONT_EVENTS,
+} from "~/lib/analytics.server";
+import { verifyAppProxyRequest } from "~/lib/appProxy.server";
+
+/**
+ * Storefront analytics beacon (navigator.sendBeacon → App Proxy).
+ * Accepts only storefront-side funnel events; submit/confirm/sync are emitted server-side.
+ */
+
+function json(data: unknown, status = 200) {
+  return new Response(JSON.stringify(data), {
+    status,
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+async function readJsonBody(request: Request): Promise<Record<string, any> | null> {
+  // sendBeacon posts text/plain; parse the raw text regardless of content-type
+  const text = await request.text().catch(() => "");
+  if (!text || text.length > 8192) return null;
+  try {
+    const body = JSON.parse(text);
+    return body && typeof body === "object" && !Array.isArray(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const url = new URL(request.url);
+
+  const verified = verifyAppProxyRequest(url);
+  if (!verified.ok) return json({ ok: false, error: verified.reason }, 401);
+
+  if (request.method !== "POST") {
+    return json({ ok: false, error: "Method not allowed" }, 405);
+  }
+
+  const body = await readJsonBody(request);
+  if (!body) return json({ ok: false, error: "Invalid body" }, 400);
+
+  const type = STOREFRONT_EVENTS.find((t) => t === body.type);
+  if (!type) return json({ ok: false, error: "Unsupported event" }, 400);
+
+  const shop = await prisma.shop.findUnique({
+    where: { shopDomain: verified.shop },
+    select: { id: true },
+  });
+  if (!shop) return json({ ok: false, error: "Shop not found" }, 404);
+
+  // Only keep formId when it belongs to this shop (FK + tenancy)
+  const formId =
+    typeof body.formId === "string" && body.formId
+      ? (
+          await prisma.form.findFirst({
+            where: { id: body.formId, shopId: shop.id },
+            select: { id: true },
+          })
+        )?.id ?? null
+      : null;
+
+  await recordAnalyticsEvent({
+    shopId: shop.id,
+    type,
+    roleType: asRoleTypeOrNull(body.roleType),
+    formId,
+    placement: asPlacementOrNull(body.placement),
+    pageUrl: body.pageUrl,
+    referrer: body.referrer,
+    meta: {
+      userAgent: request.headers.get("user-agent") ?? null,
+    },
+  });
+
+  return json({ ok: true });
+};
@@ -1,6 +1,7 @@
 // app/routes/apps.leadform.form.tsx
 import type { LoaderFunctionArgs } from "react-router";
 import prisma from "~/db.server";
+import { resolveActiveForm, resolveFormForRole, type ResolvedForm } from "~/lib/forms.server";
 import { createHmac, timingSafeEqual } from "node:crypto";
 import { parse as parseQuery } from "node:querystring";
 
@@ -49,6 +50,30 @@ function verifyAppProxyRequest(url: URL): VerifyResult {
   return ok ? { ok: true, shop } : { ok: false, reason: "Bad signature" };
 }
 
+function serializeForm(form: ResolvedForm) {
+  return {
+    id: form.id,
+    slug: form.slug,
+    name: form.name,
+    placement: form.placement,
+    ui: form.ui,
+    fields: form.fields.map((f) => ({
+      id: f.id,
+      type: f.type,
+      label: f.label,
+      nameKey: f.nameKey,
+      placeholder: f.placeholder,
+      helpText: f.helpText,
+      required: f.required,
+      visible: f.visible,
+      options: f.options,
+      validation: f.validation,
+      errorMessage: f.errorMessage,
+      orderIndex: f.orderIndex,
+    })),
+  };
+}
+
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const url = new URL(request.url);
   const verified = verifyAppProxyRequest(url);
@@ -66,28 +91,29 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
   const settings = await prisma.shopSettings.findUnique({
     where: { shopId: shop.id },
-    select: { currentFormId: true, showPriceForIndividuals: true },
+    select: { showPriceForIndividuals: true },
   });
 
-  const form =
-    (settings?.currentFormId
-      ? await prisma.form.findFirst({
-          where: { id: settings.currentFormId, shopId: shop.id },
-          include: { fields: { orderBy: { orderIndex: "asc" } } },
-        })
-      : null) ||
-    (await prisma.form.findFirst({
-      where: { shopId: shop.id, isActive: true },
-      include: { fields: { orderBy: { orderIndex: "asc" } } },
-      orderBy: { updatedAt: "desc" },
-    }));
+  const form = await resolveActiveForm(shop.id);
 
   const roles = await prisma.role.findMany({
     where: { shopId: shop.id, active: true },
     orderBy: [{ type: "asc" }],
-    include: { requirements: { orderBy: { createdAt: "asc" } } },
+    include: { requirements: { orderBy: [{ orderIndex: "asc" }, { createdAt: "asc" }] } },
   });
 
+  const formsById = new Map<string, ResolvedForm>();
+  if (form) formsById.set(form.id, form);
+
+  const roleFormIds = new Map<string, string>();
+  for (const r of roles) {
+    if (!r.formId || r.formId === form?.id) continue;
+    const roleForm = await resolveFormForRole(shop.id, r.type);
+    if (!roleForm) continue;
+    formsById.set(roleForm.id, roleForm);
+    roleFormIds.set(r.type, roleForm.id);
+  }
+
   // Public pixel config for storefront (IDs only; no secrets)
   const pixels = await prisma.trackingPixel.findMany({
     where: { shopId: shop.id, enabled: true },
@@ -101,32 +127,13 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     settings: {
       showPriceForIndividuals: settings?.showPriceForIndividuals ?? false,
     },
-    form: form
-      ? {
-          id: form.id,
-          slug: form.slug,
-          name: form.name,
-          placement: form.placement,
-          ui: form.ui,
-          fields: form.fields.map((f) => ({
-            id: f.id,
-            type: f.type,
-            label: f.label,
-            nameKey: f.nameKey,
-            placeholder: f.placeholder,
-            helpText: f.helpText,
-            required: f.required,
-            visible: f.visible,
-            options: f.options,
-            validation: f.validation,
-            errorMessage: f.errorMessage,
-            orderIndex: f.orderIndex,
-          })),
-        }
-      : null,
+    form: form ? serializeForm(form) : null,
+    // Forms keyed by id; each role points at its own (override or default)
+    forms: Object.fromEntries(Array.from(formsById.values()).map((f) => [f.id, serializeForm(f)])),
     roles: roles.map((r) => ({
       id: r.id,
       type: r.type,
+      formId: roleFormIds.get(r.type) ?? form?.id ?? null,
       title: r.title,
       description: r.description,
       ui: r.ui,
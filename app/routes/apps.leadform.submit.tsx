@@ -9,8 +9,17 @@ import {
   uploadToSupabase,
   validateUploadFile,
 } from "~/lib/uploads.server";
-import { syncRequestToPrimarySheet } from "~/lib/sheets.server";
-import { firePixelsForRequest } from "~/lib/pixels.server";
+import { enqueueRequestSubmittedJobs } from "~/lib/jobs.server";
+import { notifyRequestReceived } from "~/lib/notifications.server";
+import { asPlacementOrNull, recordAnalyticsEvent } from "~/lib/analytics.server";
+import { resolveFormForRole } from "~/lib/forms.server";
+import { CORE_FIELD_KEYS, validateSubmission } from "~/lib/formValidation.server";
+import {
+  asDeliveryType,
+  resolveDeliveryOption,
+  shopHasDeliveryRates,
+  type DeliveryOption,
+} from "~/lib/delivery.server";
 
 function json(data: unknown, status = 200) {
   return new Response(JSON.stringify(data), {
@@ -91,6 +100,41 @@ function asFiles(val: any): File[] {
   return [];
 }
 
+// Files posted without a requirement key (documents, documents[], files, ...)
+const LEGACY_DOCUMENTS_KEY = "documents";
+
+const DOCUMENT_KEY_RE = /^documents\[([a-z0-9_]{1,40})\]$/;
+
+/**
+ * Group uploaded files by requirement key: `documents[rc]`, `documents[nif]`, ...
+ * Form-builder file fields post under their nameKey (`upload`, `upload[]`) and
+ * are returned apart, in `byField`.
+ */
+function collectDocuments(body: Record<string, any>, fileFieldKeys: string[]) {
+  const byKey = new Map<string, File[]>();
+  const byField = new Map<string, File[]>();
+  const claimed = new Set<string>();
+
+  for (const key of fileFieldKeys) {
+    const list = [...asFiles(body[key]), ...asFiles(body[`${key}[]`])];
+    claimed.add(key).add(`${key}[]`);
+    if (list.length) byField.set(key, list);
+  }
+
+  for (const [name, val] of Object.entries(body)) {
+    const m = DOCUMENT_KEY_RE.exec(name);
+    if (!m) continue;
+    const list = asFiles(val);
+    if (list.length) byKey.set(m[1], [...(byKey.get(m[1]) ?? []), ...list]);
+  }
+
+  const unkeyed = ["document", "documents", "documents[]", "files", "files[]"]
+    .filter((name) => !claimed.has(name))
+    .flatMap((name) => asFiles(body[name]));
+
+  return { byKey, byField, unkeyed };
+}
+
 async function readBody(request: Request): Promise<Record<string, any> | null> {
   const ct = request.headers.get("content-type") || "";
 
@@ -164,37 +208,78 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     select: { id: true },
   });
 
-  const settings = await prisma.shopSettings.findUnique({
-    where: { shopId: shop.id },
-    select: { currentFormId: true },
-  });
-
-  const form =
-    (settings?.currentFormId
-      ? await prisma.form.findFirst({
-          where: { id: settings.currentFormId, shopId: shop.id },
-          select: { id: true },
-        })
-      : null) ||
-    (await prisma.form.findFirst({
-      where: { shopId: shop.id, isActive: true },
-      orderBy: { updatedAt: "desc" },
-      select: { id: true },
-    }));
+  // Role.formId override wins, so validation and Request.formId follow the role's form
+  const form = await resolveFormForRole(shop.id, roleType);
 
   const role = await prisma.role.findFirst({
     where: { shopId: shop.id, type: roleType, active: true },
     select: { id: true },
   });
 
-  const firstName = stringOrNull(body.firstName);
-  const lastName = stringOrNull(body.lastName);
-  const email = stringOrNull(body.email);
-  const phone = stringOrNull(body.phone);
-  const address = stringOrNull(body.address);
+  const baseValues = parseValues((body as any).values);
+
+  // Enforce the merchant's form schema (required, types, role visibility)
+  const validation = validateSubmission({
+    fields: form?.fields ?? [],
+    roleType,
+    body,
+    values: baseValues,
+  });
 
-  const wilayaCode = parseIntOrNull(body.wilayaCode);
-  const communeId = stringOrNull(body.communeId);
+  if (!validation.ok) {
+    return json({ ok: false, error: "Validation failed", fieldErrors: validation.errors }, 400);
+  }
+
+  // Keys hidden for this role never reach the request
+  const hidden = new Set(validation.hiddenKeys);
+  const core = (key: (typeof CORE_FIELD_KEYS)[number]) => (hidden.has(key) ? null : body[key]);
+
+  const firstName = stringOrNull(core("firstName"));
+  const lastName = stringOrNull(core("lastName"));
+  const email = stringOrNull(core("email"));
+  const phone = stringOrNull(core("phone"));
+  const address = stringOrNull(core("address"));
+
+  const wilayaCode = parseIntOrNull(core("wilayaCode"));
+  const communeId = stringOrNull(core("communeId"));
+
+  // The commune has to belong to the submitted wilaya (fees and the request both rely on it)
+  if (communeId) {
+    const commune = await prisma.geoCommune.findUnique({ where: { id: communeId }, select: { wilayaCode: true } });
+    if (!commune || commune.wilayaCode !== wilayaCode) {
+      return json(
+        {
+          ok: false,
+          error: "Validation failed",
+          fieldErrors: { communeId: "This commune is not in the selected wilaya" },
+        },
+        400
+      );
+    }
+  }
+
+  // Delivery fee is resolved from the shop's rate table, never taken from the client
+  const deliveryType = asDeliveryType(body.deliveryType);
+  let delivery: DeliveryOption | null = null;
+
+  if (deliveryType) {
+    delivery = await resolveDeliveryOption({ shopId: shop.id, wilayaCode, communeId, type: deliveryType });
+    if (!delivery) {
+      return json(
+        {
+          ok: false,
+          error: "Validation failed",
+          fieldErrors: { deliveryType: "This delivery option is not available for your area" },
+        },
+        400
+      );
+    }
+  } else if (await shopHasDeliveryRates(shop.id, wilayaCode)) {
+    return json(
+      { ok: false, error: "Validation failed", fieldErrors: { deliveryType: "Choose a delivery option" } },
+      400
+    );
+  }
 
   const pageUrl = stringOrNull(body.pageUrl);
   const referrer = stringOrNull(body.referrer) || request.headers.get("referer") || null;
@@ -208,7 +293,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   const productId = stringOrNull(body.productId);
   const variantId = stringOrNull(body.variantId);
-  const qty = parseQty(body.qty);
+  const qty = parseQty(core("qty"));
 
   const items =
     Array.isArray(body.items) && body.items.length
@@ -227,54 +312,111 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     return json({ ok: false, error: "At least one item is required" }, 400);
   }
 
-  const files = [
-    ...asFiles(body.document),
-    ...asFiles(body.documents),
-    ...asFiles(body["documents[]"]),
-    ...asFiles(body.files),
-    ...asFiles(body["files[]"]),
-  ];
-
-  const needsDoc = roleType === RoleType.installer || roleType === RoleType.company;
-
-  if (needsDoc && files.length === 0) {
-    return json({ ok: false, error: "Document is required for this role" }, 400);
+  const requirements = role?.id
+    ? await prisma.roleRequirement.findMany({
+        where: { roleId: role.id },
+        orderBy: [{ orderIndex: "asc" }, { createdAt: "asc" }],
+        select: {
+          key: true,
+          label: true,
+          required: true,
+          acceptedMimeTypes: true,
+          maxSizeBytes: true,
+        },
+      })
+    : [];
+
+  const fileFields = (form?.fields ?? []).filter((f) => f.type === "file" && !hidden.has(f.nameKey));
+  const documents = collectDocuments(body, fileFields.map((f) => f.nameKey));
+
+  // Legacy clients post unkeyed files; they only map unambiguously onto a single requirement
+  if (documents.unkeyed.length) {
+    const target = requirements.length === 1 ? requirements[0].key : LEGACY_DOCUMENTS_KEY;
+    documents.byKey.set(target, [...(documents.byKey.get(target) ?? []), ...documents.unkeyed]);
   }
 
+  const files = [...documents.byKey.values(), ...documents.byField.values()].flat();
+
   if (files.length > 10) {
     return json({ ok: false, error: "Maximum 10 files allowed" }, 400);
   }
 
-  const requirement =
-    needsDoc && role?.id
-      ? await prisma.roleRequirement.findFirst({
-          where: { roleId: role.id, required: true },
-          orderBy: { createdAt: "asc" },
-          select: {
-            key: true,
-            label: true,
-            acceptedMimeTypes: true,
-            maxSizeBytes: true,
-          },
-        })
-      : null;
+  // Each requirement is checked on its own: presence, MIME types and size limit
+  const documentErrors: Record<string, string> = {};
+  const byRequirement = new Map(requirements.map((r) => [r.key, r]));
 
-  const defaultAllowed = ["application/pdf", "image/*"];
-  const allowedMimeTypes = Array.from(
-    new Set([...(requirement?.acceptedMimeTypes ?? []), ...defaultAllowed])
-  );
+  for (const key of documents.byKey.keys()) {
+    if (key !== LEGACY_DOCUMENTS_KEY && !byRequirement.has(key)) {
+      return json({ ok: false, error: `Unknown document: ${key}` }, 400);
+    }
+  }
+
+  for (const req of requirements) {
+    const list = documents.byKey.get(req.key) ?? [];
 
-  for (const f of files) {
+    if (!list.length) {
+      if (req.required) documentErrors[`documents[${req.key}]`] = `${req.label} is required`;
+      continue;
+    }
+
+    for (const f of list) {
+      try {
+        validateUploadFile(f, {
+          allowedMimeTypes: req.acceptedMimeTypes.length ? req.acceptedMimeTypes : undefined,
+          maxSizeBytes: req.maxSizeBytes ?? undefined,
+        });
+      } catch (e: any) {
+        documentErrors[`documents[${req.key}]`] = `${req.label}: ${e?.message || "Invalid file"}`;
+        break;
+      }
+    }
+  }
+
+  // Form-builder file fields: accept list and single/multiple from the field options
+  for (const field of fileFields) {
+    const list = documents.byField.get(field.nameKey) ?? [];
+    const options: any = field.options ?? {};
+
+    if (!list.length) {
+      if (field.required) documentErrors[field.nameKey] = field.errorMessage || `${field.label} is required`;
+      continue;
+    }
+    if (list.length > 1 && !options.multiple) {
+      documentErrors[field.nameKey] = `${field.label}: only one file allowed`;
+      continue;
+    }
+
+    for (const f of list) {
+      try {
+        validateUploadFile(f, {
+          allowedMimeTypes: Array.isArray(options.accept) && options.accept.length ? options.accept.map(String) : undefined,
+        });
+      } catch (e: any) {
+        documentErrors[field.nameKey] = `${field.label}: ${e?.message || "Invalid file"}`;
+        break;
+      }
+    }
+  }
+
+  for (const f of documents.byKey.get(LEGACY_DOCUMENTS_KEY) ?? []) {
     try {
-      validateUploadFile(f, {
-        allowedMimeTypes,
-        maxSizeBytes: requirement?.maxSizeBytes ?? undefined,
-      });
+      validateUploadFile(f);
     } catch (e: any) {
       return json({ ok: false, error: e?.message || "Invalid file" }, 400);
     }
   }
 
+  if (Object.keys(documentErrors).length) {
+    return json(
+      {
+        ok: false,
+        error: Object.values(documentErrors)[0],
+        fieldErrors: documentErrors,
+      },
+      400
+    );
+  }
+
   if (idempotencyKey) {
     const existing = await prisma.request.findFirst({
       where: { shopId: shop.id, idempotencyKey: String(idempotencyKey) },
@@ -287,7 +429,12 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   const primary = items[0];
 
-  const baseValues = parseValues((body as any).values);
+  // Raw form keys are replaced by their validated values (hidden ones are dropped)
+  const formKeys = new Set((form?.fields ?? []).map((f) => f.nameKey));
+  const extraValues = Object.fromEntries(
+    Object.entries(baseValues).filter(([k]) => !formKeys.has(k))
+  );
+
   const productTitle =
     stringOrNull(body.productTitle) || stringOrNull((baseValues as any)?.productTitle);
   const productUrl =
@@ -296,7 +443,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     stringOrNull(body.productImageUrl) || stringOrNull((baseValues as any)?.productImageUrl);
 
   const values = {
-    ...(baseValues || {}),
+    ...extraValues,
+    ...validation.values,
     ...(productTitle ? { productTitle } : {}),
     ...(productUrl ? { productUrl } : {}),
     ...(productImageUrl ? { productImageUrl } : {}),
@@ -321,6 +469,9 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       wilayaCode,
       communeId,
 
+      deliveryType,
+      deliveryFee: delivery?.price ?? null,
+
       pageUrl,
       referrer,
       ip,
@@ -340,8 +491,28 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   if (files.length) {
     const bucket = process.env.SUPABASE_REVIEW_MEDIA_BUCKET || "leadform-uploads";
 
+    // Role documents keep their requirement key; form file fields are stored as `field:<nameKey>`
+    const toStore = [
+      ...Array.from(documents.byKey, ([key, list]) =>
+        list.map((f) => ({
+          f,
+          key,
+          label: byRequirement.get(key)?.label || f.name || "Document",
+          purpose: "role_document" as const,
+        }))
+      ),
+      ...fileFields.map((field) =>
+        (documents.byField.get(field.nameKey) ?? []).map((f) => ({
+          f,
+          key: `field:${field.nameKey}`,
+          label: field.label || f.name || "Upload",
+          purpose: "other" as const,
+        }))
+      ),
+    ].flat();
+
     try {
-      for (const f of files) {
+      for (const { f, key, label, purpose } of toStore) {
         const path = makeRequestUploadPath({
           shopId: shop.id,
           requestId: created.id,
@@ -360,7 +531,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             mimeType: up.mimeType,
             sizeBytes: up.sizeBytes,
             checksum: up.checksum,
-            purpose: "role_document",
+            purpose,
           },
           select: { id: true },
         });
@@ -369,8 +540,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
           data: {
             requestId: created.id,
             uploadId: uploadRow.id,
-            requirementKey: requirement?.key ?? "documents",
-            label: f.name || requirement?.label || "Document",
+            requirementKey: key,
+            label,
           },
           select: { id: true },
         });
@@ -381,35 +552,27 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     }
   }
 
-  // Fire pixels (best-effort; keep short await to increase reliability on serverless)
-  await Promise.race([
-    firePixelsForRequest({
-      shopId: shop.id,
-      event: "request_submitted",
-      request: {
-        id: created.id,
-        email,
-        phone,
-        ip,
-        userAgent,
-        pageUrl,
-        referrer,
-        productId: primary.productId!,
-        qty: primary.qty,
-        createdAt: created.createdAt,
-        items: (items as any).map((it: any) => ({
-          productId: it.productId!,
-          qty: it.qty,
-        })),
-        currency: "DZD",
-        value: 0,
-      },
-    }),
-    new Promise((resolve) => setTimeout(resolve, 800)),
-  ]).catch(() => {});
+  // Sheets sync + pixels run in the background queue (retried with backoff on outages).
+  // Pricing (a Shopify Admin call) happens there too, off the customer's response.
+  await enqueueRequestSubmittedJobs({
+    shopId: shop.id,
+    shopDomain: verified.shop,
+    requestId: created.id,
+  }).catch((e: any) => console.error("[submit] enqueue jobs failed:", e?.message || e));
+
+  await recordAnalyticsEvent({
+    shopId: shop.id,
+    type: "request_submitted",
+    roleType,
+    formId: form?.id ?? null,
+    placement: asPlacementOrNull(body.placement),
+    pageUrl,
+    referrer,
+    requestId: created.id,
+  });
 
-  // DB -> Sheet (best-effort; never block customer)
-  syncRequestToPrimarySheet(verified.shop, created.id).catch(() => {});
+  // Email NotificationRecipient list (best-effort; every delivery is logged)
+  notifyRequestReceived(created.id).catch(() => {});
 
   return json({
     ok: true,
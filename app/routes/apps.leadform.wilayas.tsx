@@ -1,6 +1,7 @@
 // app/routes/apps.leadform.wilayas.tsx
 import type { LoaderFunctionArgs } from "react-router";
 import prisma from "~/db.server";
+import { getWilayaQuotes, hasDeliveryOptions, shopCurrency } from "~/lib/delivery.server";
 import { createHmac, timingSafeEqual } from "node:crypto";
 import { parse as parseQuery } from "node:querystring";
 
@@ -57,17 +58,29 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
   // Ensure Shop exists (optional, but keeps tenancy consistent)
   const shopDomain: string = verified.shop;
-  await prisma.shop.upsert({
+  const shop = await prisma.shop.upsert({
     where: { shopDomain },
     update: { uninstalledAt: null },
     create: { shopDomain, installedAt: new Date() },
     select: { id: true },
   });
 
-  const wilayas = await prisma.geoWilaya.findMany({
-    orderBy: { code: "asc" },
-    select: { code: true, nameFr: true, nameAr: true },
-  });
+  const [wilayas, quotes, currency] = await Promise.all([
+    prisma.geoWilaya.findMany({
+      orderBy: { code: "asc" },
+      select: { code: true, nameFr: true, nameAr: true },
+    }),
+    getWilayaQuotes(shop.id),
+    shopCurrency(shop.id),
+  ]);
 
-  return json({ ok: true, wilayas });
+  // delivery: { home, desk } fees per wilaya (null when the shop has no rate)
+  return json({
+    ok: true,
+    currency,
+    wilayas: wilayas.map((w) => {
+      const q = quotes.get(w.code);
+      return { ...w, delivery: hasDeliveryOptions(q) ? q : null };
+    }),
+  });
 };
@@ -0,0 +1,32 @@
+/**
+ * Request status labels + badge, shared by the list, basket and detail views.
+ * Order = lifecycle order (filters, selects, workflow matrix).
+ */
+export const REQUEST_STATUSES = [
+  { value: "received", label: "New", badge: "lf-badge lf-badge--pending" },
+  { value: "in_review", label: "In review", badge: "lf-badge lf-badge--review" },
+  { value: "contacted", label: "Contacted", badge: "lf-badge lf-badge--contacted" },
+  { value: "confirmed", label: "Confirmed", badge: "lf-badge lf-badge--approved" },
+  { value: "cancelled", label: "Cancelled", badge: "lf-badge lf-badge--rejected" },
+  { value: "spam", label: "Spam", badge: "lf-badge lf-badge--spam" },
+  { value: "archived", label: "Trash", badge: "lf-badge lf-badge--basket" },
+] as const;
+
+export type RequestStatusValue = (typeof REQUEST_STATUSES)[number]["value"];
+
+export function statusLabel(s: string) {
+  return REQUEST_STATUSES.find((x) => x.value === s)?.label ?? s;
+}
+
+export function statusBadgeClass(s: string) {
+  return REQUEST_STATUSES.find((x) => x.value === s)?.badge ?? "lf-badge";
+}
+
+export function StatusBadge({ status }: { status: string }) {
+  return (
+    <span className={statusBadgeClass(status)} title={status}>
+      <span className="lf-dot" />
+      {statusLabel(status)}
+    </span>
+  );
+}
@@ -0,0 +1,17 @@
+/**
+ * Posts an export form to /app/requests/export and saves the response.
+ * Goes through fetch() so App Bridge adds the session token; throws with the
+ * server message on failure.
+ */
+export async function downloadExport(body: FormData, fallbackName: string) {
+  const res = await fetch("/app/requests/export", { method: "POST", body });
+  if (!res.ok) throw new Error((await res.text()) || `HTTP ${res.status}`);
+  const blob = await res.blob();
+  const name = /filename="([^"]+)"/.exec(res.headers.get("Content-Disposition") || "")?.[1] || fallbackName;
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,907 @@
+/**
+ * LeadForm storefront widget (theme app embed + app block).
+ *
+ * Talks to the App Proxy (Shopify signs every call):
+ * - GET  /apps/leadform/form      -> form + roles + public pixel config
+ * - GET  /apps/leadform/wilayas   -> wilaya list (+ shop delivery fees per wilaya)
+ * - GET  /apps/leadform/communes  -> communes for a wilaya (+ fees with commune overrides)
+ * - POST /apps/leadform/submit    -> multipart submission (idempotent)
+ * - POST /apps/leadform/events    -> analytics beacon (form_opened, role_selected)
+ *
+ * Placements: inline, landing (rendered in place), popup, slidein (opened by a button/trigger).
+ */
+(function () {
+  "use strict";
+
+  if (window.__leadformWidget) return;
+  window.__leadformWidget = true;
+
+  const ROLE_TYPES = ["individual", "installer", "company"];
+  const CORE_KEYS = ["firstName", "lastName", "email", "phone", "address", "wilayaCode", "communeId", "qty"];
+
+  // Mirrors server defaults in app/lib/pixels.server.ts (overridable via events.map)
+  const PIXEL_EVENT_NAMES = {
+    facebook: {
+      form_opened: "ViewContent",
+      role_selected: "InitiateCheckout",
+      request_submitted: "Lead",
+      request_confirmed: "Purchase",
+    },
+    tiktok: {
+      form_opened: "ViewContent",
+      role_selected: "InitiateCheckout",
+      request_submitted: "SubmitForm",
+      request_confirmed: "CompletePayment",
+    },
+    google: {
+      form_opened: "page_view",
+      role_selected: "begin_checkout",
+      request_submitted: "generate_lead",
+      request_confirmed: "purchase",
+    },
+  };
+
+  const configCache = new Map();
+  const wilayaCache = new Map();
+  const communeCache = new Map();
+
+  function el(tag, attrs, children) {
+    const node = document.createElement(tag);
+    if (attrs) {
+      for (const key of Object.keys(attrs)) {
+        const v = attrs[key];
+        if (v === null || v === undefined || v === false) continue;
+        if (key === "className") node.className = v;
+        else if (key === "text") node.textContent = v;
+        else if (key.startsWith("on") && typeof v === "function") node.addEventListener(key.slice(2), v);
+        else node.setAttribute(key, v === true ? "" : String(v));
+      }
+    }
+    for (const child of [].concat(children || [])) {
+      if (child === null || child === undefined || child === false) continue;
+      node.appendChild(typeof child === "string" ? document.createTextNode(child) : child);
+    }
+    return node;
+  }
+
+  function uuid() {
+    if (window.crypto && typeof window.crypto.randomUUID === "function") return window.crypto.randomUUID();
+    return "lf-" + Date.now().toString(36) + "-" + Math.random().toString(36).slice(2, 12);
+  }
+
+  async function getJson(url) {
+    const res = await fetch(url, { credentials: "same-origin", headers: { Accept: "application/json" } });
+    const body = await res.json().catch(() => null);
+    if (!res.ok || !body || body.ok === false) {
+      throw new Error((body && body.error) || "Request failed (" + res.status + ")");
+    }
+    return body;
+  }
+
+  function loadConfig(proxy) {
+    if (!configCache.has(proxy)) configCache.set(proxy, getJson(proxy + "/form"));
+    return configCache.get(proxy);
+  }
+
+  // -> { wilayas, currency }
+  function loadWilayas(proxy) {
+    if (!wilayaCache.has(proxy)) {
+      wilayaCache.set(
+        proxy,
+        getJson(proxy + "/wilayas").then((r) => ({ wilayas: r.wilayas || [], currency: r.currency || "" }))
+      );
+    }
+    return wilayaCache.get(proxy);
+  }
+
+  function loadCommunes(proxy, wilayaCode) {
+    const key = proxy + "|" + wilayaCode;
+    if (!communeCache.has(key)) {
+      communeCache.set(
+        key,
+        getJson(proxy + "/communes?wilayaCode=" + encodeURIComponent(wilayaCode)).then((r) => r.communes || [])
+      );
+    }
+    return communeCache.get(key);
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Browser-side pixels
+  // ───────────────────────────────────────────────────────────────────────────
+
+  function loadScript(src) {
+    const s = document.createElement("script");
+    s.async = true;
+    s.src = src;
+    document.head.appendChild(s);
+  }
+
+  const initializedPixels = new Set();
+
+  function ensureFacebook(pixelId) {
+    if (!window.fbq) {
+      const n = function () {
+        if (n.callMethod) n.callMethod.apply(n, arguments);
+        else n.queue.push(arguments);
+      };
+      window.fbq = n;
+      if (!window._fbq) window._fbq = n;
+      n.push = n;
+      n.loaded = true;
+      n.version = "2.0";
+      n.queue = [];
+      loadScript("https://connect.facebook.net/en_US/fbevents.js");
+    }
+    if (!initializedPixels.has("facebook:" + pixelId)) {
+      initializedPixels.add("facebook:" + pixelId);
+      window.fbq("init", pixelId);
+    }
+  }
+
+  function ensureTikTok(pixelId) {
+    const ttq = (window.ttq = window.ttq || []);
+    if (!ttq.methods) {
+      ttq.methods = ["page", "track", "identify", "instances", "debug", "on", "off", "once", "ready", "alias", "group"];
+      ttq.setAndDefer = function (target, method) {
+        target[method] = function () {
+          target.push([method].concat(Array.prototype.slice.call(arguments, 0)));
+        };
+      };
+      for (const m of ttq.methods) ttq.setAndDefer(ttq, m);
+      ttq.instance = function (id) {
+        const inst = (ttq._i && ttq._i[id]) || [];
+        for (const m of ttq.methods) ttq.setAndDefer(inst, m);
+        return inst;
+      };
+      ttq.load = function (id) {
+        const url = "https://analytics.tiktok.com/i18n/pixel/events.js";
+        ttq._i = ttq._i || {};
+        ttq._i[id] = [];
+        ttq._i[id]._u = url;
+        ttq._t = ttq._t || {};
+        ttq._t[id] = +new Date();
+        loadScript(url + "?sdkid=" + encodeURIComponent(id) + "&lib=ttq");
+      };
+    }
+    if (!initializedPixels.has("tiktok:" + pixelId)) {
+      initializedPixels.add("tiktok:" + pixelId);
+      if (!(ttq._i && ttq._i[pixelId])) ttq.load(pixelId);
+    }
+  }
+
+  function ensureGoogle(measurementId) {
+    if (!window.gtag) {
+      window.dataLayer = window.dataLayer || [];
+      window.gtag = function () {
+        window.dataLayer.push(arguments);
+      };
+      window.gtag("js", new Date());
+      loadScript("https://www.googletagmanager.com/gtag/js?id=" + encodeURIComponent(measurementId));
+    }
+    if (!initializedPixels.has("google:" + measurementId)) {
+      initializedPixels.add("google:" + measurementId);
+      window.gtag("config", measurementId, { send_page_view: false });
+    }
+  }
+
+  function firePixels(pixels, ev, ctx) {
+    for (const p of pixels || []) {
+      const events = p.events || {};
+      if (events[ev] !== true) continue;
+
+      const name = (events.map && events.map[ev]) || (PIXEL_EVENT_NAMES[p.platform] || {})[ev];
+      if (!name || !p.pixelId) continue;
+
+      const contents = ctx.productId ? [{ id: ctx.productId, quantity: ctx.qty || 1 }] : [];
+
+      try {
+        if (p.platform === "facebook") {
+          ensureFacebook(p.pixelId);
+          window.fbq(
+            "trackSingle",
+            p.pixelId,
+            name,
+            { content_type: "product", content_ids: contents.map((c) => c.id), contents: contents },
+            ctx.eventId ? { eventID: ctx.eventId } : undefined
+          );
+        } else if (p.platform === "tiktok") {
+          ensureTikTok(p.pixelId);
+          window.ttq.instance(p.pixelId).track(
+            name,
+            {
+              content_type: "product",
+              contents: contents.map((c) => ({ content_id: c.id, quantity: c.quantity })),
+            },
+            ctx.eventId ? { event_id: ctx.eventId } : undefined
+          );
+        } else if (p.platform === "google") {
+          ensureGoogle(p.pixelId);
+          window.gtag("event", name, {
+            send_to: p.pixelId,
+            items: contents.map((c) => ({ item_id: c.id, quantity: c.quantity })),
+            transaction_id: ctx.eventId || undefined,
+          });
+        }
+      } catch (e) {
+        // never break the form because of a pixel
+        if (window.console) window.console.warn("[leadform] pixel failed", p.platform, e);
+      }
+    }
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Fields
+  // ───────────────────────────────────────────────────────────────────────────
+
+  function visibleFor(field) {
+    const raw = field.options && Array.isArray(field.options.visibleFor) ? field.options.visibleFor : null;
+    return raw && raw.length ? raw : ROLE_TYPES;
+  }
+
+  function isVisible(field, roleType) {
+    return field.visible !== false && visibleFor(field).indexOf(roleType) !== -1;
+  }
+
+  function datasourceOf(field) {
+    const ds = field.options && field.options.datasource;
+    if (ds) return ds;
+    if (field.nameKey === "wilayaCode") return "wilayas";
+    if (field.nameKey === "communeId") return "communes";
+    return null;
+  }
+
+  function optionItems(field) {
+    const items = field.options && Array.isArray(field.options.items) ? field.options.items : [];
+    return items
+      .map((x) => ({ label: String(x.label || x.value || ""), value: String(x.value || x.label || "") }))
+      .filter((x) => x.value);
+  }
+
+  function fillSelect(select, items, placeholder) {
+    select.innerHTML = "";
+    select.appendChild(el("option", { value: "", text: placeholder || "—" }));
+    for (const it of items) select.appendChild(el("option", { value: it.value, text: it.label }));
+  }
+
+  function geoLabel(row, locale) {
+    return locale && locale.indexOf("ar") === 0 ? row.nameAr || row.nameFr : row.nameFr || row.nameAr;
+  }
+
+  function renderControl(widget, field) {
+    const name = field.nameKey;
+    const id = "lf-" + widget.uid + "-" + name;
+    const common = { id: id, name: name, required: field.required || null, className: "lf-w-input" };
+
+    if (field.type === "textarea") {
+      return el("textarea", Object.assign({}, common, { placeholder: field.placeholder, rows: 3 }));
+    }
+
+    if (field.type === "select") {
+      const select = el("select", common);
+      const ds = datasourceOf(field);
+
+      if (ds === "wilayas") {
+        fillSelect(select, [], "…");
+        loadWilayas(widget.proxy)
+          .then((r) =>
+            fillSelect(
+              select,
+              r.wilayas.map((w) => ({ value: String(w.code), label: w.code + " — " + geoLabel(w, widget.cfg.locale) })),
+              field.placeholder || field.label
+            )
+          )
+          .catch(() => fillSelect(select, [], field.placeholder || field.label));
+        select.addEventListener("change", () => widget.onWilayaChange(select.value));
+      } else if (ds === "communes") {
+        fillSelect(select, [], field.placeholder || field.label);
+        select.disabled = true;
+        select.addEventListener("change", () => widget.onCommuneChange(select.value));
+        widget.communeSelects.push(select);
+      } else {
+        fillSelect(select, optionItems(field), field.placeholder || field.label);
+      }
+      return select;
+    }
+
+    if (field.type === "multiselect" || field.type === "radio") {
+      const type = field.type === "radio" ? "radio" : "checkbox";
+      return el(
+        "div",
+        { className: "lf-w-choices", role: type === "radio" ? "radiogroup" : "group", id: id },
+        optionItems(field).map((it) =>
+          el("label", { className: "lf-w-choice" }, [
+            el("input", { type: type, name: name, value: it.value }),
+            el("span", { text: it.label }),
+          ])
+        )
+      );
+    }
+
+    if (field.type === "checkbox") {
+      return el("label", { className: "lf-w-choice" }, [
+        el("input", { type: "checkbox", name: name, value: "true", id: id }),
+        el("span", { text: field.placeholder || field.label }),
+      ]);
+    }
+
+    if (field.type === "file") {
+      const accept = field.options && Array.isArray(field.options.accept) ? field.options.accept.join(",") : null;
+      return el(
+        "input",
+        Object.assign({}, common, {
+          type: "file",
+          accept: accept,
+          multiple: field.options && field.options.multiple ? true : null,
+        })
+      );
+    }
+
+    const opts = field.options || {};
+    const rules = field.validation || {};
+    const inputType = ["email", "tel", "number", "date", "hidden"].indexOf(field.type) !== -1 ? field.type : "text";
+
+    const input = el(
+      "input",
+      Object.assign({}, common, {
+        type: inputType,
+        placeholder: field.placeholder,
+        min: rules.min ?? opts.min,
+        max: rules.max ?? opts.max,
+        step: rules.step ?? opts.step,
+        autocomplete:
+          name === "email" ? "email" : name === "phone" ? "tel" : name === "firstName" ? "given-name" : name === "lastName" ? "family-name" : null,
+      })
+    );
+
+    if (field.type === "hidden" && opts.defaultValue !== undefined) input.value = String(opts.defaultValue);
+    if (name === "qty" && !input.value) input.value = "1";
+    return input;
+  }
+
+  function renderField(widget, field) {
+    const control = renderControl(widget, field);
+    if (field.type === "hidden") return control;
+
+    const error = el("div", { className: "lf-w-error", "data-error-for": field.nameKey, "aria-live": "polite" });
+    const labelFor = field.type === "multiselect" || field.type === "radio" || field.type === "checkbox" ? null : control.id;
+
+    return el("div", { className: "lf-w-field", "data-field": field.nameKey }, [
+      field.type === "checkbox"
+        ? null
+        : el("label", { className: "lf-w-label", for: labelFor }, [field.label, field.required ? el("span", { className: "lf-w-req", text: " *" }) : null]),
+      control,
+      field.helpText ? el("div", { className: "lf-w-help", text: field.helpText }) : null,
+      error,
+    ]);
+  }
+
+  function renderRequirements(widget, role) {
+    const reqs = (role && role.requirements) || [];
+    return reqs.map((req) => {
+      // One input per requirement; the server validates each key against its own limits
+      const name = "documents[" + req.key + "]";
+      return el("div", { className: "lf-w-field", "data-field": name }, [
+        el("label", { className: "lf-w-label", for: "lf-" + widget.uid + "-doc-" + req.key }, [
+          req.label,
+          req.required ? el("span", { className: "lf-w-req", text: " *" }) : null,
+        ]),
+        el("input", {
+          type: "file",
+          id: "lf-" + widget.uid + "-doc-" + req.key,
+          name: name,
+          className: "lf-w-input",
+          accept: req.acceptedMimeTypes && req.acceptedMimeTypes.length ? req.acceptedMimeTypes.join(",") : "application/pdf,image/*",
+          required: req.required || null,
+          "data-requirement": req.key,
+        }),
+        req.description ? el("div", { className: "lf-w-help", text: req.description }) : null,
+        el("div", { className: "lf-w-error", "data-error-for": name, "aria-live": "polite" }),
+      ]);
+    });
+  }
+
+  const DELIVERY_LABELS = { home: "Home delivery", desk: "Stop desk" };
+
+  function formatFee(price, currency) {
+    if (!price) return "Free";
+    const n = Number(price);
+    return (Number.isInteger(n) ? String(n) : n.toFixed(2)) + (currency ? " " + currency : "");
+  }
+
+  function formatEta(opt) {
+    const min = opt.etaMinDays;
+    const max = opt.etaMaxDays;
+    if (min == null && max == null) return "";
+    if (min != null && max != null && min !== max) return min + "–" + max + " days";
+    const d = min != null ? min : max;
+    return d + (d === 1 ? " day" : " days");
+  }
+
+  // ───────────────────────────────────────────────────────────────────────────
+  // Widget
+  // ───────────────────────────────────────────────────────────────────────────
+
+  let uidSeq = 0;
+
+  function readConfig(root) {
+    const d = root.dataset;
+    return {
+      mode: d.mode || "embed",
+      proxy: d.proxy || "/apps/leadform",
+      placement: d.placement || "auto",
+      buttonLabel: d.buttonLabel || "",
+      showButton: d.showButton !== "false",
+      triggerSelector: d.triggerSelector || "",
+      locale: d.locale || document.documentElement.lang || "",
+      product: d.productId
+        ? {
+            productId: d.productId,
+            variantId: d.variantId || null,
+            title: d.productTitle || null,
+            url: d.productUrl || null,
+            imageUrl: d.productImage || null,
+          }
+        : null,
+    };
+  }
+
+  function resolvePlacement(cfg, form) {
+    const wanted = cfg.placement !== "auto" ? cfg.placement : (form && form.placement) || "popup";
+    // The app embed lives in <body>: it cannot render in place
+    if (cfg.mode === "embed" && (wanted === "inline" || wanted === "landing")) return "popup";
+    return wanted;
+  }
+
+  function Widget(root) {
+    this.root = root;
+    this.uid = ++uidSeq;
+    this.cfg = readConfig(root);
+    this.proxy = this.cfg.proxy;
+    this.data = null;
+    this.roleType = null;
+    this.opened = false;
+    this.idempotencyKey = uuid();
+    this.communeSelects = [];
+    this.wilayaCode = "";
+  }
+
+  Widget.prototype.mount = async function () {
+    try {
+      this.data = await loadConfig(this.proxy);
+    } catch (e) {
+      if (window.console) window.console.warn("[leadform] config failed", e);
+      return;
+    }
+    // The default form drives the shell (title, placement); roles may point at their own form
+    const forms = this.data.forms || {};
+    if (!this.data.form) this.data.form = forms[Object.keys(forms)[0]] || null;
+    if (!this.data.form) return;
+
+    this.placement = resolvePlacement(this.cfg, this.data.form);
+    this.root.classList.add("lf-w", "lf-w--" + this.placement);
+
+    this.body = el("div", { className: "lf-w-body" });
+
+    if (this.placement === "inline" || this.placement === "landing") {
+      this.root.appendChild(el("div", { className: "lf-w-panel" }, [this.header(), this.body]));
+      this.open();
+      return;
+    }
+
+    this.mountOverlay();
+  };
+
+  Widget.prototype.formFor = function (roleType) {
+    const role = (this.data.roles || []).find((r) => r.type === roleType) || null;
+    const forms = this.data.forms || {};
+    return (role && role.formId && forms[role.formId]) || this.data.form;
+  };
+
+  Widget.prototype.header = function () {
+    const ui = this.data.form.ui || {};
+    return el("div", { className: "lf-w-head" }, [
+      el("div", { className: "lf-w-title", text: ui.title || this.data.form.name }),
+      ui.subtitle ? el("div", { className: "lf-w-subtitle", text: ui.subtitle }) : null,
+    ]);
+  };
+
+  Widget.prototype.mountOverlay = function () {
+    const self = this;
+    const ui = this.data.form.ui || {};
+    const label = this.cfg.buttonLabel || ui.buttonLabel || "Request a quote";
+
+    const close = el("button", { type: "button", className: "lf-w-close", "aria-label": "Close", text: "×", onclick: () => self.close() });
+    this.dialog = el(
+      "div",
+      { className: "lf-w-dialog", role: "dialog", "aria-modal": "true", "aria-label": this.data.form.name },
+      [close, this.header(), this.body]
+    );
+    this.overlay = el("div", { className: "lf-w lf-w-overlay lf-w-overlay--" + this.placement, hidden: true }, [this.dialog]);
+    // The overlay lives in <body>, outside the themed root: carry the accent over
+    this.overlay.style.setProperty("--lf-accent", this.root.style.getPropertyValue("--lf-accent") || "#111827");
+    this.overlay.addEventListener("click", (e) => {
+      if (e.target === self.overlay) self.close();
+    });
+    document.addEventListener("keydown", (e) => {
+      if (e.key === "Escape" && self.opened) self.close();
+    });
+    document.body.appendChild(this.overlay);
+
+    const showButton = this.cfg.mode === "block" || this.cfg.showButton;
+    if (showButton) {
+      const btn = el("button", {
+        type: "button",
+        className: this.cfg.mode === "block" ? "lf-w-button" : "lf-w-button lf-w-button--floating",
+        text: label,
+        onclick: () => self.open(),
+      });
+      this.root.appendChild(btn);
+    }
+
+    document.addEventListener("click", (e) => {
+      const target = e.target && e.target.closest ? e.target : null;
+      if (!target) return;
+      const hit =
+        target.closest("[data-leadform-open]") ||
+        (self.cfg.triggerSelector ? target.closest(self.cfg.triggerSelector) : null);
+      if (hit && self.cfg.mode === "embed") {
+        e.preventDefault();
+        self.open();
+      }
+    });
+  };
+
+  Widget.prototype.pixelContext = function (eventId) {
+    const p = this.cfg.product;
+    const qtyInput = this.form ? this.form.querySelector('[name="qty"]') : null;
+    return {
+      productId: p ? p.productId : null,
+      qty: qtyInput ? Number(qtyInput.value) || 1 : 1,
+      eventId: eventId || null,
+    };
+  };
+
+  // Best-effort analytics beacon; survives page unloads via sendBeacon
+  Widget.prototype.track = function (type) {
+    const payload = JSON.stringify({
+      type: type,
+      roleType: this.roleType || null,
+      formId: this.activeForm ? this.activeForm.id : this.data && this.data.form ? this.data.form.id : null,
+      placement: this.placement || null,
+      pageUrl: window.location.href,
+      referrer: document.referrer || null,
+    });
+    const url = this.proxy + "/events";
+
+    try {
+      if (navigator.sendBeacon && navigator.sendBeacon(url, payload)) return;
+    } catch (e) {
+      // fall through to fetch
+    }
+    fetch(url, { method: "POST", credentials: "same-origin", keepalive: true, body: payload }).catch(() => {});
+  };
+
+  Widget.prototype.open = function () {
+    if (this.overlay) {
+      this.overlay.hidden = false;
+      document.documentElement.classList.add("lf-w-lock");
+    }
+    if (this.opened) return;
+    this.opened = true;
+
+    firePixels(this.data.pixels, "form_opened", this.pixelContext());
+    this.track("form_opened");
+
+    const roles = this.data.roles || [];
+    if (roles.length === 1) this.selectRole(roles[0].type);
+    else if (roles.length === 0) this.selectRole("individual");
+    else this.renderRoleChooser();
+  };
+
+  Widget.prototype.close = function () {
+    if (!this.overlay) return;
+    this.overlay.hidden = true;
+    document.documentElement.classList.remove("lf-w-lock");
+  };
+
+  Widget.prototype.renderRoleChooser = function () {
+    const self = this;
+    this.body.innerHTML = "";
+    this.body.appendChild(
+      el(
+        "div",
+        { className: "lf-w-roles" },
+        (this.data.roles || []).map((r) => {
+          const rui = r.ui || {};
+          return el("button", { type: "button", className: "lf-w-role", onclick: () => self.selectRole(r.type) }, [
+            el("div", { className: "lf-w-role-title" }, [
+              rui.icon ? el("span", { className: "lf-w-role-icon", text: rui.icon, "aria-hidden": "true" }) : null,
+              el("span", { text: r.title }),
+              rui.badge ? el("span", { className: "lf-w-role-badge", text: rui.badge }) : null,
+            ]),
+            r.description ? el("div", { className: "lf-w-role-desc", text: r.description }) : null,
+          ]);
+        })
+      )
+    );
+  };
+
+  Widget.prototype.selectRole = function (roleType) {
+    this.roleType = roleType;
+    this.activeForm = this.formFor(roleType);
+    firePixels(this.data.pixels, "role_selected", this.pixelContext());
+    this.track("role_selected");
+    this.renderForm();
+  };
+
+  Widget.prototype.renderForm = function () {
+    const self = this;
+    const form = this.formFor(this.roleType);
+    const role = (this.data.roles || []).find((r) => r.type === this.roleType) || null;
+    this.activeForm = form;
+    const ui = form.ui || {};
+
+    this.communeSelects = [];
+    this.body.innerHTML = "";
+
+    const fields = (form.fields || [])
+      .slice()
+      .sort((a, b) => a.orderIndex - b.orderIndex)
+      .filter((f) => isVisible(f, self.roleType));
+
+    this.fields = fields;
+
+    const back =
+      (this.data.roles || []).length > 1
+        ? el("button", { type: "button", className: "lf-w-back", text: "←", "aria-label": "Change role", onclick: () => self.renderRoleChooser() })
+        : null;
+
+    // Filled once a wilaya with delivery rates is picked
+    this.deliveryChoices = el("div", { className: "lf-w-choices lf-w-delivery", role: "radiogroup" });
+    this.deliveryBox = el("div", { className: "lf-w-field", "data-field": "deliveryType", hidden: true }, [
+      el("div", { className: "lf-w-label", text: "Delivery" }),
+      this.deliveryChoices,
+      el("div", { className: "lf-w-error", "data-error-for": "deliveryType", "aria-live": "polite" }),
+    ]);
+    this.wilayaCode = "";
+
+    this.banner = el("div", { className: "lf-w-banner", role: "alert", hidden: true });
+    this.submitBtn = el("button", { type: "submit", className: "lf-w-submit", text: (role && role.ui && role.ui.submitLabel) || ui.submitLabel || "Send" });
+
+    this.form = el("form", { className: "lf-w-form", novalidate: true }, [
+      role ? el("div", { className: "lf-w-role-chip" }, [back, el("span", { text: role.title })]) : null,
+      ...fields.map((f) => renderField(self, f)),
+      this.deliveryBox,
+      ...renderRequirements(this, role),
+      this.banner,
+      this.submitBtn,
+    ]);
+
+    this.form.addEventListener("submit", (e) => {
+      e.preventDefault();
+      self.submit();
+    });
+
+    this.body.appendChild(this.form);
+  };
+
+  Widget.prototype.renderDelivery = function (quote, currency) {
+    const box = this.deliveryBox;
+    if (!box) return;
+
+    const checked = this.deliveryChoices.querySelector("input:checked");
+    const previous = checked ? checked.value : "";
+    const types = ["home", "desk"].filter((t) => quote && quote[t]);
+
+    this.deliveryChoices.innerHTML = "";
+    box.hidden = types.length === 0;
+
+    for (const t of types) {
+      const opt = quote[t];
+      const eta = formatEta(opt);
+      this.deliveryChoices.appendChild(
+        el("label", { className: "lf-w-choice lf-w-delivery-option" }, [
+          el("input", {
+            type: "radio",
+            name: "deliveryType",
+            value: t,
+            checked: t === previous || types.length === 1 || null,
+          }),
+          el("span", { text: DELIVERY_LABELS[t] }),
+          el("strong", { text: formatFee(opt.price, currency) }),
+          eta ? el("span", { className: "lf-w-help", text: eta }) : null,
+        ])
+      );
+    }
+  };
+
+  Widget.prototype.onCommuneChange = function (communeId) {
+    const self = this;
+    const wilayaCode = this.wilayaCode;
+    if (!wilayaCode) return;
+
+    Promise.all([loadWilayas(this.proxy), loadCommunes(this.proxy, wilayaCode)])
+      .then(([w, communes]) => {
+        if (self.wilayaCode !== wilayaCode) return;
+        const wilaya = w.wilayas.find((x) => String(x.code) === String(wilayaCode));
+        const commune = communeId ? communes.find((c) => c.id === communeId) : null;
+        self.renderDelivery(commune ? commune.delivery : wilaya && wilaya.delivery, w.currency);
+      })
+      .catch(() => {});
+  };
+
+  Widget.prototype.onWilayaChange = function (wilayaCode) {
+    const self = this;
+    this.wilayaCode = wilayaCode;
+    this.onCommuneChange("");
+    if (!wilayaCode) this.renderDelivery(null, "");
+
+    for (const select of this.communeSelects) {
+      const field = (this.fields || []).find((f) => f.nameKey === select.name) || { label: "" };
+      fillSelect(select, [], field.placeholder || field.label);
+      select.disabled = true;
+      if (!wilayaCode) continue;
+
+      loadCommunes(this.proxy, wilayaCode)
+        .then((rows) => {
+          fillSelect(
+            select,
+            rows.map((c) => ({ value: c.id, label: geoLabel(c, self.cfg.locale) })),
+            field.placeholder || field.label
+          );
+          select.disabled = false;
+        })
+        .catch(() => {
+          select.disabled = false;
+        });
+    }
+  };
+
+  Widget.prototype.clearErrors = function () {
+    for (const node of this.form.querySelectorAll("[data-error-for]")) node.textContent = "";
+    for (const node of this.form.querySelectorAll(".lf-w-field.is-invalid")) node.classList.remove("is-invalid");
+    this.banner.hidden = true;
+    this.banner.textContent = "";
+  };
+
+  Widget.prototype.showErrors = function (fieldErrors, message) {
+    let shown = false;
+    for (const key of Object.keys(fieldErrors || {})) {
+      const slot = this.form.querySelector('[data-error-for="' + key + '"]');
+      if (!slot) continue;
+      slot.textContent = fieldErrors[key];
+      const wrap = slot.closest(".lf-w-field");
+      if (wrap) wrap.classList.add("is-invalid");
+      shown = true;
+    }
+    if (message && (!shown || message !== "Validation failed")) {
+      this.banner.textContent = message;
+      this.banner.hidden = false;
+    }
+  };
+
+  Widget.prototype.collect = function () {
+    const fd = new FormData();
+    const values = {};
+    const product = this.cfg.product;
+
+    fd.set("roleType", this.roleType);
+    fd.set("idempotencyKey", this.idempotencyKey);
+    fd.set("pageUrl", window.location.href);
+    if (this.placement) fd.set("placement", this.placement);
+    if (document.referrer) fd.set("referrer", document.referrer);
+
+    if (product) {
+      fd.set("productId", product.productId);
+      if (product.variantId) fd.set("variantId", product.variantId);
+      if (product.title) fd.set("productTitle", product.title);
+      if (product.url) fd.set("productUrl", product.url);
+      if (product.imageUrl) fd.set("productImageUrl", product.imageUrl);
+    }
+
+    for (const field of this.fields || []) {
+      const key = field.nameKey;
+      const nodes = this.form.querySelectorAll('[name="' + key + '"]');
+
+      if (field.type === "file") {
+        for (const input of nodes) for (const file of input.files || []) fd.append(key, file);
+        continue;
+      }
+
+      let value;
+      if (field.type === "multiselect") {
+        value = Array.from(nodes).filter((n) => n.checked).map((n) => n.value);
+      } else if (field.type === "radio") {
+        const hit = Array.from(nodes).find((n) => n.checked);
+        value = hit ? hit.value : "";
+      } else if (field.type === "checkbox") {
+        value = nodes[0] && nodes[0].checked ? "true" : "";
+      } else {
+        value = nodes[0] ? nodes[0].value : "";
+      }
+
+      if (CORE_KEYS.indexOf(key) !== -1) fd.set(key, value);
+      else values[key] = value;
+    }
+
+    if (!fd.has("qty")) fd.set("qty", "1");
+
+    const delivery = this.deliveryBox && !this.deliveryBox.hidden ? this.deliveryChoices.querySelector("input:checked") : null;
+    if (delivery) fd.set("deliveryType", delivery.value);
+
+    for (const input of this.form.querySelectorAll('input[type="file"][data-requirement]')) {
+      for (const file of input.files || []) fd.append(input.name, file);
+    }
+
+    fd.set("values", JSON.stringify(values));
+    return fd;
+  };
+
+  Widget.prototype.submit = async function () {
+    if (this.submitting) return;
+    this.submitting = true;
+    this.clearErrors();
+    this.submitBtn.disabled = true;
+
+    try {
+      const res = await fetch(this.proxy + "/submit", {
+        method: "POST",
+        credentials: "same-origin",
+        headers: { Accept: "application/json", "Idempotency-Key": this.idempotencyKey },
+        body: this.collect(),
+      });
+      const body = await res.json().catch(() => null);
+
+      if (!res.ok || !body || !body.ok) {
+        this.showErrors(body && body.fieldErrors, (body && body.error) || "Something went wrong. Please try again.");
+        return;
+      }
+
+      firePixels(this.data.pixels, "request_submitted", this.pixelContext(body.requestId));
+      this.renderSuccess();
+      // A new request from the same widget must not be deduped against this one
+      this.idempotencyKey = uuid();
+    } catch (e) {
+      this.showErrors(null, "Network error. Please try again.");
+    } finally {
+      this.submitting = false;
+      if (this.submitBtn) this.submitBtn.disabled = false;
+    }
+  };
+
+  Widget.prototype.renderSuccess = function () {
+    const self = this;
+    const ui = (this.activeForm || this.data.form).ui || {};
+    this.body.innerHTML = "";
+    this.body.appendChild(
+      el("div", { className: "lf-w-success", role: "status" }, [
+        el("div", { className: "lf-w-success-icon", text: "✓" }),
+        el("div", { text: ui.successMessage || "Thanks — we received your request." }),
+        el("button", {
+          type: "button",
+          className: "lf-w-button",
+          text: ui.againLabel || "Send another request",
+          onclick: () => {
+            self.opened = false;
+            self.open();
+          },
+        }),
+      ])
+    );
+  };
+
+  function init() {
+    for (const root of document.querySelectorAll("[data-leadform]")) {
+      if (root.__leadform) continue;
+      root.__leadform = new Widget(root);
+      root.__leadform.mount();
+    }
+  }
+
+  if (document.readyState === "loading") document.addEventListener("DOMContentLoaded", init);
+  else init();
+
+  // Theme editor re-renders sections/blocks without a page load
+  document.addEventListener("shopify:section:load", init);
+  document.addEventListener("shopify:block:select", init);
+})();